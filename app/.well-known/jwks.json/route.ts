@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getDefaultKeyring } from '@/lib/jwt-keyring';
+
+// Public keys the admin API uses to verify X-User-Assertion JWTs, by kid. Includes keys that
+// are not signing yet and keys still inside their overlap window (see lib/jwt-keyring.ts).
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    return NextResponse.json(getDefaultKeyring().jwks(), {
+      headers: { 'Cache-Control': 'public, max-age=300' },
+    });
+  } catch (error) {
+    console.error('[jwks]', error);
+    return NextResponse.json({ error: 'Signing keys are not configured' }, { status: 500 });
+  }
+}
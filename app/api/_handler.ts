@@ -0,0 +1,243 @@
+// Shared route-handler factory for app/api: resolves the session user, builds the admin-api
+// client, validates params / query / body with zod and turns every failure into an
+// RFC 7807 problem+json response (see lib/problem.ts for the codes). Each call is logged as an
+// `api.request` event under the X-Request-Id from middleware.ts, which problems also carry.
+//
+//   export const GET = createHandler(
+//     { name: 'fetch tenants', params: z.object({ teamId: z.string().min(1) }) },
+//     ({ params, claims, client }) => client.getTeamTenants(claims, params.teamId)
+//   );
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { RequestError } from '@octokit/request-error';
+import {
+  APIBlazeError,
+  createAPIBlazeClient,
+  UpstreamUnavailableError,
+  type APIBlazeClient,
+} from '@/lib/apiblaze-client';
+import type { UserAssertionClaims } from '@/lib/jwt-signer';
+import { errorFields, logEvent } from '@/lib/logger';
+import {
+  PROBLEM_CONTENT_TYPE,
+  problemBody,
+  type ProblemCode,
+  type ProblemDetails,
+  type ProblemExtras,
+  type ProblemFieldError,
+} from '@/lib/problem';
+import { REQUEST_ID_HEADER, requestIdFrom } from '@/lib/request-id';
+import { getUserClaims } from './projects/_utils';
+
+type Schema = z.ZodTypeAny;
+type Infer<S> = S extends Schema ? z.infer<S> : undefined;
+
+export interface HandlerOptions<P extends Schema | undefined, Q extends Schema | undefined, B extends Schema | undefined> {
+  /** Used in logs and as the title of unexpected failures, e.g. 'create app client' */
+  name: string;
+  params?: P;
+  query?: Q;
+  body?: B;
+  /** Status for a successful non-Response result (default 200; 204 when the handler returns nothing) */
+  status?: number;
+}
+
+export interface HandlerContext<P, Q, B> {
+  request: NextRequest;
+  params: P;
+  query: Q;
+  body: B;
+  claims: UserAssertionClaims;
+  client: APIBlazeClient;
+}
+
+/** Throw from a handler to answer with a specific problem. */
+export class HttpProblem extends Error {
+  constructor(
+    public status: number,
+    public code: ProblemCode,
+    public title: string,
+    public detail?: string,
+    public extra: ProblemExtras = {}
+  ) {
+    super(detail ?? title);
+    this.name = 'HttpProblem';
+  }
+}
+
+class ValidationProblem extends Error {
+  constructor(public errors: ProblemFieldError[]) {
+    super('Request validation failed');
+  }
+}
+
+export function problemResponse(problem: ProblemDetails, headers: Record<string, string> = {}): NextResponse {
+  return NextResponse.json(problem, {
+    status: problem.status,
+    headers: { ...headers, 'Content-Type': PROBLEM_CONTENT_TYPE },
+  });
+}
+
+const looksLikeHtml = (text: string) => /<\/?[a-z][\s\S]*>/i.test(text);
+
+/** Upstream messages can carry HTML error pages or stack traces; only short plain text is passed on. */
+export function sanitizeErrorDetails(raw: unknown): string {
+  if (raw == null) return 'An internal error occurred';
+  const text = String(raw);
+  const looksLikeJson = /^[\s]*[{[][\s\S]*[}\]][\s]*$/.test(text);
+  const looksLikeStack = /at\s+\S+\s+\(.*\)/.test(text) || /Error[:\s]/i.test(text) || /stack trace/i.test(text);
+  if (looksLikeHtml(text) || looksLikeJson || looksLikeStack) return 'An internal error occurred';
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  if (!singleLine) return 'An internal error occurred';
+  return singleLine.length > 200 ? `${singleLine.slice(0, 200)}…` : singleLine;
+}
+
+const STATUS_CODES: Record<number, ProblemCode> = {
+  400: 'bad_request',
+  401: 'unauthenticated',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  412: 'precondition_failed',
+  422: 'validation_failed',
+  429: 'rate_limited',
+};
+
+/** Problem code for a status passed on from an upstream; anything unmapped is an upstream error. */
+export function problemCodeForStatus(status: number): ProblemCode {
+  return STATUS_CODES[status] ?? 'upstream_error';
+}
+
+function validate<S extends Schema | undefined>(schema: S, value: unknown, part: ProblemFieldError['in']): Infer<S> {
+  if (!schema) return undefined as Infer<S>;
+  const result = schema.safeParse(value);
+  if (result.success) return result.data as Infer<S>;
+  throw new ValidationProblem(
+    result.error.issues.map((issue) => ({ in: part, path: issue.path.join('.'), message: issue.message }))
+  );
+}
+
+function queryObject(request: NextRequest): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+  for (const key of new Set(request.nextUrl.searchParams.keys())) {
+    const values = request.nextUrl.searchParams.getAll(key);
+    query[key] = values.length === 1 ? values[0] : values;
+  }
+  return query;
+}
+
+async function readJson(request: NextRequest): Promise<unknown> {
+  const text = await request.text();
+  if (!text.trim()) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpProblem(400, 'invalid_json', 'Invalid JSON', 'The request body is not valid JSON');
+  }
+}
+
+export function toProblem(error: unknown, name: string): ProblemDetails {
+  if (error instanceof HttpProblem) {
+    return problemBody(error.status, error.code, error.title, error.detail, error.extra);
+  }
+  if (error instanceof ValidationProblem) {
+    const summary = error.errors.map((e) => (e.path ? `${e.in}.${e.path}: ${e.message}` : `${e.in}: ${e.message}`)).join('; ');
+    return problemBody(400, 'validation_failed', 'Validation error', summary, { errors: error.errors });
+  }
+  if (error instanceof UpstreamUnavailableError) {
+    return problemBody(503, 'upstream_unavailable', error.message, String(error.body.details));
+  }
+  if (error instanceof APIBlazeError) {
+    const raw = error.body?.details ?? error.body?.error ?? error.message;
+    const text = typeof raw === 'string' ? raw : JSON.stringify(raw);
+    // 4xx details are meant for the user (e.g. provider protection errors); only 5xx and HTML pages are scrubbed
+    const detail =
+      error.status >= 500 || !STATUS_CODES[error.status] || text === undefined || looksLikeHtml(text)
+        ? sanitizeErrorDetails(raw)
+        : text;
+    const extra = error.body?.suggestions !== undefined ? { suggestions: error.body.suggestions } : {};
+    if (error.status === 504) return problemBody(504, 'upstream_timeout', error.body?.error || `Failed to ${name}`, detail, extra);
+    if (error.status >= 500 || !STATUS_CODES[error.status]) {
+      return problemBody(502, 'upstream_error', `Failed to ${name}`, detail, extra);
+    }
+    return problemBody(error.status, STATUS_CODES[error.status], error.body?.error || `Failed to ${name}`, detail, extra);
+  }
+  if (error instanceof RequestError) {
+    if (error.status === 401) {
+      return problemBody(401, 'github_token_invalid', 'Invalid or expired GitHub token', 'Sign in with GitHub again');
+    }
+    if (error.status === 403) return problemBody(403, 'github_forbidden', 'GitHub denied the request', error.message);
+    if (error.status === 404) return problemBody(404, 'github_not_found', 'Not found on GitHub', error.message);
+    return problemBody(502, 'github_error', 'GitHub request failed', error.message);
+  }
+  // getUserClaims signals a missing or unusable session through its message
+  const message = error instanceof Error ? error.message : '';
+  if (message.includes('Unauthorized')) return problemBody(401, 'unauthenticated', 'Unauthorized', 'Please sign in');
+  if (message.startsWith('Invalid user session')) return problemBody(401, 'invalid_session', 'Unauthorized', message);
+  return problemBody(500, 'internal_error', `Failed to ${name}`, sanitizeErrorDetails(message || undefined));
+}
+
+export function createHandler<
+  P extends Schema | undefined = undefined,
+  Q extends Schema | undefined = undefined,
+  B extends Schema | undefined = undefined,
+>(
+  options: HandlerOptions<P, Q, B>,
+  handler: (ctx: HandlerContext<Infer<P>, Infer<Q>, Infer<B>>) => Promise<unknown>
+) {
+  return async (
+    request: NextRequest,
+    context: { params: Promise<Record<string, string | string[] | undefined>> }
+  ): Promise<Response> => {
+    // middleware.ts has already set the id; requestIdFrom only generates one if it did not run
+    const requestId = requestIdFrom(request.headers);
+    const started = Date.now();
+    let sub: string | undefined;
+    const log = (status: number, extra: Record<string, unknown> = {}) =>
+      logEvent(status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info', 'api.request', {
+        request_id: requestId,
+        handler: options.name,
+        method: request.method,
+        path: request.nextUrl.pathname,
+        status,
+        duration_ms: Date.now() - started,
+        sub,
+        ...extra,
+      });
+
+    try {
+      const claims = await getUserClaims();
+      sub = claims.sub;
+      const params = validate(options.params as P, await context.params, 'params');
+      const query = validate(options.query as Q, queryObject(request), 'query');
+      const body = validate(options.body as B, options.body ? await readJson(request) : undefined, 'body');
+      const client = createAPIBlazeClient({
+        apiKey: process.env.INTERNAL_API_KEY || '',
+        jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
+        requestId,
+      });
+
+      const result = await handler({ request, params, query, body, claims, client });
+      const response =
+        result instanceof Response
+          ? result
+          : result === undefined
+            ? new NextResponse(null, { status: 204 })
+            : NextResponse.json(result, { status: options.status ?? 200 });
+      log(response.status);
+      return response;
+    } catch (error) {
+      const problem = { ...toProblem(error, options.name), request_id: requestId };
+      log(problem.status, {
+        code: problem.code,
+        ...(problem.status >= 500 ? errorFields(error) : problem.detail !== undefined && { detail: problem.detail }),
+      });
+      const headers: Record<string, string> = {
+        [REQUEST_ID_HEADER]: requestId,
+        ...(error instanceof UpstreamUnavailableError && { 'Retry-After': String(error.retryAfterSeconds) }),
+      };
+      return problemResponse(problem, headers);
+    }
+  };
+}
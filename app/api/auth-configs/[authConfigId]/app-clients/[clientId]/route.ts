@@ -1,136 +1,22 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { APIBlazeError, createAPIBlazeClient } from '@/lib/apiblaze-client';
-import { getUserClaims } from '../../../../projects/_utils';
-import type { UpdateAppClientRequest } from '@/types/auth-config';
-
-const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY || '';
-
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ authConfigId: string; clientId: string }> }
-) {
-  try {
-    const userClaims = await getUserClaims();
-    const { authConfigId, clientId } = await params;
-    
-    const client = createAPIBlazeClient({
-      apiKey: INTERNAL_API_KEY,
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-    });
-
-    const data = await client.getAppClient(userClaims, authConfigId, clientId);
-    return NextResponse.json(data);
-    
-  } catch (error: unknown) {
-    console.error('Error fetching app client:', error);
-    
-    const message = error instanceof Error ? error.message : 'Unknown error';
-
-    if (message.includes('Unauthorized')) {
-      return NextResponse.json(
-        { error: 'Unauthorized', details: 'Please sign in' },
-        { status: 401 }
-      );
-    }
-    
-    return NextResponse.json(
-      { error: 'Failed to fetch app client', details: message },
-      { status: 500 }
-    );
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+import { appClientUpdateSchema } from '@/lib/app-client-schema';
+
+const params = z.object({ authConfigId: z.string().min(1), clientId: z.string().min(1) });
+
+export const GET = createHandler(
+  { name: 'fetch app client', params },
+  ({ params, claims, client }) => client.getAppClient(claims, params.authConfigId, params.clientId)
+);
+
+export const PATCH = createHandler(
+  { name: 'update app client', params, body: appClientUpdateSchema },
+  ({ params, body, claims, client }) => client.updateAppClient(claims, params.authConfigId, params.clientId, body)
+);
+
+export const DELETE = createHandler(
+  { name: 'delete app client', params },
+  async ({ params, claims, client }) => {
+    await client.deleteAppClient(claims, params.authConfigId, params.clientId);
   }
-}
-
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ authConfigId: string; clientId: string }> }
-) {
-  try {
-    const userClaims = await getUserClaims();
-    const { authConfigId, clientId } = await params;
-    const body = (await request.json()) as UpdateAppClientRequest;
-    
-    const client = createAPIBlazeClient({
-      apiKey: INTERNAL_API_KEY,
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-    });
-    
-    const data = await client.updateAppClient(userClaims, authConfigId, clientId, body);
-    return NextResponse.json(data);
-    
-  } catch (error: unknown) {
-    console.error('Error updating app client:', error);
-    
-    if (error instanceof APIBlazeError) {
-      return NextResponse.json(
-        {
-          error: error.body?.error || 'Failed to update app client',
-          details: error.body?.details ?? error.body?.error,
-          suggestions: error.body?.suggestions,
-        },
-        { status: error.status }
-      );
-    }
-    
-    const message = error instanceof Error ? error.message : 'Unknown error';
-
-    if (message.includes('Unauthorized')) {
-      return NextResponse.json(
-        { error: 'Unauthorized', details: 'Please sign in' },
-        { status: 401 }
-      );
-    }
-    
-    return NextResponse.json(
-      { error: 'Failed to update app client', details: message },
-      { status: 500 }
-    );
-  }
-}
-
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ authConfigId: string; clientId: string }> }
-) {
-  try {
-    const userClaims = await getUserClaims();
-    const { authConfigId, clientId } = await params;
-    
-    const client = createAPIBlazeClient({
-      apiKey: INTERNAL_API_KEY,
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-    });
-    
-    await client.deleteAppClient(userClaims, authConfigId, clientId);
-    // Return 204 No Content - DELETE operations should not have a response body
-    return new NextResponse(null, { status: 204 });
-    
-  } catch (error: unknown) {
-    console.error('Error deleting app client:', error);
-    
-    if (error instanceof APIBlazeError) {
-      return NextResponse.json(
-        {
-          error: error.body?.error || 'Failed to delete app client',
-          details: error.body?.details ?? error.body?.error,
-          suggestions: error.body?.suggestions,
-        },
-        { status: error.status }
-      );
-    }
-    
-    const message = error instanceof Error ? error.message : 'Unknown error';
-
-    if (message.includes('Unauthorized')) {
-      return NextResponse.json(
-        { error: 'Unauthorized', details: 'Please sign in' },
-        { status: 401 }
-      );
-    }
-    
-    return NextResponse.json(
-      { error: 'Failed to delete app client', details: message },
-      { status: 500 }
-    );
-  }
-}
-
+);
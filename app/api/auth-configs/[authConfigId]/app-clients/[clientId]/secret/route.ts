@@ -1,50 +1,10 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { APIBlazeError, createAPIBlazeClient } from '@/lib/apiblaze-client';
-import { getUserClaims } from '../../../../../projects/_utils';
-
-const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY || '';
-
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ authConfigId: string; clientId: string }> }
-) {
-  try {
-    const userClaims = await getUserClaims();
-    const { authConfigId, clientId } = await params;
-
-    const client = createAPIBlazeClient({
-      apiKey: INTERNAL_API_KEY,
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-    });
-
-    const data = await client.getAppClientSecret(userClaims, authConfigId, clientId);
-    return NextResponse.json(data);
-  } catch (error: unknown) {
-    console.error('Error fetching app client secret:', error);
-
-    if (error instanceof APIBlazeError) {
-      return NextResponse.json(
-        {
-          error: error.body?.error || 'Failed to reveal app client secret',
-          details: error.body?.details ?? error.body?.error,
-          suggestions: error.body?.suggestions,
-        },
-        { status: error.status }
-      );
-    }
-
-    const message = error instanceof Error ? error.message : 'Unknown error';
-
-    if (message.includes('Unauthorized')) {
-      return NextResponse.json(
-        { error: 'Unauthorized', details: 'Please sign in' },
-        { status: 401 }
-      );
-    }
-
-    return NextResponse.json(
-      { error: 'Failed to reveal app client secret', details: message },
-      { status: 500 }
-    );
-  }
-}
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+
+export const GET = createHandler(
+  {
+    name: 'reveal app client secret',
+    params: z.object({ authConfigId: z.string().min(1), clientId: z.string().min(1) }),
+  },
+  ({ params, claims, client }) => client.getAppClientSecret(claims, params.authConfigId, params.clientId)
+);
@@ -1,133 +1,34 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { APIBlazeError, createAPIBlazeClient } from '@/lib/apiblaze-client';
-import { getUserClaims } from '../../../projects/_utils';
-import type { CreateAppClientRequest } from '@/types/auth-config';
-
-const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY || '';
-
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ authConfigId: string }> }
-) {
-  try {
-    const userClaims = await getUserClaims();
-    const { authConfigId } = await params;
-    
-    const client = createAPIBlazeClient({
-      apiKey: INTERNAL_API_KEY,
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-    });
-
-    const data = await client.listAppClients(userClaims, authConfigId);
-    return NextResponse.json(data);
-    
-  } catch (error: unknown) {
-    console.error('Error fetching app clients:', error);
-    
-    const message = error instanceof Error ? error.message : 'Unknown error';
-
-    if (message.includes('Unauthorized')) {
-      return NextResponse.json(
-        { error: 'Unauthorized', details: 'Please sign in' },
-        { status: 401 }
-      );
-    }
-    
-    return NextResponse.json(
-      { error: 'Failed to fetch app clients', details: message },
-      { status: 500 }
-    );
-  }
-}
-
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ authConfigId: string }> }
-) {
-  try {
-    const userClaims = await getUserClaims();
-    const { authConfigId } = await params;
-    const body = (await request.json()) as CreateAppClientRequest;
-    
-    if (!body.name || body.name.trim().length === 0) {
-      return NextResponse.json(
-        { error: 'Validation error', details: 'AppClient name is required' },
-        { status: 400 }
-      );
-    }
-
-    if (!body.projectName || body.projectName.trim().length === 0) {
-      return NextResponse.json(
-        { error: 'Validation error', details: 'projectName is required' },
-        { status: 400 }
-      );
-    }
-
-    if (!body.apiVersion || body.apiVersion.trim().length === 0) {
-      return NextResponse.json(
-        { error: 'Validation error', details: 'apiVersion is required' },
-        { status: 400 }
-      );
-    }
-
-    if (!body.tenant || body.tenant.trim().length === 0) {
-      return NextResponse.json(
-        { error: 'Validation error', details: 'tenant is required' },
-        { status: 400 }
-      );
-    }
-    
-    // Set safe defaults for token expiries. Do NOT default scopes here - let internal API
-    // use provider-appropriate defaults (e.g. read:user user:email for providerType: 'github').
-    const appClientData = {
-      name: body.name,
-      projectName: body.projectName.trim(),
-      apiVersion: body.apiVersion.trim(),
-      tenant: body.tenant.trim(),
-      refreshTokenExpiry: body.refreshTokenExpiry ?? 2592000, // 30 days
-      idTokenExpiry: body.idTokenExpiry ?? 3600, // 1 hour
-      accessTokenExpiry: body.accessTokenExpiry ?? 3600, // 1 hour
-      authorizedCallbackUrls: body.authorizedCallbackUrls ?? [],
-      signoutUris: body.signoutUris ?? [],
-      scopes: body.scopes,
-      providerType: body.providerType,
-    };
-    
-    const client = createAPIBlazeClient({
-      apiKey: INTERNAL_API_KEY,
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-    });
-    
-    const data = await client.createAppClient(userClaims, authConfigId, appClientData);
-    return NextResponse.json(data);
-    
-  } catch (error: unknown) {
-    console.error('Error creating app client:', error);
-    
-    if (error instanceof APIBlazeError) {
-      return NextResponse.json(
-        {
-          error: error.body?.error || 'Failed to create app client',
-          details: error.body?.details ?? error.body?.error,
-          suggestions: error.body?.suggestions,
-        },
-        { status: error.status }
-      );
-    }
-    
-    const message = error instanceof Error ? error.message : 'Unknown error';
-
-    if (message.includes('Unauthorized')) {
-      return NextResponse.json(
-        { error: 'Unauthorized', details: 'Please sign in' },
-        { status: 401 }
-      );
-    }
-    
-    return NextResponse.json(
-      { error: 'Failed to create app client', details: message },
-      { status: 500 }
-    );
-  }
-}
-
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+
+const params = z.object({ authConfigId: z.string().min(1) });
+
+const required = (field: string) => z.string().trim().min(1, `${field} is required`);
+
+export const GET = createHandler(
+  { name: 'fetch app clients', params },
+  ({ params, claims, client }) => client.listAppClients(claims, params.authConfigId)
+);
+
+// Token expiries get safe defaults here. Scopes do not: the admin API picks provider-appropriate
+// ones (e.g. read:user user:email for providerType 'github')
+export const POST = createHandler(
+  {
+    name: 'create app client',
+    params,
+    body: z.object({
+      name: z.string().refine((name) => name.trim().length > 0, 'AppClient name is required'),
+      projectName: required('projectName'),
+      apiVersion: required('apiVersion'),
+      tenant: required('tenant'),
+      refreshTokenExpiry: z.number().int().min(1).default(2592000), // 30 days
+      idTokenExpiry: z.number().int().min(1).default(3600), // 1 hour
+      accessTokenExpiry: z.number().int().min(1).default(3600), // 1 hour
+      authorizedCallbackUrls: z.array(z.string()).default([]),
+      signoutUris: z.array(z.string()).default([]),
+      scopes: z.array(z.string()).optional(),
+      providerType: z.string().optional(),
+    }),
+  },
+  ({ params, body, claims, client }) => client.createAppClient(claims, params.authConfigId, body)
+);
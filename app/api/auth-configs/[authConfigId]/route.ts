@@ -1,149 +1,34 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { APIBlazeError, createAPIBlazeClient } from '@/lib/apiblaze-client';
-import { getUserClaims } from '../../projects/_utils';
-
-const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY || '';
-
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ authConfigId: string }> }
-) {
-  try {
-    const userClaims = await getUserClaims();
-    const { authConfigId } = await params;
-    
-    const client = createAPIBlazeClient({
-      apiKey: INTERNAL_API_KEY,
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-    });
-
-    const data = await client.getAuthConfig(userClaims, authConfigId);
-    return NextResponse.json(data);
-    
-  } catch (error: unknown) {
-    console.error('Error fetching auth config:', error);
-    
-    const message = error instanceof Error ? error.message : 'Unknown error';
-
-    if (message.includes('Unauthorized')) {
-      return NextResponse.json(
-        { error: 'Unauthorized', details: 'Please sign in' },
-        { status: 401 }
-      );
-    }
-    
-    return NextResponse.json(
-      { error: 'Failed to fetch auth config', details: message },
-      { status: 500 }
-    );
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+
+const params = z.object({ authConfigId: z.string().min(1) });
+
+export const GET = createHandler(
+  { name: 'fetch auth config', params },
+  ({ params, claims, client }) => client.getAuthConfig(claims, params.authConfigId)
+);
+
+export const PATCH = createHandler(
+  {
+    name: 'update auth config',
+    params,
+    body: z
+      .object({
+        name: z.string().trim().min(1, 'name cannot be empty').optional(),
+        default_app_client_id: z.string().optional(),
+        enableSocialAuth: z.boolean().optional(),
+        enableApiKeyAuth: z.boolean().optional(),
+        bringMyOwnOAuth: z.boolean().optional(),
+      })
+      .strict()
+      .default({}),
+  },
+  ({ params, body, claims, client }) => client.updateAuthConfig(claims, params.authConfigId, body)
+);
+
+export const DELETE = createHandler(
+  { name: 'delete auth config', params },
+  async ({ params, claims, client }) => {
+    await client.deleteAuthConfig(claims, params.authConfigId);
   }
-}
-
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ authConfigId: string }> }
-) {
-  try {
-    const userClaims = await getUserClaims();
-    const { authConfigId } = await params;
-    
-    // Safely parse request body - handle empty bodies gracefully
-    let body: { name?: string; default_app_client_id?: string; enableSocialAuth?: boolean; enableApiKeyAuth?: boolean; bringMyOwnOAuth?: boolean } = {};
-    try {
-      const text = await request.text();
-      if (text && text.trim().length > 0) {
-        body = JSON.parse(text);
-      }
-    } catch (parseError) {
-      // If JSON parsing fails, return error
-      return NextResponse.json(
-        { error: 'Invalid JSON in request body', details: parseError instanceof Error ? parseError.message : 'Unknown error' },
-        { status: 400 }
-      );
-    }
-    
-    const client = createAPIBlazeClient({
-      apiKey: INTERNAL_API_KEY,
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-    });
-    
-    const data = await client.updateAuthConfig(userClaims, authConfigId, body);
-    return NextResponse.json(data);
-    
-  } catch (error: unknown) {
-    console.error('Error updating auth config:', error);
-    
-    if (error instanceof APIBlazeError) {
-      return NextResponse.json(
-        {
-          error: error.body?.error || 'Failed to update auth config',
-          details: error.body?.details ?? error.body?.error,
-          suggestions: error.body?.suggestions,
-        },
-        { status: error.status }
-      );
-    }
-    
-    const message = error instanceof Error ? error.message : 'Unknown error';
-
-    if (message.includes('Unauthorized')) {
-      return NextResponse.json(
-        { error: 'Unauthorized', details: 'Please sign in' },
-        { status: 401 }
-      );
-    }
-    
-    return NextResponse.json(
-      { error: 'Failed to update auth config', details: message },
-      { status: 500 }
-    );
-  }
-}
-
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ authConfigId: string }> }
-) {
-  try {
-    const userClaims = await getUserClaims();
-    const { authConfigId } = await params;
-    
-    const client = createAPIBlazeClient({
-      apiKey: INTERNAL_API_KEY,
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-    });
-    
-    await client.deleteAuthConfig(userClaims, authConfigId);
-    // Return 204 No Content - DELETE operations should not have a response body
-    return new NextResponse(null, { status: 204 });
-    
-  } catch (error: unknown) {
-    console.error('Error deleting auth config:', error);
-    
-    if (error instanceof APIBlazeError) {
-      return NextResponse.json(
-        {
-          error: error.body?.error || 'Failed to delete auth config',
-          details: error.body?.details ?? error.body?.error,
-          suggestions: error.body?.suggestions,
-        },
-        { status: error.status }
-      );
-    }
-    
-    const message = error instanceof Error ? error.message : 'Unknown error';
-
-    if (message.includes('Unauthorized')) {
-      return NextResponse.json(
-        { error: 'Unauthorized', details: 'Please sign in' },
-        { status: 401 }
-      );
-    }
-    
-    return NextResponse.json(
-      { error: 'Failed to delete auth config', details: message },
-      { status: 500 }
-    );
-  }
-}
-
+);
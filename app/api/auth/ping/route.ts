@@ -1,8 +1,8 @@
 import { NextResponse } from 'next/server';
-import { Octokit } from '@octokit/rest';
 import { RequestError } from '@octokit/request-error';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/next-auth';
+import { createOctokit } from '@/lib/octokit';
 
 /**
  * Lightweight authenticated ping to validate GitHub credentials.
@@ -16,10 +16,7 @@ export async function GET() {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
-    const octokit = new Octokit({
-      auth: session.accessToken,
-      request: { timeout: 5000 },
-    });
+    const octokit = createOctokit({ auth: session.accessToken, timeoutMs: 5000 });
 
     await octokit.users.getAuthenticated();
     return NextResponse.json({ ok: true });
@@ -1,9 +1,8 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { APIBlazeError, createAPIBlazeClient } from '@/lib/apiblaze-client';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createHandler, HttpProblem } from '@/app/api/_handler';
 import { getDefaultScopesForProvider } from '@/lib/provider-default-scopes';
-import { getUserClaims } from '../projects/_utils';
 
-const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY || '';
 const DEFAULT_TENANT_NAME = 'api';
 
 /**
@@ -21,154 +20,76 @@ export async function GET() {
   );
 }
 
-export async function POST(request: NextRequest) {
-  try {
-    const userClaims = await getUserClaims();
-    const body = await request.json();
-    const {
-      teamId,
-      appClientName,
-      projectName,
-      apiVersion,
-      scopes,
-      tenantName: requestedTenantName,
-    } = body;
-
-    const rawTenantName =
-      typeof requestedTenantName === 'string' ? requestedTenantName.trim() : '';
-    let tenantName = rawTenantName
-      .toLowerCase()
-      .replace(/\s+/g, '-')
-      .replace(/[^a-z0-9-]/g, '');
-
-    if (!tenantName) {
-      tenantName = DEFAULT_TENANT_NAME;
-    }
-
-    if (!teamId || typeof teamId !== 'string' || !teamId.trim()) {
-      return NextResponse.json(
-        { error: 'teamId is required' },
-        { status: 400 }
-      );
-    }
-    if (!appClientName || !projectName || !apiVersion) {
-      return NextResponse.json(
-        { error: 'appClientName, projectName, and apiVersion are required' },
-        { status: 400 }
-      );
-    }
+const bodySchema = z.object({
+  teamId: z.string().trim().min(1, 'teamId is required'),
+  appClientName: z.string().trim().min(1, 'appClientName is required'),
+  projectName: z.string().trim().min(1, 'projectName is required'),
+  apiVersion: z.string().trim().min(1, 'apiVersion is required'),
+  scopes: z.array(z.string()).optional(),
+  tenantName: z.string().optional(),
+});
+
+export const POST = createHandler(
+  { name: 'create tenant with default GitHub', body: bodySchema },
+  async ({ body, claims, client }) => {
+    const { teamId, appClientName, projectName, apiVersion, scopes } = body;
+    const tenantName =
+      (body.tenantName ?? '')
+        .trim()
+        .toLowerCase()
+        .replace(/\s+/g, '-')
+        .replace(/[^a-z0-9-]/g, '') || DEFAULT_TENANT_NAME;
 
     const defaultClientId = process.env.APIBLAZE_PORTAL_GITHUB_CLIENT_ID || process.env.GITHUB_CLIENT_ID;
     const defaultClientSecret = process.env.APIBLAZE_PORTAL_GITHUB_CLIENT_SECRET || process.env.GITHUB_CLIENT_SECRET;
 
     if (!defaultClientId || !defaultClientSecret) {
-      return NextResponse.json(
-        {
-          error: 'Default GitHub OAuth credentials not configured',
-          details: 'Set APIBLAZE_PORTAL_GITHUB_CLIENT_ID and APIBLAZE_PORTAL_GITHUB_CLIENT_SECRET (or GITHUB_CLIENT_ID and GITHUB_CLIENT_SECRET) in the dashboard environment.',
-        },
-        { status: 500 }
+      throw new HttpProblem(
+        500,
+        'misconfigured',
+        'Default GitHub OAuth credentials not configured',
+        'Set APIBLAZE_PORTAL_GITHUB_CLIENT_ID and APIBLAZE_PORTAL_GITHUB_CLIENT_SECRET (or GITHUB_CLIENT_ID and GITHUB_CLIENT_SECRET) in the dashboard environment.'
       );
     }
 
-    const adminApiBase = process.env.APIBLAZE_ADMIN_API_BASE || 'https://internalapi.apiblaze.com';
-    const client = createAPIBlazeClient({
-      apiKey: INTERNAL_API_KEY,
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-      baseUrl: adminApiBase,
-    });
-
-    const trimmedTeamId = String(teamId).trim();
     const defaultGitHubScopes = getDefaultScopesForProvider('github');
-    const effectiveScopes = Array.isArray(scopes) && scopes.length > 0 ? scopes : defaultGitHubScopes;
+    const effectiveScopes = scopes && scopes.length > 0 ? scopes : defaultGitHubScopes;
 
-    const tenantsRes = await client.getTeamTenants(userClaims, trimmedTeamId, true);
-    const tenantsList = Array.isArray((tenantsRes as { tenants?: unknown }).tenants)
-      ? (tenantsRes as { tenants: Array<{ tenant_name?: string } | string> }).tenants
-      : [];
-    const hasApiTenant = tenantsList.some(
-      (t: { tenant_name?: string } | string) =>
-        typeof t === 'string' ? t === tenantName : t?.tenant_name === tenantName
-    );
+    const { tenants } = await client.getTeamTenants(claims, teamId, true);
+    const hasApiTenant = tenants.some((t) => t.tenant_name === tenantName);
     if (!hasApiTenant) {
-      try {
-        await client.createTeamTenant(userClaims, trimmedTeamId, {
-          tenant_name: tenantName,
-          display_name: 'Default',
-        });
-      } catch (err) {
-        console.error('[create-with-default-github] createTeamTenant failed:', err);
-        throw err;
-      }
+      await client.createTeamTenant(claims, teamId, {
+        tenant_name: tenantName,
+        display_name: 'Default',
+      });
     }
 
-    const defaultCallbackUrl = `https://${String(projectName).trim()}-${tenantName}.portal.apiblaze.com/${String(
-      apiVersion
-    ).trim()}`;
-    let appClient: Record<string, unknown>;
-    try {
-      appClient = (await client.createAppClientForTenant(
-        userClaims,
-        trimmedTeamId,
-        tenantName,
-        {
-          name: String(appClientName).trim(),
-          projectName: String(projectName).trim(),
-          apiVersion: String(apiVersion).trim(),
-          tenant: tenantName,
-          scopes: effectiveScopes,
-          authorizedCallbackUrls: [defaultCallbackUrl],
-        }
-      )) as Record<string, unknown>;
-    } catch (err) {
-      console.error('[create-with-default-github] createAppClientForTenant failed:', err);
-      throw err;
-    }
-    const appClientId = (appClient as { id?: string }).id ?? (appClient as { clientId?: string }).clientId;
+    const defaultCallbackUrl = `https://${projectName}-${tenantName}.portal.apiblaze.com/${apiVersion}`;
+    const appClient = await client.createAppClientForTenant(claims, teamId, tenantName, {
+      name: appClientName,
+      projectName,
+      apiVersion,
+      tenant: tenantName,
+      scopes: effectiveScopes,
+      authorizedCallbackUrls: [defaultCallbackUrl],
+    });
+    const appClientId = appClient.id ?? appClient.clientId;
     if (!appClientId) {
-      return NextResponse.json(
-        { error: 'App client creation did not return client id' },
-        { status: 500 }
-      );
+      throw new HttpProblem(502, 'upstream_error', 'App client creation did not return client id');
     }
 
-    try {
-      await client.addProviderByTenant(userClaims, trimmedTeamId, tenantName, String(appClientId), {
-        type: 'github',
-        clientId: defaultClientId,
-        clientSecret: defaultClientSecret,
-        domain: 'https://github.com',
-        scopes: defaultGitHubScopes,
-      });
-    } catch (err) {
-      console.error('[create-with-default-github] addProviderByTenant failed:', err);
-      throw err;
-    }
+    await client.addProviderByTenant(claims, teamId, tenantName, String(appClientId), {
+      type: 'github',
+      clientId: defaultClientId,
+      clientSecret: defaultClientSecret,
+      domain: 'https://github.com',
+      scopes: defaultGitHubScopes,
+    });
 
-    return NextResponse.json({
-      team_id: trimmedTeamId,
+    return {
+      team_id: teamId,
       tenant_name: tenantName,
       appClientId: String(appClientId),
-    });
-  } catch (error) {
-    console.error('Error creating tenant + app client + default GitHub:', error);
-
-    if (error instanceof APIBlazeError) {
-      return NextResponse.json(
-        {
-          error: error.body?.error || 'Failed to create tenant with default GitHub',
-          details: error.body?.details ?? error.body?.error,
-          suggestions: error.body?.suggestions,
-        },
-        { status: error.status }
-      );
-    }
-
-    return NextResponse.json(
-      {
-        error: error instanceof Error ? error.message : 'Failed to create tenant with default GitHub',
-      },
-      { status: 500 }
-    );
+    };
   }
-}
+);
@@ -0,0 +1,31 @@
+import type { Octokit } from '@octokit/rest';
+import { RequestError } from '@octokit/request-error';
+import { getServerSession } from 'next-auth';
+import { HttpProblem } from '@/app/api/_handler';
+import { authOptions } from '@/lib/next-auth';
+import { createOctokit } from '@/lib/octokit';
+
+/** Octokit authenticated as the session user; a 401 problem when the session has no GitHub token. */
+export async function sessionOctokit(timeoutMs: number): Promise<Octokit> {
+  const session = await getServerSession(authOptions);
+  if (!session?.accessToken) {
+    throw new HttpProblem(401, 'github_token_invalid', 'Not authenticated', 'Sign in with GitHub again');
+  }
+  return createOctokit({ auth: session.accessToken, timeoutMs });
+}
+
+/** Contents of a repository path; a 404 problem naming the path when GitHub has no such file. */
+export async function getRepoContent(
+  octokit: Octokit,
+  params: { owner: string; repo: string; path: string; ref?: string }
+) {
+  try {
+    const { data } = await octokit.repos.getContent(params);
+    return data;
+  } catch (error) {
+    if (error instanceof RequestError && error.status === 404) {
+      throw new HttpProblem(404, 'github_not_found', 'File not found', params.path);
+    }
+    throw error;
+  }
+}
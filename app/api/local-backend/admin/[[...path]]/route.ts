@@ -0,0 +1,19 @@
+import { NextRequest } from 'next/server';
+import { isLocalBackendEnabled } from '@/lib/backend-urls';
+import { adminApiRouter } from '@/lib/local-backend/admin-api';
+import { dispatch, errorResponse } from '@/lib/local-backend/http';
+
+// Local stand-in for internalapi.apiblaze.com, only served with NEXT_PUBLIC_APIBLAZE_LOCAL_BACKEND=1.
+// Callers authenticate like against the real admin API (X-API-KEY + X-User-Assertion).
+
+type Params = { params: Promise<{ path?: string[] }> };
+
+export const dynamic = 'force-dynamic';
+
+async function handle(request: NextRequest, { params }: Params) {
+  if (!isLocalBackendEnabled()) return errorResponse(404, 'Not found');
+  const { path } = await params;
+  return dispatch(adminApiRouter, request, path ?? []);
+}
+
+export { handle as GET, handle as POST, handle as PUT, handle as PATCH, handle as DELETE };
@@ -0,0 +1,19 @@
+import { NextRequest } from 'next/server';
+import { isLocalBackendEnabled } from '@/lib/backend-urls';
+import { dispatch, errorResponse } from '@/lib/local-backend/http';
+import { policiesApiRouter } from '@/lib/local-backend/policies-api';
+
+// Local stand-in for <projectName>.policies.apiblaze.com, only served with
+// NEXT_PUBLIC_APIBLAZE_LOCAL_BACKEND=1.
+
+type Params = { params: Promise<{ projectName: string; path?: string[] }> };
+
+export const dynamic = 'force-dynamic';
+
+async function handle(request: NextRequest, { params }: Params) {
+  if (!isLocalBackendEnabled()) return errorResponse(404, 'Not found');
+  const { projectName, path } = await params;
+  return dispatch(policiesApiRouter, request, path ?? [], { projectName });
+}
+
+export { handle as GET, handle as POST, handle as PUT, handle as DELETE };
@@ -1,17 +1,15 @@
-import { NextResponse } from 'next/server';
-import { Octokit } from '@octokit/rest';
+import { z } from 'zod';
 import type { RestEndpointMethodTypes } from '@octokit/rest';
-import { RequestError } from '@octokit/request-error';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/next-auth';
 import * as yaml from 'js-yaml';
+import { createHandler, HttpProblem } from '@/app/api/_handler';
+import { getRepoContent, sessionOctokit } from '@/app/api/github/_utils';
 
-interface FetchFullRequestBody {
-  owner: string;
-  repo: string;
-  path: string;
-  branch?: string;
-}
+const body = z.object({
+  owner: z.string().min(1, 'owner is required'),
+  repo: z.string().min(1, 'repo is required'),
+  path: z.string().min(1, 'path is required'),
+  branch: z.string().optional(),
+});
 
 type RepositoryContent =
   RestEndpointMethodTypes['repos']['getContent']['response']['data'];
@@ -25,14 +23,14 @@ function isContentFile(content: RepositoryContent): content is ContentFile {
 function parseSpec(content: string, filePath: string): Record<string, unknown> {
   let rawSpec: unknown;
 
-  if (filePath.endsWith('.json')) {
-    rawSpec = JSON.parse(content);
-  } else {
-    rawSpec = yaml.load(content);
+  try {
+    rawSpec = filePath.endsWith('.json') ? JSON.parse(content) : yaml.load(content);
+  } catch (error) {
+    throw new HttpProblem(422, 'validation_failed', 'Failed to parse OpenAPI specification', (error as Error).message);
   }
 
   if (typeof rawSpec !== 'object' || rawSpec === null) {
-    throw new Error('Parsed OpenAPI document is not an object');
+    throw new HttpProblem(422, 'validation_failed', 'Failed to parse OpenAPI specification', 'Parsed OpenAPI document is not an object');
   }
 
   return rawSpec as Record<string, unknown>;
@@ -42,53 +40,15 @@ function parseSpec(content: string, filePath: string): Record<string, unknown> {
  * POST /api/openapi/fetch-full
  * Fetches full OpenAPI spec from GitHub (including paths) for Routes tab in new project creation.
  */
-export async function POST(request: Request) {
-  try {
-    const body = (await request.json()) as FetchFullRequestBody;
-    const { owner, repo, path, branch } = body;
-
-    const session = await getServerSession(authOptions);
-    if (!session?.accessToken) {
-      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-    }
-
-    const octokit = new Octokit({
-      auth: session.accessToken,
-      request: { timeout: 10000 },
-    });
-
-    const { data: fileData } = await octokit.repos.getContent({
-      owner,
-      repo,
-      path,
-      ref: branch || 'main',
-    });
+export const POST = createHandler({ name: 'fetch OpenAPI specification', body }, async ({ body }) => {
+  const { owner, repo, path, branch } = body;
+  const octokit = await sessionOctokit(10000);
 
-    if (!isContentFile(fileData)) {
-      return NextResponse.json(
-        { error: 'File not found or is a directory' },
-        { status: 404 }
-      );
-    }
-
-    const content = Buffer.from(fileData.content, 'base64').toString('utf-8');
-    const spec = parseSpec(content, path);
-
-    return NextResponse.json({ spec });
-  } catch (error: unknown) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    console.error('Error fetching full OpenAPI spec:', message);
-
-    if (error instanceof RequestError && error.status === 404) {
-      return NextResponse.json(
-        { error: 'File not found' },
-        { status: 404 }
-      );
-    }
-
-    return NextResponse.json(
-      { error: 'Failed to fetch OpenAPI specification', details: message },
-      { status: 500 }
-    );
+  const fileData = await getRepoContent(octokit, { owner, repo, path, ref: branch || 'main' });
+  if (!isContentFile(fileData)) {
+    throw new HttpProblem(404, 'github_not_found', 'File not found or is a directory', path);
   }
-}
+
+  const content = Buffer.from(fileData.content, 'base64').toString('utf-8');
+  return { spec: parseSpec(content, path) };
+});
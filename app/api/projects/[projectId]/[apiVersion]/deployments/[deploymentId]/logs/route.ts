@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+
+// Streams must not be buffered or cached by Next.js
+export const dynamic = 'force-dynamic';
+
+/**
+ * Relay the admin API deployment log stream (Server-Sent Events) to the browser.
+ * Events: `log` (DeploymentLogLine), `step` (DeploymentStepEvent), `done` (DeploymentLogDoneEvent).
+ */
+export const GET = createHandler(
+  {
+    name: 'stream deployment logs',
+    params: z.object({
+      projectId: z.string().min(1),
+      apiVersion: z.string().min(1),
+      deploymentId: z.string().min(1),
+    }),
+  },
+  async ({ request, params, claims, client }) => {
+    // Abort the upstream stream when the browser disconnects
+    const upstream = await client.streamDeploymentLogs(
+      claims,
+      params.projectId,
+      params.apiVersion,
+      params.deploymentId,
+      request.signal
+    );
+    return new Response(upstream.body, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  }
+);
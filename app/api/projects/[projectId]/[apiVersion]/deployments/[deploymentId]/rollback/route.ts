@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+
+export const POST = createHandler(
+  {
+    name: 'roll back deployment',
+    params: z.object({
+      projectId: z.string().min(1),
+      apiVersion: z.string().min(1),
+      deploymentId: z.string().min(1),
+    }),
+    status: 202,
+  },
+  ({ params, claims, client }) =>
+    client.rollbackDeployment(claims, params.projectId, params.apiVersion, params.deploymentId)
+);
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+
+export const GET = createHandler(
+  { name: 'list deployments', params: z.object({ projectId: z.string().min(1), apiVersion: z.string().min(1) }) },
+  ({ params, claims, client }) => client.listDeployments(claims, params.projectId, params.apiVersion)
+);
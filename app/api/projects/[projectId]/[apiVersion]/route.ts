@@ -1,46 +1,36 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { createAPIBlazeClient } from '@/lib/apiblaze-client';
-import { getUserClaims } from '../../_utils';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
 
-const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY || '';
+const params = z.object({ projectId: z.string().min(1), apiVersion: z.string().min(1) });
 
-type RouteParams = { params: Promise<{ projectId: string; apiVersion: string }> };
-
-export async function PATCH(request: NextRequest, { params }: RouteParams) {
-  try {
-    const { projectId, apiVersion } = await params;
-    const userClaims = await getUserClaims();
-    const body = await request.json() as Record<string, unknown>;
-
-    const client = createAPIBlazeClient({
-      apiKey: INTERNAL_API_KEY,
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-    });
-
-    const data = await client.updateProxyConfig(userClaims, projectId, apiVersion, body);
-    return NextResponse.json(data ?? { ok: true });
-  } catch (error: unknown) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    const status = message.includes('Unauthorized') ? 401 : 500;
-    return NextResponse.json({ error: message }, { status });
-  }
+// Project versions are identified by updated_at; it doubles as the ETag for optimistic concurrency
+function etagFor(updatedAt: string | undefined): string | undefined {
+  return updatedAt ? `"${updatedAt}"` : undefined;
 }
 
-export async function DELETE(_request: NextRequest, { params }: RouteParams) {
-  try {
-    const { projectId, apiVersion } = await params;
-    const userClaims = await getUserClaims();
-
-    const client = createAPIBlazeClient({
-      apiKey: INTERNAL_API_KEY,
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-    });
-
-    const data = await client.deleteProxy(userClaims, projectId, apiVersion);
-    return NextResponse.json(data ?? { ok: true });
-  } catch (error: unknown) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    const status = message.includes('Unauthorized') ? 401 : 500;
-    return NextResponse.json({ error: message }, { status });
+export const GET = createHandler(
+  { name: 'fetch project', params },
+  async ({ params, claims, client }) => {
+    const data = await client.getProxy(claims, params.projectId, params.apiVersion);
+    const etag = etagFor(data?.updated_at);
+    return NextResponse.json(data, { headers: etag ? { ETag: etag } : undefined });
   }
-}
+);
+
+// 409/412 from the admin API mean someone else saved this project since the caller loaded it
+export const PATCH = createHandler(
+  { name: 'update project config', params, body: z.record(z.unknown()) },
+  async ({ request, params, body, claims, client }) => {
+    const ifMatch = request.headers.get('if-match') ?? undefined;
+    const data = await client.updateProxyConfig(claims, params.projectId, params.apiVersion, body, { ifMatch });
+    const etag = etagFor(data?.updated_at);
+    return NextResponse.json(data ?? { ok: true }, { headers: etag ? { ETag: etag } : undefined });
+  }
+);
+
+export const DELETE = createHandler(
+  { name: 'delete project', params },
+  async ({ params, claims, client }) =>
+    (await client.deleteProxy(claims, params.projectId, params.apiVersion)) ?? { ok: true }
+);
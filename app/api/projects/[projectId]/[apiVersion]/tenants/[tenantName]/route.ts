@@ -1,46 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { createAPIBlazeClient } from '@/lib/apiblaze-client';
-import { getUserClaims } from '@/app/api/projects/_utils';
-
-const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY || '';
-
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ projectId: string; apiVersion: string; tenantName: string }> }
-) {
-  try {
-    const userClaims = await getUserClaims();
-    const { projectId, apiVersion, tenantName } = await params;
-
-    if (!projectId || !apiVersion || !tenantName) {
-      return NextResponse.json(
-        { error: 'Validation error', details: 'projectId, apiVersion, and tenantName are required' },
-        { status: 400 }
-      );
-    }
-
-    const client = createAPIBlazeClient({
-      apiKey: INTERNAL_API_KEY,
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-    });
-
-    await client.detachTenantFromProject(userClaims, projectId, apiVersion, tenantName);
-    return new NextResponse(null, { status: 204 });
-  } catch (error: unknown) {
-    console.error('Error detaching tenant:', error);
-
-    const message = error instanceof Error ? error.message : 'Unknown error';
-
-    if (message.includes('Unauthorized')) {
-      return NextResponse.json(
-        { error: 'Unauthorized', details: 'Please sign in' },
-        { status: 401 }
-      );
-    }
-
-    return NextResponse.json(
-      { error: 'Failed to detach tenant', details: message },
-      { status: 500 }
-    );
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+
+export const DELETE = createHandler(
+  {
+    name: 'detach tenant',
+    params: z.object({ projectId: z.string().min(1), apiVersion: z.string().min(1), tenantName: z.string().min(1) }),
+  },
+  async ({ params, claims, client }) => {
+    await client.detachTenantFromProject(claims, params.projectId, params.apiVersion, params.tenantName);
   }
-}
+);
@@ -1,98 +1,24 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { createAPIBlazeClient, APIBlazeError } from '@/lib/apiblaze-client';
-import { getUserClaims } from '@/app/api/projects/_utils';
-
-const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY || '';
-
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ projectId: string; apiVersion: string }> }
-) {
-  try {
-    const userClaims = await getUserClaims();
-    const { projectId, apiVersion } = await params;
-
-    if (!projectId || !apiVersion) {
-      return NextResponse.json(
-        { error: 'Validation error', details: 'projectId and apiVersion are required' },
-        { status: 400 }
-      );
-    }
-
-    const client = createAPIBlazeClient({
-      apiKey: INTERNAL_API_KEY,
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-    });
-
-    const data = await client.listProjectTenants(userClaims, projectId, apiVersion);
-    return NextResponse.json(data);
-  } catch (error: unknown) {
-    console.error('Error listing project tenants:', error);
-
-    const message = error instanceof Error ? error.message : 'Unknown error';
-
-    if (message.includes('Unauthorized')) {
-      return NextResponse.json(
-        { error: 'Unauthorized', details: 'Please sign in' },
-        { status: 401 }
-      );
-    }
-
-    return NextResponse.json(
-      { error: 'Failed to list tenants', details: message },
-      { status: 500 }
-    );
-  }
-}
-
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ projectId: string; apiVersion: string }> }
-) {
-  try {
-    const userClaims = await getUserClaims();
-    const { projectId, apiVersion } = await params;
-
-    if (!projectId || !apiVersion) {
-      return NextResponse.json(
-        { error: 'Validation error', details: 'projectId and apiVersion are required' },
-        { status: 400 }
-      );
-    }
-
-    const body = await request.json() as { tenant_name: string; display_name?: string; auth_config_id?: string };
-
-    const client = createAPIBlazeClient({
-      apiKey: INTERNAL_API_KEY,
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-    });
-
-    const data = await client.attachTenantToProject(userClaims, projectId, apiVersion, body);
-    return NextResponse.json(data, { status: 201 });
-  } catch (error: unknown) {
-    console.error('Error attaching tenant:', error);
-
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    const upstreamDetails =
-      error instanceof APIBlazeError
-        ? error.body?.details ?? error.body?.error ?? message
-        : message;
-
-    if (message.includes('Unauthorized') || String(upstreamDetails).includes('Unauthorized')) {
-      return NextResponse.json(
-        { error: 'Unauthorized', details: 'Please sign in' },
-        { status: 401 }
-      );
-    }
-
-    const status = error instanceof APIBlazeError ? error.status : 500;
-    console.error('Upstream attach tenant error details:', upstreamDetails);
-    return NextResponse.json(
-      {
-        error: 'Failed to attach tenant',
-        details: 'An internal error occurred',
-      },
-      { status: status >= 400 ? status : 500 }
-    );
-  }
-}
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+
+const params = z.object({ projectId: z.string().min(1), apiVersion: z.string().min(1) });
+
+export const GET = createHandler(
+  { name: 'list project tenants', params },
+  ({ params, claims, client }) => client.listProjectTenants(claims, params.projectId, params.apiVersion)
+);
+
+export const POST = createHandler(
+  {
+    name: 'attach tenant',
+    params,
+    body: z.object({
+      tenant_name: z.string().trim().min(1, 'tenant_name is required'),
+      display_name: z.string().optional(),
+      auth_config_id: z.string().optional(),
+    }),
+    status: 201,
+  },
+  ({ params, body, claims, client }) =>
+    client.attachTenantToProject(claims, params.projectId, params.apiVersion, body)
+);
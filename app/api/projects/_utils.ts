@@ -1,7 +1,7 @@
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/next-auth';
-
-const ADMIN_API_BASE = process.env.APIBLAZE_ADMIN_API_BASE || 'https://internalapi.apiblaze.com';
+import { adminApiBase } from '@/lib/backend-urls';
+import { currentRequestId, logEvent } from '@/lib/logger';
 
 /**
  * Resolve apiblazeUserId for the session user (provider identity).
@@ -17,7 +17,7 @@ async function getApiblazeUserId(
   if (!apiKey) {
     throw new Error('INTERNAL_API_KEY (or APIBLAZE_ADMIN_API_KEY) is not set');
   }
-  const res = await fetch(`${ADMIN_API_BASE}/ensure-apiblaze-user`, {
+  const res = await fetch(`${adminApiBase()}/ensure-apiblaze-user`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -53,12 +53,12 @@ export async function getUserClaims() {
   const handle = session.user.githubHandle || session.user.email?.split('@')[0];
 
   if (!handle || handle === 'anonymous' || handle.length < 2) {
-    console.error('Invalid user handle in session:', session.user);
+    logEvent('error', 'auth.invalid_session', { request_id: await currentRequestId(), reason: 'missing_handle' });
     throw new Error('Invalid user session - missing valid username');
   }
 
   if (!session.user.email) {
-    console.error('No email in session:', session.user);
+    logEvent('error', 'auth.invalid_session', { request_id: await currentRequestId(), handle, reason: 'missing_email' });
     throw new Error('Invalid user session - missing email');
   }
 
@@ -86,7 +86,7 @@ export async function getUserClaims() {
     session.user.name ?? undefined
   );
 
-  console.log(`[Auth] Creating JWT for user: ${handle} (${apiblazeUserId})`);
+  logEvent('info', 'auth.user_resolved', { request_id: await currentRequestId(), handle, user_id: apiblazeUserId });
 
   return {
     sub: apiblazeUserId,
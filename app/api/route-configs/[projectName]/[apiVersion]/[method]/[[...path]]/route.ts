@@ -1,6 +1,19 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { createAPIBlazeClient } from '@/lib/apiblaze-client';
-import { getUserClaims } from '@/app/api/projects/_utils';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createHandler, HttpProblem } from '@/app/api/_handler';
+import {
+  InvalidRouteConfigError,
+  assertOwnership,
+  buildPoliciesUrl,
+  forwardPreconditions,
+  mapFromPoliciesFormat,
+  mapToPoliciesFormat,
+  policiesApiBase,
+  policiesFetch,
+  policiesProblem,
+  projectParams,
+  routeEntryBody,
+} from '../../../../_utils';
 
 // ─── ROUTE CONFIG STORAGE DECISION ───────────────────────────────────────────
 // Proxies to policies-api (*.policies.apiblaze.com/route/*).
@@ -8,185 +21,122 @@ import { getUserClaims } from '@/app/api/projects/_utils';
 //
 // TO REVERT to admin-api: replace PUT/DELETE fetch calls with APIBlazeClient
 // PUT /route-configs/:projectName/:apiVersion/:encodedPath/:method and DELETE equivalent.
-// Remove mapToPoliciesFormat() — the admin-api schema matches RouteEntry directly.
+// Remove mapToPoliciesFormat() in ../../../../_utils.ts — the admin-api schema matches RouteEntry directly.
 // ─────────────────────────────────────────────────────────────────────────────
 
-const POLICIES_API_DOMAIN = process.env.POLICIES_API_DOMAIN || 'policies.apiblaze.com';
-
-// Map the dashboard RouteEntry schema to the policies-api request body.
-// Dashboard stores pre/post templates as single JSON strings; policies-api
-// expects arrays of OpenFGA check objects — we parse and wrap in [].
-// Throws on non-empty strings that contain invalid JSON so callers can return 400.
-function mapToPoliciesFormat(entry: {
-  require_authentication?: boolean;
-  pre_request_auth_template?: string;
-  post_response_policy_template?: string;
-  cache_rules?: string;
-  priority?: number;
-  authorization_enabled?: boolean;
-}) {
-  function parseTemplate(s: string | undefined, fieldName: string): object[] {
-    if (!s?.trim()) return [];
-    try {
-      const parsed = JSON.parse(s);
-      return Array.isArray(parsed) ? parsed : [parsed];
-    } catch {
-      throw new SyntaxError(`Invalid JSON in ${fieldName}`);
-    }
-  }
-
-  function parseConfig(s: string | undefined, fieldName: string): object | null {
-    if (!s?.trim()) return null;
-    try { return JSON.parse(s); } catch {
-      throw new SyntaxError(`Invalid JSON in ${fieldName}`);
-    }
-  }
-
-  return {
-    on_request_read: parseTemplate(entry.pre_request_auth_template, 'pre_request_auth_template'),
-    post_response_write: parseTemplate(entry.post_response_policy_template, 'post_response_policy_template'),
-    authentication_config: { require_authentication: entry.require_authentication ?? true },
-    cache_config: parseConfig(entry.cache_rules, 'cache_rules'),
-    priority: entry.priority,
-    authorization_enabled: entry.authorization_enabled ?? false,
-  };
-}
-
-type Params = { projectName: string; apiVersion: string; method: string; path?: string[] };
+const params = projectParams.extend({
+  method: z.string().min(1),
+  path: z.array(z.string()).optional(),
+});
 
 // Reconstruct the API route path from the [[...path]] catch-all segments.
 // e.g. params.path = ['api', 'v1', 'users', '{id}'] → '/api/v1/users/{id}'
 // params.path is undefined/empty for root endpoints (path = '/').
-// Encode { and } for the URL but keep slashes natural.
-function buildPoliciesUrl(projectName: string, apiVersion: string, method: string, pathSegments: string[]): string {
-  const routePath = '/' + pathSegments.join('/');
-  const encodedPath = routePath.replace(/\{/g, '%7B').replace(/\}/g, '%7D');
-  return `https://${projectName}.${POLICIES_API_DOMAIN}/route/${encodeURIComponent(method)}${encodedPath}?api_version=${encodeURIComponent(apiVersion)}`;
+const routePathOf = (segments: string[] | undefined) => '/' + (segments ?? []).join('/');
+
+const changedBySomeoneElse = (status: number) =>
+  new HttpProblem(
+    status,
+    status === 409 ? 'conflict' : 'precondition_failed',
+    'Route config was changed by someone else'
+  );
+
+// The stored policies-api entry for one route, or null when there is none or it can't be read
+async function storedRoute(
+  projectName: string,
+  apiVersion: string,
+  method: string,
+  routePath: string
+): Promise<Record<string, unknown> | null> {
+  const res = await policiesFetch(
+    `${policiesApiBase(projectName)}/routes?api_version=${encodeURIComponent(apiVersion)}`,
+    {}
+  ).catch(() => null);
+  if (!res?.ok) return null;
+  const data = await res.json().catch(() => ({})) as { routes?: Record<string, unknown>[] };
+  return data.routes?.find(
+    (r) => String(r.method).toUpperCase() === method.toUpperCase() && r.resource === routePath
+  ) ?? null;
 }
 
-// ─── Ownership check ──────────────────────────────────────────────────────────
-// Uses checkProjectName (admin-api) to verify the session user's team owns
-// the project before allowing writes to policies-api.
-//
-// ALTERNATIVE: if this adds too much latency, move the check into policies-api
-// itself (e.g. validate a signed JWT passed as a header) so the round-trip to
-// admin-api is eliminated. For now the extra hop is acceptable since route-config
-// writes are infrequent (only on Save, not per-request).
-async function verifyOwnership(projectName: string, apiVersion: string): Promise<{ error: string; status: number } | null> {
+async function toPoliciesBody(
+  body: z.infer<typeof routeEntryBody>,
+  projectName: string,
+  apiVersion: string,
+  method: string,
+  routePath: string
+): Promise<ReturnType<typeof mapToPoliciesFormat>> {
   try {
-    const userClaims = await getUserClaims();
-    const client = createAPIBlazeClient({
-      apiKey: process.env.INTERNAL_API_KEY || '',
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-    });
-    const ownership = await client.checkProjectName(userClaims, projectName, apiVersion);
-    if (!ownership.project_id) return { error: 'Project not found', status: 404 };
-    // api_version is null when another team owns this project name
-    if (!ownership.api_version) return { error: 'Forbidden', status: 403 };
-    return null;
-  } catch (e) {
-    const msg = e instanceof Error ? e.message : 'Unauthorized';
-    if (msg.includes('Unauthorized') || msg.includes('no session')) return { error: 'Unauthorized', status: 401 };
-    return { error: 'Failed to verify project ownership', status: 500 };
-  }
-}
-
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<Params> }
-) {
-  try {
-    const { projectName, apiVersion, method, path: pathSegments } = await params;
-    if (!/^[a-z0-9]+$/.test(projectName)) {
-      return NextResponse.json({ error: 'Invalid project name' }, { status: 400 });
-    }
-    const ownershipError = await verifyOwnership(projectName, apiVersion);
-    if (ownershipError) return NextResponse.json({ error: ownershipError.error }, { status: ownershipError.status });
-
-    const segments = pathSegments ?? [];
-    const routePath = '/' + segments.join('/');
-
-    let body: Record<string, unknown>;
     try {
-      body = await request.json() as Record<string, unknown>;
-    } catch {
-      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
-    }
-
-    let policiesBody: ReturnType<typeof mapToPoliciesFormat>;
-    try {
-      policiesBody = mapToPoliciesFormat(body as Parameters<typeof mapToPoliciesFormat>[0]);
+      return mapToPoliciesFormat(body);
     } catch (e) {
-      return NextResponse.json({ error: e instanceof SyntaxError ? e.message : 'Invalid config field' }, { status: 400 });
+      // Retry against the stored entry so cache rules saved before the schema stay writable
+      const stored = e instanceof InvalidRouteConfigError && e.fields
+        ? await storedRoute(projectName, apiVersion, method, routePath)
+        : null;
+      if (!stored) throw e;
+      return mapToPoliciesFormat(body, stored);
     }
+  } catch (e) {
+    if (!(e instanceof InvalidRouteConfigError)) throw e;
+    throw new HttpProblem(400, 'validation_failed', e.message, undefined, { fields: e.fields });
+  }
+}
 
-    const putUrl = buildPoliciesUrl(projectName, apiVersion, method, segments);
+export const PUT = createHandler(
+  { name: 'save route config', params, body: routeEntryBody },
+  async ({ request, params: { projectName, apiVersion, method, path }, body, claims, client }) => {
+    await assertOwnership(client, claims, projectName, apiVersion);
+    const routePath = routePathOf(path);
+    const policiesBody = await toPoliciesBody(body, projectName, apiVersion, method, routePath);
 
-    const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), 10_000);
+    const putUrl = buildPoliciesUrl(projectName, apiVersion, method, routePath);
+    const preconditions = forwardPreconditions(request);
 
     // Try PUT first (update existing route).
     // On 404 the route doesn't exist yet — fall back to POST /route to create it.
-    let res: Response;
-    try {
-      res = await fetch(putUrl, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ ...policiesBody, resource: routePath }),
-        signal: controller.signal,
-      });
+    let res = await policiesFetch(putUrl, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...preconditions },
+      body: JSON.stringify({ ...policiesBody, resource: routePath }),
+    });
 
-      if (res.status === 404) {
-        const postUrl = `https://${projectName}.${POLICIES_API_DOMAIN}/route?api_version=${encodeURIComponent(apiVersion)}`;
-        res = await fetch(postUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ method: method.toUpperCase(), resource: routePath, ...policiesBody }),
-          signal: controller.signal,
-        });
-      }
-    } finally {
-      clearTimeout(timer);
+    // The caller expected an existing entry: someone else deleted it in the meantime
+    if (res.status === 404 && preconditions['If-Match']) {
+      throw new HttpProblem(412, 'precondition_failed', 'Route config was deleted by someone else');
     }
 
-    if (!res.ok) {
-      const err = await res.json().catch(() => ({})) as { error?: string };
-      return NextResponse.json({ error: err.error || 'Failed to save route config' }, { status: res.status });
+    if (res.status === 404) {
+      const postUrl = `${policiesApiBase(projectName)}/route?api_version=${encodeURIComponent(apiVersion)}`;
+      res = await policiesFetch(postUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...preconditions },
+        body: JSON.stringify({ method: method.toUpperCase(), resource: routePath, ...policiesBody }),
+      });
     }
 
-    const data = await res.json();
-    return NextResponse.json(data, { status: res.status === 201 ? 201 : 200 });
-  } catch (error) {
-    console.error('[route-configs PUT]', error);
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
-  }
-}
+    if (res.status === 409 || res.status === 412) throw changedBySomeoneElse(res.status);
+    if (!res.ok) throw await policiesProblem(res, 'Failed to save route config');
 
-export async function DELETE(
-  _request: NextRequest,
-  { params }: { params: Promise<Params> }
-) {
-  try {
-    const { projectName, apiVersion, method, path: pathSegments } = await params;
-    if (!/^[a-z0-9]+$/.test(projectName)) {
-      return NextResponse.json({ error: 'Invalid project name' }, { status: 400 });
-    }
-    const ownershipError = await verifyOwnership(projectName, apiVersion);
-    if (ownershipError) return NextResponse.json({ error: ownershipError.error }, { status: ownershipError.status });
-    const url = buildPoliciesUrl(projectName, apiVersion, method, pathSegments ?? []);
+    const data = await res.json() as Record<string, unknown>;
+    return NextResponse.json(mapFromPoliciesFormat({ method: method.toUpperCase(), resource: routePath, ...data }), {
+      status: res.status === 201 ? 201 : 200,
+    });
+  }
+);
 
-    const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), 10_000);
-    const res = await fetch(url, { method: 'DELETE', signal: controller.signal }).finally(() => clearTimeout(timer));
+export const DELETE = createHandler(
+  { name: 'delete route config', params },
+  async ({ request, params: { projectName, apiVersion, method, path }, claims, client }) => {
+    await assertOwnership(client, claims, projectName, apiVersion);
+    const url = buildPoliciesUrl(projectName, apiVersion, method, routePathOf(path));
 
-    if (!res.ok && res.status !== 404) {
-      const err = await res.json().catch(() => ({})) as { error?: string };
-      return NextResponse.json({ error: err.error || 'Failed to delete route config' }, { status: res.status });
-    }
+    const res = await policiesFetch(url, {
+      method: 'DELETE',
+      headers: forwardPreconditions(request),
+    });
 
-    return new NextResponse(null, { status: 204 });
-  } catch (error) {
-    console.error('[route-configs DELETE]', error);
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    if (res.status === 409 || res.status === 412) throw changedBySomeoneElse(res.status);
+    if (!res.ok && res.status !== 404) throw await policiesProblem(res, 'Failed to delete route config');
   }
-}
+);
@@ -0,0 +1,332 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createHandler, HttpProblem } from '@/app/api/_handler';
+import type { RouteBatchEvent, RouteBatchResult, RouteEntry } from '@/lib/api/route-configs';
+import { currentRequestId, errorFields, logEvent } from '@/lib/logger';
+import {
+  InvalidRouteConfigError,
+  assertOwnership,
+  buildPoliciesUrl,
+  mapFromPoliciesFormat,
+  mapToPoliciesFormat,
+  policiesApiBase,
+  policiesFetch,
+  policiesProblem,
+  projectParams,
+  routeEntryBody,
+} from '../../../_utils';
+
+// ─── Batch route config save ─────────────────────────────────────────────────
+// policies-api has no multi-route transaction, so the batch is made atomic here:
+//   1. snapshot the stored routes (GET /routes)
+//   2. validate every entry and check If-Match versions against the snapshot
+//      before writing anything
+//   3. apply the writes; on the first failure stop, then undo every applied
+//      write from the snapshot (PUT the previous entry back, DELETE created ones,
+//      re-POST deleted ones)
+// Progress is streamed as newline-delimited JSON (see RouteBatchEvent).
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const dynamic = 'force-dynamic';
+
+const CONCURRENCY = 6;
+
+type PoliciesBody = ReturnType<typeof mapToPoliciesFormat>;
+type StoredRoute = Record<string, unknown>;
+
+interface Operation {
+  result: RouteBatchResult;
+  /** Stored entry before the batch, used for the unchanged check and for rollback. */
+  previous?: StoredRoute;
+  body?: PoliciesBody;
+  ifMatch?: string;
+  /** Stored entry after the write, mapped to RouteEntry. */
+  saved?: RouteEntry;
+}
+
+const routeKey = (method: string, path: string) => `${method.toUpperCase()} ${path}`;
+
+// Same normalization as the single-entry handler: no trailing slash except for '/'
+const normalizePath = (path: string) => (path.length > 1 ? path.replace(/\/+$/, '') : path);
+
+// Whether writing `body` would leave the stored entry as it is
+function sameAsStored(body: PoliciesBody | undefined, stored: StoredRoute): boolean {
+  try {
+    return JSON.stringify(body) === JSON.stringify(mapToPoliciesFormat(mapFromPoliciesFormat(stored), stored));
+  } catch {
+    return false;
+  }
+}
+
+function createUrl(projectName: string, apiVersion: string): string {
+  return `${policiesApiBase(projectName)}/route?api_version=${encodeURIComponent(apiVersion)}`;
+}
+
+// Only the fields policies-api accepts on write; the snapshot also carries ids and timestamps
+function storedBody(route: StoredRoute) {
+  return {
+    on_request_read: route.on_request_read ?? [],
+    post_response_write: route.post_response_write ?? [],
+    authentication_config: route.authentication_config ?? { require_authentication: true },
+    cache_config: route.cache_config ?? null,
+    priority: route.priority,
+    authorization_enabled: route.authorization_enabled ?? false,
+  };
+}
+
+// Identifies an entry; updated_at is the version the caller last saw (sent as If-Match)
+const entryKey = z.object({
+  method: z.string().min(1, 'method must be a non-empty string'),
+  path: z.string().min(1, 'path must be a non-empty string'),
+  updated_at: z.string().optional(),
+});
+
+// RouteBatchRequest; the config field checks happen in mapToPoliciesFormat
+const body = z.object({
+  upserts: z.array(routeEntryBody.merge(entryKey)),
+  deletes: z.array(entryKey),
+});
+
+async function errorMessage(res: Response, fallback: string): Promise<string> {
+  const err = (await res.json().catch(() => ({}))) as { error?: string };
+  return err.error || `${fallback} (${res.status})`;
+}
+
+/** Run `task` over `items` with bounded concurrency; stops starting new tasks once `shouldStop` is true. */
+async function runPool<T>(items: T[], task: (item: T) => Promise<void>, shouldStop: () => boolean): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length && !shouldStop()) {
+      const item = items[next++];
+      await task(item);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, items.length) }, worker));
+}
+
+export const POST = createHandler(
+  { name: 'save route configs', params: projectParams, body },
+  async ({ params: { projectName, apiVersion }, body: batch, claims, client }) => {
+    await assertOwnership(client, claims, projectName, apiVersion);
+    // The stream outlives the request scope, so its log lines take the id from here
+    const requestId = await currentRequestId();
+
+    // 1. Snapshot
+    const snapshotRes = await policiesFetch(
+      `${policiesApiBase(projectName)}/routes?api_version=${encodeURIComponent(apiVersion)}`,
+      {}
+    );
+    if (!snapshotRes.ok && snapshotRes.status !== 404) {
+      throw await policiesProblem(snapshotRes, 'Failed to fetch route configs');
+    }
+    const snapshotData = snapshotRes.ok ? await snapshotRes.json() as { routes?: StoredRoute[] } : { routes: [] };
+    const snapshot = new Map(
+      (snapshotData.routes ?? []).map((r) => [routeKey(String(r.method), String(r.resource)), r])
+    );
+
+    // 2. Validate and check versions
+    const operations: Operation[] = [];
+    for (const entry of batch.upserts) {
+      const path = normalizePath(entry.path);
+      const previous = snapshot.get(routeKey(entry.method, path));
+      const op: Operation = {
+        result: { method: entry.method.toUpperCase(), path, op: 'upsert', status: 'not_applied' },
+        previous,
+        ifMatch: entry.updated_at ? `"${entry.updated_at}"` : undefined,
+      };
+      try {
+        op.body = mapToPoliciesFormat(entry, previous);
+      } catch (e) {
+        op.result = { ...op.result, status: 'invalid', error: e instanceof InvalidRouteConfigError ? e.message : 'Invalid config field' };
+      }
+      if (op.result.status === 'not_applied' && entry.updated_at) {
+        if (!previous) {
+          op.result = { ...op.result, status: 'conflict', error: 'Deleted by someone else' };
+        } else if (typeof previous.updated_at === 'string' && previous.updated_at !== entry.updated_at) {
+          op.result = { ...op.result, status: 'conflict', error: 'Changed by someone else' };
+        }
+      }
+      if (op.result.status === 'not_applied' && previous && sameAsStored(op.body, previous)) {
+        op.result = { ...op.result, status: 'unchanged' };
+        op.saved = mapFromPoliciesFormat(previous);
+      }
+      operations.push(op);
+    }
+    for (const entry of batch.deletes) {
+      const path = normalizePath(entry.path);
+      const previous = snapshot.get(routeKey(entry.method, path));
+      const op: Operation = {
+        result: { method: entry.method.toUpperCase(), path, op: 'delete', status: 'not_applied' },
+        previous,
+        ifMatch: entry.updated_at ? `"${entry.updated_at}"` : undefined,
+      };
+      if (!previous) {
+        // Nothing stored (e.g. a spec route that was never configured)
+        op.result = { ...op.result, status: 'unchanged' };
+      } else if (
+        entry.updated_at &&
+        typeof previous.updated_at === 'string' &&
+        previous.updated_at !== entry.updated_at
+      ) {
+        op.result = { ...op.result, status: 'conflict', error: 'Changed by someone else' };
+      }
+      operations.push(op);
+    }
+
+    const results = () => operations.map((op) => op.result);
+    if (operations.some((op) => op.result.status === 'invalid')) {
+      throw new HttpProblem(400, 'validation_failed', 'Invalid route config', undefined, { results: results() });
+    }
+    if (operations.some((op) => op.result.status === 'conflict')) {
+      throw new HttpProblem(412, 'precondition_failed', 'Route config was changed by someone else', undefined, {
+        results: results(),
+      });
+    }
+
+    const pending = operations.filter((op) => op.result.status === 'not_applied');
+    const encoder = new TextEncoder();
+
+    // 3. Apply, rolling back on failure. A reader that goes away only stops the events: the writes
+    // and any rollback still run to completion
+    let cancelled = false;
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: RouteBatchEvent) => {
+          if (cancelled) return;
+          try {
+            controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+          } catch {
+            cancelled = true;
+          }
+        };
+
+        let failedStatus: number | null = null;
+        let completed = 0;
+
+        const apply = async (op: Operation) => {
+          const { method, path } = op.result;
+          const url = buildPoliciesUrl(projectName, apiVersion, method, path);
+          const preconditions: Record<string, string> = op.ifMatch ? { 'If-Match': op.ifMatch } : {};
+          try {
+            let res: Response;
+            if (op.result.op === 'delete') {
+              res = await policiesFetch(url, { method: 'DELETE', headers: preconditions });
+            } else if (op.previous) {
+              res = await policiesFetch(url, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json', ...preconditions },
+                body: JSON.stringify({ ...op.body, resource: path }),
+              });
+            } else {
+              res = await policiesFetch(createUrl(projectName, apiVersion), {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ method, resource: path, ...op.body }),
+              });
+            }
+
+            if (res.ok || (op.result.op === 'delete' && res.status === 404)) {
+              op.result = { ...op.result, status: 'applied' };
+              if (op.result.op === 'upsert') {
+                const data = await res.json().catch(() => ({})) as StoredRoute;
+                op.saved = mapFromPoliciesFormat({ ...op.body, method, resource: path, ...data });
+              }
+            } else {
+              const conflict = res.status === 409 || res.status === 412;
+              op.result = {
+                ...op.result,
+                status: conflict ? 'conflict' : 'failed',
+                error: conflict ? 'Changed by someone else' : await errorMessage(res, 'Write failed'),
+              };
+              failedStatus ??= res.status;
+            }
+          } catch (e) {
+            op.result = { ...op.result, status: 'failed', error: e instanceof Error ? e.message : 'Write failed' };
+            failedStatus ??= 502;
+          }
+          completed += 1;
+          send({ type: 'progress', phase: 'apply', completed, total: pending.length });
+        };
+
+        const undo = async (op: Operation) => {
+          const { method, path } = op.result;
+          const url = buildPoliciesUrl(projectName, apiVersion, method, path);
+          try {
+            let res: Response;
+            if (op.result.op === 'delete' && op.previous) {
+              res = await policiesFetch(createUrl(projectName, apiVersion), {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ method, resource: path, ...storedBody(op.previous) }),
+              });
+            } else if (op.previous) {
+              res = await policiesFetch(url, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ ...storedBody(op.previous), resource: path }),
+              });
+            } else {
+              res = await policiesFetch(url, { method: 'DELETE' });
+            }
+            op.result = res.ok
+              ? { ...op.result, status: 'rolled_back' }
+              : { ...op.result, status: 'rollback_failed', error: await errorMessage(res, 'Rollback failed') };
+          } catch (e) {
+            op.result = { ...op.result, status: 'rollback_failed', error: e instanceof Error ? e.message : 'Rollback failed' };
+          }
+        };
+
+        try {
+          await runPool(pending, apply, () => failedStatus !== null);
+
+          if (failedStatus === null) {
+            const stored = new Map(
+              [...snapshot.entries()].map(([key, route]) => [key, mapFromPoliciesFormat(route) as RouteEntry])
+            );
+            for (const op of operations) {
+              const key = routeKey(op.result.method, op.result.path);
+              if (op.result.op === 'delete' && op.result.status === 'applied') stored.delete(key);
+              if (op.result.op === 'upsert' && op.saved) stored.set(key, op.saved);
+            }
+            send({ type: 'result', ok: true, status: 200, results: results(), routes: [...stored.values()] });
+            return;
+          }
+
+          const applied = pending.filter((op) => op.result.status === 'applied').reverse();
+          let undone = 0;
+          for (const op of applied) {
+            await undo(op);
+            undone += 1;
+            send({ type: 'progress', phase: 'rollback', completed: undone, total: applied.length });
+          }
+          const rolledBack = applied.every((op) => op.result.status === 'rolled_back');
+          send({
+            type: 'result',
+            ok: false,
+            status: failedStatus,
+            rolledBack,
+            error: rolledBack
+              ? 'Route config save failed; all changes were rolled back'
+              : 'Route config save failed and some changes could not be rolled back',
+            results: results(),
+          });
+        } catch (error) {
+          logEvent('error', 'route_configs.batch_failed', { request_id: requestId, project: projectName, ...errorFields(error) });
+          send({ type: 'result', ok: false, status: 500, error: 'Internal server error', results: results() });
+        } finally {
+          if (!cancelled) controller.close();
+        }
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+      },
+    });
+  }
+);
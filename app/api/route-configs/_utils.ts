@@ -0,0 +1,187 @@
+// Shared by the route-configs handlers, which proxy to policies-api (see [projectName]/[apiVersion]/route.ts).
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { HttpProblem, problemCodeForStatus } from '@/app/api/_handler';
+import type { APIBlazeClient } from '@/lib/apiblaze-client';
+import type { UserAssertionClaims } from '@/lib/jwt-signer';
+import { policiesApiBase } from '@/lib/backend-urls';
+import { currentRequestId, errorFields, logEvent } from '@/lib/logger';
+import { formatCacheRulesIssues, parseCacheRules, type CacheRulesIssue } from '@/lib/cache-rules';
+
+// policies-api stores on_request_read / post_response_write as arrays of OpenFGA
+// check objects. The dashboard represents these as single JSON template strings,
+// so we take the first element of each array and stringify it back.
+export function mapFromPoliciesFormat(route: Record<string, unknown>) {
+  const onRead = Array.isArray(route.on_request_read) ? route.on_request_read : [];
+  const postWrite = Array.isArray(route.post_response_write) ? route.post_response_write : [];
+  const authCfg = route.authentication_config as Record<string, unknown> | null | undefined;
+
+  return {
+    path: route.resource as string,
+    method: route.method as string,
+    description: '',
+    require_authentication: authCfg?.require_authentication !== undefined
+      ? Boolean(authCfg.require_authentication)
+      : true,
+    authorization_enabled: route.authorization_enabled === true || route.authorization_enabled === 1,
+    pre_request_auth_template: onRead.length > 0 ? JSON.stringify(onRead[0]) : '',
+    post_response_policy_template: postWrite.length > 0 ? JSON.stringify(postWrite[0]) : '',
+    cache_rules: route.cache_config ? JSON.stringify(route.cache_config) : '',
+    priority: typeof route.priority === 'number' ? route.priority : undefined,
+    updated_at: typeof route.updated_at === 'string' ? route.updated_at : undefined,
+  };
+}
+
+export { policiesApiBase };
+
+const POLICIES_TIMEOUT_MS = 10_000;
+
+// fetch to policies-api with a timeout, forwarding the X-Request-Id of the request being
+// served and logging each call as a `policies_api.request` event.
+export async function policiesFetch(url: string, init: RequestInit = {}, timeoutMs = POLICIES_TIMEOUT_MS): Promise<Response> {
+  const requestId = await currentRequestId();
+  const headers = new Headers(init.headers);
+  if (requestId) headers.set('X-Request-Id', requestId);
+  const fields = { request_id: requestId, method: (init.method ?? 'GET').toUpperCase(), path: new URL(url).pathname };
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const started = Date.now();
+  try {
+    const res = await fetch(url, { ...init, headers, signal: controller.signal });
+    logEvent(res.status >= 500 ? 'warn' : 'info', 'policies_api.request', {
+      ...fields,
+      status: res.status,
+      duration_ms: Date.now() - started,
+    });
+    return res;
+  } catch (error) {
+    logEvent('warn', 'policies_api.request', {
+      ...fields,
+      duration_ms: Date.now() - started,
+      ...(controller.signal.aborted ? { error: `No response within ${timeoutMs} ms` } : errorFields(error)),
+    });
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// The RouteEntry fields mapToPoliciesFormat reads; anything else in a request body is ignored.
+export const routeEntryBody = z.object({
+  require_authentication: z.boolean().optional(),
+  pre_request_auth_template: z.string().optional(),
+  post_response_policy_template: z.string().optional(),
+  cache_rules: z.string().optional(),
+  priority: z.number().optional(),
+  authorization_enabled: z.boolean().optional(),
+});
+
+// Thrown by mapToPoliciesFormat; `fields` carries per-field cache_rules errors for the editor.
+export class InvalidRouteConfigError extends SyntaxError {
+  constructor(message: string, public fields?: CacheRulesIssue[]) {
+    super(message);
+    this.name = 'InvalidRouteConfigError';
+  }
+}
+
+// Whether a JSON string holds the same document as `value`, ignoring formatting
+function sameJson(json: string, value: unknown): boolean {
+  try {
+    return JSON.stringify(JSON.parse(json)) === JSON.stringify(value);
+  } catch {
+    return false;
+  }
+}
+
+// Map the dashboard RouteEntry schema to the policies-api request body.
+// Dashboard stores pre/post templates as single JSON strings; policies-api
+// expects arrays of OpenFGA check objects — we parse and wrap in [].
+// Throws on non-empty strings that contain invalid JSON, and on cache_rules that fail
+// the cache-rules schema, so callers can return 400. With the `stored` entry, cache_rules
+// equal to its cache_config pass through unvalidated: configs saved before the schema
+// stay writable until someone edits them.
+export function mapToPoliciesFormat(entry: {
+  require_authentication?: boolean;
+  pre_request_auth_template?: string;
+  post_response_policy_template?: string;
+  cache_rules?: string;
+  priority?: number;
+  authorization_enabled?: boolean;
+}, stored?: Record<string, unknown>) {
+  function parseTemplate(s: string | undefined, fieldName: string): object[] {
+    if (!s?.trim()) return [];
+    try {
+      const parsed = JSON.parse(s);
+      return Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+      throw new InvalidRouteConfigError(`Invalid JSON in ${fieldName}`);
+    }
+  }
+
+  function parseCacheConfig(s: string | undefined): object | null {
+    if (stored?.cache_config && s?.trim() && sameJson(s, stored.cache_config)) return stored.cache_config as object;
+    const result = parseCacheRules(s);
+    if (!result.ok) {
+      throw new InvalidRouteConfigError(`Invalid cache_rules: ${formatCacheRulesIssues(result.errors)}`, result.errors);
+    }
+    return result.rules;
+  }
+
+  return {
+    on_request_read: parseTemplate(entry.pre_request_auth_template, 'pre_request_auth_template'),
+    post_response_write: parseTemplate(entry.post_response_policy_template, 'post_response_policy_template'),
+    authentication_config: { require_authentication: entry.require_authentication ?? true },
+    cache_config: parseCacheConfig(entry.cache_rules),
+    priority: entry.priority,
+    authorization_enabled: entry.authorization_enabled ?? false,
+  };
+}
+
+// policies-api URL for a single route entry, e.g. '/api/v1/users/{id}'.
+// Encode { and } for the URL but keep slashes natural.
+export function buildPoliciesUrl(projectName: string, apiVersion: string, method: string, routePath: string): string {
+  const encodedPath = routePath.replace(/\{/g, '%7B').replace(/\}/g, '%7D');
+  return `${policiesApiBase(projectName)}/route/${encodeURIComponent(method)}${encodedPath}?api_version=${encodeURIComponent(apiVersion)}`;
+}
+
+// Optimistic concurrency: the dashboard sends the stored entry's updated_at as If-Match
+// and policies-api rejects the write with 412 when the entry has changed since.
+export function forwardPreconditions(request: NextRequest): Record<string, string> {
+  const ifMatch = request.headers.get('if-match');
+  return ifMatch ? { 'If-Match': ifMatch } : {};
+}
+
+// ─── Ownership check ──────────────────────────────────────────────────────────
+// Uses checkProjectName (admin-api) to verify the session user's team owns
+// the project before allowing reads and writes to policies-api; throws a 404/403 problem otherwise.
+//
+// ALTERNATIVE: if this adds too much latency, move the check into policies-api
+// itself (e.g. validate a signed JWT passed as a header) so the round-trip to
+// admin-api is eliminated. For now the extra hop is acceptable since route-config
+// writes are infrequent (only on Save, not per-request).
+export async function assertOwnership(
+  client: APIBlazeClient,
+  claims: UserAssertionClaims,
+  projectName: string,
+  apiVersion: string
+): Promise<void> {
+  const ownership = await client.checkProjectName(claims, projectName, apiVersion);
+  if (!ownership.project_id) throw new HttpProblem(404, 'not_found', 'Project not found', projectName);
+  // api_version is null when another team owns this project name
+  if (!ownership.api_version) throw new HttpProblem(403, 'forbidden', 'Forbidden', 'Another team owns this project');
+}
+
+// Route params of the project-scoped policies-api proxies; the project name is a policies-api subdomain
+export const projectParams = z.object({
+  projectName: z.string().regex(/^[a-z0-9]+$/, 'Invalid project name'),
+  apiVersion: z.string().min(1),
+});
+
+// Problem for a failed policies-api response: its status and error message are passed on,
+// 5xx as a 502 like the admin-api failures
+export async function policiesProblem(res: Response, fallback: string): Promise<HttpProblem> {
+  const err = (await res.json().catch(() => ({}))) as { error?: string };
+  const status = res.status >= 500 ? 502 : res.status;
+  return new HttpProblem(status, problemCodeForStatus(status), err.error || `${fallback} (${res.status})`);
+}
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import { createHandler, HttpProblem } from '@/app/api/_handler';
+import { authWorkerEndpoint } from '@/lib/build-app-login-url';
+import { errorFields, logEvent, tracingHeaders } from '@/lib/logger';
+import type { LoginTestExchangeResult } from '@/types/auth-config';
+
+const AUTH_WORKER_TIMEOUT_MS = 10_000;
+
+/** Calls the auth worker and keeps its answer whatever the status: the login tester explains errors. */
+async function authWorkerFetch(url: string, init: RequestInit): Promise<{ status: number; body: Record<string, unknown> }> {
+  const started = Date.now();
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: { Accept: 'application/json', ...(await tracingHeaders()), ...init.headers },
+      signal: AbortSignal.timeout(AUTH_WORKER_TIMEOUT_MS),
+    });
+  } catch (error) {
+    logEvent('warn', 'auth_worker.request', { url, duration_ms: Date.now() - started, ...errorFields(error) });
+    throw new HttpProblem(502, 'upstream_error', 'The auth worker did not answer', `${url}: ${errorFields(error).error}`);
+  }
+  logEvent('info', 'auth_worker.request', { url, status: response.status, duration_ms: Date.now() - started });
+  const text = await response.text();
+  let body: Record<string, unknown>;
+  try {
+    const parsed: unknown = JSON.parse(text);
+    body = typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : { value: parsed };
+  } catch {
+    body = { error: 'non_json_response', error_description: text.slice(0, 500) };
+  }
+  return { status: response.status, body };
+}
+
+/**
+ * Second half of a test login: exchanges the authorization code (with the PKCE verifier and the
+ * app client's secret) and fetches userinfo with the resulting access token.
+ */
+export const POST = createHandler(
+  {
+    name: 'exchange test login code',
+    params: z.object({ teamId: z.string().min(1), tenantName: z.string().min(1), clientId: z.string().min(1) }),
+    body: z.object({
+      code: z.string().min(1),
+      code_verifier: z.string().regex(/^[A-Za-z0-9._~-]{43,128}$/, 'code_verifier must be 43-128 unreserved characters'),
+      redirect_uri: z.string().url(),
+    }),
+  },
+  async ({ params, body, claims, client }): Promise<LoginTestExchangeResult> => {
+    // params.clientId is the app client's admin id; the token endpoint wants its OAuth client_id
+    const [appClient, { clientSecret }] = await Promise.all([
+      client.getAppClientByTenant(claims, params.teamId, params.tenantName, params.clientId),
+      client.getAppClientSecretByTenant(claims, params.teamId, params.tenantName, params.clientId),
+    ]);
+    const oauthClientId = appClient.clientId ?? appClient.client_id;
+    if (!oauthClientId) {
+      throw new HttpProblem(502, 'upstream_error', 'App client has no client_id', `App client ${params.clientId} has no OAuth client_id`);
+    }
+    const token = await authWorkerFetch(authWorkerEndpoint('token'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: body.code,
+        redirect_uri: body.redirect_uri,
+        code_verifier: body.code_verifier,
+        client_id: oauthClientId,
+        client_secret: clientSecret,
+      }),
+    });
+    const accessToken = token.status < 300 && typeof token.body.access_token === 'string' ? token.body.access_token : null;
+    const userinfo = accessToken
+      ? await authWorkerFetch(authWorkerEndpoint('userinfo'), { headers: { Authorization: `Bearer ${accessToken}` } })
+      : null;
+    return { token, userinfo };
+  }
+);
@@ -1,92 +1,23 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { APIBlazeError, createAPIBlazeClient } from '@/lib/apiblaze-client';
-import { getUserClaims } from '@/app/api/projects/_utils';
-import type { CreateProviderRequest } from '@/types/auth-config';
-
-const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY || '';
-
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ teamId: string; tenantName: string; clientId: string; providerId: string }> }
-) {
-  try {
-    const userClaims = await getUserClaims();
-    const { teamId, tenantName, clientId, providerId } = await params;
-    const body = (await request.json()) as CreateProviderRequest;
-
-    if (!body.type || !body.clientId || !body.clientSecret) {
-      return NextResponse.json(
-        { error: 'Validation error', details: 'Provider type, clientId, and clientSecret are required' },
-        { status: 400 }
-      );
-    }
-    if (!body.scopes || !Array.isArray(body.scopes) || body.scopes.length === 0) {
-      return NextResponse.json(
-        { error: 'Validation error', details: 'scopes (non-empty array) is required' },
-        { status: 400 }
-      );
-    }
-
-    const client = createAPIBlazeClient({
-      apiKey: INTERNAL_API_KEY,
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-    });
-
-    const data = await client.updateProviderByTenant(userClaims, teamId, tenantName, clientId, providerId, {
-      type: body.type,
-      clientId: body.clientId,
-      clientSecret: body.clientSecret,
-      scopes: body.scopes,
-      domain: body.domain,
-      tokenType: body.tokenType,
-      targetServerToken: body.targetServerToken,
-      includeApiblazeAccessTokenHeader: body.includeApiblazeAccessTokenHeader,
-      includeApiblazeIdTokenHeader: body.includeApiblazeIdTokenHeader,
-    });
-    return NextResponse.json(data);
-  } catch (error: unknown) {
-    console.error('Error updating provider by tenant:', error);
-    if (error instanceof APIBlazeError) {
-      return NextResponse.json(
-        { error: error.body?.error || 'Failed to update provider', details: error.body?.details ?? error.body?.error },
-        { status: error.status }
-      );
-    }
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    if (message.includes('Unauthorized')) {
-      return NextResponse.json({ error: 'Unauthorized', details: 'Please sign in' }, { status: 401 });
-    }
-    return NextResponse.json({ error: 'Failed to update provider', details: message }, { status: 500 });
-  }
-}
-
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ teamId: string; tenantName: string; clientId: string; providerId: string }> }
-) {
-  try {
-    const userClaims = await getUserClaims();
-    const { teamId, tenantName, clientId, providerId } = await params;
-
-    const client = createAPIBlazeClient({
-      apiKey: INTERNAL_API_KEY,
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-    });
-
-    await client.removeProviderByTenant(userClaims, teamId, tenantName, clientId, providerId);
-    return new NextResponse(null, { status: 204 });
-  } catch (error: unknown) {
-    console.error('Error removing provider by tenant:', error);
-    if (error instanceof APIBlazeError) {
-      return NextResponse.json(
-        { error: error.body?.error || 'Failed to remove provider', details: error.body?.details ?? error.body?.error },
-        { status: error.status }
-      );
-    }
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    if (message.includes('Unauthorized')) {
-      return NextResponse.json({ error: 'Unauthorized', details: 'Please sign in' }, { status: 401 });
-    }
-    return NextResponse.json({ error: 'Failed to remove provider', details: message }, { status: 500 });
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+import { providerRequestSchema } from '@/lib/provider-schema';
+
+const params = z.object({
+  teamId: z.string().min(1),
+  tenantName: z.string().min(1),
+  clientId: z.string().min(1),
+  providerId: z.string().min(1),
+});
+
+export const PATCH = createHandler(
+  { name: 'update provider', params, body: providerRequestSchema },
+  ({ params, body, claims, client }) =>
+    client.updateProviderByTenant(claims, params.teamId, params.tenantName, params.clientId, params.providerId, body)
+);
+
+export const DELETE = createHandler(
+  { name: 'remove provider', params },
+  async ({ params, claims, client }) => {
+    await client.removeProviderByTenant(claims, params.teamId, params.tenantName, params.clientId, params.providerId);
   }
-}
+);
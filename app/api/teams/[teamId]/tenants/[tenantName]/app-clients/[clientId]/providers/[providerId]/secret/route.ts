@@ -1,36 +1,16 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { APIBlazeError, createAPIBlazeClient } from '@/lib/apiblaze-client';
-import { getUserClaims } from '@/app/api/projects/_utils';
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
 
-const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY || '';
-
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ teamId: string; tenantName: string; clientId: string; providerId: string }> }
-) {
-  try {
-    const userClaims = await getUserClaims();
-    const { teamId, tenantName, clientId, providerId } = await params;
-
-    const client = createAPIBlazeClient({
-      apiKey: INTERNAL_API_KEY,
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-    });
-
-    const data = await client.getProviderSecretByTenant(userClaims, teamId, tenantName, clientId, providerId);
-    return NextResponse.json(data);
-  } catch (error: unknown) {
-    console.error('Error fetching provider secret by tenant:', error);
-    if (error instanceof APIBlazeError) {
-      return NextResponse.json(
-        { error: error.body?.error || 'Failed to reveal provider secret', details: error.body?.details ?? error.body?.error },
-        { status: error.status }
-      );
-    }
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    if (message.includes('Unauthorized')) {
-      return NextResponse.json({ error: 'Unauthorized', details: 'Please sign in' }, { status: 401 });
-    }
-    return NextResponse.json({ error: 'Failed to reveal provider secret', details: message }, { status: 500 });
-  }
-}
+export const GET = createHandler(
+  {
+    name: 'reveal provider secret',
+    params: z.object({
+      teamId: z.string().min(1),
+      tenantName: z.string().min(1),
+      clientId: z.string().min(1),
+      providerId: z.string().min(1),
+    }),
+  },
+  ({ params, claims, client }) =>
+    client.getProviderSecretByTenant(claims, params.teamId, params.tenantName, params.clientId, params.providerId)
+);
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+
+export const DELETE = createHandler(
+  {
+    name: 'revoke app client secret',
+    params: z.object({
+      teamId: z.string().min(1),
+      tenantName: z.string().min(1),
+      clientId: z.string().min(1),
+      secretId: z.string().min(1),
+    }),
+  },
+  async ({ params, claims, client }) => {
+    await client.revokeAppClientSecretByTenant(claims, params.teamId, params.tenantName, params.clientId, params.secretId);
+  }
+);
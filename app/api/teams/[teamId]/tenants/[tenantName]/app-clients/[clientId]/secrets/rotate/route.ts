@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+import { MAX_SECRET_GRACE_PERIOD_SECONDS } from '@/lib/api/app-client-secrets';
+
+export const POST = createHandler(
+  {
+    name: 'rotate app client secret',
+    params: z.object({ teamId: z.string().min(1), tenantName: z.string().min(1), clientId: z.string().min(1) }),
+    body: z.object({
+      grace_period_seconds: z
+        .number()
+        .int()
+        .min(0)
+        .max(MAX_SECRET_GRACE_PERIOD_SECONDS, `The old secret can stay valid for at most ${MAX_SECRET_GRACE_PERIOD_SECONDS / 86400} days`),
+    }),
+  },
+  ({ params, body, claims, client }) =>
+    client.rotateAppClientSecretByTenant(claims, params.teamId, params.tenantName, params.clientId, body)
+);
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+
+export const GET = createHandler(
+  {
+    name: 'list app client secrets',
+    params: z.object({ teamId: z.string().min(1), tenantName: z.string().min(1), clientId: z.string().min(1) }),
+  },
+  ({ params, claims, client }) =>
+    client.listAppClientSecretsByTenant(claims, params.teamId, params.tenantName, params.clientId)
+);
@@ -1,70 +1,14 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { createAPIBlazeClient } from '@/lib/apiblaze-client';
-import { getUserClaims } from '@/app/api/projects/_utils';
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
 
-const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY || '';
+const params = z.object({ teamId: z.string().min(1), tenantName: z.string().min(1) });
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ teamId: string; tenantName: string }> }
-) {
-  try {
-    const userClaims = await getUserClaims();
-    const { teamId, tenantName } = await params;
+export const GET = createHandler(
+  { name: 'fetch app clients', params },
+  ({ params, claims, client }) => client.listAppClientsByTenant(claims, params.teamId, params.tenantName)
+);
 
-    if (!teamId || !tenantName) {
-      return NextResponse.json(
-        { error: 'Validation error', details: 'teamId and tenantName are required' },
-        { status: 400 }
-      );
-    }
-
-    const client = createAPIBlazeClient({
-      apiKey: INTERNAL_API_KEY,
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-    });
-
-    const data = await client.listAppClientsByTenant(userClaims, teamId, tenantName);
-    return NextResponse.json(data);
-  } catch (error: unknown) {
-    console.error('Error fetching app clients by tenant:', error);
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    if (message.includes('Unauthorized')) {
-      return NextResponse.json({ error: 'Unauthorized', details: 'Please sign in' }, { status: 401 });
-    }
-    return NextResponse.json({ error: 'Failed to fetch app clients', details: message }, { status: 500 });
-  }
-}
-
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ teamId: string; tenantName: string }> }
-) {
-  try {
-    const userClaims = await getUserClaims();
-    const { teamId, tenantName } = await params;
-    const body = (await request.json()) as Record<string, unknown>;
-
-    if (!teamId || !tenantName) {
-      return NextResponse.json(
-        { error: 'Validation error', details: 'teamId and tenantName are required' },
-        { status: 400 }
-      );
-    }
-
-    const client = createAPIBlazeClient({
-      apiKey: INTERNAL_API_KEY,
-      jwtPrivateKey: process.env.JWT_PRIVATE_KEY,
-    });
-
-    const data = await client.createAppClientForTenant(userClaims, teamId, tenantName, body);
-    return NextResponse.json(data, { status: 201 });
-  } catch (error: unknown) {
-    console.error('Error creating app client for tenant:', error);
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    if (message.includes('Unauthorized')) {
-      return NextResponse.json({ error: 'Unauthorized', details: 'Please sign in' }, { status: 401 });
-    }
-    return NextResponse.json({ error: 'Failed to create app client', details: message }, { status: 500 });
-  }
-}
+export const POST = createHandler(
+  { name: 'create app client', params, body: z.record(z.unknown()), status: 201 },
+  ({ params, body, claims, client }) => client.createAppClientForTenant(claims, params.teamId, params.tenantName, body)
+);
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+
+export const DELETE = createHandler(
+  {
+    name: 'remove group member',
+    params: z.object({
+      teamId: z.string().min(1),
+      tenantName: z.string().min(1),
+      groupId: z.string().min(1),
+      userId: z.string().min(1),
+    }),
+  },
+  async ({ params, claims, client }) => {
+    await client.removeGroupMember(claims, params.teamId, params.tenantName, params.groupId, params.userId);
+  }
+);
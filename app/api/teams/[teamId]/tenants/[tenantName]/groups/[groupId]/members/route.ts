@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+import { MAX_MEMBERS_PER_ADD } from '@/lib/api/groups';
+
+const params = z.object({
+  teamId: z.string().min(1),
+  tenantName: z.string().min(1),
+  groupId: z.string().min(1),
+});
+
+export const GET = createHandler(
+  {
+    name: 'fetch group members',
+    params,
+    query: z.object({
+      cursor: z.string().min(1).optional(),
+      limit: z.coerce.number().int().min(1).max(100).optional(),
+    }),
+  },
+  ({ params, query, claims, client }) =>
+    client.listGroupMembers(claims, params.teamId, params.tenantName, params.groupId, query)
+);
+
+export const POST = createHandler(
+  {
+    name: 'add group members',
+    params,
+    body: z
+      .object({
+        user_ids: z.array(z.string().trim().min(1)).max(MAX_MEMBERS_PER_ADD).optional(),
+        emails: z.array(z.string().trim().email()).max(MAX_MEMBERS_PER_ADD).optional(),
+      })
+      .refine((body) => (body.user_ids?.length ?? 0) + (body.emails?.length ?? 0) > 0, 'No users to add'),
+  },
+  ({ params, body, claims, client }) =>
+    client.addGroupMembers(claims, params.teamId, params.tenantName, params.groupId, body)
+);
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+import { GROUP_NAME_HINT, GROUP_NAME_PATTERN } from '@/lib/api/groups';
+
+const params = z.object({
+  teamId: z.string().min(1),
+  tenantName: z.string().min(1),
+  groupId: z.string().min(1),
+});
+
+export const GET = createHandler(
+  { name: 'fetch group', params },
+  ({ params, claims, client }) => client.getTenantGroup(claims, params.teamId, params.tenantName, params.groupId)
+);
+
+export const PATCH = createHandler(
+  {
+    name: 'update group',
+    params,
+    body: z
+      .object({
+        name: z.string().trim().regex(GROUP_NAME_PATTERN, GROUP_NAME_HINT).optional(),
+        description: z.string().trim().max(500).optional(),
+      })
+      .refine((body) => Object.keys(body).length > 0, 'Nothing to update'),
+  },
+  ({ params, body, claims, client }) =>
+    client.updateTenantGroup(claims, params.teamId, params.tenantName, params.groupId, body)
+);
+
+export const DELETE = createHandler(
+  { name: 'delete group', params },
+  async ({ params, claims, client }) => {
+    await client.deleteTenantGroup(claims, params.teamId, params.tenantName, params.groupId);
+  }
+);
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+import { GROUP_NAME_HINT, GROUP_NAME_PATTERN } from '@/lib/api/groups';
+
+const params = z.object({ teamId: z.string().min(1), tenantName: z.string().min(1) });
+
+export const GET = createHandler(
+  { name: 'fetch groups', params },
+  ({ params, claims, client }) => client.listTenantGroups(claims, params.teamId, params.tenantName)
+);
+
+export const POST = createHandler(
+  {
+    name: 'create group',
+    params,
+    body: z.object({
+      name: z.string().trim().regex(GROUP_NAME_PATTERN, GROUP_NAME_HINT),
+      description: z.string().trim().max(500).optional(),
+    }),
+    status: 201,
+  },
+  ({ params, body, claims, client }) => client.createTenantGroup(claims, params.teamId, params.tenantName, body)
+);
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+
+const params = z.object({
+  teamId: z.string().min(1),
+  tenantName: z.string().min(1),
+  userId: z.string().min(1),
+});
+
+export const GET = createHandler(
+  { name: 'fetch user', params },
+  ({ params, claims, client }) => client.getTenantUser(claims, params.teamId, params.tenantName, params.userId)
+);
+
+export const PATCH = createHandler(
+  {
+    name: 'update user',
+    params,
+    body: z
+      .object({ disabled: z.boolean().optional(), name: z.string().trim().max(200).optional() })
+      .refine((body) => Object.keys(body).length > 0, 'Nothing to update'),
+  },
+  ({ params, body, claims, client }) =>
+    client.updateTenantUser(claims, params.teamId, params.tenantName, params.userId, body)
+);
+
+export const DELETE = createHandler(
+  { name: 'delete user', params },
+  async ({ params, claims, client }) => {
+    await client.deleteTenantUser(claims, params.teamId, params.tenantName, params.userId);
+  }
+);
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+
+// Forced sign-out: revokes the user's refresh tokens
+export const DELETE = createHandler(
+  {
+    name: 'sign out user',
+    params: z.object({ teamId: z.string().min(1), tenantName: z.string().min(1), userId: z.string().min(1) }),
+  },
+  ({ params, claims, client }) =>
+    client.revokeTenantUserSessions(claims, params.teamId, params.tenantName, params.userId)
+);
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+
+export const POST = createHandler(
+  {
+    name: 'invite user',
+    params: z.object({ teamId: z.string().min(1), tenantName: z.string().min(1) }),
+    body: z.object({
+      email: z.string().trim().email('A valid email is required'),
+      client_id: z.string().min(1).optional(),
+      name: z.string().trim().max(200).optional(),
+    }),
+    status: 201,
+  },
+  ({ params, body, claims, client }) => client.inviteTenantUser(claims, params.teamId, params.tenantName, body)
+);
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { createHandler } from '@/app/api/_handler';
+
+export const GET = createHandler(
+  {
+    name: 'fetch users',
+    params: z.object({ teamId: z.string().min(1), tenantName: z.string().min(1) }),
+    query: z.object({
+      q: z.string().trim().max(200).optional(),
+      client_id: z.string().min(1).optional(),
+      status: z.enum(['active', 'disabled', 'invited']).optional(),
+      cursor: z.string().min(1).optional(),
+      limit: z.coerce.number().int().min(1).max(100).optional(),
+    }),
+  },
+  ({ params, query, claims, client }) => client.listTenantUsers(claims, params.teamId, params.tenantName, query)
+);
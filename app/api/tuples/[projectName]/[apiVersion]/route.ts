@@ -0,0 +1,164 @@
+import { z } from 'zod';
+import { createHandler, HttpProblem } from '@/app/api/_handler';
+import type { StoredTuple, TupleIssue, TupleKey } from '@/lib/api/tuples';
+import { MAX_TUPLES_PER_WRITE } from '@/lib/api/tuples';
+import type { OpenFGAModel } from '@/lib/openfga';
+import { tupleProblem } from '@/lib/openfga-evaluator';
+import {
+  assertOwnership,
+  policiesApiBase,
+  policiesFetch,
+  policiesProblem,
+  projectParams,
+} from '@/app/api/route-configs/_utils';
+
+// ─── Relationship tuples ─────────────────────────────────────────────────────
+// Proxies the tenant's OpenFGA store in policies-api:
+//   GET  /tuples  → paginated read, optionally filtered by user / relation / object
+//   POST /tuples  → one transactional write of { writes, deletes }
+// Writes are validated against the tenant's current model first so the editor can
+// show per-tuple errors instead of OpenFGA's first-failure message.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const MAX_PAGE_SIZE = 100;
+
+const tenantQuery = z.object({ tenantId: z.string({ required_error: 'tenantId is required' }).min(1, 'tenantId is required') });
+
+function tuplesUrl(projectName: string, apiVersion: string, query: Record<string, string>): string {
+  const search = new URLSearchParams({ api_version: apiVersion, ...query });
+  return `${policiesApiBase(projectName)}/tuples?${search}`;
+}
+
+function isTupleKey(value: unknown): value is TupleKey {
+  const t = value as Record<string, unknown> | null;
+  return (
+    !!t &&
+    typeof t.user === 'string' && t.user.trim() !== '' &&
+    typeof t.relation === 'string' && t.relation.trim() !== '' &&
+    typeof t.object === 'string' && t.object.trim() !== ''
+  );
+}
+
+const trimTuple = ({ user, relation, object }: TupleKey): TupleKey => ({
+  user: user.trim(),
+  relation: relation.trim(),
+  object: object.trim(),
+});
+
+export const GET = createHandler(
+  {
+    name: 'read tuples',
+    params: projectParams,
+    query: tenantQuery.extend({
+      user: z.string().optional(),
+      relation: z.string().optional(),
+      object: z.string().optional(),
+      continuation_token: z.string().optional(),
+      page_size: z.coerce
+        .number()
+        .int()
+        .min(1, `page_size must be between 1 and ${MAX_PAGE_SIZE}`)
+        .max(MAX_PAGE_SIZE, `page_size must be between 1 and ${MAX_PAGE_SIZE}`)
+        .default(50),
+    }),
+  },
+  async ({ params: { projectName, apiVersion }, query: { tenantId, page_size, ...filters }, claims, client }) => {
+    await assertOwnership(client, claims, projectName, apiVersion);
+
+    const query: Record<string, string> = { tenantId, page_size: String(page_size) };
+    for (const [key, value] of Object.entries(filters)) {
+      if (value?.trim()) query[key] = value.trim();
+    }
+
+    const res = await policiesFetch(tuplesUrl(projectName, apiVersion, query));
+    // No store yet for this tenant: nothing has been written
+    if (res.status === 404) return { tuples: [], continuation_token: null };
+    if (!res.ok) throw await policiesProblem(res, 'Failed to read tuples');
+
+    // OpenFGA Read response: { tuples: [{ key, timestamp }], continuation_token }
+    const data = (await res.json()) as {
+      tuples?: { key: TupleKey; timestamp?: string }[];
+      continuation_token?: string;
+    };
+    const tuples: StoredTuple[] = (data.tuples ?? []).map(({ key, timestamp }) => ({
+      user: key.user,
+      relation: key.relation,
+      object: key.object,
+      timestamp,
+    }));
+    return { tuples, continuation_token: data.continuation_token || null };
+  }
+);
+
+export const POST = createHandler(
+  {
+    name: 'write tuples',
+    params: projectParams,
+    query: tenantQuery,
+    // Entries are checked one by one below so the editor gets per-tuple issues
+    body: z.object({
+      writes: z.array(z.unknown(), { invalid_type_error: 'writes and deletes must be arrays' }).default([]),
+      deletes: z.array(z.unknown(), { invalid_type_error: 'writes and deletes must be arrays' }).default([]),
+    }),
+  },
+  async ({ params: { projectName, apiVersion }, query: { tenantId }, body: { writes, deletes }, claims, client }) => {
+    await assertOwnership(client, claims, projectName, apiVersion);
+
+    if (writes.length + deletes.length === 0) {
+      throw new HttpProblem(400, 'validation_failed', 'Nothing to write');
+    }
+    if (writes.length + deletes.length > MAX_TUPLES_PER_WRITE) {
+      throw new HttpProblem(
+        400,
+        'validation_failed',
+        `At most ${MAX_TUPLES_PER_WRITE} tuples can be written or deleted per request`
+      );
+    }
+
+    const issues: TupleIssue[] = [];
+    writes.forEach((t, index) => {
+      if (!isTupleKey(t)) issues.push({ index, operation: 'write', message: 'user, relation and object are required' });
+    });
+    deletes.forEach((t, index) => {
+      if (!isTupleKey(t)) issues.push({ index, operation: 'delete', message: 'user, relation and object are required' });
+    });
+    if (issues.length > 0) throw new HttpProblem(400, 'validation_failed', 'Invalid tuples', undefined, { issues });
+    const trimmedWrites = (writes as TupleKey[]).map(trimTuple);
+    const trimmedDeletes = (deletes as TupleKey[]).map(trimTuple);
+
+    // Deletes are not checked against the model: removing a tuple the model no longer allows must work
+    if (writes.length > 0) {
+      const modelUrl = `${policiesApiBase(projectName)}/model?api_version=${encodeURIComponent(apiVersion)}&tenantId=${encodeURIComponent(tenantId)}`;
+      const modelRes = await policiesFetch(modelUrl);
+      if (modelRes.status === 404) {
+        throw new HttpProblem(409, 'conflict', 'Add an authorization model before writing tuples');
+      }
+      if (!modelRes.ok) {
+        const problem = await policiesProblem(modelRes, 'Failed to load the model');
+        throw new HttpProblem(502, 'upstream_error', problem.title);
+      }
+      const { model } = (await modelRes.json()) as { model: OpenFGAModel };
+      trimmedWrites.forEach((t, index) => {
+        const problem = tupleProblem(model, t);
+        if (problem) issues.push({ index, operation: 'write', message: problem });
+      });
+      if (issues.length > 0) {
+        throw new HttpProblem(400, 'validation_failed', 'Some tuples do not match the authorization model', undefined, {
+          issues,
+        });
+      }
+    }
+
+    const res = await policiesFetch(tuplesUrl(projectName, apiVersion, { tenantId }), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      // OpenFGA Write request shape
+      body: JSON.stringify({
+        ...(writes.length > 0 && { writes: { tuple_keys: trimmedWrites } }),
+        ...(deletes.length > 0 && { deletes: { tuple_keys: trimmedDeletes } }),
+      }),
+    });
+    if (!res.ok) throw await policiesProblem(res, 'Failed to write tuples');
+    return { written: writes.length, deleted: deletes.length };
+  }
+);
@@ -5,6 +5,7 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import { Loader2, AlertCircle } from 'lucide-react';
 import { useAuthStore } from '@/store/auth';
 import { verifyGitHubToken } from '@/lib/auth';
+import { safeReturnUrl } from '@/lib/return-url';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 
@@ -22,7 +23,7 @@ function CallbackContent() {
         // Extract code and error from URL parameters (OAuth 2.0 standard)
         const code = searchParams.get('code');
         const errorParam = searchParams.get('error');
-        const returnUrl = searchParams.get('returnUrl') || '/dashboard';
+        const returnUrl = safeReturnUrl(searchParams.get('returnUrl'));
         
         if (errorParam) {
           setError(`Authentication failed: ${errorParam}`);
@@ -1,11 +1,12 @@
 'use client';
 
-import { Suspense, useEffect } from 'react';
+import { Suspense, useEffect, useState } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { useSession, signIn } from 'next-auth/react';
-import { Github, Loader2 } from 'lucide-react';
+import { useSession, signIn, getProviders } from 'next-auth/react';
+import { Github, Laptop, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { safeReturnUrl } from '@/lib/return-url';
 
 function LoginContent() {
   const router = useRouter();
@@ -15,15 +16,28 @@ function LoginContent() {
   // Redirect if already authenticated
   useEffect(() => {
     if (status === 'authenticated') {
-      const returnUrl = searchParams.get('returnUrl') || '/dashboard';
+      const returnUrl = safeReturnUrl(searchParams.get('returnUrl'));
       router.push(returnUrl);
     }
   }, [status, router, searchParams]);
-  
+
+  // Offered only when the server registered the local provider (see lib/next-auth.ts)
+  const [localSignIn, setLocalSignIn] = useState(false);
+  useEffect(() => {
+    getProviders()
+      .then((providers) => setLocalSignIn(!!providers?.local))
+      .catch(() => setLocalSignIn(false));
+  }, []);
+
   const handleLogin = () => {
-    const returnUrl = searchParams.get('returnUrl') || '/dashboard';
+    const returnUrl = safeReturnUrl(searchParams.get('returnUrl'));
     signIn('github', { callbackUrl: returnUrl });
   };
+
+  const handleLocalLogin = () => {
+    const returnUrl = safeReturnUrl(searchParams.get('returnUrl'));
+    signIn('local', { callbackUrl: returnUrl });
+  };
   
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-white to-purple-50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800 p-4">
@@ -64,6 +78,18 @@ function LoginContent() {
             <Github className="mr-2 h-5 w-5" />
             Sign in with GitHub
           </Button>
+
+          {localSignIn && (
+            <Button
+              onClick={handleLocalLogin}
+              variant="outline"
+              className="w-full h-12 text-base"
+              size="lg"
+            >
+              <Laptop className="mr-2 h-5 w-5" />
+              Sign in as local developer
+            </Button>
+          )}
           
           <div className="text-center text-sm text-muted-foreground">
             Secure authentication via OAuth 2.0
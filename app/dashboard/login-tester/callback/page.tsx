@@ -0,0 +1,283 @@
+'use client';
+
+import { useEffect, useRef, useState, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { Loader2, Zap, ArrowLeft, CheckCircle2, XCircle, AlertTriangle, Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { DashboardShell } from '@/components/dashboard-shell';
+import { api } from '@/lib/api';
+import {
+  analyzeLoginTest,
+  checkCallbackUrl,
+  checkTargetServerToken,
+  explainAuthorizeError,
+  takePendingLoginTest,
+  type LoginTestFinding,
+  type PendingLoginTest,
+} from '@/lib/login-tester';
+import { decodeJwt } from '@/lib/token-inspector';
+import { useToast } from '@/hooks/use-toast';
+import type { AppClient, LoginTestExchangeResult } from '@/types/auth-config';
+
+const FINDING_ICONS: Record<LoginTestFinding['level'], React.ReactNode> = {
+  ok: <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0 mt-0.5" />,
+  warning: <AlertTriangle className="h-4 w-4 text-amber-600 shrink-0 mt-0.5" />,
+  error: <XCircle className="h-4 w-4 text-red-600 shrink-0 mt-0.5" />,
+};
+
+const TOKEN_FIELDS = ['access_token', 'id_token', 'refresh_token'] as const;
+
+function decodedClaims(token: string): Record<string, unknown> | null {
+  try {
+    return decodeJwt(token).claims;
+  } catch {
+    return null;
+  }
+}
+
+function LoginTesterCallbackContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { data: session } = useSession();
+  const { toast } = useToast();
+  const user = session?.user as { id?: string; githubHandle?: string } | undefined;
+
+  const [pending, setPending] = useState<PendingLoginTest | null>(null);
+  const [result, setResult] = useState<LoginTestExchangeResult | null>(null);
+  const [findings, setFindings] = useState<LoginTestFinding[]>([]);
+  const [fatal, setFatal] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  // The code is single-use: never exchange it twice (e.g. when effects run twice in development)
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (handled.current) return;
+    handled.current = true;
+    const state = searchParams.get('state');
+    const code = searchParams.get('code');
+    const error = searchParams.get('error');
+
+    (async () => {
+      try {
+        const test = state ? takePendingLoginTest(state) : null;
+        if (!test) {
+          setFatal(
+            'This callback does not belong to a test login started from this browser in the last 10 minutes (unknown or missing state). Start the test again from the app client page.'
+          );
+          return;
+        }
+        setPending(test);
+        const [appClient, providers] = await Promise.all([
+          api.getAppClientByTenant(test.teamId, test.tenantName, test.appClientId),
+          api.listProvidersByTenant(test.teamId, test.tenantName, test.appClientId).catch(() => []),
+        ]);
+        const client: AppClient = {
+          ...appClient,
+          clientId: appClient.clientId ?? appClient.client_id ?? test.clientId,
+          authorizedCallbackUrls: appClient.authorizedCallbackUrls ?? appClient.authorized_callback_urls ?? [],
+          scopes: appClient.scopes ?? [],
+        };
+
+        if (error || !code) {
+          const used = test.provider ? providers.filter((p) => p.type === test.provider) : providers;
+          setFindings([
+            explainAuthorizeError(error ?? 'missing_code', searchParams.get('error_description')),
+            checkCallbackUrl(client, test.redirectUri),
+            ...used.map(checkTargetServerToken),
+          ]);
+          return;
+        }
+        const exchanged = await api.exchangeLoginTestCode(test.teamId, test.tenantName, test.appClientId, {
+          code,
+          code_verifier: test.codeVerifier,
+          redirect_uri: test.redirectUri,
+        });
+        setResult(exchanged);
+        setFindings(await analyzeLoginTest(test, client, providers, exchanged));
+      } catch (e) {
+        setFatal(e instanceof Error ? e.message : 'The test login could not be completed');
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [searchParams]);
+
+  const backUrl = pending
+    ? `/dashboard/tenants?tenant=${encodeURIComponent(pending.tenantName)}&client=${encodeURIComponent(pending.appClientId)}`
+    : '/dashboard/tenants';
+
+  const handleCopy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: 'Copied', description: 'Copied to clipboard' });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to copy to clipboard. Please try again.', variant: 'destructive' });
+    }
+  };
+
+  const errors = findings.filter((f) => f.level === 'error').length;
+  const tokenBody = result?.token.body ?? {};
+
+  return (
+    <DashboardShell
+      selectorValue={{ type: 'team' }}
+      onSelectorChange={() => {}}
+      githubHandle={user?.githubHandle}
+      teamId={user?.id ? `team_${user.id}` : undefined}
+      userId={user?.id}
+    >
+      <main className="w-full px-4 py-8">
+        <div className="container mx-auto max-w-6xl space-y-6">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={() => router.push(backUrl)}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to app client
+            </Button>
+            <div>
+              <h2 className="text-2xl font-bold">Test Login Result</h2>
+              {pending && (
+                <p className="text-muted-foreground text-sm mt-1">
+                  App client <code className="font-mono">{pending.clientId}</code> · tenant{' '}
+                  <code className="font-mono">{pending.tenantName}</code>
+                  {pending.provider && <> · provider {pending.provider}</>}
+                </p>
+              )}
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : fatal ? (
+            <Card className="border-red-300">
+              <CardContent className="flex items-start gap-2 pt-6 text-sm">
+                <XCircle className="h-4 w-4 text-red-600 shrink-0 mt-0.5" />
+                <p>{fatal}</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm font-medium flex items-center gap-2">
+                    Checks
+                    {errors === 0 ? (
+                      <Badge variant="outline" className="text-green-600 border-green-300 bg-green-50">
+                        Login works
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-red-600 border-red-300 bg-red-50">
+                        {errors} problem{errors === 1 ? '' : 's'}
+                      </Badge>
+                    )}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {findings.map((finding, i) => (
+                    <div key={i} className="flex items-start gap-2 text-sm">
+                      {FINDING_ICONS[finding.level]}
+                      <div className="min-w-0">
+                        <span className="font-medium">{finding.title}</span>
+                        <p className="text-xs text-muted-foreground break-words">{finding.detail}</p>
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+
+              {result && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-sm font-medium">Tokens</CardTitle>
+                    <CardDescription>
+                      Token endpoint answered HTTP {result.token.status}. These are real tokens for your account; do not
+                      share them.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {TOKEN_FIELDS.filter((field) => typeof tokenBody[field] === 'string').map((field) => {
+                      const value = tokenBody[field] as string;
+                      const claims = field === 'refresh_token' ? null : decodedClaims(value);
+                      return (
+                        <div key={field} className="space-y-1">
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium font-mono">{field}</span>
+                            <Button variant="ghost" size="sm" onClick={() => handleCopy(value)}>
+                              <Copy className="h-4 w-4" />
+                            </Button>
+                          </div>
+                          <code className="block text-xs font-mono break-all bg-muted px-2 py-1 rounded max-h-24 overflow-y-auto">
+                            {value}
+                          </code>
+                          {claims && (
+                            <pre className="text-xs font-mono bg-muted/50 px-2 py-1 rounded overflow-x-auto">
+                              {JSON.stringify(claims, null, 2)}
+                            </pre>
+                          )}
+                        </div>
+                      );
+                    })}
+                    {result.token.status >= 300 && (
+                      <pre className="text-xs font-mono bg-muted/50 px-2 py-1 rounded overflow-x-auto">
+                        {JSON.stringify(tokenBody, null, 2)}
+                      </pre>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              {result?.userinfo && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-sm font-medium">Userinfo</CardTitle>
+                    <CardDescription>HTTP {result.userinfo.status}</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <pre className="text-xs font-mono bg-muted/50 px-2 py-1 rounded overflow-x-auto">
+                      {JSON.stringify(result.userinfo.body, null, 2)}
+                    </pre>
+                  </CardContent>
+                </Card>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </DashboardShell>
+  );
+}
+
+export default function LoginTesterCallbackPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800">
+          <header className="border-b bg-white/80 dark:bg-gray-950/80 backdrop-blur-sm sticky top-0 z-50">
+            <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <div className="w-10 h-10 bg-gradient-to-br from-blue-600 to-purple-600 rounded-xl flex items-center justify-center">
+                  <Zap className="w-6 h-6 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold">APIBlaze v3.0</h1>
+                  <p className="text-xs text-muted-foreground">Test Login</p>
+                </div>
+              </div>
+            </div>
+          </header>
+          <main className="container mx-auto px-4 py-8">
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          </main>
+        </div>
+      }
+    >
+      <LoginTesterCallbackContent />
+    </Suspense>
+  );
+}
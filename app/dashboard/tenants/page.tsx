@@ -66,11 +66,13 @@ function TenantsContent() {
       try {
         setLoading(true);
         const res = await api.getTeamTenants(teamId, true);
-        if (Array.isArray(res.tenants) && res.tenants.length > 0 && typeof res.tenants[0] === 'object') {
-          setTenants(res.tenants as TenantDetail[]);
-        } else {
-          setTenants([]);
-        }
+        setTenants(
+          res.tenants.map((t) => ({
+            ...t,
+            app_clients_count: t.app_clients_count ?? 0,
+            proxies: t.proxies ?? [],
+          }))
+        );
       } catch {
         setTenants([]);
       } finally {
@@ -131,11 +131,7 @@ export function AuthConfigModal({
   useEffect(() => {
     if (open && teamId) {
       api.getTeamTenants(teamId).then((res) => {
-        const t = res.tenants;
-        const names = Array.isArray(t) && t.length > 0
-          ? (typeof t[0] === 'string' ? (t as string[]) : (t as { tenant_name: string }[]).map((x) => x.tenant_name))
-          : [];
-        setTenantOptions(names);
+        setTenantOptions(res.tenants.map((t) => t.tenant_name));
       }).catch(() => setTenantOptions([]));
     } else {
       setTenantOptions([]);
@@ -16,6 +16,9 @@ import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip
 import { ProviderList } from './provider-list';
 import { UsersList } from './users-list';
 import { GroupsList } from './groups-list';
+import { ClientSecretRotation } from './client-secret-rotation';
+import { TokenInspector } from './token-inspector';
+import { LoginTester } from './login-tester';
 import { AppClientFormDialog } from './app-client-form-dialog';
 import {
   Dialog,
@@ -415,7 +418,7 @@ export function AppClientDetail({ authConfigId, teamId, tenantName, clientId, on
           <Card>
             <CardHeader>
               <CardTitle className="text-sm font-medium">Client Secret</CardTitle>
-              <CardDescription>Reveal only when needed. Never share or log.</CardDescription>
+              <CardDescription>Reveal only when needed. Never share or log. Rotate with a grace period to avoid downtime.</CardDescription>
             </CardHeader>
             <CardContent>
               {revealedSecret !== null ? (
@@ -450,6 +453,14 @@ export function AppClientDetail({ authConfigId, teamId, tenantName, clientId, on
                   {loadingReveal ? 'Loading...' : 'Reveal'}
                 </Button>
               )}
+              {isTenantMode && teamId && tenantName && (
+                <ClientSecretRotation
+                  teamId={teamId}
+                  tenantName={tenantName}
+                  clientId={clientId}
+                  onRotated={setRevealedSecret}
+                />
+              )}
             </CardContent>
           </Card>
 
@@ -634,17 +645,31 @@ export function AppClientDetail({ authConfigId, teamId, tenantName, clientId, on
           />
         </div>
 
-        {/* Users Section (per app client) - only in auth-config mode */}
-        {false && (
+        {/* Test Login (full authorization-code + PKCE flow through the dashboard's callback) */}
+        {isTenantMode && teamId && tenantName && (
+        <div>
+          <LoginTester teamId={teamId} tenantName={tenantName} appClient={appClient} onRefresh={handleSuccess} />
+        </div>
+        )}
+
+        {/* Token Inspector (checks pasted tokens against this app client's JWKS) */}
+        {isTenantMode && tenantName && (
+        <div>
+          <TokenInspector appClient={appClient} tenantName={tenantName} />
+        </div>
+        )}
+
+        {/* Users Section (users who signed in through this app client) */}
+        {isTenantMode && teamId && tenantName && (
         <div>
-          <UsersList authConfigId={tenantName ?? ''} clientId={clientId} onRefresh={() => invalidateAndRefetch()} />
+          <UsersList teamId={teamId} tenantName={tenantName} clientId={clientId} />
         </div>
         )}
 
-        {/* Groups Section (per app client) - only in auth-config mode */}
-        {false && (
+        {/* Groups Section (tenant groups and the scopes this app client grants them) */}
+        {isTenantMode && teamId && tenantName && (
         <div>
-          <GroupsList authConfigId={tenantName ?? ''} clientId={clientId} onRefresh={() => invalidateAndRefetch()} />
+          <GroupsList teamId={teamId} tenantName={tenantName} appClient={appClient} onRefresh={handleSuccess} />
         </div>
         )}
       </div>
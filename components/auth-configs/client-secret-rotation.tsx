@@ -0,0 +1,253 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { api } from '@/lib/api';
+import { SECRET_GRACE_PERIODS } from '@/lib/api/app-client-secrets';
+import { useToast } from '@/hooks/use-toast';
+import type { AppClientSecretInfo } from '@/types/auth-config';
+
+interface ClientSecretRotationProps {
+  teamId: string;
+  tenantName: string;
+  clientId: string;
+  /** Receives the new secret so the caller can show it once */
+  onRotated: (clientSecret: string) => void;
+}
+
+const DEFAULT_GRACE_PERIOD_SECONDS = 7 * 24 * 60 * 60;
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString();
+}
+
+function formatRemaining(expiresAt: string): string {
+  const ms = new Date(expiresAt).getTime() - Date.now();
+  if (ms <= 0) return 'expired';
+  const hours = Math.floor(ms / 3_600_000);
+  if (hours >= 48) return `${Math.floor(hours / 24)} days left`;
+  if (hours >= 1) return `${hours}h left`;
+  return `${Math.max(1, Math.floor(ms / 60_000))}min left`;
+}
+
+/**
+ * Secret rotation with overlap: the replaced secret keeps working for a grace period so
+ * deployed clients can switch over without downtime, and can be revoked early once they have.
+ */
+export function ClientSecretRotation({ teamId, tenantName, clientId, onRotated }: ClientSecretRotationProps) {
+  const { toast } = useToast();
+  const [secrets, setSecrets] = useState<AppClientSecretInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [rotateDialogOpen, setRotateDialogOpen] = useState(false);
+  const [gracePeriod, setGracePeriod] = useState(DEFAULT_GRACE_PERIOD_SECONDS);
+  const [rotating, setRotating] = useState(false);
+  const [revokeTarget, setRevokeTarget] = useState<AppClientSecretInfo | null>(null);
+  const [revoking, setRevoking] = useState(false);
+
+  const loadSecrets = useCallback(async () => {
+    try {
+      setLoading(true);
+      setSecrets(await api.listAppClientSecrets(teamId, tenantName, clientId));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load client secrets',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [teamId, tenantName, clientId, toast]);
+
+  useEffect(() => {
+    loadSecrets();
+  }, [loadSecrets]);
+
+  const previous = secrets.find((s) => s.status === 'previous');
+
+  const handleRotate = async () => {
+    try {
+      setRotating(true);
+      const result = await api.rotateAppClientSecret(teamId, tenantName, clientId, gracePeriod);
+      setSecrets(result.secrets);
+      onRotated(result.clientSecret);
+      const replaced = result.secrets.find((s) => s.status === 'previous');
+      toast({
+        title: 'Secret rotated',
+        description: replaced?.expires_at
+          ? `Deploy the new secret to your clients. The old one stops working ${formatDate(replaced.expires_at)}.`
+          : 'The old secret no longer works. Deploy the new one to your clients now.',
+      });
+      setRotateDialogOpen(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to rotate client secret',
+        variant: 'destructive',
+      });
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  const handleRevokeConfirm = async () => {
+    if (!revokeTarget) return;
+    try {
+      setRevoking(true);
+      await api.revokeAppClientSecret(teamId, tenantName, clientId, revokeTarget.id);
+      setSecrets((prev) => prev.filter((s) => s.id !== revokeTarget.id));
+      toast({
+        title: 'Success',
+        description: 'The previous secret no longer works',
+      });
+      setRevokeTarget(null);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to revoke client secret',
+        variant: 'destructive',
+      });
+    } finally {
+      setRevoking(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="mt-4 space-y-2 border-t pt-4">
+        {loading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : (
+          secrets.map((secret) => (
+            <div key={secret.id} className="flex items-center justify-between gap-2 text-xs">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <code className="font-mono">••••{secret.hint}</code>
+                  <Badge
+                    variant="outline"
+                    className={
+                      secret.status === 'current'
+                        ? 'text-green-600 border-green-300 bg-green-50'
+                        : 'text-amber-600 border-amber-300 bg-amber-50'
+                    }
+                  >
+                    {secret.status === 'current' ? 'Current' : 'Previous'}
+                  </Badge>
+                </div>
+                <div className="text-muted-foreground">
+                  Created {formatDate(secret.created_at)}
+                  {' · '}
+                  {secret.expires_at
+                    ? `Expires ${formatDate(secret.expires_at)} (${formatRemaining(secret.expires_at)})`
+                    : 'No expiry'}
+                </div>
+              </div>
+              {secret.status === 'previous' && (
+                <Button variant="ghost" size="sm" onClick={() => setRevokeTarget(secret)} title="Revoke now">
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setRotateDialogOpen(true)}
+          disabled={loading || !!previous}
+          title={previous ? 'Revoke the previous secret or wait for it to expire before rotating again' : undefined}
+        >
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Rotate Secret
+        </Button>
+      </div>
+
+      {/* Rotate Dialog */}
+      <Dialog open={rotateDialogOpen} onOpenChange={setRotateDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rotate Client Secret?</DialogTitle>
+            <DialogDescription>
+              A new secret is issued and shown once. Both secrets work during the grace period, so you can deploy the
+              new one to every client before the old one stops working.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="secret-grace-period">Keep the old secret valid for</Label>
+            <Select value={String(gracePeriod)} onValueChange={(value) => setGracePeriod(Number(value))}>
+              <SelectTrigger id="secret-grace-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SECRET_GRACE_PERIODS.map((option) => (
+                  <SelectItem key={option.seconds} value={String(option.seconds)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {gracePeriod === 0 && (
+              <p className="text-xs text-red-600">Clients still using the old secret fail to sign in right away.</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRotateDialogOpen(false)} disabled={rotating}>
+              Cancel
+            </Button>
+            <Button onClick={handleRotate} disabled={rotating}>
+              {rotating ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Rotating...
+                </>
+              ) : (
+                'Rotate'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Revoke Confirmation Dialog */}
+      <Dialog open={!!revokeTarget} onOpenChange={(open) => !open && setRevokeTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revoke Previous Secret?</DialogTitle>
+            <DialogDescription>
+              Secret ••••{revokeTarget?.hint} stops working immediately instead of
+              {revokeTarget?.expires_at ? ` at ${formatDate(revokeTarget.expires_at)}` : ' at the end of its grace period'}.
+              Only do this once every client uses the current secret.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevokeTarget(null)} disabled={revoking}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleRevokeConfirm} disabled={revoking}>
+              {revoking ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Revoking...
+                </>
+              ) : (
+                'Revoke'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,65 +1,643 @@
 'use client';
 
+import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { UserCog, Plus } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, UserCog, Plus, MoreVertical, Pencil, Users, KeyRound, Trash2, X } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { api } from '@/lib/api';
+import { GROUP_NAME_HINT, GROUP_NAME_PATTERN, importGroupMembers, parseMemberList } from '@/lib/api/groups';
+import { useToast } from '@/hooks/use-toast';
+import type { AppClient, EndUser, Group } from '@/types/auth-config';
 
 interface GroupsListProps {
-  authConfigId: string;
-  clientId?: string;
+  teamId: string;
+  tenantName: string;
+  /** When set, also edit which of this client's scopes each group grants */
+  appClient?: AppClient | null;
+  /** Called after the app client's group scopes were saved */
   onRefresh?: () => void;
 }
 
-export function GroupsList({ authConfigId, clientId }: GroupsListProps) {
-  // TODO: Implement groups management when backend API is available (per app client)
-  const scopeLabel = clientId ? 'app client' : 'auth config';
+const MEMBERS_PAGE_SIZE = 25;
 
-  return (
-    <div className="space-y-6">
-      {/* Header */}
-      <div className="flex items-center justify-between">
-        <div>
-          <h3 className="text-lg font-semibold">Groups</h3>
-          <p className="text-muted-foreground text-sm mt-1">
-            Manage groups for this {scopeLabel}
-          </p>
-        </div>
-        <Button disabled>
-          <Plus className="mr-2 h-4 w-4" />
-          Add Group
-        </Button>
-      </div>
+export function GroupsList({ teamId, tenantName, appClient, onRefresh }: GroupsListProps) {
+  const { toast } = useToast();
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyGroupId, setBusyGroupId] = useState<string | null>(null);
 
-      {/* Placeholder */}
-      <Card className="border-2 border-dashed">
-        <CardContent className="flex flex-col items-center justify-center py-12">
-          <UserCog className="h-12 w-12 text-muted-foreground mb-4" />
-          <h3 className="text-lg font-semibold mb-2">Groups Management</h3>
-          <p className="text-muted-foreground text-center mb-4">
-            Group management functionality will be available once the backend API is implemented.
-          </p>
-          <p className="text-sm text-muted-foreground">
-            Auth Config: <code className="font-mono">{authConfigId}</code>
-            {clientId && (
-              <> · App Client: <code className="font-mono">{clientId}</code></>
-            )}
-          </p>
-        </CardContent>
-      </Card>
-    </div>
-  );
-}
+  const [formDialogOpen, setFormDialogOpen] = useState(false);
+  const [editingGroup, setEditingGroup] = useState<Group | null>(null);
+  const [formName, setFormName] = useState('');
+  const [formDescription, setFormDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [selectedGroup, setSelectedGroup] = useState<Group | null>(null);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+
+  const [membersDialogOpen, setMembersDialogOpen] = useState(false);
+  const [members, setMembers] = useState<EndUser[]>([]);
+  const [membersCursor, setMembersCursor] = useState<string | null>(null);
+  const [membersLoading, setMembersLoading] = useState(false);
+  const [removingUserId, setRemovingUserId] = useState<string | null>(null);
+  const [importText, setImportText] = useState('');
+  const [importProgress, setImportProgress] = useState<{ processed: number; total: number } | null>(null);
+
+  const [scopesDialogOpen, setScopesDialogOpen] = useState(false);
+  const [selectedScopes, setSelectedScopes] = useState<string[]>([]);
+  const [savingScopes, setSavingScopes] = useState(false);
+
+  const loadGroups = useCallback(async () => {
+    try {
+      setLoading(true);
+      setGroups(await api.listTenantGroups(teamId, tenantName));
+    } catch (error) {
+      setGroups([]);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load groups',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [teamId, tenantName, toast]);
+
+  useEffect(() => {
+    loadGroups();
+  }, [loadGroups]);
+
+  const replaceGroup = (updated: Group) => {
+    setGroups((prev) => prev.map((g) => (g.id === updated.id ? updated : g)));
+    setSelectedGroup((prev) => (prev?.id === updated.id ? updated : prev));
+  };
+
+  const openForm = (group: Group | null) => {
+    setEditingGroup(group);
+    setFormName(group?.name ?? '');
+    setFormDescription(group?.description ?? '');
+    setFormDialogOpen(true);
+  };
 
+  const nameValid = GROUP_NAME_PATTERN.test(formName.trim());
 
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!nameValid) return;
+    const data = { name: formName.trim(), description: formDescription.trim() || undefined };
+    try {
+      setSaving(true);
+      if (editingGroup) {
+        replaceGroup(await api.updateTenantGroup(teamId, tenantName, editingGroup.id, data));
+      } else {
+        const created = await api.createTenantGroup(teamId, tenantName, data);
+        setGroups((prev) => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+      toast({
+        title: 'Success',
+        description: editingGroup ? 'Group updated successfully' : `Group ${data.name} created`,
+      });
+      setFormDialogOpen(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save group',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
 
+  const handleDeleteClick = (group: Group) => {
+    setSelectedGroup(group);
+    setDeleteDialogOpen(true);
+  };
 
+  const handleDeleteConfirm = async () => {
+    if (!selectedGroup) return;
+    try {
+      setBusyGroupId(selectedGroup.id);
+      await api.deleteTenantGroup(teamId, tenantName, selectedGroup.id);
+      setGroups((prev) => prev.filter((g) => g.id !== selectedGroup.id));
+      toast({
+        title: 'Success',
+        description: 'Group deleted successfully',
+      });
+      setDeleteDialogOpen(false);
+      setSelectedGroup(null);
+      // The backend drops the group from every app client's group scopes
+      if (appClient?.groupScopes?.[selectedGroup.id]) onRefresh?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete group',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyGroupId(null);
+    }
+  };
 
+  const loadMembers = async (group: Group, cursor?: string) => {
+    try {
+      setMembersLoading(true);
+      const page = await api.listGroupMembers(teamId, tenantName, group.id, { cursor, limit: MEMBERS_PAGE_SIZE });
+      setMembers((prev) => (cursor ? [...prev, ...page.users] : page.users));
+      setMembersCursor(page.next_cursor);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load members',
+        variant: 'destructive',
+      });
+    } finally {
+      setMembersLoading(false);
+    }
+  };
 
+  const handleManageMembers = (group: Group) => {
+    setSelectedGroup(group);
+    setMembers([]);
+    setMembersCursor(null);
+    setImportText('');
+    setMembersDialogOpen(true);
+    loadMembers(group);
+  };
 
+  const refreshGroup = async (group: Group) => {
+    try {
+      const groupsNow = await api.listTenantGroups(teamId, tenantName);
+      const updated = groupsNow.find((g) => g.id === group.id);
+      if (updated) replaceGroup(updated);
+    } catch {
+      // Only the member count is stale
+    }
+  };
 
+  const handleRemoveMember = async (user: EndUser) => {
+    if (!selectedGroup) return;
+    try {
+      setRemovingUserId(user.id);
+      await api.removeGroupMember(teamId, tenantName, selectedGroup.id, user.id);
+      setMembers((prev) => prev.filter((u) => u.id !== user.id));
+      replaceGroup({ ...selectedGroup, members_count: Math.max(0, selectedGroup.members_count - 1) });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to remove member',
+        variant: 'destructive',
+      });
+    } finally {
+      setRemovingUserId(null);
+    }
+  };
 
+  const parsedImport = parseMemberList(importText);
+  const importCount = parsedImport.userIds.length + parsedImport.emails.length;
 
+  const handleImport = async () => {
+    if (!selectedGroup || importCount === 0) return;
+    if (parsedImport.invalid.length > 0) {
+      toast({
+        title: 'Invalid entries',
+        description: `Not valid emails: ${parsedImport.invalid.slice(0, 5).join(', ')}${parsedImport.invalid.length > 5 ? '…' : ''}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    const group = selectedGroup;
+    try {
+      setImportProgress({ processed: 0, total: importCount });
+      const result = await importGroupMembers(teamId, tenantName, group.id, parsedImport, (processed, total) =>
+        setImportProgress({ processed, total })
+      );
+      const notFound =
+        result.not_found.length > 0
+          ? ` Not found: ${result.not_found.slice(0, 5).join(', ')}${result.not_found.length > 5 ? ` and ${result.not_found.length - 5} more` : ''}.`
+          : '';
+      toast({
+        title: 'Members added',
+        description: `Added ${result.added}, ${result.already_members} already in the group.${notFound}`,
+        variant: result.not_found.length > 0 && result.added === 0 ? 'destructive' : undefined,
+      });
+      setImportText('');
+      if (result.added > 0) {
+        await Promise.all([loadMembers(group), refreshGroup(group)]);
+      }
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Failed to add members',
+        variant: 'destructive',
+      });
+      await refreshGroup(group);
+    } finally {
+      setImportProgress(null);
+    }
+  };
 
+  const handleEditScopes = (group: Group) => {
+    setSelectedGroup(group);
+    setSelectedScopes(appClient?.groupScopes?.[group.id] ?? []);
+    setScopesDialogOpen(true);
+  };
 
+  const toggleScope = (scope: string, on: boolean) => {
+    setSelectedScopes((prev) => (on ? [...prev, scope] : prev.filter((s) => s !== scope)));
+  };
 
+  const handleSaveScopes = async () => {
+    if (!appClient || !selectedGroup) return;
+    const groupScopes = { ...(appClient.groupScopes ?? {}) };
+    if (selectedScopes.length > 0) groupScopes[selectedGroup.id] = selectedScopes;
+    else delete groupScopes[selectedGroup.id];
+    try {
+      setSavingScopes(true);
+      await api.updateAppClientByTenant(teamId, tenantName, appClient.id, { groupScopes });
+      toast({
+        title: 'Success',
+        description: `Members of ${selectedGroup.name} get ${selectedScopes.length > 0 ? selectedScopes.join(' ') : 'no extra scopes'} from this app client`,
+      });
+      setScopesDialogOpen(false);
+      onRefresh?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save group scopes',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingScopes(false);
+    }
+  };
 
+  const renderActions = (group: Group) => (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" disabled={busyGroupId === group.id}>
+          {busyGroupId === group.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <MoreVertical className="h-4 w-4" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleManageMembers(group)}>
+          <Users className="mr-2 h-4 w-4" />
+          Members
+        </DropdownMenuItem>
+        {appClient && (
+          <DropdownMenuItem onClick={() => handleEditScopes(group)}>
+            <KeyRound className="mr-2 h-4 w-4" />
+            Scopes
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem onClick={() => openForm(group)}>
+          <Pencil className="mr-2 h-4 w-4" />
+          Edit
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => handleDeleteClick(group)} className="text-red-600 focus:text-red-600">
+          <Trash2 className="mr-2 h-4 w-4" />
+          Delete
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
+  return (
+    <>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold">Groups</h3>
+            <p className="text-muted-foreground text-sm mt-1">
+              {appClient
+                ? "Group names go into the access token's groups claim; each group can also grant some of this app client's scopes"
+                : "Groups of this tenant's users. Group names go into the groups claim of access tokens"}
+            </p>
+          </div>
+          <Button onClick={() => openForm(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Group
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : groups.length === 0 ? (
+          <Card className="border-2 border-dashed">
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <UserCog className="h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No groups yet</h3>
+              <p className="text-muted-foreground text-center">
+                Create a group, add users to it, then gate routes on its name or on the scopes it grants
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="p-0 divide-y">
+              {groups.map((group) => {
+                const granted = appClient?.groupScopes?.[group.id] ?? [];
+                return (
+                  <div key={group.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                    <button
+                      type="button"
+                      className="min-w-0 flex-1 text-left"
+                      onClick={() => handleManageMembers(group)}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium font-mono truncate">{group.name}</span>
+                        <Badge variant="secondary" className="text-xs">
+                          {group.members_count} member{group.members_count === 1 ? '' : 's'}
+                        </Badge>
+                      </div>
+                      {group.description && (
+                        <div className="text-xs text-muted-foreground truncate">{group.description}</div>
+                      )}
+                      {appClient && (
+                        <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                          Grants:
+                          {granted.length === 0 ? (
+                            <span className="italic">no scopes</span>
+                          ) : (
+                            granted.map((scope) => (
+                              <Badge key={scope} variant="outline" className="text-xs font-mono">
+                                {scope}
+                              </Badge>
+                            ))
+                          )}
+                        </div>
+                      )}
+                    </button>
+                    {renderActions(group)}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={formDialogOpen} onOpenChange={setFormDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleSave}>
+            <DialogHeader>
+              <DialogTitle>{editingGroup ? 'Edit Group' : 'Add Group'}</DialogTitle>
+              <DialogDescription>
+                {editingGroup
+                  ? 'Renaming changes the groups claim of tokens issued from now on; tokens already issued keep the old name.'
+                  : 'Members get the group name in the groups claim of their access tokens.'}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="group-name">Name *</Label>
+                <Input
+                  id="group-name"
+                  value={formName}
+                  onChange={(e) => setFormName(e.target.value)}
+                  placeholder="admins"
+                  className="font-mono"
+                  required
+                  disabled={saving}
+                />
+                {formName.trim() !== '' && !nameValid && <p className="text-xs text-red-600">{GROUP_NAME_HINT}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="group-description">Description</Label>
+                <Input
+                  id="group-description"
+                  value={formDescription}
+                  onChange={(e) => setFormDescription(e.target.value)}
+                  placeholder="Optional"
+                  disabled={saving}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setFormDialogOpen(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving || !nameValid}>
+                {saving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : editingGroup ? (
+                  'Save'
+                ) : (
+                  'Create Group'
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Members Dialog */}
+      <Dialog open={membersDialogOpen} onOpenChange={setMembersDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              Members of <span className="font-mono">{selectedGroup?.name}</span>
+              {membersLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </DialogTitle>
+            <DialogDescription>
+              {selectedGroup?.members_count ?? 0} member{selectedGroup?.members_count === 1 ? '' : 's'}. Changes apply
+              to tokens issued from now on.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 text-sm">
+            <div className="max-h-64 overflow-y-auto rounded-md border divide-y">
+              {members.length === 0 && !membersLoading ? (
+                <p className="p-3 text-muted-foreground italic">No members yet</p>
+              ) : (
+                members.map((user) => (
+                  <div key={user.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                    <div className="min-w-0">
+                      <div className="truncate">{user.name || user.email || user.id}</div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {user.name && user.email ? `${user.email} · ` : ''}
+                        <span className="font-mono">{user.id}</span>
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemoveMember(user)}
+                      disabled={removingUserId === user.id}
+                      title="Remove from group"
+                    >
+                      {removingUserId === user.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                ))
+              )}
+              {membersCursor && (
+                <div className="flex justify-center p-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => selectedGroup && loadMembers(selectedGroup, membersCursor)}
+                    disabled={membersLoading}
+                  >
+                    Load more
+                  </Button>
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="group-import">Add members</Label>
+              <Textarea
+                id="group-import"
+                value={importText}
+                onChange={(e) => setImportText(e.target.value)}
+                placeholder="Emails or user IDs, separated by commas, spaces or new lines (paste a CSV column)"
+                rows={4}
+                className="font-mono text-xs"
+                disabled={!!importProgress}
+              />
+              {importCount > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {parsedImport.emails.length} email{parsedImport.emails.length === 1 ? '' : 's'},{' '}
+                  {parsedImport.userIds.length} user ID{parsedImport.userIds.length === 1 ? '' : 's'}
+                  {parsedImport.invalid.length > 0 && (
+                    <span className="text-red-600"> · {parsedImport.invalid.length} invalid</span>
+                  )}
+                </p>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMembersDialogOpen(false)} disabled={!!importProgress}>
+              Close
+            </Button>
+            <Button onClick={handleImport} disabled={!!importProgress || importCount === 0}>
+              {importProgress ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Adding {importProgress.processed}/{importProgress.total}...
+                </>
+              ) : (
+                `Add ${importCount || ''} Member${importCount === 1 ? '' : 's'}`
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Group Scopes Dialog */}
+      <Dialog open={scopesDialogOpen} onOpenChange={setScopesDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Scopes for <span className="font-mono">{selectedGroup?.name}</span>
+            </DialogTitle>
+            <DialogDescription>
+              Members of this group get these scopes in access tokens issued by {appClient?.name ?? 'this app client'},
+              on top of what they requested. Other users never get them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            {(appClient?.scopes ?? []).length === 0 ? (
+              <p className="text-sm text-muted-foreground italic">
+                This app client has no scopes. Add some to it first.
+              </p>
+            ) : (
+              appClient?.scopes.map((scope) => (
+                <div key={scope} className="flex items-center justify-between">
+                  <Label htmlFor={`group-scope-${scope}`} className="font-mono text-sm">
+                    {scope}
+                  </Label>
+                  <Switch
+                    id={`group-scope-${scope}`}
+                    checked={selectedScopes.includes(scope)}
+                    onCheckedChange={(on) => toggleScope(scope, on)}
+                    disabled={savingScopes}
+                  />
+                </div>
+              ))
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setScopesDialogOpen(false)} disabled={savingScopes}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveScopes} disabled={savingScopes}>
+              {savingScopes ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Save'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Group?</DialogTitle>
+            <DialogDescription>
+              This action cannot be undone. This will permanently delete
+              {selectedGroup && ` "${selectedGroup.name}"`} and remove it from every app client&apos;s group scopes.
+              Its members are not deleted, but routes gated on the group stop admitting them.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeleteDialogOpen(false)}
+              disabled={!!selectedGroup && busyGroupId === selectedGroup.id}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDeleteConfirm}
+              disabled={!!selectedGroup && busyGroupId === selectedGroup.id}
+            >
+              {selectedGroup && busyGroupId === selectedGroup.id ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                'Delete'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
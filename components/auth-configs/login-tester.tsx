@@ -0,0 +1,175 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, LogIn, Plus, CheckCircle2, XCircle } from 'lucide-react';
+import { api } from '@/lib/api';
+import { checkCallbackUrl, loginTesterRedirectUri, startLoginTest } from '@/lib/login-tester';
+import { useToast } from '@/hooks/use-toast';
+import type { AppClient, SocialProvider } from '@/types/auth-config';
+
+interface LoginTesterProps {
+  teamId: string;
+  tenantName: string;
+  appClient: AppClient;
+  /** Called after the tester's callback URL was added to the app client */
+  onRefresh?: () => void;
+}
+
+const ANY_PROVIDER = '__any__';
+
+/**
+ * Starts a real login through the auth worker with this dashboard as the callback; the result
+ * is shown by /dashboard/login-tester/callback.
+ */
+export function LoginTester({ teamId, tenantName, appClient, onRefresh }: LoginTesterProps) {
+  const { toast } = useToast();
+  const [providers, setProviders] = useState<SocialProvider[]>([]);
+  const [provider, setProvider] = useState(ANY_PROVIDER);
+  const [redirectUri, setRedirectUri] = useState<string | null>(null);
+  const [starting, setStarting] = useState(false);
+  const [addingCallback, setAddingCallback] = useState(false);
+
+  useEffect(() => {
+    setRedirectUri(loginTesterRedirectUri());
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const list = await api.listProvidersByTenant(teamId, tenantName, appClient.id);
+        if (!cancelled) setProviders(Array.isArray(list) ? list : []);
+      } catch {
+        if (!cancelled) setProviders([]);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [teamId, tenantName, appClient.id]);
+
+  const callback = redirectUri ? checkCallbackUrl(appClient, redirectUri) : null;
+
+  const handleAddCallback = async () => {
+    if (!redirectUri) return;
+    try {
+      setAddingCallback(true);
+      await api.updateAppClientByTenant(teamId, tenantName, appClient.id, {
+        authorizedCallbackUrls: [...(appClient.authorizedCallbackUrls ?? []), redirectUri],
+      });
+      toast({
+        title: 'Success',
+        description: 'Added the login tester callback URL. Remove it again before going to production if you prefer.',
+      });
+      onRefresh?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add callback URL',
+        variant: 'destructive',
+      });
+    } finally {
+      setAddingCallback(false);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!redirectUri) return;
+    try {
+      setStarting(true);
+      const url = await startLoginTest({
+        teamId,
+        tenantName,
+        appClientId: appClient.id,
+        clientId: appClient.clientId,
+        redirectUri,
+        scopes: appClient.scopes ?? [],
+        provider: provider === ANY_PROVIDER ? undefined : provider,
+      });
+      window.location.assign(url);
+    } catch (error) {
+      setStarting(false);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to start test login',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h3 className="text-lg font-semibold">Test Login</h3>
+        <p className="text-muted-foreground text-sm mt-1">
+          Sign in through this app client with authorization code + PKCE, then see the tokens, userinfo and any
+          configuration problems
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="space-y-4 pt-6">
+          {callback && (
+            <div className="flex items-start justify-between gap-4 text-sm">
+              <div className="flex items-start gap-2 min-w-0">
+                {callback.level === 'ok' ? (
+                  <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0 mt-0.5" />
+                ) : (
+                  <XCircle className="h-4 w-4 text-red-600 shrink-0 mt-0.5" />
+                )}
+                <div className="min-w-0">
+                  <span className="font-medium">{callback.title}</span>
+                  <p className="text-xs text-muted-foreground break-all">{callback.detail}</p>
+                </div>
+              </div>
+              {callback.level !== 'ok' && (
+                <Button variant="outline" size="sm" onClick={handleAddCallback} disabled={addingCallback}>
+                  {addingCallback ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                  Add Callback URL
+                </Button>
+              )}
+            </div>
+          )}
+          <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="login-test-provider">Provider</Label>
+              <Select value={provider} onValueChange={setProvider}>
+                <SelectTrigger id="login-test-provider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_PROVIDER}>Let the login page ask</SelectItem>
+                  {providers.map((p) => (
+                    <SelectItem key={p.id} value={p.type}>
+                      {p.type}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleStart} disabled={starting || !redirectUri || callback?.level === 'error'}>
+              {starting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogIn className="mr-2 h-4 w-4" />}
+              Test Login
+            </Button>
+          </div>
+          <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+            Requests scopes:
+            {(appClient.scopes ?? []).length === 0 ? (
+              <Badge variant="outline" className="text-xs font-mono">openid</Badge>
+            ) : (
+              appClient.scopes.map((scope) => (
+                <Badge key={scope} variant="outline" className="text-xs font-mono">
+                  {scope}
+                </Badge>
+              ))
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
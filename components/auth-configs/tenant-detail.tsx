@@ -25,6 +25,8 @@ import { api } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
 import type { AppClient } from '@/types/auth-config';
 import { AppClientFormDialog } from './app-client-form-dialog';
+import { UsersList } from './users-list';
+import { GroupsList } from './groups-list';
 
 interface TenantDetailProps {
   teamId: string;
@@ -245,6 +247,10 @@ export function TenantDetail({ teamId, tenantName, displayName, onBack }: Tenant
             ))}
           </div>
         )}
+
+        <UsersList teamId={teamId} tenantName={tenantName} />
+
+        <GroupsList teamId={teamId} tenantName={tenantName} />
       </div>
 
       <AppClientFormDialog
@@ -0,0 +1,192 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, ScanSearch, CheckCircle2, XCircle, AlertTriangle, MinusCircle } from 'lucide-react';
+import { useDashboardCacheStore } from '@/store/dashboard-cache';
+import { inspectToken, TokenDecodeError, type TokenCheckStatus, type TokenInspection } from '@/lib/token-inspector';
+import type { AppClient } from '@/types/auth-config';
+
+interface TokenInspectorProps {
+  appClient: AppClient;
+  tenantName: string;
+}
+
+const NO_PROJECT = '__none__';
+
+const STATUS_ICONS: Record<TokenCheckStatus, React.ReactNode> = {
+  pass: <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0" />,
+  fail: <XCircle className="h-4 w-4 text-red-600 shrink-0" />,
+  warn: <AlertTriangle className="h-4 w-4 text-amber-600 shrink-0" />,
+  skip: <MinusCircle className="h-4 w-4 text-muted-foreground shrink-0" />,
+};
+
+const TIME_CLAIMS = new Set(['exp', 'iat', 'nbf', 'auth_time']);
+
+function ClaimsTable({ values }: { values: Record<string, unknown> }) {
+  return (
+    <div className="grid grid-cols-[8rem_1fr] gap-x-2 gap-y-1 text-xs font-mono">
+      {Object.entries(values).map(([name, value]) => (
+        <div key={name} className="contents">
+          <span className="text-muted-foreground">{name}</span>
+          <span className="break-all">
+            {typeof value === 'string' ? value : JSON.stringify(value)}
+            {TIME_CLAIMS.has(name) && typeof value === 'number' && (
+              <span className="text-muted-foreground font-sans"> ({new Date(value * 1000).toLocaleString()})</span>
+            )}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Paste a token issued for this app client to see its header and claims, and why the proxy
+ * would accept or reject it. Verification runs in the browser; the token is never sent anywhere.
+ */
+export function TokenInspector({ appClient, tenantName }: TokenInspectorProps) {
+  const allProjects = useDashboardCacheStore((s) => s.projects);
+  const projects = useMemo(
+    () =>
+      allProjects.filter((p) => {
+        const config = p.config ?? {};
+        return (
+          config.default_app_client_id === appClient.clientId ||
+          config.tenant === tenantName ||
+          config.default_tenant === tenantName
+        );
+      }),
+    [allProjects, appClient.clientId, tenantName]
+  );
+  const [token, setToken] = useState('');
+  const [projectKey, setProjectKey] = useState<string | null>(null);
+  const [inspection, setInspection] = useState<TokenInspection | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [inspecting, setInspecting] = useState(false);
+
+  const keyOf = (p: { project_id: string; api_version: string }) => `${p.project_id}@${p.api_version}`;
+  const selectedKey = projectKey ?? (projects[0] ? keyOf(projects[0]) : NO_PROJECT);
+  const project = projects.find((p) => keyOf(p) === selectedKey);
+
+  const handleInspect = async () => {
+    setError(null);
+    setInspection(null);
+    try {
+      setInspecting(true);
+      setInspection(await inspectToken(token, appClient, { project }));
+    } catch (e) {
+      setError(
+        e instanceof TokenDecodeError
+          ? e.message
+          : `Could not inspect the token: ${e instanceof Error ? e.message : String(e)}`
+      );
+    } finally {
+      setInspecting(false);
+    }
+  };
+
+  const failed = inspection?.checks.filter((c) => c.status === 'fail').length ?? 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h3 className="text-lg font-semibold">Token Inspector</h3>
+        <p className="text-muted-foreground text-sm mt-1">
+          Decode an access or ID token and check it the way the proxy does. The token stays in your browser.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="space-y-4 pt-6">
+          <div className="space-y-2">
+            <Label htmlFor="inspect-token">Token</Label>
+            <Textarea
+              id="inspect-token"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              placeholder="eyJhbGciOiJSUzI1NiIs..."
+              rows={4}
+              className="font-mono text-xs break-all"
+              spellCheck={false}
+            />
+          </div>
+          <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="inspect-project">Check against project</Label>
+              <Select
+                value={selectedKey}
+                onValueChange={(value) => {
+                  setProjectKey(value);
+                  setInspection(null);
+                }}
+              >
+                <SelectTrigger id="inspect-project">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map((p) => (
+                    <SelectItem key={keyOf(p)} value={keyOf(p)}>
+                      {p.display_name || p.project_id} ({p.api_version})
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={NO_PROJECT}>App client only</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleInspect} disabled={inspecting || !token.trim()}>
+              {inspecting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ScanSearch className="mr-2 h-4 w-4" />}
+              Inspect
+            </Button>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {inspection && (
+            <div className="space-y-4 border-t pt-4">
+              <div className="flex items-center gap-2">
+                {inspection.valid ? (
+                  <Badge variant="outline" className="text-green-600 border-green-300 bg-green-50">
+                    Accepted
+                  </Badge>
+                ) : (
+                  <Badge variant="outline" className="text-red-600 border-red-300 bg-red-50">
+                    Rejected: {failed} check{failed === 1 ? '' : 's'} failed
+                  </Badge>
+                )}
+                {inspection.kind !== 'unknown' && (
+                  <Badge variant="secondary">{inspection.kind === 'access' ? 'Access token' : 'ID token'}</Badge>
+                )}
+              </div>
+              <div className="space-y-2">
+                {inspection.checks.map((check) => (
+                  <div key={check.id} className="flex items-start gap-2 text-sm">
+                    {STATUS_ICONS[check.status]}
+                    <div className="min-w-0">
+                      <span className="font-medium">{check.label}</span>
+                      <p className="text-xs text-muted-foreground break-words">{check.detail}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div>
+                <h4 className="text-sm font-medium mb-2">Header</h4>
+                <ClaimsTable values={inspection.header} />
+              </div>
+              <div>
+                <h4 className="text-sm font-medium mb-2">Claims</h4>
+                <ClaimsTable values={inspection.claims} />
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,65 +1,592 @@
 'use client';
 
+import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Users, Plus } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Users, UserPlus, Search, MoreVertical, Ban, CheckCircle2, LogOut, Trash2, Eye } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { api } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import type { EndUser } from '@/types/auth-config';
 
 interface UsersListProps {
-  authConfigId: string;
+  teamId: string;
+  tenantName: string;
+  /** Only users who signed in through this app client; new invitations link to its login page */
   clientId?: string;
-  onRefresh?: () => void;
 }
 
-export function UsersList({ authConfigId, clientId }: UsersListProps) {
-  // TODO: Implement users management when backend API is available (per app client)
-  const scopeLabel = clientId ? 'app client' : 'auth config';
+type StatusFilter = EndUser['status'] | 'all';
 
-  return (
-    <div className="space-y-6">
-      {/* Header */}
-      <div className="flex items-center justify-between">
-        <div>
-          <h3 className="text-lg font-semibold">Users</h3>
-          <p className="text-muted-foreground text-sm mt-1">
-            Manage users for this {scopeLabel}
-          </p>
-        </div>
-        <Button disabled>
-          <Plus className="mr-2 h-4 w-4" />
-          Add User
-        </Button>
-      </div>
+const PAGE_SIZE = 25;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const STATUS_BADGES: Record<EndUser['status'], { label: string; className: string }> = {
+  active: { label: 'Active', className: 'text-green-600 border-green-300 bg-green-50' },
+  disabled: { label: 'Disabled', className: 'text-red-600 border-red-300 bg-red-50' },
+  invited: { label: 'Invited', className: 'text-amber-600 border-amber-300 bg-amber-50' },
+};
+
+function formatDate(value: string | null | undefined): string {
+  return value ? new Date(value).toLocaleString() : 'Never';
+}
 
-      {/* Placeholder */}
-      <Card className="border-2 border-dashed">
-        <CardContent className="flex flex-col items-center justify-center py-12">
-          <Users className="h-12 w-12 text-muted-foreground mb-4" />
-          <h3 className="text-lg font-semibold mb-2">Users Management</h3>
-          <p className="text-muted-foreground text-center mb-4">
-            User management functionality will be available once the backend API is implemented.
-          </p>
-          <p className="text-sm text-muted-foreground">
-            Auth Config: <code className="font-mono">{authConfigId}</code>
-            {clientId && (
-              <> · App Client: <code className="font-mono">{clientId}</code></>
-            )}
-          </p>
-        </CardContent>
-      </Card>
-    </div>
+function StatusBadge({ status }: { status: EndUser['status'] }) {
+  const badge = STATUS_BADGES[status];
+  return (
+    <Badge variant="outline" className={`text-xs ${badge.className}`}>
+      {badge.label}
+    </Badge>
   );
 }
 
+export function UsersList({ teamId, tenantName, clientId }: UsersListProps) {
+  const { toast } = useToast();
+  const [users, setUsers] = useState<EndUser[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState<number | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+
+  const [selectedUser, setSelectedUser] = useState<EndUser | null>(null);
+  const [detailOpen, setDetailOpen] = useState(false);
+  const [detailLoading, setDetailLoading] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteName, setInviteName] = useState('');
+  const [inviting, setInviting] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const fetchPage = useCallback(
+    (cursor?: string) =>
+      api.listTenantUsers(teamId, tenantName, {
+        q: query || undefined,
+        clientId,
+        status: statusFilter === 'all' ? undefined : statusFilter,
+        cursor,
+        limit: PAGE_SIZE,
+      }),
+    [teamId, tenantName, clientId, query, statusFilter]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      try {
+        const page = await fetchPage();
+        if (cancelled) return;
+        setUsers(page.users);
+        setNextCursor(page.next_cursor);
+        setTotal(page.total);
+      } catch (error) {
+        if (cancelled) return;
+        setUsers([]);
+        setNextCursor(null);
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to load users',
+          variant: 'destructive',
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [fetchPage, toast]);
 
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    try {
+      setLoadingMore(true);
+      const page = await fetchPage(nextCursor);
+      setUsers((prev) => [...prev, ...page.users]);
+      setNextCursor(page.next_cursor);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load users',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
+  const replaceUser = (updated: EndUser) => {
+    setUsers((prev) => prev.map((u) => (u.id === updated.id ? updated : u)));
+    setSelectedUser((prev) => (prev?.id === updated.id ? updated : prev));
+  };
 
+  const handleViewDetails = async (user: EndUser) => {
+    setSelectedUser(user);
+    setDetailOpen(true);
+    try {
+      setDetailLoading(true);
+      replaceUser(await api.getTenantUser(teamId, tenantName, user.id));
+    } catch {
+      // Keep the list entry; it has the same fields
+    } finally {
+      setDetailLoading(false);
+    }
+  };
 
+  const handleToggleDisabled = async (user: EndUser) => {
+    const disable = user.status !== 'disabled';
+    try {
+      setBusyUserId(user.id);
+      replaceUser(await api.setTenantUserDisabled(teamId, tenantName, user.id, disable));
+      toast({
+        title: 'Success',
+        description: disable
+          ? `${user.email ?? user.id} can no longer sign in and was signed out`
+          : `${user.email ?? user.id} can sign in again`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update user',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyUserId(null);
+    }
+  };
 
+  const handleSignOut = async (user: EndUser) => {
+    try {
+      setBusyUserId(user.id);
+      const { revoked } = await api.revokeTenantUserSessions(teamId, tenantName, user.id);
+      toast({
+        title: 'Signed out',
+        description: `Revoked ${revoked} refresh token${revoked === 1 ? '' : 's'}. Access tokens already issued stay valid until they expire.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to sign out user',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyUserId(null);
+    }
+  };
 
+  const handleDeleteClick = (user: EndUser) => {
+    setSelectedUser(user);
+    setDeleteDialogOpen(true);
+  };
 
+  const handleDeleteConfirm = async () => {
+    if (!selectedUser) return;
+    try {
+      setBusyUserId(selectedUser.id);
+      await api.deleteTenantUser(teamId, tenantName, selectedUser.id);
+      setUsers((prev) => prev.filter((u) => u.id !== selectedUser.id));
+      setTotal((prev) => (prev !== undefined ? prev - 1 : prev));
+      toast({
+        title: 'Success',
+        description: 'User deleted successfully',
+      });
+      setDeleteDialogOpen(false);
+      setDetailOpen(false);
+      setSelectedUser(null);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete user',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyUserId(null);
+    }
+  };
 
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) return;
+    try {
+      setInviting(true);
+      const invited = await api.inviteTenantUser(teamId, tenantName, {
+        email: inviteEmail.trim(),
+        name: inviteName.trim() || undefined,
+        clientId,
+      });
+      setUsers((prev) => [invited, ...prev]);
+      setTotal((prev) => (prev !== undefined ? prev + 1 : prev));
+      toast({
+        title: 'Invitation sent',
+        description: `${invited.email ?? inviteEmail.trim()} will get a sign-in link by email`,
+      });
+      setInviteDialogOpen(false);
+      setInviteEmail('');
+      setInviteName('');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to invite user',
+        variant: 'destructive',
+      });
+    } finally {
+      setInviting(false);
+    }
+  };
 
+  const renderActions = (user: EndUser) => (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" disabled={busyUserId === user.id}>
+          {busyUserId === user.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <MoreVertical className="h-4 w-4" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleViewDetails(user)}>
+          <Eye className="mr-2 h-4 w-4" />
+          View Details
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleToggleDisabled(user)}>
+          {user.status === 'disabled' ? (
+            <>
+              <CheckCircle2 className="mr-2 h-4 w-4" />
+              Enable
+            </>
+          ) : (
+            <>
+              <Ban className="mr-2 h-4 w-4" />
+              Disable
+            </>
+          )}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleSignOut(user)} disabled={user.status === 'invited'}>
+          <LogOut className="mr-2 h-4 w-4" />
+          Sign Out Everywhere
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => handleDeleteClick(user)} className="text-red-600 focus:text-red-600">
+          <Trash2 className="mr-2 h-4 w-4" />
+          Delete
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
 
+  const scopeLabel = clientId ? 'who signed in through this app client' : 'of this tenant';
+  const filtered = query !== '' || statusFilter !== 'all';
 
+  return (
+    <>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold">Users</h3>
+            <p className="text-muted-foreground text-sm mt-1">
+              End users {scopeLabel}
+              {total !== undefined && ` · ${total} total`}
+            </p>
+          </div>
+          <Button onClick={() => setInviteDialogOpen(true)}>
+            <UserPlus className="mr-2 h-4 w-4" />
+            Invite User
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by email, name or user ID"
+              className="pl-9"
+            />
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+            <SelectTrigger className="sm:w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              <SelectItem value="active">Active</SelectItem>
+              <SelectItem value="disabled">Disabled</SelectItem>
+              <SelectItem value="invited">Invited</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
 
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : users.length === 0 ? (
+          <Card className="border-2 border-dashed">
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <Users className="h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">{filtered ? 'No matching users' : 'No users yet'}</h3>
+              <p className="text-muted-foreground text-center">
+                {filtered
+                  ? 'Try a different search or status filter'
+                  : 'Users appear here after their first sign-in, or when you invite them'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="p-0 divide-y">
+              {users.map((user) => (
+                <div key={user.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                  <button
+                    type="button"
+                    className="min-w-0 flex-1 text-left"
+                    onClick={() => handleViewDetails(user)}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{user.name || user.email || user.id}</span>
+                      <StatusBadge status={user.status} />
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {user.name && user.email ? `${user.email} · ` : ''}
+                      {user.identities.length > 0
+                        ? Array.from(new Set(user.identities.map((i) => i.provider))).join(', ')
+                        : 'No linked providers'}
+                      {' · '}Last login: {formatDate(user.last_login_at)}
+                    </div>
+                  </button>
+                  {renderActions(user)}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
 
+        {nextCursor && !loading && (
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+              {loadingMore ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Loading...
+                </>
+              ) : (
+                'Load more'
+              )}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* User Detail Dialog */}
+      <Dialog open={detailOpen} onOpenChange={setDetailOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              {selectedUser?.name || selectedUser?.email || selectedUser?.id}
+              {selectedUser && <StatusBadge status={selectedUser.status} />}
+              {detailLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </DialogTitle>
+            <DialogDescription className="font-mono text-xs break-all">{selectedUser?.id}</DialogDescription>
+          </DialogHeader>
+          {selectedUser && (
+            <div className="space-y-4 text-sm">
+              <div className="grid grid-cols-[8rem_1fr] gap-y-1">
+                <span className="text-muted-foreground">Email</span>
+                <span className="break-all">{selectedUser.email ?? '—'}</span>
+                <span className="text-muted-foreground">Last login</span>
+                <span>{formatDate(selectedUser.last_login_at)}</span>
+                <span className="text-muted-foreground">Created</span>
+                <span>{formatDate(selectedUser.created_at)}</span>
+              </div>
+              <div>
+                <h4 className="font-medium mb-2">Linked providers</h4>
+                {selectedUser.identities.length === 0 ? (
+                  <p className="text-muted-foreground italic">
+                    {selectedUser.status === 'invited' ? 'Has not accepted the invitation yet' : 'None'}
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {selectedUser.identities.map((identity) => (
+                      <div
+                        key={`${identity.provider}:${identity.provider_user_id}:${identity.app_client_id ?? ''}`}
+                        className="rounded-md border p-2"
+                      >
+                        <div className="flex items-center justify-between">
+                          <Badge variant="secondary">{identity.provider}</Badge>
+                          <span className="font-mono text-xs text-muted-foreground">{identity.provider_user_id}</span>
+                        </div>
+                        <div className="mt-1 text-xs text-muted-foreground">
+                          {identity.app_client_id && (
+                            <>
+                              App client <code className="font-mono">{identity.app_client_id}</code> ·{' '}
+                            </>
+                          )}
+                          Linked {formatDate(identity.linked_at)} · Last login {formatDate(identity.last_login_at)}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+          {selectedUser && (
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button
+                variant="outline"
+                onClick={() => handleSignOut(selectedUser)}
+                disabled={busyUserId === selectedUser.id || selectedUser.status === 'invited'}
+              >
+                <LogOut className="mr-2 h-4 w-4" />
+                Sign Out Everywhere
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleToggleDisabled(selectedUser)}
+                disabled={busyUserId === selectedUser.id}
+              >
+                {selectedUser.status === 'disabled' ? (
+                  <>
+                    <CheckCircle2 className="mr-2 h-4 w-4" />
+                    Enable
+                  </>
+                ) : (
+                  <>
+                    <Ban className="mr-2 h-4 w-4" />
+                    Disable
+                  </>
+                )}
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => handleDeleteClick(selectedUser)}
+                disabled={busyUserId === selectedUser.id}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </Button>
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Invite Dialog */}
+      <Dialog open={inviteDialogOpen} onOpenChange={setInviteDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleInvite}>
+            <DialogHeader>
+              <DialogTitle>Invite User</DialogTitle>
+              <DialogDescription>
+                The user gets an email with a sign-in link
+                {clientId ? ' to this app client' : ''}. They appear as invited until their first sign-in.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="invite-email">Email *</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="user@example.com"
+                  required
+                  disabled={inviting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invite-name">Name</Label>
+                <Input
+                  id="invite-name"
+                  value={inviteName}
+                  onChange={(e) => setInviteName(e.target.value)}
+                  placeholder="Optional"
+                  disabled={inviting}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setInviteDialogOpen(false)} disabled={inviting}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={inviting || !inviteEmail.trim()}>
+                {inviting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Sending...
+                  </>
+                ) : (
+                  'Send Invitation'
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete User?</DialogTitle>
+            <DialogDescription>
+              This action cannot be undone. This will permanently delete
+              {selectedUser && ` "${selectedUser.email ?? selectedUser.id}"`}, their linked providers and sessions.
+              They can sign up again unless you disable them instead.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeleteDialogOpen(false)}
+              disabled={!!selectedUser && busyUserId === selectedUser.id}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDeleteConfirm}
+              disabled={!!selectedUser && busyUserId === selectedUser.id}
+            >
+              {selectedUser && busyUserId === selectedUser.id ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                'Delete'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -666,10 +666,7 @@ export function CreateProjectDialog({ open, onOpenChange, onSuccess, openToGitHu
           try {
             // 1. Ensure tenant exists
             const tenantsRes = await api.getTeamTenants(teamId, true);
-            const tenantsList = Array.isArray(tenantsRes.tenants) ? tenantsRes.tenants : [];
-            const hasApiTenant = tenantsList.some(
-              (t: string | { tenant_name?: string }) => (typeof t === 'string' ? t === tenantName : t.tenant_name === tenantName)
-            );
+            const hasApiTenant = tenantsRes.tenants.some((t) => t.tenant_name === tenantName);
             if (!hasApiTenant) {
               await api.createTeamTenant(teamId, { tenant_name: tenantName, display_name: 'Default' });
             }
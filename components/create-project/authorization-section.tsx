@@ -1,9 +1,10 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   ShieldCheck, ShieldOff, AlertCircle, Loader2, Info,
-  ChevronDown, ChevronRight, Save, Edit2, RefreshCw, TriangleAlert,
+  ChevronDown, ChevronRight, Save, Edit2, RefreshCw, TriangleAlert, FlaskConical, History,
+  Copy, Download, Lightbulb,
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -11,11 +12,33 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { getRouteConfig } from '@/lib/api/route-configs';
 import type { RouteEntry } from '@/lib/api/route-configs';
+import { getAuthorizationModel, saveAuthorizationModel } from '@/lib/api/authorization-model';
+import type { OpenFGAModel } from '@/lib/openfga';
+import { DslSyntaxError, modelToDsl, parseDsl } from '@/lib/openfga-dsl';
+import { serializeTupleTemplate } from '@/lib/policy-template';
+import {
+  analyzeRouteCoverage,
+  coverageReportToCsv,
+  coverageReportToJson,
+  hasNoPolicy,
+  type RouteCoverage,
+} from '@/lib/route-coverage';
 import type { Project } from '@/types/project';
 import { useToast } from '@/hooks/use-toast';
 import type { ProjectConfig } from './types';
+import { TupleChip } from './tuple-chip';
+import { ModelSimulator } from './model-simulator';
+import { ModelHistoryDialog } from './model-history-dialog';
+import { TuplesCard } from './tuples-card';
 
 interface AuthorizationSectionProps {
   project: Project | null;
@@ -24,103 +47,52 @@ interface AuthorizationSectionProps {
   onProjectUpdate?: (updated: Project) => void;
 }
 
-interface ParsedTuple {
-  user: string;
-  relation: string;
-  object: string;
-}
-
-interface OpenFGAModel {
-  id: string;
-  schema_version: string;
-  type_definitions: unknown[];
-}
-
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
-function hasNoPolicy(route: RouteEntry): boolean {
-  return (
-    (route.pre_request_auth_template?.trim() ?? '') === '' &&
-    (route.post_response_policy_template?.trim() ?? '') === ''
-  );
-}
-
-
-function parseTuple(template: string): ParsedTuple | null {
-  try {
-    const parsed = JSON.parse(template);
-    if (
-      parsed &&
-      typeof parsed.user === 'string' &&
-      typeof parsed.relation === 'string' &&
-      typeof parsed.object === 'string'
-    ) {
-      return parsed as ParsedTuple;
-    }
-  } catch {
-    // not JSON — show raw
-  }
-  return null;
-}
-
 function getTenantId(project: Project): string {
   const cfg = project.config as Record<string, unknown> | undefined;
   return (cfg?.default_tenant as string) || 'api';
 }
 
-const POLICIES_API_DOMAIN =
-  process.env.NEXT_PUBLIC_POLICIES_API_DOMAIN || 'policies.apiblaze.com';
-
-function policiesApiUrl(projectId: string, apiVersion: string, path: string): string {
-  return `https://${projectId}.${POLICIES_API_DOMAIN}/${path}?api_version=${encodeURIComponent(apiVersion)}`;
-}
-
 // ─── Sub-components ───────────────────────────────────────────────────────────
 
-function TupleChip({ template, label }: { template: string; label: string }) {
-  const tuple = parseTuple(template);
-  return (
-    <div className="space-y-1">
-      <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{label}</p>
-      {tuple ? (
-        <div className="flex flex-wrap items-center gap-1 text-xs font-mono bg-muted rounded-md px-2 py-1.5">
-          <span className="text-blue-600 dark:text-blue-400">{tuple.user}</span>
-          <span className="text-muted-foreground mx-1">→</span>
-          <span className="text-amber-600 dark:text-amber-400">{tuple.relation}</span>
-          <span className="text-muted-foreground mx-1">→</span>
-          <span className="text-green-600 dark:text-green-400">{tuple.object}</span>
-        </div>
-      ) : (
-        <p className="text-xs font-mono bg-muted rounded-md px-2 py-1.5 break-all">{template}</p>
-      )}
-    </div>
-  );
-}
-
-function RouteRow({ route, enforced }: { route: RouteEntry; enforced: boolean }) {
+function RouteRow({ route, coverage, enforced }: { route: RouteEntry; coverage: RouteCoverage; enforced: boolean }) {
+  const { toast } = useToast();
   const [expanded, setExpanded] = useState(false);
   const hasCheck = (route.pre_request_auth_template?.trim() ?? '') !== '';
   const hasWrite = (route.post_response_policy_template?.trim() ?? '') !== '';
   const hasPolicy = hasCheck || hasWrite;
   const willDeny = enforced && route.authorization_enabled && !hasPolicy;
+  const { findings, suggestion } = coverage;
+  const expandable = hasPolicy || findings.length > 0 || !!suggestion;
+  const suggestedTemplate = suggestion ? serializeTupleTemplate(suggestion.tuple) : '';
+
+  const copySuggestion = async () => {
+    try {
+      await navigator.clipboard.writeText(suggestedTemplate);
+      toast({ title: 'Copied', description: 'Paste it into the route in the Routes tab.' });
+    } catch {
+      toast({ title: 'Copy failed', variant: 'destructive' });
+    }
+  };
 
   return (
     <div
       className={`border rounded-lg transition-colors ${
-        hasPolicy
+        hasPolicy && findings.length === 0
           ? 'border-green-200 dark:border-green-900 bg-green-50/40 dark:bg-green-950/20'
-          : willDeny
+          : willDeny || findings.some((f) => f.severity === 'high')
           ? 'border-orange-200 dark:border-orange-900 bg-orange-50/40 dark:bg-orange-950/20'
           : 'border-border bg-muted/20'
       }`}
     >
       <button
         type="button"
-        onClick={() => hasPolicy && setExpanded((e) => !e)}
-        className={`w-full flex items-center justify-between gap-3 px-3 py-2 text-left ${hasPolicy ? 'cursor-pointer' : 'cursor-default'}`}
+        onClick={() => expandable && setExpanded((e) => !e)}
+        className={`w-full flex items-center justify-between gap-3 px-3 py-2 text-left ${expandable ? 'cursor-pointer' : 'cursor-default'}`}
       >
         <div className="flex items-center gap-2 min-w-0">
-          {hasPolicy ? (
+          {expandable ? (
             expanded ? (
               <ChevronDown className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
             ) : (
@@ -135,6 +107,11 @@ function RouteRow({ route, enforced }: { route: RouteEntry; enforced: boolean })
           <span className="text-sm font-mono truncate">{route.path}</span>
         </div>
         <div className="flex items-center gap-1 shrink-0">
+          {findings.length > 0 && (
+            <Badge variant="outline" className="text-xs border-orange-400 text-orange-600">
+              {findings.length} {findings.length === 1 ? 'issue' : 'issues'}
+            </Badge>
+          )}
           {hasCheck && (
             <Badge variant="secondary" className="text-xs">check</Badge>
           )}
@@ -159,8 +136,19 @@ function RouteRow({ route, enforced }: { route: RouteEntry; enforced: boolean })
         </div>
       </button>
 
-      {expanded && hasPolicy && (
-        <div className="px-4 pb-3 space-y-2 border-t">
+      {expanded && expandable && (
+        <div className="px-4 py-3 space-y-2 border-t">
+          {findings.map((finding) => (
+            <p
+              key={finding.kind + finding.message}
+              className={`flex items-start gap-1.5 text-xs ${
+                finding.severity === 'high' ? 'text-red-600 dark:text-red-400' : 'text-orange-600 dark:text-orange-400'
+              }`}
+            >
+              <TriangleAlert className="w-3.5 h-3.5 mt-px shrink-0" />
+              {finding.message}
+            </p>
+          ))}
           {hasCheck && (
             <TupleChip
               template={route.pre_request_auth_template}
@@ -173,6 +161,25 @@ function RouteRow({ route, enforced }: { route: RouteEntry; enforced: boolean })
               label="Post-response write (post_response_write)"
             />
           )}
+          {suggestion && (
+            <div className="space-y-1.5">
+              <div className="flex items-center gap-2">
+                <Lightbulb className="w-3.5 h-3.5 text-muted-foreground" />
+                <span className="text-xs text-muted-foreground">
+                  Suggested {suggestion.kind === 'check' ? 'pre-request check' : 'post-response write'}
+                  {!suggestion.inModel && ' (type or relation not in the model yet)'}
+                </span>
+                <Button variant="ghost" size="sm" className="h-6 px-2 ml-auto" onClick={() => void copySuggestion()}>
+                  <Copy className="w-3 h-3 mr-1" />
+                  Copy
+                </Button>
+              </div>
+              <TupleChip
+                template={suggestedTemplate}
+                label={suggestion.kind === 'check' ? 'on_request_read' : 'post_response_write'}
+              />
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -277,75 +284,117 @@ function EnforcementCard({
 
 // ─── Model Card ───────────────────────────────────────────────────────────────
 
-function ModelCard({ project }: { project: Project }) {
+type ModelFormat = 'dsl' | 'json';
+
+function modelJson(model: Pick<OpenFGAModel, 'schema_version' | 'type_definitions'>): string {
+  return JSON.stringify({ schema_version: model.schema_version, type_definitions: model.type_definitions }, null, 2);
+}
+
+/** DSL for the model, or null when it uses features the DSL printer doesn't cover. */
+function tryModelToDsl(model: Pick<OpenFGAModel, 'schema_version' | 'type_definitions'>): string | null {
+  try {
+    return modelToDsl(model);
+  } catch {
+    return null;
+  }
+}
+
+function parseDraft(format: ModelFormat, text: string): { model: OpenFGAModel | null; error: string | null } {
+  if (format === 'dsl') {
+    try {
+      return { model: parseDsl(text), error: null };
+    } catch (e) {
+      return { model: null, error: e instanceof DslSyntaxError ? e.message : 'The DSL could not be parsed.' };
+    }
+  }
+  try {
+    const parsed = JSON.parse(text) as OpenFGAModel;
+    if (!Array.isArray(parsed?.type_definitions)) return { model: null, error: 'The draft has no type_definitions.' };
+    return { model: parsed, error: null };
+  } catch {
+    return { model: null, error: 'The draft is not valid JSON.' };
+  }
+}
+
+function ModelCard({
+  project,
+  model,
+  loading,
+  error,
+  onReload,
+}: {
+  project: Project;
+  model: OpenFGAModel | null;
+  loading: boolean;
+  error: string | null;
+  onReload: () => Promise<void>;
+}) {
   const { toast } = useToast();
   const tenantId = getTenantId(project);
 
-  const [model, setModel] = useState<OpenFGAModel | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [editing, setEditing] = useState(false);
-  const [draftJson, setDraftJson] = useState('');
+  const [format, setFormat] = useState<ModelFormat>('dsl');
+  const [draft, setDraft] = useState('');
   const [saving, setSaving] = useState(false);
+  const [simulating, setSimulating] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
 
-  const loadModel = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-    try {
-      const url =
-        policiesApiUrl(project.project_id, project.api_version, 'model') +
-        `&tenantId=${encodeURIComponent(tenantId)}`;
-      const res = await fetch(url);
-      if (res.status === 404) {
-        setModel(null);
-      } else if (!res.ok) {
-        const err = await res.json().catch(() => ({})) as { error?: string };
-        setError(err.error ?? `Error ${res.status}`);
-      } else {
-        const data = await res.json() as { model: OpenFGAModel };
-        setModel(data.model);
-      }
-    } catch (e) {
-      setError(e instanceof Error ? e.message : 'Failed to load model');
-    } finally {
-      setLoading(false);
-    }
-  }, [project.project_id, project.api_version, tenantId]);
+  const draftResult = useMemo(() => (editing ? parseDraft(format, draft) : null), [editing, format, draft]);
+  const modelDsl = useMemo(() => (model ? tryModelToDsl(model) : null), [model]);
 
-  useEffect(() => { void loadModel(); }, [loadModel]);
+  // The simulator tests the draft while editing so changes can be tried before saving
+  const simulation = useMemo((): { model: OpenFGAModel | null; error: string | null } => {
+    if (draftResult) return draftResult;
+    return { model, error: model ? null : 'No model to test yet.' };
+  }, [draftResult, model]);
 
   const handleEdit = () => {
-    setDraftJson(
-      model
-        ? JSON.stringify({ schema_version: model.schema_version, type_definitions: model.type_definitions }, null, 2)
-        : JSON.stringify({ schema_version: '1.1', type_definitions: [] }, null, 2)
-    );
+    const base = model ?? { schema_version: '1.1', type_definitions: [] };
+    const dsl = tryModelToDsl(base);
+    setFormat(dsl !== null && format === 'dsl' ? 'dsl' : 'json');
+    setDraft(dsl !== null && format === 'dsl' ? dsl : modelJson(base));
     setEditing(true);
   };
 
+  const handleFormatChange = (next: string) => {
+    if (next === format) return;
+    if (!editing) {
+      setFormat(next as ModelFormat);
+      return;
+    }
+    // Convert the draft so edits carry over; an invalid draft has to be fixed first
+    if (!draftResult?.model) {
+      toast({ title: `Can't convert the draft`, description: draftResult?.error ?? undefined, variant: 'destructive' });
+      return;
+    }
+    if (next === 'dsl') {
+      const dsl = tryModelToDsl(draftResult.model);
+      if (dsl === null) {
+        toast({ title: `Can't show as DSL`, description: 'This model uses features only the JSON editor supports.', variant: 'destructive' });
+        return;
+      }
+      setDraft(dsl);
+    } else {
+      setDraft(modelJson(draftResult.model));
+    }
+    setFormat(next as ModelFormat);
+  };
+
   const handleSave = async () => {
-    let parsed: unknown;
-    try {
-      parsed = JSON.parse(draftJson);
-    } catch {
-      toast({ title: 'Invalid JSON', description: 'Check your model JSON syntax.', variant: 'destructive' });
+    if (!draftResult?.model) {
+      toast({
+        title: format === 'dsl' ? 'Invalid DSL' : 'Invalid JSON',
+        description: draftResult?.error ?? 'Check your model syntax.',
+        variant: 'destructive',
+      });
       return;
     }
     setSaving(true);
     try {
-      const url = policiesApiUrl(project.project_id, project.api_version, 'model');
-      const res = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(parsed),
-      });
-      if (!res.ok) {
-        const err = await res.json().catch(() => ({})) as { error?: string };
-        throw new Error(err.error ?? `Error ${res.status}`);
-      }
+      await saveAuthorizationModel(project.project_id, project.api_version, draftResult.model);
       toast({ title: 'Model saved', description: 'Authorization model updated across all tenants.' });
       setEditing(false);
-      await loadModel();
+      await onReload();
     } catch (e) {
       toast({ title: 'Save failed', description: e instanceof Error ? e.message : 'Unknown error', variant: 'destructive' });
     } finally {
@@ -353,6 +402,8 @@ function ModelCard({ project }: { project: Project }) {
     }
   };
 
+  const showDsl = format === 'dsl' && modelDsl !== null;
+
   return (
     <Card>
       <CardHeader>
@@ -363,15 +414,29 @@ function ModelCard({ project }: { project: Project }) {
               OpenFGA type definitions — declares the user, resource, and relation types for your API.
             </CardDescription>
           </div>
-          {!loading && !editing && (
-            <Button variant="outline" size="sm" onClick={handleEdit}>
-              <Edit2 className="w-3.5 h-3.5 mr-1.5" />
-              {model ? 'Edit' : 'Add Model'}
-            </Button>
-          )}
+          <div className="flex items-center gap-2">
+            {!loading && (model || editing) && (
+              <Button variant={simulating ? 'secondary' : 'outline'} size="sm" onClick={() => setSimulating((s) => !s)}>
+                <FlaskConical className="w-3.5 h-3.5 mr-1.5" />
+                Test
+              </Button>
+            )}
+            {!loading && !editing && model && (
+              <Button variant="outline" size="sm" onClick={() => setHistoryOpen(true)}>
+                <History className="w-3.5 h-3.5 mr-1.5" />
+                History
+              </Button>
+            )}
+            {!loading && !editing && (
+              <Button variant="outline" size="sm" onClick={handleEdit}>
+                <Edit2 className="w-3.5 h-3.5 mr-1.5" />
+                {model ? 'Edit' : 'Add Model'}
+              </Button>
+            )}
+          </div>
         </div>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-4">
         {loading && (
           <div className="flex items-center gap-2 text-muted-foreground py-4">
             <Loader2 className="w-4 h-4 animate-spin" />
@@ -389,21 +454,40 @@ function ModelCard({ project }: { project: Project }) {
             No authorization model configured. Add one to enable tuple-based access checks.
           </p>
         )}
+        {!loading && !error && (editing || model) && (
+          <Tabs value={editing ? format : showDsl ? 'dsl' : 'json'} onValueChange={handleFormatChange}>
+            <TabsList className="h-8">
+              <TabsTrigger value="dsl" className="text-xs" disabled={!editing && modelDsl === null}>DSL</TabsTrigger>
+              <TabsTrigger value="json" className="text-xs">JSON</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        )}
         {!loading && !error && !editing && model && (
           <pre className="text-xs bg-muted rounded-md p-3 overflow-x-auto whitespace-pre-wrap max-h-64">
-            {JSON.stringify({ schema_version: model.schema_version, type_definitions: model.type_definitions }, null, 2)}
+            {showDsl ? modelDsl : modelJson(model)}
           </pre>
         )}
         {editing && (
           <div className="space-y-3">
             <Textarea
-              value={draftJson}
-              onChange={(e) => setDraftJson(e.target.value)}
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
               className="font-mono text-xs min-h-64 resize-y"
-              placeholder='{ "schema_version": "1.1", "type_definitions": [...] }'
+              spellCheck={false}
+              placeholder={
+                format === 'dsl'
+                  ? 'model\n  schema 1.1\n\ntype user\n\ntype document\n  relations\n    define viewer: [user]'
+                  : '{ "schema_version": "1.1", "type_definitions": [...] }'
+              }
             />
+            {draftResult?.error && draft.trim() !== '' && (
+              <p className="flex items-center gap-1.5 text-xs text-red-500">
+                <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+                {draftResult.error}
+              </p>
+            )}
             <div className="flex items-center gap-2">
-              <Button size="sm" onClick={handleSave} disabled={saving}>
+              <Button size="sm" onClick={handleSave} disabled={saving || !draftResult?.model}>
                 {saving ? <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" /> : <Save className="w-3.5 h-3.5 mr-1.5" />}
                 Save Model
               </Button>
@@ -413,7 +497,23 @@ function ModelCard({ project }: { project: Project }) {
             </div>
           </div>
         )}
+        {simulating && !loading && (
+          <ModelSimulator
+            model={simulation.model}
+            modelError={simulation.error}
+            storageKey={`apiblaze_fga_simulation_${project.project_id}_${project.api_version}`}
+          />
+        )}
       </CardContent>
+      <ModelHistoryDialog
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        projectId={project.project_id}
+        apiVersion={project.api_version}
+        tenantId={tenantId}
+        current={model}
+        onRestored={() => void onReload()}
+      />
     </Card>
   );
 }
@@ -421,18 +521,48 @@ function ModelCard({ project }: { project: Project }) {
 // ─── Route Coverage Card ──────────────────────────────────────────────────────
 
 function RouteCoverageCard({
+  project,
   routes,
+  model,
   loading,
   error,
   enforced,
 }: {
+  project: Project;
   routes: RouteEntry[];
+  model: OpenFGAModel | null;
   loading: boolean;
   error: string | null;
   enforced: boolean;
 }) {
+  const report = useMemo(() => analyzeRouteCoverage(routes, model, enforced), [routes, model, enforced]);
   const protected_ = routes.filter((r) => !hasNoPolicy(r));
   const unprotected = routes.filter(hasNoPolicy);
+  const flagged = report.filter((r) => r.findings.length > 0).length;
+  // Routes with findings first, then unprotected, then protected
+  const ordered = useMemo(
+    () =>
+      routes
+        .map((route, i) => ({ route, coverage: report[i] }))
+        .sort((a, b) =>
+          Number(b.coverage.findings.length > 0) - Number(a.coverage.findings.length > 0) ||
+          Number(a.coverage.hasPolicy) - Number(b.coverage.hasPolicy)
+        ),
+    [routes, report]
+  );
+
+  const handleExport = (format: 'json' | 'csv') => {
+    const text = format === 'json'
+      ? coverageReportToJson(report, { projectId: project.project_id, apiVersion: project.api_version, enforced })
+      : coverageReportToCsv(report);
+    const blob = new Blob([text], { type: format === 'json' ? 'application/json' : 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${project.project_id}-${project.api_version}-authorization-coverage.${format}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
 
   return (
     <Card>
@@ -451,11 +581,30 @@ function RouteCoverageCard({
                   {unprotected.length} unprotected
                 </span>
               )}
+              {flagged > 0 && (
+                <span className="flex items-center gap-1 text-orange-600 dark:text-orange-400">
+                  <TriangleAlert className="w-4 h-4" />
+                  {flagged} flagged
+                </span>
+              )}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <Download className="w-3.5 h-3.5 mr-1.5" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => handleExport('json')}>Report as JSON</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport('csv')}>Report as CSV</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           )}
         </CardTitle>
         <CardDescription>
-          Each route from your RouteConfig is listed here. Configure{' '}
+          Each route from your RouteConfig is listed here with any authorization gaps and a suggested
+          policy derived from its path. Configure{' '}
           <strong>on_request_read</strong> and <strong>post_response_write</strong> tuples
           in the <strong>Routes</strong> tab.
         </CardDescription>
@@ -480,8 +629,8 @@ function RouteCoverageCard({
         )}
         {!loading && !error && routes.length > 0 && (
           <div className="space-y-1.5">
-            {[...protected_, ...unprotected].map((route, i) => (
-              <RouteRow key={`${route.method}-${route.path}-${i}`} route={route} enforced={enforced} />
+            {ordered.map(({ route, coverage }, i) => (
+              <RouteRow key={`${route.method}-${route.path}-${i}`} route={route} coverage={coverage} enforced={enforced} />
             ))}
           </div>
         )}
@@ -515,6 +664,27 @@ export function AuthorizationSection({ project, config, updateConfig, onProjectU
     if (project) void loadRoutes(project);
   }, [project, loadRoutes]);
 
+  // Model state is lifted too: the tuples view validates against it and coverage maps path params to its types
+  const [model, setModel] = useState<OpenFGAModel | null>(null);
+  const [modelLoading, setModelLoading] = useState(true);
+  const [modelError, setModelError] = useState<string | null>(null);
+
+  const loadModel = useCallback(async (proj: Project) => {
+    setModelLoading(true);
+    setModelError(null);
+    try {
+      setModel(await getAuthorizationModel(proj.project_id, proj.api_version, getTenantId(proj)));
+    } catch (e) {
+      setModelError(e instanceof Error ? e.message : 'Failed to load model');
+    } finally {
+      setModelLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (project) void loadModel(project);
+  }, [project, loadModel]);
+
   if (!project) {
     return (
       <Card>
@@ -555,10 +725,24 @@ export function AuthorizationSection({ project, config, updateConfig, onProjectU
         onRefreshRoutes={() => void loadRoutes(project)}
       />
 
-      <ModelCard project={project} />
+      <ModelCard
+        project={project}
+        model={model}
+        loading={modelLoading}
+        error={modelError}
+        onReload={() => loadModel(project)}
+      />
+
+      <TuplesCard
+        project={project}
+        tenantId={getTenantId(project)}
+        model={modelLoading || modelError ? undefined : model}
+      />
 
       <RouteCoverageCard
+        project={project}
         routes={routes}
+        model={model}
         loading={routesLoading}
         error={routesError}
         enforced={config.enforceAuthorization}
@@ -0,0 +1,315 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Braces, ListChecks } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import {
+  DEFAULT_CACHE_RULES,
+  parseCacheRules,
+  serializeCacheRules,
+  validateCacheRules,
+  type CacheRules,
+  type CacheRulesIssue,
+} from '@/lib/cache-rules';
+
+// Form state: every input is kept as typed so half-finished values survive re-renders
+interface CacheRulesForm {
+  ttl: string;
+  staleWhileRevalidate: string;
+  varyHeaders: string;
+  varyQuery: string;
+  varyClaims: string;
+  statusCodes: string;
+  bypassHeaders: string;
+  bypassQuery: string;
+  honorNoCache: boolean;
+}
+
+const joinList = (list: (string | number)[] | undefined) => (list ?? []).join(', ');
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+const optionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+function rulesToForm(rules: CacheRules): CacheRulesForm {
+  return {
+    ttl: String(rules.ttl),
+    staleWhileRevalidate: rules.stale_while_revalidate !== undefined ? String(rules.stale_while_revalidate) : '',
+    varyHeaders: joinList(rules.vary_by?.headers),
+    varyQuery: joinList(rules.vary_by?.query),
+    varyClaims: joinList(rules.vary_by?.claims),
+    statusCodes: joinList(rules.cacheable_status_codes),
+    bypassHeaders: joinList(rules.bypass?.headers),
+    bypassQuery: joinList(rules.bypass?.query),
+    honorNoCache: rules.bypass?.honor_no_cache ?? false,
+  };
+}
+
+// Unvalidated object for the schema; empty inputs become absent fields
+function formToCandidate(form: CacheRulesForm): Record<string, unknown> {
+  const list = (value: string) => {
+    const items = splitList(value);
+    return items.length > 0 ? items : undefined;
+  };
+  const statusCodes = list(form.statusCodes);
+  return {
+    ttl: optionalNumber(form.ttl),
+    stale_while_revalidate: optionalNumber(form.staleWhileRevalidate),
+    vary_by: { headers: list(form.varyHeaders), query: list(form.varyQuery), claims: list(form.varyClaims) },
+    cacheable_status_codes: statusCodes?.map(Number),
+    bypass: {
+      headers: list(form.bypassHeaders),
+      query: list(form.bypassQuery),
+      honor_no_cache: form.honorNoCache || undefined,
+    },
+  };
+}
+
+function issuesFor(errors: CacheRulesIssue[], path: string): string | undefined {
+  return errors.find((e) => e.path === path || e.path.startsWith(`${path}.`))?.message;
+}
+
+const FORM_FIELD_PATHS = [
+  'ttl',
+  'stale_while_revalidate',
+  'vary_by.headers',
+  'vary_by.query',
+  'vary_by.claims',
+  'cacheable_status_codes',
+  'bypass.headers',
+  'bypass.query',
+];
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <p className="text-xs text-red-500">{message}</p> : null;
+}
+
+interface CacheRulesEditorProps {
+  /** RouteEntry.cache_rules JSON string; empty when caching is off */
+  value: string;
+  /** Called with the serialized rules whenever the form is valid */
+  onChange: (value: string) => void;
+}
+
+export function CacheRulesEditor({ value, onChange }: CacheRulesEditorProps) {
+  const initial = parseCacheRules(value);
+  // Stored rules the form can't represent (invalid or unknown fields) open in JSON mode
+  const [mode, setMode] = useState<'form' | 'json'>(initial.ok ? 'form' : 'json');
+  const [enabled, setEnabled] = useState(!initial.ok || initial.rules !== null);
+  const [form, setForm] = useState<CacheRulesForm>(
+    rulesToForm(initial.ok && initial.rules ? initial.rules : DEFAULT_CACHE_RULES)
+  );
+  const [json, setJson] = useState(value);
+  const [errors, setErrors] = useState<CacheRulesIssue[]>(initial.ok ? [] : initial.errors);
+
+  // Resync when the stored value changes underneath (async loads, bulk edits)
+  useEffect(() => {
+    const parsed = parseCacheRules(value);
+    setEnabled(!parsed.ok || parsed.rules !== null);
+    if (parsed.ok && parsed.rules) setForm(rulesToForm(parsed.rules));
+    setJson(value);
+    setErrors(parsed.ok ? [] : parsed.errors);
+    if (!parsed.ok) setMode('json');
+  }, [value]);
+
+  const updateForm = (updates: Partial<CacheRulesForm>) => {
+    const next = { ...form, ...updates };
+    setForm(next);
+    const result = validateCacheRules(formToCandidate(next));
+    setErrors(result.ok ? [] : result.errors);
+    if (result.ok) {
+      const serialized = serializeCacheRules(result.rules);
+      setJson(serialized);
+      onChange(serialized);
+    }
+  };
+
+  const handleToggle = (checked: boolean) => {
+    setEnabled(checked);
+    if (!checked) {
+      setErrors([]);
+      setJson('');
+      onChange('');
+      return;
+    }
+    updateForm({});
+  };
+
+  const handleJsonBlur = () => {
+    const result = parseCacheRules(json);
+    setErrors(result.ok ? [] : result.errors);
+    if (!result.ok) return;
+    if (result.rules) setForm(rulesToForm(result.rules));
+    setEnabled(result.rules !== null);
+    onChange(serializeCacheRules(result.rules));
+  };
+
+  const switchMode = () => {
+    if (mode === 'form') {
+      setMode('json');
+      return;
+    }
+    // Only leave JSON mode with rules the form can show
+    const result = parseCacheRules(json);
+    if (!result.ok) {
+      setErrors(result.errors);
+      return;
+    }
+    if (result.rules) setForm(rulesToForm(result.rules));
+    setMode('form');
+  };
+
+  // The stored value only stays invalid until an edit validates, so this marks rules saved before the schema
+  const legacy = value.trim() !== '' && !parseCacheRules(value).ok;
+  const otherErrors = errors.filter((e) => mode === 'json' || !FORM_FIELD_PATHS.some((p) => issuesFor([e], p)));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Label className="text-sm font-medium">Cache Rules</Label>
+          {mode === 'form' && <Switch checked={enabled} onCheckedChange={handleToggle} />}
+        </div>
+        <Button type="button" variant="ghost" size="sm" onClick={switchMode}>
+          {mode === 'form' ? <Braces className="h-3.5 w-3.5 mr-1.5" /> : <ListChecks className="h-3.5 w-3.5 mr-1.5" />}
+          {mode === 'form' ? 'Edit as JSON' : 'Edit as form'}
+        </Button>
+      </div>
+
+      {legacy && (
+        <p className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-xs text-amber-800 dark:border-amber-700 dark:bg-amber-950/40 dark:text-amber-200">
+          These cache rules were saved in an older format. They are kept as they are until you fix the errors
+          below, which migrates them to the current format.
+        </p>
+      )}
+
+      {mode === 'json' ? (
+        <Textarea
+          value={json}
+          onChange={(e) => setJson(e.target.value)}
+          onBlur={handleJsonBlur}
+          className={cn('font-mono text-xs', errors.length > 0 && 'border-red-500')}
+          placeholder={serializeCacheRules(DEFAULT_CACHE_RULES)}
+          rows={5}
+        />
+      ) : enabled ? (
+        <div className="grid grid-cols-2 gap-4 rounded-lg border p-4">
+          <div className="space-y-1.5">
+            <Label className="text-xs">TTL (seconds)</Label>
+            <Input
+              type="number"
+              min={1}
+              value={form.ttl}
+              onChange={(e) => updateForm({ ttl: e.target.value })}
+              className={cn('h-8 text-sm', issuesFor(errors, 'ttl') && 'border-red-500')}
+            />
+            <FieldError message={issuesFor(errors, 'ttl')} />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Stale while revalidate (seconds)</Label>
+            <Input
+              type="number"
+              min={0}
+              value={form.staleWhileRevalidate}
+              onChange={(e) => updateForm({ staleWhileRevalidate: e.target.value })}
+              placeholder="0"
+              className={cn('h-8 text-sm', issuesFor(errors, 'stale_while_revalidate') && 'border-red-500')}
+            />
+            <FieldError message={issuesFor(errors, 'stale_while_revalidate')} />
+          </div>
+
+          <ListInput
+            label="Vary by headers"
+            value={form.varyHeaders}
+            placeholder="accept-language, x-tenant"
+            error={issuesFor(errors, 'vary_by.headers')}
+            onChange={(varyHeaders) => updateForm({ varyHeaders })}
+          />
+          <ListInput
+            label="Vary by query parameters"
+            value={form.varyQuery}
+            placeholder="page, limit"
+            error={issuesFor(errors, 'vary_by.query')}
+            onChange={(varyQuery) => updateForm({ varyQuery })}
+          />
+          <ListInput
+            label="Vary by JWT claims"
+            value={form.varyClaims}
+            placeholder="sub, org_id"
+            error={issuesFor(errors, 'vary_by.claims')}
+            onChange={(varyClaims) => updateForm({ varyClaims })}
+          />
+          <ListInput
+            label="Cacheable status codes"
+            value={form.statusCodes}
+            placeholder="200"
+            error={issuesFor(errors, 'cacheable_status_codes')}
+            onChange={(statusCodes) => updateForm({ statusCodes })}
+          />
+          <ListInput
+            label="Bypass when header present"
+            value={form.bypassHeaders}
+            placeholder="x-no-cache"
+            error={issuesFor(errors, 'bypass.headers')}
+            onChange={(bypassHeaders) => updateForm({ bypassHeaders })}
+          />
+          <ListInput
+            label="Bypass when query parameter present"
+            value={form.bypassQuery}
+            placeholder="nocache"
+            error={issuesFor(errors, 'bypass.query')}
+            onChange={(bypassQuery) => updateForm({ bypassQuery })}
+          />
+          <div className="col-span-2 flex items-center gap-3">
+            <Switch checked={form.honorNoCache} onCheckedChange={(honorNoCache) => updateForm({ honorNoCache })} />
+            <Label className="text-xs">Bypass when the client sends Cache-Control: no-cache</Label>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Responses from this route are not cached.</p>
+      )}
+
+      {otherErrors.map((e, i) => (
+        <p key={i} className="text-xs text-red-500">
+          {e.path ? `${e.path}: ${e.message}` : e.message}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+function ListInput({
+  label,
+  value,
+  placeholder,
+  error,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  placeholder?: string;
+  error?: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div className="space-y-1.5">
+      <Label className="text-xs">{label}</Label>
+      <Input
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        className={cn('h-8 text-sm', error && 'border-red-500')}
+      />
+      <FieldError message={error} />
+    </div>
+  );
+}
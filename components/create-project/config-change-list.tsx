@@ -0,0 +1,80 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import type { ManifestChange } from './project-manifest';
+
+const SECTION_LABELS: Record<string, string> = {
+  general: 'General',
+  authentication: 'Authentication',
+  authorization: 'Authorization',
+  targetServers: 'Target servers',
+  throttling: 'Throttling',
+  processing: 'Pre/Post processing',
+  domains: 'Domains',
+  routes: 'Routes',
+};
+
+function sectionOf(path: string): string {
+  return path.split(/[.[]/, 1)[0];
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  if (typeof value === 'string') return value === '' ? '""' : value;
+  return JSON.stringify(value, null, 2);
+}
+
+function ChangeRow({ change, note }: { change: ManifestChange; note?: string }) {
+  return (
+    <div className="border rounded-md px-3 py-2 space-y-1.5">
+      <div className="flex items-center gap-2 flex-wrap">
+        <Badge
+          variant={change.kind === 'removed' ? 'destructive' : change.kind === 'added' ? 'default' : 'secondary'}
+          className="text-xs"
+        >
+          {change.kind}
+        </Badge>
+        <span className="font-mono text-xs break-all">{change.path}</span>
+        {note && <span className="text-xs text-orange-600 dark:text-orange-400">{note}</span>}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <pre className="text-xs bg-red-50 dark:bg-red-950/30 rounded p-2 overflow-x-auto whitespace-pre-wrap break-all">
+          {formatValue(change.before)}
+        </pre>
+        <pre className="text-xs bg-green-50 dark:bg-green-950/30 rounded p-2 overflow-x-auto whitespace-pre-wrap break-all">
+          {formatValue(change.after)}
+        </pre>
+      </div>
+    </div>
+  );
+}
+
+interface ConfigChangeListProps {
+  changes: ManifestChange[];
+  /** Optional per-change annotation, e.g. a warning that the change is not applied. */
+  noteFor?: (change: ManifestChange) => string | undefined;
+}
+
+/** Side-by-side before/after view of config changes, grouped by section. */
+export function ConfigChangeList({ changes, noteFor }: ConfigChangeListProps) {
+  const groups = new Map<string, ManifestChange[]>();
+  for (const change of changes) {
+    const section = sectionOf(change.path);
+    groups.set(section, [...(groups.get(section) ?? []), change]);
+  }
+
+  return (
+    <div className="space-y-4">
+      {[...groups.entries()].map(([section, sectionChanges]) => (
+        <div key={section} className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+            {SECTION_LABELS[section] ?? section} ({sectionChanges.length})
+          </p>
+          {sectionChanges.map((change) => (
+            <ChangeRow key={change.path} change={change} note={noteFor?.(change)} />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+/**
+ * Three-way merge for "Save Updated Config" conflicts (409/412 from the admin API or policies-api).
+ *
+ * base   – the project config and routes the panel loaded
+ * mine   – the pending panel state
+ * theirs – the latest server copy
+ *
+ * Changes are compared per unit: each saved section, each target-server stage and each route.
+ * The user's changed units are reapplied on top of theirs; units both sides changed differently
+ * are conflicts the user resolves by keeping either copy.
+ */
+
+import { configToManifest, clearedRoute, type SavedConfigSection } from './project-manifest';
+import type { ProjectConfig, RouteEntry, TargetServer } from './types';
+
+export interface ConfigSnapshot {
+  config: ProjectConfig;
+  /** Routes with non-default settings only (see getRoutesWithConfig). */
+  routes: RouteEntry[];
+}
+
+export interface MergeUnit {
+  /** `authentication`, `targetServers[prod]`, `routes[GET /users]`, ... */
+  key: string;
+  section: SavedConfigSection;
+  base?: unknown;
+  mine?: unknown;
+  theirs?: unknown;
+  mineChanged: boolean;
+  theirsChanged: boolean;
+  /** Both sides changed the unit to different values. */
+  conflict: boolean;
+}
+
+export type MergeChoice = 'mine' | 'theirs';
+
+const routeKey = (r: { method: string; path: string }) => `${r.method.toUpperCase()} ${r.path}`;
+
+function unitValues(snapshot: ConfigSnapshot): Map<string, unknown> {
+  const manifest = configToManifest(snapshot.config, snapshot.routes);
+  const units = new Map<string, unknown>();
+  units.set('authentication', manifest.authentication);
+  units.set('authorization', manifest.authorization);
+  units.set('throttling', manifest.throttling);
+  for (const server of manifest.targetServers ?? []) units.set(`targetServers[${server.stage}]`, server);
+  for (const route of manifest.routes ?? []) units.set(`routes[${routeKey(route)}]`, route);
+  return units;
+}
+
+function sectionOf(key: string): SavedConfigSection {
+  return key.split('[', 1)[0] as SavedConfigSection;
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/** Every unit changed by either side since base. */
+export function planMerge(base: ConfigSnapshot, mine: ConfigSnapshot, theirs: ConfigSnapshot): MergeUnit[] {
+  const b = unitValues(base);
+  const m = unitValues(mine);
+  const t = unitValues(theirs);
+  const units: MergeUnit[] = [];
+  for (const key of new Set([...b.keys(), ...m.keys(), ...t.keys()])) {
+    const mineChanged = !same(b.get(key), m.get(key));
+    const theirsChanged = !same(b.get(key), t.get(key));
+    if (!mineChanged && !theirsChanged) continue;
+    units.push({
+      key,
+      section: sectionOf(key),
+      base: b.get(key),
+      mine: m.get(key),
+      theirs: t.get(key),
+      mineChanged,
+      theirsChanged,
+      conflict: mineChanged && theirsChanged && !same(m.get(key), t.get(key)),
+    });
+  }
+  return units;
+}
+
+function pickAuthentication(config: ProjectConfig): Partial<ProjectConfig> {
+  return {
+    requestsAuthMode: config.requestsAuthMode,
+    requestsAuthMethods: config.requestsAuthMethods,
+    allowedPairs: config.allowedPairs,
+    opaqueTokenEndpoint: config.opaqueTokenEndpoint,
+    opaqueTokenMethod: config.opaqueTokenMethod,
+    opaqueTokenParams: config.opaqueTokenParams,
+    opaqueTokenBody: config.opaqueTokenBody,
+    requireApiKeyXEndUserId: config.requireApiKeyXEndUserId,
+    defaultAppClient: config.defaultAppClient,
+  };
+}
+
+/**
+ * Saved sections taken from theirs, with the user's changed units reapplied on top.
+ * Conflicting units follow `choices` (default: mine). Reapplied routes carry theirs' updated_at
+ * so the next save passes the If-Match check.
+ */
+export function applyMerge(
+  mine: ConfigSnapshot,
+  theirs: ConfigSnapshot,
+  units: MergeUnit[],
+  choices: Record<string, MergeChoice>
+): { config: Partial<ProjectConfig>; routes: RouteEntry[] } {
+  const config: Partial<ProjectConfig> = {
+    ...pickAuthentication(theirs.config),
+    enforceAuthorization: theirs.config.enforceAuthorization,
+    throttling: theirs.config.throttling,
+  };
+  const servers = new Map<string, TargetServer>(theirs.config.targetServers.map((s) => [s.stage, s]));
+  const mineServers = new Map(mine.config.targetServers.map((s) => [s.stage, s]));
+  const routes = new Map<string, RouteEntry>(theirs.routes.map((r) => [routeKey(r), r]));
+  const mineRoutes = new Map(mine.routes.map((r) => [routeKey(r), r]));
+  const theirRoutes = new Map(theirs.routes.map((r) => [routeKey(r), r]));
+
+  for (const unit of units) {
+    if (!unit.mineChanged || (unit.conflict && choices[unit.key] === 'theirs')) continue;
+    const id = unit.key.slice(unit.section.length + 1, -1);
+    switch (unit.section) {
+      case 'authentication':
+        Object.assign(config, pickAuthentication(mine.config));
+        break;
+      case 'authorization':
+        config.enforceAuthorization = mine.config.enforceAuthorization;
+        break;
+      case 'throttling':
+        config.throttling = mine.config.throttling;
+        break;
+      case 'targetServers': {
+        const server = mineServers.get(id);
+        if (server) servers.set(id, server);
+        else servers.delete(id);
+        break;
+      }
+      case 'routes': {
+        const route = mineRoutes.get(id);
+        const theirRoute = theirRoutes.get(id);
+        if (route) {
+          routes.set(id, { ...route, updated_at: theirRoute?.updated_at });
+        } else if (theirRoute) {
+          // Reset to defaults so putRouteConfig deletes the stored entry
+          routes.set(id, clearedRoute(theirRoute));
+        }
+        break;
+      }
+    }
+  }
+
+  config.targetServers = [...servers.values()];
+  return { config, routes: [...routes.values()] };
+}
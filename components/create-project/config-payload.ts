@@ -0,0 +1,71 @@
+/**
+ * Builders for the project config payloads sent to the admin API.
+ * Shared by deploy, "Save Updated Config" and manifest import so all three write the same shape.
+ */
+
+import type { ProjectConfig, TargetServer, TargetServerConfig } from './types';
+
+export type RequestsAuthPayload = {
+  mode: 'authenticate' | 'passthrough';
+  methods?: ('jwt' | 'opaque' | 'api_key')[];
+  jwt?: { allowed_pairs: Array<{ iss: string; aud: string }> };
+  opaque?: { endpoint: string; method: 'GET' | 'POST'; params: string; body: string };
+  api_key?: { require_x_end_user_id: boolean };
+};
+
+export type EnvironmentsPayload = Record<string, { target: string; config?: TargetServerConfig[] }>;
+
+/**
+ * Build `requests_auth` from the Authentication tab state.
+ * `{projectName}`, `{apiVersion}` and `{appClientId}` placeholders in iss/aud pairs are substituted;
+ * with no pairs configured, the APIBlaze-issued token pairs for the app client are used.
+ */
+export function buildRequestsAuth(
+  config: ProjectConfig,
+  ctx: { projectName: string; apiVersion: string; appClientId: string }
+): RequestsAuthPayload {
+  const { projectName, apiVersion, appClientId } = ctx;
+  const substitutePlaceholders = (s: string) =>
+    s.replace(/\{projectName\}/g, projectName).replace(/\{apiVersion\}/g, apiVersion).replace(/\{appClientId\}/g, appClientId);
+
+  const requestsAuthMode = config.requestsAuthMode ?? 'passthrough';
+  const requestsAuthMethods = config.requestsAuthMethods ?? ['jwt'];
+  if (requestsAuthMode === 'passthrough') {
+    return { mode: 'passthrough', methods: [] };
+  }
+
+  const pairs = (config.allowedPairs ?? []).length > 0
+    ? (config.allowedPairs ?? []).map((p) => ({
+        iss: substitutePlaceholders(p.iss),
+        aud: substitutePlaceholders(p.aud),
+      }))
+    : (appClientId
+      ? [
+          { iss: `https://auth.apiblaze.com/${appClientId}`, aud: `https://${projectName || 'project'}-api.portal.apiblaze.com/${apiVersion}` },
+          { iss: `https://auth.apiblaze.com/${appClientId}`, aud: appClientId },
+        ]
+      : []);
+  return {
+    mode: 'authenticate',
+    methods: requestsAuthMethods,
+    jwt: { allowed_pairs: pairs },
+    opaque: requestsAuthMethods.includes('opaque') && config.opaqueTokenEndpoint
+      ? { endpoint: config.opaqueTokenEndpoint, method: config.opaqueTokenMethod ?? 'GET', params: config.opaqueTokenParams ?? '?access_token={token}', body: config.opaqueTokenBody ?? 'token={token}' }
+      : undefined,
+    api_key: requestsAuthMethods.includes('api_key')
+      ? { require_x_end_user_id: config.requireApiKeyXEndUserId ?? false }
+      : undefined,
+  };
+}
+
+/** Build `environments` from the Targets tab, keeping per-stage headers/parameters. Stages without a URL are skipped. */
+export function buildEnvironments(targetServers: TargetServer[]): EnvironmentsPayload {
+  const environments: EnvironmentsPayload = {};
+  for (const server of targetServers) {
+    if (!server.targetUrl) continue;
+    environments[server.stage] = server.config.length > 0
+      ? { target: server.targetUrl, config: server.config }
+      : { target: server.targetUrl };
+  }
+  return environments;
+}
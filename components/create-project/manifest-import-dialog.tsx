@@ -0,0 +1,206 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertCircle, CheckCircle2, FileUp, Loader2, TriangleAlert } from 'lucide-react';
+import { ConfigChangeList } from './config-change-list';
+import {
+  diffManifests,
+  isImportableChange,
+  parseManifest,
+  type ManifestChange,
+  type ProjectManifest,
+  type ProjectManifestInput,
+} from './project-manifest';
+
+interface ManifestImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Manifest built from the current project config; the import is diffed against it. */
+  currentManifest: ProjectManifestInput | null;
+  /** Still loading the live route config needed for currentManifest. */
+  loadingCurrent?: boolean;
+  /** Resolves true when the manifest was applied; errors are reported by the caller. */
+  onApply: (manifest: ProjectManifest) => Promise<boolean>;
+}
+
+function notImportedNote(change: ManifestChange): string | undefined {
+  return isImportableChange(change) ? undefined : 'cannot be imported';
+}
+
+export function ManifestImportDialog({
+  open,
+  onOpenChange,
+  currentManifest,
+  loadingCurrent = false,
+  onApply,
+}: ManifestImportDialogProps) {
+  const [text, setText] = useState('');
+  const [applying, setApplying] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) setText('');
+  }, [open]);
+
+  const parsed = useMemo(() => (text.trim() ? parseManifest(text) : null), [text]);
+
+  // A manifest for another project or API version must never be applied here
+  const mismatch = useMemo(() => {
+    if (!parsed?.ok || !currentManifest) return null;
+    const { name, apiVersion } = parsed.manifest.project;
+    if (name !== currentManifest.project.name || apiVersion !== currentManifest.project.apiVersion) {
+      return `Manifest is for ${name} v${apiVersion}, but this project is ${currentManifest.project.name} v${currentManifest.project.apiVersion}.`;
+    }
+    return null;
+  }, [parsed, currentManifest]);
+
+  const changes = useMemo(
+    () => (parsed?.ok && currentManifest && !mismatch ? diffManifests(currentManifest, parsed.manifest) : []),
+    [parsed, currentManifest, mismatch]
+  );
+  const rejectedChanges = changes.filter((c) => !isImportableChange(c));
+
+  const handleFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => setText(String(reader.result ?? ''));
+    reader.readAsText(file);
+  };
+
+  const handleApply = async () => {
+    if (!parsed?.ok || mismatch) return;
+    setApplying(true);
+    try {
+      if (await onApply(parsed.manifest)) onOpenChange(false);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!applying) onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import apiblaze.yaml</DialogTitle>
+          <DialogDescription>
+            Paste or upload a project manifest (YAML or JSON). Review the changes against the current configuration, then apply.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-[65vh] overflow-y-auto">
+          <div className="flex items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".yaml,.yml,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={applying}>
+              <FileUp className="mr-2 h-3.5 w-3.5" />
+              Upload file
+            </Button>
+          </div>
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            className="font-mono text-xs min-h-48 resize-y"
+            placeholder={'manifestVersion: 1\nproject:\n  name: myapi\n  apiVersion: 1.0.0\n...'}
+            disabled={applying}
+          />
+
+          {parsed && !parsed.ok && (
+            <div className="text-sm text-destructive bg-destructive/5 border border-destructive/30 rounded-lg p-3 space-y-1">
+              <div className="flex items-center gap-2 font-medium">
+                <AlertCircle className="w-4 h-4" />
+                Manifest is invalid
+              </div>
+              <ul className="list-disc pl-6 text-xs font-mono space-y-0.5">
+                {parsed.errors.map((err, i) => <li key={i}>{err}</li>)}
+              </ul>
+            </div>
+          )}
+          {mismatch && (
+            <div className="flex items-start gap-2 text-sm text-destructive">
+              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              {mismatch}
+            </div>
+          )}
+          {parsed?.ok && !mismatch && loadingCurrent && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading live configuration...
+            </div>
+          )}
+          {parsed?.ok && !mismatch && !loadingCurrent && changes.length === 0 && (
+            <div className="flex items-center gap-2 text-sm text-green-600">
+              <CheckCircle2 className="w-4 h-4" />
+              Manifest matches the current configuration. Nothing to apply.
+            </div>
+          )}
+          {rejectedChanges.length > 0 && (
+            <div className="flex items-start gap-2 text-sm text-destructive">
+              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              The manifest changes general, processing or domains settings, which an import cannot apply. Change them
+              in the project settings and redeploy, or make them match the current configuration.
+            </div>
+          )}
+          {changes.length > 0 && (
+            <div className="space-y-2">
+              {rejectedChanges.length === 0 && (
+                <p className="text-sm font-medium">
+                  {changes.length} {changes.length === 1 ? 'change' : 'changes'} will be applied
+                </p>
+              )}
+              {changes.some((c) => c.kind === 'removed') && (
+                <div className="flex items-start gap-2 text-sm text-orange-700 dark:text-orange-400 bg-orange-50 dark:bg-orange-950/30 border border-orange-200 dark:border-orange-900 rounded-lg p-3">
+                  <TriangleAlert className="w-4 h-4 mt-0.5 shrink-0" />
+                  Some settings exist in the project but not in the manifest and will be removed.
+                </div>
+              )}
+              <ConfigChangeList changes={changes} noteFor={notImportedNote} />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={applying}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleApply}
+            disabled={
+              !parsed?.ok || !!mismatch || loadingCurrent || changes.length === 0 || rejectedChanges.length > 0 || applying
+            }
+          >
+            {applying ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Applying…
+              </>
+            ) : (
+              'Apply manifest'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
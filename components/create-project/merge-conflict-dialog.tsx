@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, GitMerge, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { MergeChoice, MergeUnit } from './config-merge';
+
+interface MergeConflictDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Units changed since the config was loaded, or null while the latest copy is loading. */
+  units: MergeUnit[] | null;
+  error?: string | null;
+  onResolve: (choices: Record<string, MergeChoice>) => void;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(not set)';
+  return JSON.stringify(value, null, 2);
+}
+
+function ValuePane({ label, value, selected }: { label: string; value: unknown; selected?: boolean }) {
+  return (
+    <div className="min-w-0 space-y-1">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <pre
+        className={cn(
+          'text-xs bg-muted rounded p-2 overflow-x-auto whitespace-pre-wrap break-all max-h-48 border border-transparent',
+          selected && 'border-primary'
+        )}
+      >
+        {formatValue(value)}
+      </pre>
+    </div>
+  );
+}
+
+export function MergeConflictDialog({ open, onOpenChange, units, error, onResolve }: MergeConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+
+  useEffect(() => {
+    if (open) setChoices({});
+  }, [open, units]);
+
+  const mine = units?.filter((u) => u.mineChanged) ?? [];
+  const theirsOnly = units?.filter((u) => u.theirsChanged && !u.mineChanged) ?? [];
+  const conflicts = mine.filter((u) => u.conflict).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Someone else saved this project</DialogTitle>
+          <DialogDescription>
+            The configuration changed on the server after you loaded it, so nothing was saved. Reapply your
+            changes on top of the latest copy, then review and save again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-destructive">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          )}
+          {!error && units === null && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading the latest configuration...
+            </div>
+          )}
+
+          {mine.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                Your changes ({mine.length}{conflicts > 0 ? `, ${conflicts} conflicting` : ''})
+              </p>
+              {mine.map((unit) => {
+                const choice = choices[unit.key] ?? 'mine';
+                return (
+                  <div key={unit.key} className="border rounded-md px-3 py-2 space-y-2">
+                    <div className="flex items-center justify-between gap-2 flex-wrap">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className="font-mono text-xs break-all">{unit.key}</span>
+                        {unit.conflict && (
+                          <Badge variant="outline" className="text-xs border-orange-400 text-orange-600">
+                            Conflict
+                          </Badge>
+                        )}
+                      </div>
+                      {unit.conflict && (
+                        <div className="flex items-center gap-1">
+                          <Button
+                            size="sm"
+                            variant={choice === 'theirs' ? 'default' : 'outline'}
+                            onClick={() => setChoices((prev) => ({ ...prev, [unit.key]: 'theirs' }))}
+                          >
+                            Use latest
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant={choice === 'mine' ? 'default' : 'outline'}
+                            onClick={() => setChoices((prev) => ({ ...prev, [unit.key]: 'mine' }))}
+                          >
+                            Keep mine
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <ValuePane label="Latest" value={unit.theirs} selected={unit.conflict && choice === 'theirs'} />
+                      <ValuePane label="Yours" value={unit.mine} selected={unit.conflict && choice === 'mine'} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {theirsOnly.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                Changed by someone else — kept ({theirsOnly.length})
+              </p>
+              <ul className="text-xs font-mono text-muted-foreground space-y-0.5">
+                {theirsOnly.map((unit) => <li key={unit.key}>{unit.key}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {units && mine.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              None of your changes remain after the latest update; the latest copy will be loaded.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => onResolve(choices)} disabled={!units}>
+            <GitMerge className="mr-2 h-4 w-4" />
+            Reapply my changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
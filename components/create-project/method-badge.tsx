@@ -0,0 +1,20 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+export function MethodBadge({ method }: { method: string }) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn(
+        'text-xs shrink-0',
+        method === 'GET' && 'border-green-500/50 text-green-700 dark:text-green-400',
+        method === 'POST' && 'border-blue-500/50 text-blue-700 dark:text-blue-400',
+        method === 'PUT' && 'border-amber-500/50 text-amber-700 dark:text-amber-400',
+        method === 'PATCH' && 'border-amber-500/50 text-amber-700 dark:text-amber-400',
+        method === 'DELETE' && 'border-red-500/50 text-red-700 dark:text-red-400'
+      )}
+    >
+      {method}
+    </Badge>
+  );
+}
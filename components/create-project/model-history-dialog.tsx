@@ -0,0 +1,209 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, History, Loader2, RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getAuthorizationModelHistory, saveAuthorizationModel } from '@/lib/api/authorization-model';
+import { modelCreatedAt, type OpenFGAModel } from '@/lib/openfga';
+import { modelToDsl } from '@/lib/openfga-dsl';
+import { diffLines } from '@/lib/line-diff';
+import { useToast } from '@/hooks/use-toast';
+
+interface ModelHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  apiVersion: string;
+  tenantId: string;
+  /** The active model; versions are diffed against it */
+  current: OpenFGAModel | null;
+  /** Called after a version was restored so the card can reload */
+  onRestored: () => void;
+}
+
+/** DSL when the model can be printed as DSL, JSON otherwise (e.g. models with conditions). */
+function modelText(model: OpenFGAModel | null): string {
+  if (!model) return '';
+  try {
+    return modelToDsl(model);
+  } catch {
+    return JSON.stringify({ schema_version: model.schema_version, type_definitions: model.type_definitions }, null, 2);
+  }
+}
+
+function formatSavedAt(model: OpenFGAModel): string {
+  const date = modelCreatedAt(model);
+  return date ? date.toLocaleString() : 'Unknown date';
+}
+
+export function ModelHistoryDialog({
+  open,
+  onOpenChange,
+  projectId,
+  apiVersion,
+  tenantId,
+  current,
+  onRestored,
+}: ModelHistoryDialogProps) {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<OpenFGAModel[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setVersions(null);
+    setError(null);
+    setConfirming(false);
+    getAuthorizationModelHistory(projectId, apiVersion, tenantId)
+      .then((models) => {
+        if (cancelled) return;
+        setVersions(models);
+        setSelectedId(models.find((m) => m.id !== current?.id)?.id ?? models[0]?.id ?? null);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load model history');
+      });
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- reload only when reopened, not when the current model object changes
+  }, [open, projectId, apiVersion, tenantId]);
+
+  const selected = versions?.find((m) => m.id === selectedId) ?? null;
+  const isCurrent = !!selected && selected.id === current?.id;
+  const diff = useMemo(
+    () => (selected ? diffLines(modelText(current), modelText(selected)) : []),
+    [current, selected]
+  );
+  const changed = diff.filter((line) => line.kind !== 'same').length;
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setRestoring(true);
+    try {
+      await saveAuthorizationModel(projectId, apiVersion, {
+        schema_version: selected.schema_version,
+        type_definitions: selected.type_definitions,
+      });
+      toast({ title: 'Model restored', description: `The version from ${formatSavedAt(selected)} is now active.` });
+      onOpenChange(false);
+      onRestored();
+    } catch (e) {
+      toast({ title: 'Restore failed', description: e instanceof Error ? e.message : 'Unknown error', variant: 'destructive' });
+    } finally {
+      setRestoring(false);
+      setConfirming(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Model history</DialogTitle>
+          <DialogDescription>
+            Every save creates a new model version. Compare a version with the active model, or restore it
+            by saving it again as the newest version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </div>
+        )}
+        {!error && versions === null && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading versions...
+          </div>
+        )}
+        {versions && versions.length === 0 && (
+          <p className="text-sm text-muted-foreground">No saved versions yet.</p>
+        )}
+
+        {versions && versions.length > 0 && (
+          <div className="grid grid-cols-[14rem_1fr] gap-4 max-h-[60vh]">
+            <div className="border rounded-md divide-y overflow-y-auto">
+              {versions.map((version) => (
+                <button
+                  key={version.id}
+                  type="button"
+                  onClick={() => { setSelectedId(version.id ?? null); setConfirming(false); }}
+                  className={cn(
+                    'w-full text-left px-3 py-2 space-y-0.5 hover:bg-muted/50',
+                    version.id === selectedId && 'bg-muted'
+                  )}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-medium">{formatSavedAt(version)}</span>
+                    {version.id === current?.id && <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Active</Badge>}
+                  </div>
+                  <p className="text-[11px] font-mono text-muted-foreground truncate">{version.id}</p>
+                </button>
+              ))}
+            </div>
+
+            <div className="min-w-0 space-y-2 overflow-y-auto">
+              {selected && (
+                <>
+                  <p className="text-xs text-muted-foreground">
+                    {isCurrent
+                      ? 'This is the active model.'
+                      : changed === 0
+                        ? 'Identical to the active model.'
+                        : `Changes from the active model to this version (${changed} ${changed === 1 ? 'line' : 'lines'}).`}
+                  </p>
+                  <pre className="text-xs bg-muted rounded-md p-3 overflow-x-auto">
+                    {diff.map((line, i) => (
+                      <div
+                        key={i}
+                        className={cn(
+                          line.kind === 'added' && 'bg-green-100 text-green-800 dark:bg-green-950/60 dark:text-green-300',
+                          line.kind === 'removed' && 'bg-red-100 text-red-800 dark:bg-red-950/60 dark:text-red-300'
+                        )}
+                      >
+                        {line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '- ' : '  '}
+                        {line.text}
+                      </div>
+                    ))}
+                  </pre>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {confirming ? (
+            <Button variant="destructive" onClick={handleRestore} disabled={restoring}>
+              {restoring ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+              Replace the active model
+            </Button>
+          ) : (
+            <Button onClick={() => setConfirming(true)} disabled={!selected || isCurrent}>
+              <History className="mr-2 h-4 w-4" />
+              Restore this version
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,224 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { CheckCircle2, FlaskConical, TriangleAlert, XCircle } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  check,
+  listObjects,
+  parseAssertionLines,
+  parseTupleLines,
+  validateTuples,
+  type CheckResult,
+} from '@/lib/openfga-evaluator';
+import type { OpenFGAModel } from '@/lib/openfga';
+
+interface ModelSimulatorProps {
+  /** Model under test: the draft while editing, otherwise the saved one */
+  model: OpenFGAModel | null;
+  /** Why the model can't be evaluated (e.g. the draft is not valid JSON) */
+  modelError?: string | null;
+  /** localStorage key for the sample tuples and assertions */
+  storageKey: string;
+}
+
+interface SavedSimulation {
+  tuples: string;
+  assertions: string;
+}
+
+const EXAMPLE_TUPLES = '# user relation object\nuser:anne owner document:1\ngroup:eng#member viewer document:2';
+const EXAMPLE_ASSERTIONS = '# user relation object allow|deny\nuser:anne viewer document:1 allow';
+
+function loadSaved(key: string): SavedSimulation | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as SavedSimulation) : null;
+  } catch {
+    return null;
+  }
+}
+
+function runSafely<T>(fn: () => T): { value?: T; error?: string } {
+  try {
+    return { value: fn() };
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : 'Evaluation failed' };
+  }
+}
+
+function ResultBadge({ allowed }: { allowed: boolean }) {
+  return allowed ? (
+    <span className="flex items-center gap-1 text-sm font-medium text-green-600 dark:text-green-400">
+      <CheckCircle2 className="w-4 h-4" />
+      Allowed
+    </span>
+  ) : (
+    <span className="flex items-center gap-1 text-sm font-medium text-red-600 dark:text-red-400">
+      <XCircle className="w-4 h-4" />
+      Denied
+    </span>
+  );
+}
+
+export function ModelSimulator({ model, modelError, storageKey }: ModelSimulatorProps) {
+  const [tuplesText, setTuplesText] = useState(() => loadSaved(storageKey)?.tuples ?? EXAMPLE_TUPLES);
+  const [assertionsText, setAssertionsText] = useState(() => loadSaved(storageKey)?.assertions ?? EXAMPLE_ASSERTIONS);
+  const [user, setUser] = useState('user:anne');
+  const [relation, setRelation] = useState('viewer');
+  const [object, setObject] = useState('document:1');
+  const [listType, setListType] = useState('document');
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify({ tuples: tuplesText, assertions: assertionsText }));
+    } catch {
+      // Storage full or disabled; the simulation just isn't remembered
+    }
+  }, [storageKey, tuplesText, assertionsText]);
+
+  const parsedTuples = useMemo(() => parseTupleLines(tuplesText), [tuplesText]);
+  const parsedAssertions = useMemo(() => parseAssertionLines(assertionsText), [assertionsText]);
+  const tupleProblems = useMemo(
+    () => (model ? validateTuples(model, parsedTuples.tuples) : []),
+    [model, parsedTuples]
+  );
+
+  const checkResult = useMemo(
+    () =>
+      model && user && relation && object
+        ? runSafely<CheckResult>(() => check(model, parsedTuples.tuples, { user, relation, object }))
+        : null,
+    [model, parsedTuples, user, relation, object]
+  );
+  const listResult = useMemo(
+    () =>
+      model && user && relation && listType
+        ? runSafely(() => listObjects(model, parsedTuples.tuples, { user, relation, type: listType }))
+        : null,
+    [model, parsedTuples, user, relation, listType]
+  );
+  const assertionResults = useMemo(
+    () =>
+      model
+        ? parsedAssertions.assertions.map((a) => ({ assertion: a, ...runSafely(() => check(model, parsedTuples.tuples, a).allowed) }))
+        : [],
+    [model, parsedAssertions, parsedTuples]
+  );
+  const passed = assertionResults.filter((r) => r.value === r.assertion.expected).length;
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex items-center gap-2">
+        <FlaskConical className="w-4 h-4 text-muted-foreground" />
+        <span className="text-sm font-medium">Test the model</span>
+        <span className="text-xs text-muted-foreground">Runs in your browser against sample tuples; nothing is written.</span>
+      </div>
+
+      {modelError && (
+        <div className="flex items-center gap-2 text-sm text-destructive">
+          <TriangleAlert className="w-4 h-4" />
+          {modelError}
+        </div>
+      )}
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">Sample tuples</Label>
+        <Textarea
+          value={tuplesText}
+          onChange={(e) => setTuplesText(e.target.value)}
+          className="font-mono text-xs min-h-28"
+        />
+        {parsedTuples.errors.map((e) => (
+          <p key={e.line} className="text-xs text-red-500">Line {e.line}: {e.message}</p>
+        ))}
+        {tupleProblems.map((p) => (
+          <p key={p} className="text-xs text-orange-600 dark:text-orange-400">{p}</p>
+        ))}
+      </div>
+
+      <Tabs defaultValue="check">
+        <TabsList>
+          <TabsTrigger value="check">Check</TabsTrigger>
+          <TabsTrigger value="list">List objects</TabsTrigger>
+          <TabsTrigger value="assertions">
+            Assertions{assertionResults.length > 0 ? ` (${passed}/${assertionResults.length})` : ''}
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="check" className="space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            <Input value={user} onChange={(e) => setUser(e.target.value)} placeholder="user:anne" className="h-8 font-mono text-xs" />
+            <Input value={relation} onChange={(e) => setRelation(e.target.value)} placeholder="viewer" className="h-8 font-mono text-xs" />
+            <Input value={object} onChange={(e) => setObject(e.target.value)} placeholder="document:1" className="h-8 font-mono text-xs" />
+          </div>
+          {checkResult?.error && <p className="text-xs text-red-500">{checkResult.error}</p>}
+          {checkResult?.value && (
+            <div className="space-y-2">
+              <ResultBadge allowed={checkResult.value.allowed} />
+              {checkResult.value.allowed && (
+                <ol className="text-xs font-mono text-muted-foreground space-y-0.5 border-l pl-3">
+                  {checkResult.value.path.map((step, i) => <li key={i}>{step}</li>)}
+                </ol>
+              )}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="list" className="space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            <Input value={user} onChange={(e) => setUser(e.target.value)} placeholder="user:anne" className="h-8 font-mono text-xs" />
+            <Input value={relation} onChange={(e) => setRelation(e.target.value)} placeholder="viewer" className="h-8 font-mono text-xs" />
+            <Input value={listType} onChange={(e) => setListType(e.target.value)} placeholder="document" className="h-8 font-mono text-xs" />
+          </div>
+          {listResult?.error && <p className="text-xs text-red-500">{listResult.error}</p>}
+          {listResult?.value && (
+            listResult.value.length > 0 ? (
+              <ul className="text-xs font-mono space-y-0.5">
+                {listResult.value.map((o) => <li key={o}>{o}</li>)}
+              </ul>
+            ) : (
+              <p className="text-xs text-muted-foreground">No objects of this type in the sample tuples grant access.</p>
+            )
+          )}
+        </TabsContent>
+
+        <TabsContent value="assertions" className="space-y-3">
+          <Textarea
+            value={assertionsText}
+            onChange={(e) => setAssertionsText(e.target.value)}
+            className="font-mono text-xs min-h-24"
+          />
+          {parsedAssertions.errors.map((e) => (
+            <p key={e.line} className="text-xs text-red-500">Line {e.line}: {e.message}</p>
+          ))}
+          {assertionResults.length > 0 && (
+            <div className="border rounded-md divide-y">
+              {assertionResults.map(({ assertion, value, error }) => {
+                const ok = value === assertion.expected;
+                return (
+                  <div key={assertion.line} className="flex items-center justify-between gap-2 px-3 py-1.5 text-xs">
+                    <span className="font-mono truncate">
+                      {assertion.user} {assertion.relation} {assertion.object}
+                    </span>
+                    {error ? (
+                      <span className="text-red-500 shrink-0">{error}</span>
+                    ) : (
+                      <span className={ok ? 'text-green-600 dark:text-green-400 shrink-0' : 'text-red-600 dark:text-red-400 shrink-0'}>
+                        {ok ? 'pass' : `fail: expected ${assertion.expected ? 'allow' : 'deny'}`}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -0,0 +1,442 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Braces, TriangleAlert, Variable, Wand2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import {
+  directlyRelatedUserTypes,
+  modelTypes,
+  parseObjectRef,
+  typeRelations,
+  type OpenFGAModel,
+} from '@/lib/openfga';
+import {
+  interpolateTemplate,
+  matchRoutePath,
+  parseTupleTemplate,
+  sampleQuery,
+  sampleUrlFor,
+  serializeTupleTemplate,
+  templatePlaceholders,
+  templateVariables,
+  type TemplateContext,
+  type TemplateVariable,
+} from '@/lib/policy-template';
+import { TupleParts } from './tuple-chip';
+
+type PolicyKind = 'check' | 'write';
+
+interface TupleDraft {
+  userType: string;
+  userId: string;
+  relation: string;
+  objectType: string;
+  objectId: string;
+}
+
+const EMPTY_DRAFT: TupleDraft = { userType: '', userId: '', relation: '', objectType: '', objectId: '' };
+
+function splitRef(value: string): { type: string; id: string } {
+  const ref = parseObjectRef(value);
+  // Templates like "{{JWT.sub}}" carry no type prefix; keep them whole as the id
+  if (!ref || ref.type.includes('{')) return { type: '', id: value };
+  return { type: ref.type, id: ref.relation ? `${ref.id}#${ref.relation}` : ref.id };
+}
+
+function draftFromTemplate(template: string): TupleDraft | null {
+  if (!template.trim()) return EMPTY_DRAFT;
+  const tuple = parseTupleTemplate(template);
+  if (!tuple) return null;
+  const user = splitRef(tuple.user);
+  const object = splitRef(tuple.object);
+  return { userType: user.type, userId: user.id, relation: tuple.relation, objectType: object.type, objectId: object.id };
+}
+
+const joinRef = (type: string, id: string) => (type ? `${type}:${id}` : id);
+
+function draftToTemplate(draft: TupleDraft): string | null {
+  const { userType, userId, relation, objectType, objectId } = draft;
+  if (!userType && !userId && !relation && !objectType && !objectId) return '';
+  if (!userId.trim() || !relation.trim() || !objectType.trim() || !objectId.trim()) return null;
+  return serializeTupleTemplate({
+    user: joinRef(userType.trim(), userId.trim()),
+    relation: relation.trim(),
+    object: joinRef(objectType.trim(), objectId.trim()),
+  });
+}
+
+function isValidJson(value: string): boolean {
+  if (!value || value.trim() === '') return true;
+  try {
+    JSON.parse(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ─── Builder inputs ──────────────────────────────────────────────────────────
+
+function TypeInput({
+  value,
+  options,
+  placeholder,
+  onChange,
+}: {
+  value: string;
+  options: string[];
+  placeholder: string;
+  onChange: (value: string) => void;
+}) {
+  // Without a model (or for a type the model lacks) fall back to free text
+  if (options.length === 0 || (value && !options.includes(value))) {
+    return (
+      <Input
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        className="h-8 w-36 font-mono text-xs"
+      />
+    );
+  }
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-8 w-36 font-mono text-xs">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option} value={option} className="font-mono text-xs">
+            {option}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function IdInput({
+  value,
+  variables,
+  placeholder,
+  onChange,
+}: {
+  value: string;
+  variables: TemplateVariable[];
+  placeholder: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div className="flex flex-1 min-w-0 items-center gap-1">
+      <Input
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        className="h-8 flex-1 min-w-0 font-mono text-xs"
+      />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button type="button" variant="outline" size="sm" className="h-8 px-2" aria-label="Insert variable">
+            <Variable className="h-3.5 w-3.5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel className="text-xs">Request variables</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {variables.map((v) => (
+            <DropdownMenuItem key={v.token} onClick={() => onChange(`{{${v.token}}}`)}>
+              <span className="text-xs">{v.label}</span>
+              <code className="ml-auto pl-3 text-xs text-muted-foreground">{`{{${v.token}}}`}</code>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+            Also: {'{{QUERY.key}}'}, {'{{BODY.field}}'}
+          </DropdownMenuLabel>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
+
+// ─── Preview ─────────────────────────────────────────────────────────────────
+
+function TemplatePreview({ template, routePath }: { template: string; routePath: string }) {
+  const [url, setUrl] = useState(() => sampleUrlFor(routePath));
+  const [sub, setSub] = useState('alice');
+  const [body, setBody] = useState('');
+  const [response, setResponse] = useState('{\n  "id": "456"\n}');
+
+  const sources = useMemo(() => new Set(templatePlaceholders(template).map((p) => p.source)), [template]);
+
+  const pathParams = matchRoutePath(routePath, url);
+  const parseSample = (json: string): Record<string, unknown> | undefined => {
+    try {
+      const parsed = JSON.parse(json);
+      return parsed && typeof parsed === 'object' ? parsed : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+  const context: TemplateContext = {
+    JWT: { sub },
+    PATH: pathParams ?? {},
+    QUERY: sampleQuery(url),
+    BODY: parseSample(body),
+    RESPONSE: parseSample(response),
+  };
+  const { value, unresolved } = interpolateTemplate(template, context);
+  const tuple = parseTupleTemplate(value);
+
+  return (
+    <div className="rounded-lg border bg-muted/20 p-3 space-y-3">
+      <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Preview for a sample request</p>
+      <div className="grid grid-cols-[1fr_10rem] gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Request URL</Label>
+          <Input value={url} onChange={(e) => setUrl(e.target.value)} className="h-8 font-mono text-xs" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">JWT sub</Label>
+          <Input value={sub} onChange={(e) => setSub(e.target.value)} className="h-8 font-mono text-xs" />
+        </div>
+      </div>
+      {sources.has('BODY') && (
+        <div className="space-y-1">
+          <Label className="text-xs">Request body (JSON)</Label>
+          <Textarea value={body} onChange={(e) => setBody(e.target.value)} rows={3} className="font-mono text-xs" />
+        </div>
+      )}
+      {sources.has('RESPONSE') && (
+        <div className="space-y-1">
+          <Label className="text-xs">Response body (JSON)</Label>
+          <Textarea value={response} onChange={(e) => setResponse(e.target.value)} rows={3} className="font-mono text-xs" />
+        </div>
+      )}
+      {!pathParams && (
+        <p className="text-xs text-orange-600 dark:text-orange-400">
+          The URL does not match <code>{routePath}</code>; path params are not filled in.
+        </p>
+      )}
+      {tuple ? <TupleParts tuple={tuple} /> : <p className="text-xs text-muted-foreground">Complete the tuple to see it resolved.</p>}
+      {unresolved.length > 0 && (
+        <p className="text-xs text-orange-600 dark:text-orange-400">
+          Not available in this request: {unresolved.map((t) => `{{${t}}}`).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// ─── Field ───────────────────────────────────────────────────────────────────
+
+interface PolicyTemplateFieldProps {
+  label: string;
+  hint: string;
+  /** JSON tuple template from the RouteEntry */
+  value: string;
+  /** Called with a valid template (or '' to remove the policy) */
+  onChange: (value: string) => void;
+  placeholder: string;
+  routePath: string;
+  kind: PolicyKind;
+  /** The project's OpenFGA model; null when none is configured or it could not be loaded */
+  model: OpenFGAModel | null;
+}
+
+export function PolicyTemplateField({
+  label,
+  hint,
+  value,
+  onChange,
+  placeholder,
+  routePath,
+  kind,
+  model,
+}: PolicyTemplateFieldProps) {
+  const initialDraft = draftFromTemplate(value);
+  const [mode, setMode] = useState<'builder' | 'json'>(initialDraft ? 'builder' : 'json');
+  const [draft, setDraft] = useState<TupleDraft>(initialDraft ?? EMPTY_DRAFT);
+  const [json, setJson] = useState(value);
+  const [jsonError, setJsonError] = useState(false);
+  const [builderNote, setBuilderNote] = useState<string | null>(null);
+
+  // Resync when the stored value changes underneath (async loads, bulk edits)
+  useEffect(() => {
+    const next = draftFromTemplate(value);
+    setJson(value);
+    setJsonError(false);
+    if (next) setDraft(next);
+    else setMode('json');
+  }, [value]);
+
+  const variables = useMemo(() => templateVariables(routePath, kind), [routePath, kind]);
+  const types = useMemo(() => modelTypes(model), [model]);
+  const relations = useMemo(() => typeRelations(model, draft.objectType), [model, draft.objectType]);
+
+  const updateDraft = (updates: Partial<TupleDraft>) => {
+    const next = { ...draft, ...updates };
+    // A relation from another type would silently deny every request
+    if (updates.objectType !== undefined && model && !typeRelations(model, next.objectType).includes(next.relation)) {
+      next.relation = '';
+    }
+    setDraft(next);
+    const template = draftToTemplate(next);
+    if (template !== null) {
+      setJson(template);
+      onChange(template);
+    }
+  };
+
+  const switchMode = () => {
+    if (mode === 'builder') {
+      setMode('json');
+      return;
+    }
+    const next = draftFromTemplate(json);
+    if (!next) {
+      setBuilderNote('The builder only edits a single {user, relation, object} tuple.');
+      return;
+    }
+    setBuilderNote(null);
+    setDraft(next);
+    setMode('builder');
+  };
+
+  const template = draftToTemplate(draft);
+  const previewTemplate = mode === 'builder' ? template : jsonError ? '' : json.trim();
+  const warnings: string[] = [];
+  if (mode === 'builder' && model && template) {
+    if (draft.objectType && !types.includes(draft.objectType)) {
+      warnings.push(`Type "${draft.objectType}" is not defined in the authorization model.`);
+    } else if (draft.relation && draft.objectType && !relations.includes(draft.relation)) {
+      warnings.push(`"${draft.objectType}" has no relation "${draft.relation}".`);
+    }
+    if (draft.userType && !types.includes(draft.userType)) {
+      warnings.push(`Type "${draft.userType}" is not defined in the authorization model.`);
+    }
+    // Written tuples must use a directly assignable subject type
+    if (kind === 'write' && draft.relation && relations.includes(draft.relation)) {
+      const allowed = directlyRelatedUserTypes(model, draft.objectType, draft.relation);
+      const subject = draft.userId.includes('#') ? `${draft.userType}#${draft.userId.split('#').pop()}` : draft.userType;
+      if (allowed.length === 0) {
+        warnings.push(`${draft.objectType}#${draft.relation} cannot be written directly; it is computed from other relations.`);
+      } else if (draft.userType && !allowed.includes(subject) && !allowed.includes(`${draft.userType}:*`)) {
+        warnings.push(`${draft.objectType}#${draft.relation} only accepts ${allowed.join(', ')}.`);
+      }
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-sm font-medium">
+          {label}
+          <span className="ml-1.5 font-normal text-muted-foreground text-xs">{hint}</span>
+        </Label>
+        <div className="flex items-center gap-1">
+          {mode === 'builder' && template && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => updateDraft(EMPTY_DRAFT)}>
+              <X className="h-3.5 w-3.5 mr-1" />
+              Remove
+            </Button>
+          )}
+          <Button type="button" variant="ghost" size="sm" onClick={switchMode}>
+            {mode === 'builder' ? <Braces className="h-3.5 w-3.5 mr-1.5" /> : <Wand2 className="h-3.5 w-3.5 mr-1.5" />}
+            {mode === 'builder' ? 'Edit as JSON' : 'Use builder'}
+          </Button>
+        </div>
+      </div>
+
+      {mode === 'json' ? (
+        <>
+          <Textarea
+            value={json}
+            onChange={(e) => setJson(e.target.value)}
+            onBlur={(e) => {
+              const valid = isValidJson(e.target.value);
+              setJsonError(!valid);
+              if (valid) onChange(e.target.value);
+            }}
+            className={cn('font-mono text-xs', jsonError && 'border-red-500')}
+            placeholder={placeholder}
+            rows={6}
+          />
+          {jsonError && <p className="text-xs text-red-500">Invalid JSON</p>}
+          {builderNote && <p className="text-xs text-muted-foreground">{builderNote}</p>}
+        </>
+      ) : (
+        <div className="rounded-lg border p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="w-16 shrink-0 text-xs text-muted-foreground">User</span>
+            <TypeInput
+              value={draft.userType}
+              options={types}
+              placeholder="user"
+              onChange={(userType) => updateDraft({ userType })}
+            />
+            <IdInput
+              value={draft.userId}
+              variables={variables}
+              placeholder="{{JWT.sub}}"
+              onChange={(userId) => updateDraft({ userId })}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="w-16 shrink-0 text-xs text-muted-foreground">Relation</span>
+            <TypeInput
+              value={draft.relation}
+              options={relations}
+              placeholder={kind === 'check' ? 'viewer' : 'owner'}
+              onChange={(relation) => updateDraft({ relation })}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="w-16 shrink-0 text-xs text-muted-foreground">Object</span>
+            <TypeInput
+              value={draft.objectType}
+              options={types}
+              placeholder="document"
+              onChange={(objectType) => updateDraft({ objectType })}
+            />
+            <IdInput
+              value={draft.objectId}
+              variables={variables}
+              placeholder={kind === 'check' ? '{{PATH.id}}' : '{{RESPONSE.id}}'}
+              onChange={(objectId) => updateDraft({ objectId })}
+            />
+          </div>
+          {template === null && (
+            <p className="text-xs text-muted-foreground">Fill in the user, relation and object to set the policy.</p>
+          )}
+          {!model && (
+            <p className="text-xs text-muted-foreground">
+              No authorization model loaded; types and relations are not checked.
+            </p>
+          )}
+          {warnings.map((w) => (
+            <p key={w} className="flex items-start gap-1.5 text-xs text-orange-600 dark:text-orange-400">
+              <TriangleAlert className="h-3.5 w-3.5 mt-px shrink-0" />
+              {w}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {previewTemplate && <TemplatePreview template={previewTemplate} routePath={routePath} />}
+    </div>
+  );
+}
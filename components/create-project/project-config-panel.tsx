@@ -3,22 +3,46 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useSession } from 'next-auth/react';
 import { Button } from '@/components/ui/button';
-import { Loader2, Rocket, ChevronRight, Save } from 'lucide-react';
+import { Loader2, Rocket, ChevronRight, Save, Download, Upload } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { GeneralSection } from './general-section';
 import { AuthenticationSection, type AppClientRaw } from './authentication-section';
 import { AuthorizationSection } from './authorization-section';
 import { TargetServersSection } from './target-servers-section';
 import { ThrottlingSection } from './throttling-section';
-import { RoutesSection } from './routes-section';
+import { RoutesSection, type RouteSaveStatus } from './routes-section';
 import { PrePostProcessingSection } from './preprocessing-section';
 import { DomainsSection } from './domains-section';
 import { ProjectConfig, type SocialProvider } from './types';
 import type { RouteEntry } from './types';
 import { api } from '@/lib/api';
 import { getDefaultTargetServers } from './default-environments';
-import type { TargetServer } from './types';
+import { buildEnvironments, buildRequestsAuth } from './config-payload';
+import { ManifestImportDialog } from './manifest-import-dialog';
+import { ReviewChangesDialog } from './review-changes-dialog';
+import { MergeConflictDialog } from './merge-conflict-dialog';
+import { applyMerge, planMerge, type ConfigSnapshot, type MergeChoice, type MergeUnit } from './config-merge';
+import {
+  configToManifest,
+  diffManifests,
+  diffPendingConfig,
+  isImportableChange,
+  manifestRoutesForSave,
+  manifestToConfig,
+  serializeManifest,
+  type ManifestChange,
+  type ManifestFormat,
+  type ProjectManifest,
+} from './project-manifest';
+import type { TargetServer, TargetServerConfig } from './types';
 import { useToast } from '@/hooks/use-toast';
-import { deleteProject, updateProjectConfig } from '@/lib/api/projects';
+import { ConflictError, deleteProject, getProject, projectETag, updateProjectConfig } from '@/lib/api/projects';
+import { RouteBatchError } from '@/lib/api/route-configs';
 import type { Project } from '@/types/project';
 import type { ProjectConfigTab } from '@/components/dashboard-shell';
 import { cn } from '@/lib/utils';
@@ -231,12 +255,12 @@ function getInitialConfig(project: Project | null): ProjectConfig {
     whoCanRegisterToLogin: ((projectConfig?.auth_config as Record<string, unknown>)?.who_can_register === 'authorized_only' ? 'authorized_only' : 'anyone') as 'anyone' | 'authorized_only',
     targetServers: (() => {
       const targetUrl = (projectConfig?.target_url as string) || (projectConfig?.target as string) || '';
-      const envs = projectConfig?.environments as Record<string, { target?: string }> | undefined;
+      const envs = projectConfig?.environments as Record<string, { target?: string; config?: TargetServerConfig[] }> | undefined;
       if (envs && Object.keys(envs).length > 0) {
         return Object.entries(envs).map(([stage, env]) => ({
           stage,
           targetUrl: env.target || targetUrl,
-          config: [],
+          config: Array.isArray(env.config) ? env.config : [],
         })) as TargetServer[];
       }
       return getDefaultTargetServers(targetUrl);
@@ -250,13 +274,27 @@ function getInitialConfig(project: Project | null): ProjectConfig {
       }
       return { userRateLimit: 10, proxyDailyQuota: 1000, accountMonthlyQuota: 30000 };
     })(),
-    preProcessingPath: '',
-    postProcessingPath: '',
-    customDomains: [],
+    preProcessingPath: (projectConfig?.pre_processing_path as string) || '',
+    postProcessingPath: (projectConfig?.post_processing_path as string) || '',
+    customDomains: Array.isArray(projectConfig?.custom_domains)
+      ? (projectConfig.custom_domains as string[]).map((domain) => ({ domain, verified: false }))
+      : [],
     enforceAuthorization: (projectConfig?.authorization as Record<string, unknown>)?.enforce_authorization === true,
   };
 }
 
+/**
+ * The project after a config PATCH. Without updated_at in the response the saved version is unknown,
+ * so it is left empty (no If-Match) until the caller reloads the project.
+ */
+function projectAfterSave(project: Project, payload: Record<string, unknown>, result: { updated_at?: string }): Project {
+  return {
+    ...project,
+    config: { ...(project.config as Record<string, unknown>), ...payload },
+    updated_at: result.updated_at ?? '',
+  };
+}
+
 interface ProjectConfigPanelProps {
   project: Project | null;
   preloadedGitHubRepos: Array<{ id: number; name: string; full_name: string; description: string; default_branch: string; updated_at: string; language: string; stargazers_count: number }>;
@@ -286,6 +324,22 @@ export function ProjectConfigPanel({
   const [isDeploying, setIsDeploying] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isSavingConfig, setIsSavingConfig] = useState(false);
+  const [manifestImportOpen, setManifestImportOpen] = useState(false);
+  const [liveRoutes, setLiveRoutes] = useState<RouteEntry[] | null>(null);
+  const [reviewOpen, setReviewOpen] = useState(false);
+  const [pendingChanges, setPendingChanges] = useState<ManifestChange[] | null>(null);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [routeSaveStatus, setRouteSaveStatus] = useState<RouteSaveStatus | null>(null);
+  const [mergeOpen, setMergeOpen] = useState(false);
+  const [mergeUnits, setMergeUnits] = useState<MergeUnit[] | null>(null);
+  const [mergeError, setMergeError] = useState<string | null>(null);
+  const mergeContextRef = useRef<{
+    mine: ConfigSnapshot;
+    theirs: ConfigSnapshot;
+    latestProject: Project;
+    latestRoutes: RouteEntry[];
+    routesLoaded: boolean;
+  } | null>(null);
   const [currentProject, setCurrentProject] = useState<Project | null>(project);
   const [selectedAuthTenant, setSelectedAuthTenant] = useState<string | undefined>(undefined);
   const isDeployingRef = useRef(false);
@@ -528,8 +582,7 @@ export function ProjectConfigPanel({
             const tenantName = selectedAuthTenant || 'api';
             const tenantDisplayName = tenantName === 'api' ? 'Default' : tenantName;
             const tenantsRes = await api.getTeamTenants(teamId, true);
-            const tenantsList = Array.isArray((tenantsRes as { tenants?: unknown }).tenants) ? (tenantsRes as { tenants: Array<{ tenant_name?: string } | string> }).tenants : [];
-            const hasTenant = tenantsList.some((t: { tenant_name?: string } | string) => (typeof t === 'string' ? t === tenantName : t?.tenant_name === tenantName));
+            const hasTenant = tenantsRes.tenants.some((t) => t.tenant_name === tenantName);
             if (!hasTenant) await api.createTeamTenant(teamId, { tenant_name: tenantName, display_name: tenantDisplayName });
             const defaultCallbackUrl = `https://${subdomain}-${tenantName}.portal.apiblaze.com/${config.apiVersion || '1.0.0'}`;
             const callbackUrls = config.authorizedCallbackUrls?.length ? config.authorizedCallbackUrls : [defaultCallbackUrl];
@@ -644,47 +697,14 @@ export function ProjectConfigPanel({
 
       if (appClientId && !defaultAppClientId) defaultAppClientId = appClientId;
 
-      const requestsAuthMode = config.requestsAuthMode ?? 'passthrough';
-      const requestsAuthMethods = config.requestsAuthMethods ?? ['jwt'];
       const projectNameVal = config.projectName || '';
       const apiVersionVal = config.apiVersion || '1.0.0';
       const appClientIdVal = defaultAppClientId || appClientId || '';
-      const substitutePlaceholders = (s: string) =>
-        s.replace(/\{projectName\}/g, projectNameVal).replace(/\{apiVersion\}/g, apiVersionVal).replace(/\{appClientId\}/g, appClientIdVal);
-
-      let requests_auth: {
-        mode: 'authenticate' | 'passthrough';
-        methods?: ('jwt' | 'opaque' | 'api_key')[];
-        jwt?: { allowed_pairs: Array<{ iss: string; aud: string }> };
-        opaque?: { endpoint: string; method: 'GET' | 'POST'; params: string; body: string };
-        api_key?: { require_x_end_user_id: boolean };
-      } | undefined;
-      if (requestsAuthMode === 'passthrough') {
-        requests_auth = { mode: 'passthrough', methods: [] };
-      } else {
-        const pairs = (config.allowedPairs ?? []).length > 0
-          ? (config.allowedPairs ?? []).map((p) => ({
-              iss: substitutePlaceholders(p.iss),
-              aud: substitutePlaceholders(p.aud),
-            }))
-          : (appClientIdVal
-            ? [
-                { iss: `https://auth.apiblaze.com/${appClientIdVal}`, aud: `https://${projectNameVal || 'project'}-api.portal.apiblaze.com/${apiVersionVal}` },
-                { iss: `https://auth.apiblaze.com/${appClientIdVal}`, aud: appClientIdVal },
-              ]
-            : []);
-        requests_auth = {
-          mode: 'authenticate',
-          methods: requestsAuthMethods,
-          jwt: { allowed_pairs: pairs },
-          opaque: requestsAuthMethods.includes('opaque') && config.opaqueTokenEndpoint
-            ? { endpoint: config.opaqueTokenEndpoint, method: config.opaqueTokenMethod ?? 'GET', params: config.opaqueTokenParams ?? '?access_token={token}', body: config.opaqueTokenBody ?? 'token={token}' }
-            : undefined,
-          api_key: requestsAuthMethods.includes('api_key')
-            ? { require_x_end_user_id: config.requireApiKeyXEndUserId ?? false }
-            : undefined,
-        };
-      }
+      const requests_auth = buildRequestsAuth(config, {
+        projectName: projectNameVal,
+        apiVersion: apiVersionVal,
+        appClientId: appClientIdVal,
+      });
 
       const projectData = {
         name: config.projectName,
@@ -744,9 +764,88 @@ export function ProjectConfigPanel({
     }
   };
 
-  const handleSaveConfig = useCallback(async () => {
-    if (!currentProject) return;
+  // ─── Optimistic concurrency ─────────────────────────────────────────────────
+
+  /**
+   * Load the latest server copy and plan reapplying the pending changes on top of it. `pending`
+   * replaces the panel state as "mine" (a manifest import); `routes: null` leaves routes out.
+   */
+  const openMergeDialog = useCallback(async (
+    baseProject: Project,
+    pending?: { config: ProjectConfig; routes: RouteEntry[] | null; savedRoutes: RouteEntry[] }
+  ) => {
+    setMergeUnits(null);
+    setMergeError(null);
+    setMergeOpen(true);
+    try {
+      const { getRouteConfig, getRoutesWithConfig } = await import('@/lib/api/route-configs');
+      const [latestProject, latestRouteConfig] = await Promise.all([
+        getProject(baseProject.project_id, baseProject.api_version),
+        getRouteConfig(baseProject.project_id, baseProject.api_version),
+      ]);
+      // Routes only take part when the Routes tab loaded them (otherwise the save does not write them)
+      const routesLoaded = pending ? pending.routes !== null : !!config.routeConfig || !!routesRef.current?.length;
+      const savedRoutes = pending ? pending.savedRoutes : config.routeConfig?.routes ?? [];
+      const localRoutes = pending ? pending.routes ?? [] : routesRef.current?.length ? routesRef.current : savedRoutes;
+      const mine = { config: pending?.config ?? config, routes: routesLoaded ? getRoutesWithConfig(localRoutes) : [] };
+      const theirs = {
+        config: getInitialConfig(latestProject),
+        routes: routesLoaded ? getRoutesWithConfig(latestRouteConfig.routes) : [],
+      };
+      mergeContextRef.current = { mine, theirs, latestProject, latestRoutes: latestRouteConfig.routes, routesLoaded };
+      setMergeUnits(
+        planMerge({ config: getInitialConfig(baseProject), routes: getRoutesWithConfig(savedRoutes) }, mine, theirs)
+      );
+    } catch (error) {
+      setMergeError(error instanceof Error ? error.message : 'Failed to load the latest configuration');
+    }
+  }, [config]);
+
+  const handleResolveMerge = useCallback((choices: Record<string, MergeChoice>) => {
+    const ctx = mergeContextRef.current;
+    if (!ctx || !mergeUnits) return;
+    const merged = applyMerge(ctx.mine, ctx.theirs, mergeUnits, choices);
+    if (ctx.routesLoaded) {
+      // Latest stored routes with the reapplied ones on top; RoutesTable merges the spec back in
+      const byKey = new Map(ctx.latestRoutes.map((r) => [`${r.method}:${r.path}`, r]));
+      for (const route of merged.routes) byKey.set(`${route.method}:${route.path}`, route);
+      routesRef.current = [...byKey.values()];
+      updateConfig({ ...merged.config, routeConfig: { routes: ctx.latestRoutes } });
+    } else {
+      updateConfig(merged.config);
+    }
+    setCurrentProject(ctx.latestProject);
+    onProjectUpdate?.(ctx.latestProject);
+    mergeContextRef.current = null;
+    setMergeOpen(false);
+    toast({
+      title: 'Changes Reapplied',
+      description: 'Your changes are now on top of the latest configuration. Review and save again.',
+    });
+  }, [mergeUnits, onProjectUpdate, toast, updateConfig]);
+
+  /** Replace the panel's copy with the server's; its config and version come from the same read. */
+  const reloadProject = useCallback(async (baseProject: Project) => {
+    try {
+      const latest = await getProject(baseProject.project_id, baseProject.api_version);
+      setCurrentProject(latest);
+      updateConfig(getInitialConfig(latest));
+      onProjectUpdate?.(latest);
+    } catch (error) {
+      toast({
+        title: 'Reload Failed',
+        description: `Saved, but the latest version could not be loaded. Reload the page before saving again. ${
+          error instanceof Error ? error.message : ''
+        }`.trim(),
+        variant: 'destructive',
+      });
+    }
+  }, [onProjectUpdate, toast, updateConfig]);
+
+  const handleSaveConfig = useCallback(async (): Promise<boolean> => {
+    if (!currentProject) return false;
     setIsSavingConfig(true);
+    let savedProject = currentProject;
     try {
       const projectNameVal = config.projectName || currentProject.project_id || '';
       const apiVersionVal = config.apiVersion || '1.0.0';
@@ -768,12 +867,7 @@ export function ProjectConfigPanel({
           const tenantName = derivedAuth.activeAuthTenant;
           const tenantDisplayName = tenantName === 'api' ? 'Default' : tenantName;
           const tenantsRes = await api.getTeamTenants(teamIdForAuth, true);
-          const tenantsList = Array.isArray((tenantsRes as { tenants?: unknown }).tenants)
-            ? (tenantsRes as { tenants: Array<{ tenant_name?: string } | string> }).tenants
-            : [];
-          const hasTenant = tenantsList.some(
-            (t: { tenant_name?: string } | string) => (typeof t === 'string' ? t === tenantName : t?.tenant_name === tenantName)
-          );
+          const hasTenant = tenantsRes.tenants.some((t) => t.tenant_name === tenantName);
           if (!hasTenant) {
             await api.createTeamTenant(teamIdForAuth, { tenant_name: tenantName, display_name: tenantDisplayName });
           }
@@ -795,7 +889,7 @@ export function ProjectConfigPanel({
           if (!newAppClientId) {
             toast({ title: 'Error', description: 'App client was created but no client ID returned.', variant: 'destructive' });
             setIsSavingConfig(false);
-            return;
+            return false;
           }
           const DEFAULT_SCOPES: Record<SocialProvider, string[]> = {
             google: ['email', 'openid', 'profile'],
@@ -856,7 +950,7 @@ export function ProjectConfigPanel({
             variant: 'destructive',
           });
           setIsSavingConfig(false);
-          return;
+          return false;
         }
       }
 
@@ -887,81 +981,260 @@ export function ProjectConfigPanel({
             variant: 'destructive',
           });
           setIsSavingConfig(false);
-          return;
+          return false;
         }
       }
-      const substitutePlaceholders = (s: string) =>
-        s.replace(/\{projectName\}/g, projectNameVal).replace(/\{apiVersion\}/g, apiVersionVal).replace(/\{appClientId\}/g, appClientIdVal);
-
-      const requestsAuthMode = config.requestsAuthMode ?? 'passthrough';
-      const requestsAuthMethods = config.requestsAuthMethods ?? ['jwt'];
-      let requests_auth: {
-        mode: 'authenticate' | 'passthrough';
-        methods?: ('jwt' | 'opaque' | 'api_key')[];
-        jwt?: { allowed_pairs: Array<{ iss: string; aud: string }> };
-        opaque?: { endpoint: string; method: 'GET' | 'POST'; params: string; body: string };
-        api_key?: { require_x_end_user_id: boolean };
-      } | undefined;
-      if (requestsAuthMode === 'passthrough') {
-        requests_auth = { mode: 'passthrough', methods: [] };
-      } else {
-        const pairs = (config.allowedPairs ?? []).length > 0
-          ? (config.allowedPairs ?? []).map((p) => ({
-              iss: substitutePlaceholders(p.iss),
-              aud: substitutePlaceholders(p.aud),
-            }))
-          : (appClientIdVal
-            ? [
-                { iss: `https://auth.apiblaze.com/${appClientIdVal}`, aud: `https://${projectNameVal || 'project'}-api.portal.apiblaze.com/${apiVersionVal}` },
-                { iss: `https://auth.apiblaze.com/${appClientIdVal}`, aud: appClientIdVal },
-              ]
-            : []);
-        requests_auth = {
-          mode: 'authenticate',
-          methods: requestsAuthMethods,
-          jwt: { allowed_pairs: pairs },
-          opaque: requestsAuthMethods.includes('opaque') && config.opaqueTokenEndpoint
-            ? { endpoint: config.opaqueTokenEndpoint, method: config.opaqueTokenMethod ?? 'GET', params: config.opaqueTokenParams ?? '?access_token={token}', body: config.opaqueTokenBody ?? 'token={token}' }
-            : undefined,
-          api_key: requestsAuthMethods.includes('api_key')
-            ? { require_x_end_user_id: config.requireApiKeyXEndUserId ?? false }
-            : undefined,
-        };
-      }
+      const requests_auth = buildRequestsAuth(config, {
+        projectName: projectNameVal,
+        apiVersion: apiVersionVal,
+        appClientId: appClientIdVal,
+      });
 
       const payload: Record<string, unknown> = {
         default_app_client_id: appClientIdVal || null,
         requests_auth,
         authorization: { enforce_authorization: config.enforceAuthorization },
+        environments: buildEnvironments(config.targetServers),
+        throttling: config.throttling,
       };
-      await updateProjectConfig(currentProject.project_id, currentProject.api_version, payload, {
+      const result = await updateProjectConfig(currentProject.project_id, currentProject.api_version, payload, {
         tenant: derivedAuth.activeAuthTenant,
+        ifMatch: projectETag(currentProject),
       });
+      const updatedProject = projectAfterSave(currentProject, payload, result);
+      // The project config is saved even if a route write conflicts below
+      savedProject = updatedProject;
+      setCurrentProject(updatedProject);
+      updateProjectInCache(currentProject.project_id, currentProject.api_version, payload);
+      if (!result.updated_at) void reloadProject(updatedProject);
 
       // Save route config if any routes are present
       const routesToSave = routesRef.current?.length ? routesRef.current : (config.routeConfig?.routes ?? []);
       if (routesToSave.length > 0) {
         const { putRouteConfig } = await import('@/lib/api/route-configs');
-        await putRouteConfig(currentProject.project_id, currentProject.api_version, routesToSave);
+        setRouteSaveStatus({ state: 'saving', progress: null });
+        const saved = await putRouteConfig(currentProject.project_id, currentProject.api_version, routesToSave, {
+          onProgress: (progress) => setRouteSaveStatus({ state: 'saving', progress }),
+        });
+        setRouteSaveStatus(null);
+        // Pick up the new entry versions so the next save's If-Match checks pass
+        const versions = new Map(saved.routes.map((r) => [`${r.method}:${r.path}`, r.updated_at]));
+        routesRef.current = routesToSave.map((r) => ({ ...r, updated_at: versions.get(`${r.method}:${r.path}`) }));
+        updateConfig({ routeConfig: { routes: saved.routes } });
       }
 
       toast({ title: 'Config Saved', description: 'Project configuration has been updated successfully.' });
-      const updatedConfig = { ...(currentProject.config as Record<string, unknown>), ...payload };
-      const updatedProject = { ...currentProject, config: updatedConfig };
-      setCurrentProject(updatedProject);
-      updateProjectInCache(currentProject.project_id, currentProject.api_version, payload);
       onProjectUpdate?.(updatedProject);
+      return true;
     } catch (error) {
+      setRouteSaveStatus(
+        error instanceof RouteBatchError
+          ? { state: 'failed', error: error.message, results: error.results, rolledBack: error.rolledBack }
+          : null
+      );
+      if (error instanceof ConflictError) {
+        setReviewOpen(false);
+        void openMergeDialog(savedProject);
+        return false;
+      }
       console.error('Failed to save config:', error);
       toast({
         title: 'Failed to Save Config',
         description: error instanceof Error ? error.message : 'Unknown error',
         variant: 'destructive',
       });
+      return false;
     } finally {
       setIsSavingConfig(false);
     }
-  }, [currentProject, config, derivedAuth, onProjectUpdate, toast, updateProjectInCache, updateConfig, invalidateAndRefetch]);
+  }, [currentProject, config, derivedAuth, onProjectUpdate, toast, updateProjectInCache, updateConfig, invalidateAndRefetch, openMergeDialog, reloadProject]);
+
+  // ─── apiblaze.yaml manifest ─────────────────────────────────────────────────
+
+  /** Saved route config (only routes with non-default settings), used for export and as the import diff baseline. */
+  const loadLiveRoutes = useCallback(async (): Promise<RouteEntry[]> => {
+    if (!currentProject) return [];
+    const { getRouteConfig, getRoutesWithConfig } = await import('@/lib/api/route-configs');
+    const rc = await getRouteConfig(currentProject.project_id, currentProject.api_version);
+    const routes = getRoutesWithConfig(rc.routes ?? []);
+    setLiveRoutes(routes);
+    return routes;
+  }, [currentProject]);
+
+  const handleExportManifest = useCallback(async (format: ManifestFormat) => {
+    try {
+      const routes = await loadLiveRoutes();
+      const text = serializeManifest(configToManifest(config, routes), format);
+      const blob = new Blob([text], { type: format === 'json' ? 'application/json' : 'application/yaml' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `apiblaze.${format}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: 'Failed to Export Config',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  }, [config, loadLiveRoutes, toast]);
+
+  const handleOpenManifestImport = useCallback(() => {
+    setLiveRoutes(null);
+    setManifestImportOpen(true);
+    loadLiveRoutes().catch((error) => {
+      setManifestImportOpen(false);
+      toast({
+        title: 'Failed to Load Route Config',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    });
+  }, [loadLiveRoutes, toast]);
+
+  /** Diff the pending panel state against the cached project config before anything is written. */
+  const handleReviewChanges = useCallback(async () => {
+    if (!currentProject) return;
+    setPendingChanges(null);
+    setReviewError(null);
+    setReviewOpen(true);
+    try {
+      const { getRoutesWithConfig } = await import('@/lib/api/route-configs');
+      const savedRoutes = await loadLiveRoutes();
+      // Routes are only saved when the Routes tab loaded them; otherwise they stay as saved
+      const localRoutes = routesRef.current?.length ? routesRef.current : config.routeConfig?.routes;
+      setPendingChanges(
+        diffPendingConfig(
+          { config: getInitialConfig(currentProject), routes: savedRoutes },
+          { config, routes: localRoutes ? getRoutesWithConfig(localRoutes) : savedRoutes }
+        )
+      );
+    } catch (error) {
+      setReviewError(
+        `Could not load the saved route config${error instanceof Error ? `: ${error.message}` : ''}. Route changes are not shown.`
+      );
+      setPendingChanges(
+        diffPendingConfig({ config: getInitialConfig(currentProject), routes: [] }, { config, routes: [] })
+      );
+    }
+  }, [currentProject, config, loadLiveRoutes]);
+
+  const handleConfirmSave = useCallback(async () => {
+    if (await handleSaveConfig()) setReviewOpen(false);
+  }, [handleSaveConfig]);
+
+  // Diff imports against the saved project, not unsaved panel edits
+  const currentManifest = useMemo(
+    () => (liveRoutes && currentProject ? configToManifest(getInitialConfig(currentProject), liveRoutes) : null),
+    [currentProject, liveRoutes]
+  );
+
+  /**
+   * Apply an imported manifest on top of the saved project; unsaved panel edits are not written.
+   * Writes the same fields as "Save Updated Config", then the routes if the manifest has them.
+   */
+  const handleApplyManifest = useCallback(async (manifest: ProjectManifest): Promise<boolean> => {
+    if (!currentProject) return false;
+    const savedConfig = getInitialConfig(currentProject);
+    const savedRoutes = liveRoutes ?? [];
+    const updates = manifestToConfig(manifest);
+    const nextConfig = { ...savedConfig, ...updates };
+    const routesToSave = manifest.routes ? manifestRoutesForSave(manifest, savedRoutes) : null;
+    const applied: string[] = [];
+    let savedProject = currentProject;
+
+    const rejected = diffManifests(configToManifest(savedConfig, savedRoutes), manifest).filter(
+      (change) => !isImportableChange(change)
+    );
+    if (rejected.length > 0) {
+      toast({
+        title: 'Failed to Apply Manifest',
+        description: `The manifest changes ${rejected.map((c) => c.path).join(', ')}, which an import cannot apply.`,
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    try {
+      if (manifest.authentication || manifest.authorization || manifest.targetServers || manifest.throttling) {
+        const projectNameVal = nextConfig.projectName || currentProject.project_id;
+        const apiVersionVal = nextConfig.apiVersion || '1.0.0';
+        const appClientIdVal =
+          nextConfig.defaultAppClient ||
+          ((currentProject.config as Record<string, unknown>)?.default_app_client_id as string) ||
+          '';
+        const payload: Record<string, unknown> = {
+          default_app_client_id: appClientIdVal || null,
+          requests_auth: buildRequestsAuth(nextConfig, {
+            projectName: projectNameVal,
+            apiVersion: apiVersionVal,
+            appClientId: appClientIdVal,
+          }),
+          authorization: { enforce_authorization: nextConfig.enforceAuthorization },
+          environments: buildEnvironments(nextConfig.targetServers),
+          throttling: nextConfig.throttling,
+        };
+        const result = await updateProjectConfig(currentProject.project_id, currentProject.api_version, payload, {
+          tenant: derivedAuth.activeAuthTenant,
+          ifMatch: projectETag(currentProject),
+        });
+        savedProject = projectAfterSave(currentProject, payload, result);
+        setCurrentProject(savedProject);
+        updateProjectInCache(currentProject.project_id, currentProject.api_version, payload);
+        onProjectUpdate?.(savedProject);
+        updateConfig(updates);
+        if (!result.updated_at) void reloadProject(savedProject);
+        applied.push('project settings');
+      }
+
+      if (routesToSave) {
+        const { putRouteConfig } = await import('@/lib/api/route-configs');
+        setRouteSaveStatus({ state: 'saving', progress: null });
+        const saved = await putRouteConfig(currentProject.project_id, currentProject.api_version, routesToSave, {
+          onProgress: (progress) => setRouteSaveStatus({ state: 'saving', progress }),
+        });
+        setRouteSaveStatus(null);
+        // Let RoutesSection rebuild its table from the saved routes instead of its stale ref
+        routesRef.current = [];
+        updateConfig({ routeConfig: { routes: saved.routes } });
+        applied.push('routes');
+      }
+
+      toast({ title: 'Manifest Applied', description: 'Project configuration has been updated from the manifest.' });
+      return true;
+    } catch (error) {
+      setRouteSaveStatus(
+        error instanceof RouteBatchError
+          ? { state: 'failed', error: error.message, results: error.results, rolledBack: error.rolledBack }
+          : null
+      );
+      const appliedNote = applied.length ? ` Already applied: ${applied.join(', ')}.` : ' Nothing was applied.';
+      if (error instanceof ConflictError) {
+        // Reapply the manifest (and the panel's unsaved edits) on top of the latest copy
+        setManifestImportOpen(false);
+        void openMergeDialog(savedProject, {
+          config: { ...config, ...updates },
+          routes: applied.includes('routes') ? null : routesToSave,
+          savedRoutes,
+        });
+        toast({
+          title: 'Manifest Conflicts With Newer Changes',
+          description: `The project was changed since it was loaded.${appliedNote}`,
+          variant: 'destructive',
+        });
+        return false;
+      }
+      console.error('Failed to apply manifest:', error);
+      toast({
+        title: applied.length ? 'Manifest Partially Applied' : 'Failed to Apply Manifest',
+        description: `${error instanceof Error ? error.message : 'Unknown error'}.${appliedNote}`,
+        variant: 'destructive',
+      });
+      return false;
+    }
+  }, [currentProject, config, derivedAuth.activeAuthTenant, liveRoutes, onProjectUpdate, toast, updateConfig, updateProjectInCache, openMergeDialog, reloadProject]);
 
   const handleDelete = useCallback(async () => {
     if (!currentProject) return;
@@ -1071,6 +1344,8 @@ export function ProjectConfigPanel({
               onGoToGeneral={() => setActiveTab('general')}
               project={routesSectionProject}
               routesRef={routesRef}
+              saveStatus={routeSaveStatus}
+              onDismissSaveStatus={() => setRouteSaveStatus(null)}
             />
           )}
           {activeTab === 'preprocessing' && (
@@ -1135,25 +1410,76 @@ export function ProjectConfigPanel({
               )}
             </Button>
           ) : (
-            <Button
-              onClick={handleSaveConfig}
-              disabled={isSavingConfig || isDeploying || isDeleting}
-            >
-              {isSavingConfig ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Saving...
-                </>
-              ) : (
-                <>
-                  <Save className="mr-2 h-4 w-4" />
-                  Save Updated Config
-                </>
-              )}
-            </Button>
+            <>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" disabled={isSavingConfig || isDeploying || isDeleting}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => void handleExportManifest('yaml')}>apiblaze.yaml</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => void handleExportManifest('json')}>apiblaze.json</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button
+                variant="outline"
+                onClick={handleOpenManifestImport}
+                disabled={isSavingConfig || isDeploying || isDeleting}
+              >
+                <Upload className="mr-2 h-4 w-4" />
+                Import
+              </Button>
+              <Button
+                onClick={handleReviewChanges}
+                disabled={isSavingConfig || isDeploying || isDeleting}
+              >
+                {isSavingConfig ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    <Save className="mr-2 h-4 w-4" />
+                    Save Updated Config
+                  </>
+                )}
+              </Button>
+            </>
           )}
         </div>
       </div>
+
+      {currentProject && (
+        <ReviewChangesDialog
+          open={reviewOpen}
+          onOpenChange={setReviewOpen}
+          changes={pendingChanges}
+          error={reviewError}
+          isSaving={isSavingConfig}
+          onConfirm={() => void handleConfirmSave()}
+        />
+      )}
+      {currentProject && (
+        <MergeConflictDialog
+          open={mergeOpen}
+          onOpenChange={setMergeOpen}
+          units={mergeUnits}
+          error={mergeError}
+          onResolve={handleResolveMerge}
+        />
+      )}
+      {currentProject && (
+        <ManifestImportDialog
+          open={manifestImportOpen}
+          onOpenChange={setManifestImportOpen}
+          currentManifest={currentManifest}
+          loadingCurrent={!liveRoutes}
+          onApply={handleApplyManifest}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,436 @@
+/**
+ * Config-as-code: export/import a project's configuration as an apiblaze.yaml (or .json) manifest.
+ *
+ * The manifest is versioned (`manifestVersion`) and described by the JSON Schema published at
+ * /schemas/apiblaze-manifest.v1.json. Every top-level section except `project` is optional;
+ * an omitted section leaves the live config untouched on import.
+ * Secrets (OAuth client secrets, app client secrets) are never exported.
+ */
+
+import * as yaml from 'js-yaml';
+import { z } from 'zod';
+import type { ProjectConfig, RouteEntry, TargetServer } from './types';
+
+export const MANIFEST_VERSION = 1;
+export const MANIFEST_SCHEMA_URL = 'https://dashboard.apiblaze.com/schemas/apiblaze-manifest.v1.json';
+
+// Policy templates and cache rules are JSON strings in RouteEntry; the manifest also accepts
+// them as YAML/JSON objects so they stay readable in git.
+const jsonStringOrObject = z
+  .union([z.string(), z.record(z.unknown()), z.array(z.record(z.unknown()))])
+  .transform((v) => (typeof v === 'string' ? v : JSON.stringify(v)))
+  .refine(
+    (v) => {
+      if (!v.trim()) return true;
+      try {
+        JSON.parse(v);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: 'Must be valid JSON' }
+  );
+
+const routeSchema = z
+  .object({
+    path: z.string().startsWith('/', { message: 'Route path must start with /' }),
+    method: z
+      .string()
+      .transform((m) => m.toUpperCase())
+      .pipe(z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'])),
+    description: z.string().default(''),
+    require_authentication: z.boolean().default(true),
+    authorization_enabled: z.boolean().default(false),
+    pre_request_auth_template: jsonStringOrObject.default(''),
+    post_response_policy_template: jsonStringOrObject.default(''),
+    cache_rules: jsonStringOrObject.default(''),
+    priority: z.number().int().optional(),
+  })
+  .strict();
+
+const targetServerSchema = z
+  .object({
+    stage: z.string().min(1),
+    targetUrl: z.union([z.string().url(), z.literal('')]),
+    config: z
+      .array(
+        z
+          .object({
+            type: z.enum(['header', 'parameter', 'bodyVar']),
+            name: z.string().min(1),
+            value: z.string(),
+          })
+          .strict()
+      )
+      .default([]),
+  })
+  .strict();
+
+export const projectManifestSchema = z
+  .object({
+    $schema: z.string().optional(),
+    manifestVersion: z.literal(MANIFEST_VERSION),
+    project: z
+      .object({
+        name: z.string().min(1),
+        apiVersion: z.string().min(1),
+      })
+      .strict(),
+    general: z
+      .object({
+        source: z.discriminatedUnion('type', [
+          z
+            .object({
+              type: z.literal('github'),
+              owner: z.string().min(1),
+              repo: z.string().min(1),
+              path: z.string().min(1),
+              branch: z.string().min(1).default('main'),
+            })
+            .strict(),
+          z.object({ type: z.literal('targetUrl'), url: z.string().url() }).strict(),
+          z.object({ type: z.literal('upload') }).strict(),
+        ]),
+      })
+      .strict()
+      .optional(),
+    authentication: z
+      .object({
+        mode: z.enum(['authenticate', 'passthrough']),
+        methods: z.array(z.enum(['jwt', 'opaque', 'api_key'])).default(['jwt']),
+        allowedPairs: z.array(z.object({ iss: z.string().min(1), aud: z.string().min(1) }).strict()).default([]),
+        opaqueToken: z
+          .object({
+            endpoint: z.string(),
+            method: z.enum(['GET', 'POST']).default('GET'),
+            params: z.string().default('?access_token={token}'),
+            body: z.string().default('token={token}'),
+          })
+          .strict()
+          .optional(),
+        requireApiKeyXEndUserId: z.boolean().default(false),
+        defaultAppClient: z.string().optional(),
+      })
+      .strict()
+      .optional(),
+    authorization: z.object({ enforce: z.boolean() }).strict().optional(),
+    targetServers: z.array(targetServerSchema).optional(),
+    throttling: z
+      .object({
+        userRateLimit: z.number().int().min(0),
+        proxyDailyQuota: z.number().int().min(0),
+        accountMonthlyQuota: z.number().int().min(0),
+      })
+      .strict()
+      .optional(),
+    processing: z
+      .object({
+        preProcessingPath: z.string().default(''),
+        postProcessingPath: z.string().default(''),
+      })
+      .strict()
+      .optional(),
+    domains: z.array(z.string().min(1)).optional(),
+    routes: z.array(routeSchema).optional(),
+  })
+  .strict()
+  .superRefine((manifest, ctx) => {
+    const seenRoutes = new Set<string>();
+    manifest.routes?.forEach((route, i) => {
+      const key = `${route.method} ${route.path}`;
+      if (seenRoutes.has(key)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['routes', i], message: `Duplicate route ${key}` });
+      }
+      seenRoutes.add(key);
+    });
+    const seenStages = new Set<string>();
+    manifest.targetServers?.forEach((server, i) => {
+      if (seenStages.has(server.stage)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['targetServers', i, 'stage'], message: `Duplicate stage ${server.stage}` });
+      }
+      seenStages.add(server.stage);
+    });
+  });
+
+/** Validated manifest (templates normalized to JSON strings, defaults filled in). */
+export type ProjectManifest = z.infer<typeof projectManifestSchema>;
+/** Manifest as written to disk (templates may be objects). */
+export type ProjectManifestInput = z.input<typeof projectManifestSchema>;
+export type ManifestFormat = 'yaml' | 'json';
+
+export type ParseManifestResult =
+  | { ok: true; manifest: ProjectManifest }
+  | { ok: false; errors: string[] };
+
+export interface ManifestChange {
+  /** Dotted path, with keyed list items shown as `routes[GET /users]` or `targetServers[prod]`. */
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+// ─── Export ──────────────────────────────────────────────────────────────────
+
+function templateForExport(value: string): string | Record<string, unknown> | Array<Record<string, unknown>> {
+  if (!value?.trim()) return '';
+  try {
+    const parsed = JSON.parse(value);
+    return typeof parsed === 'object' && parsed !== null ? parsed : value;
+  } catch {
+    return value;
+  }
+}
+
+/** Build a manifest from the dashboard config state and the project's route config. */
+export function configToManifest(config: ProjectConfig, routes: RouteEntry[]): ProjectManifestInput {
+  const source: NonNullable<ProjectManifestInput['general']>['source'] =
+    config.sourceType === 'github'
+      ? { type: 'github', owner: config.githubUser, repo: config.githubRepo, path: config.githubPath, branch: config.githubBranch || 'main' }
+      : config.sourceType === 'targetUrl'
+        ? { type: 'targetUrl', url: config.targetUrl }
+        : { type: 'upload' };
+
+  return {
+    $schema: MANIFEST_SCHEMA_URL,
+    manifestVersion: MANIFEST_VERSION,
+    project: { name: config.projectName, apiVersion: config.apiVersion },
+    general: { source },
+    authentication: {
+      mode: config.requestsAuthMode,
+      methods: config.requestsAuthMethods,
+      allowedPairs: config.allowedPairs,
+      ...(config.requestsAuthMethods.includes('opaque')
+        ? {
+            opaqueToken: {
+              endpoint: config.opaqueTokenEndpoint,
+              method: config.opaqueTokenMethod,
+              params: config.opaqueTokenParams,
+              body: config.opaqueTokenBody,
+            },
+          }
+        : {}),
+      requireApiKeyXEndUserId: config.requireApiKeyXEndUserId ?? false,
+      ...(config.defaultAppClient ? { defaultAppClient: config.defaultAppClient } : {}),
+    },
+    authorization: { enforce: config.enforceAuthorization },
+    targetServers: config.targetServers.map((s) => ({ stage: s.stage, targetUrl: s.targetUrl, config: s.config })),
+    ...(config.throttling ? { throttling: config.throttling } : {}),
+    processing: { preProcessingPath: config.preProcessingPath, postProcessingPath: config.postProcessingPath },
+    domains: config.customDomains.map((d) => d.domain),
+    routes: [...routes]
+      .sort((a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method))
+      .map((r) => ({
+        path: r.path,
+        method: r.method.toUpperCase(),
+        description: r.description ?? '',
+        require_authentication: r.require_authentication,
+        authorization_enabled: r.authorization_enabled,
+        // Objects in the manifest; the schema transform turns them back into JSON strings on import
+        pre_request_auth_template: templateForExport(r.pre_request_auth_template),
+        post_response_policy_template: templateForExport(r.post_response_policy_template),
+        cache_rules: templateForExport(r.cache_rules),
+        ...(r.priority !== undefined ? { priority: r.priority } : {}),
+      })),
+  };
+}
+
+export function serializeManifest(manifest: ProjectManifestInput, format: ManifestFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(manifest, null, 2) + '\n';
+  }
+  return yaml.dump(manifest, { noRefs: true, lineWidth: 120, quotingType: '"' });
+}
+
+// ─── Import ──────────────────────────────────────────────────────────────────
+
+/** Parse and validate manifest text (YAML or JSON — YAML is a superset, so one loader handles both). */
+export function parseManifest(text: string): ParseManifestResult {
+  let raw: unknown;
+  try {
+    raw = yaml.load(text);
+  } catch (e) {
+    const message = e instanceof yaml.YAMLException ? e.message : 'Could not parse manifest';
+    return { ok: false, errors: [message] };
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { ok: false, errors: ['Manifest must be a YAML or JSON object'] };
+  }
+  const version = (raw as { manifestVersion?: unknown }).manifestVersion;
+  if (version !== undefined && version !== MANIFEST_VERSION) {
+    return { ok: false, errors: [`Unsupported manifestVersion ${String(version)} (expected ${MANIFEST_VERSION})`] };
+  }
+  const result = projectManifestSchema.safeParse(raw);
+  if (!result.success) {
+    return {
+      ok: false,
+      errors: result.error.issues.map((issue) => {
+        const path = issue.path.join('.');
+        return path ? `${path}: ${issue.message}` : issue.message;
+      }),
+    };
+  }
+  return { ok: true, manifest: result.data };
+}
+
+/**
+ * Config fields that the manifest overrides. Sections absent from the manifest are not returned,
+ * so merging the result into the live config leaves them unchanged. Only the sections a save
+ * writes are mapped; see isImportableChange for the others.
+ */
+export function manifestToConfig(manifest: ProjectManifest): Partial<ProjectConfig> {
+  const updates: Partial<ProjectConfig> = {};
+  if (manifest.authentication) {
+    const auth = manifest.authentication;
+    updates.requestsAuthMode = auth.mode;
+    updates.requestsAuthMethods = auth.methods;
+    updates.allowedPairs = auth.allowedPairs;
+    updates.requireApiKeyXEndUserId = auth.requireApiKeyXEndUserId;
+    if (auth.opaqueToken) {
+      updates.opaqueTokenEndpoint = auth.opaqueToken.endpoint;
+      updates.opaqueTokenMethod = auth.opaqueToken.method;
+      updates.opaqueTokenParams = auth.opaqueToken.params;
+      updates.opaqueTokenBody = auth.opaqueToken.body;
+    }
+    if (auth.defaultAppClient) updates.defaultAppClient = auth.defaultAppClient;
+  }
+  if (manifest.authorization) {
+    updates.enforceAuthorization = manifest.authorization.enforce;
+  }
+  if (manifest.targetServers) {
+    updates.targetServers = manifest.targetServers as TargetServer[];
+  }
+  if (manifest.throttling) {
+    updates.throttling = manifest.throttling;
+  }
+  return updates;
+}
+
+/**
+ * Route list to hand to putRouteConfig: manifest routes plus every live route the manifest
+ * does not mention, reset to defaults so putRouteConfig deletes its stored config.
+ */
+export function manifestRoutesForSave(manifest: ProjectManifest, liveRoutes: RouteEntry[]): RouteEntry[] {
+  const manifestRoutes = (manifest.routes ?? []) as RouteEntry[];
+  const keys = new Set(manifestRoutes.map((r) => `${r.method.toUpperCase()} ${r.path}`));
+  const cleared = liveRoutes
+    .filter((r) => !keys.has(`${r.method.toUpperCase()} ${r.path}`))
+    .map(clearedRoute);
+  return [...manifestRoutes, ...cleared];
+}
+
+/** The route with default settings, which putRouteConfig treats as "delete the stored entry". */
+export function clearedRoute(route: RouteEntry): RouteEntry {
+  return {
+    ...route,
+    require_authentication: true,
+    authorization_enabled: false,
+    pre_request_auth_template: '',
+    post_response_policy_template: '',
+    cache_rules: '',
+    priority: undefined,
+  };
+}
+
+// ─── Diff ────────────────────────────────────────────────────────────────────
+
+// Lists whose items have a natural identity are diffed per item instead of by index
+const KEYED_LISTS: Record<string, (item: Record<string, unknown>) => string> = {
+  routes: (r) => `${String(r.method).toUpperCase()} ${String(r.path)}`,
+  targetServers: (s) => String(s.stage),
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function diffValues(path: string, before: unknown, after: unknown, out: ManifestChange[]): void {
+  if (before === undefined && after === undefined) return;
+  if (before === undefined) {
+    out.push({ path, kind: 'added', after });
+    return;
+  }
+  if (after === undefined) {
+    out.push({ path, kind: 'removed', before });
+    return;
+  }
+  const keyOf = KEYED_LISTS[path];
+  if (keyOf && Array.isArray(before) && Array.isArray(after)) {
+    const beforeMap = new Map(before.map((item) => [keyOf(item as Record<string, unknown>), item]));
+    const afterMap = new Map(after.map((item) => [keyOf(item as Record<string, unknown>), item]));
+    for (const key of new Set([...beforeMap.keys(), ...afterMap.keys()])) {
+      diffValues(`${path}[${key}]`, beforeMap.get(key), afterMap.get(key), out);
+    }
+    return;
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      diffValues(path ? `${path}.${key}` : key, before[key], after[key], out);
+    }
+    return;
+  }
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    out.push({ path, kind: 'changed', before, after });
+  }
+}
+
+/**
+ * Changes importing `next` would make relative to `current` (usually the exported live config).
+ * Sections omitted from `next` are skipped because import leaves them unchanged.
+ */
+export function diffManifests(current: ProjectManifestInput, next: ProjectManifest): ManifestChange[] {
+  const changes: ManifestChange[] = [];
+  const sections = Object.keys(next).filter((k) => k !== '$schema' && k !== 'manifestVersion') as Array<keyof ProjectManifest>;
+  for (const section of sections) {
+    diffValues(section, normalizeForDiff(section, current[section]), normalizeForDiff(section, next[section]), changes);
+  }
+  return changes;
+}
+
+/** Manifest sections written by "Save Updated Config". */
+export const SAVED_CONFIG_SECTIONS = ['authentication', 'authorization', 'targetServers', 'throttling', 'routes'] as const;
+export type SavedConfigSection = (typeof SAVED_CONFIG_SECTIONS)[number];
+
+/**
+ * Whether an import can apply this change. `general`, `processing` and `domains` are not written
+ * by a save (the spec source needs a redeploy), so a manifest that changes them is rejected.
+ */
+export function isImportableChange(change: ManifestChange): boolean {
+  const section = change.path.split(/[.[]/, 1)[0];
+  return (SAVED_CONFIG_SECTIONS as readonly string[]).includes(section);
+}
+
+/**
+ * Changes saving `pending` would make relative to the `saved` project config, limited to the
+ * sections the save writes. Routes should already be filtered to those with non-default settings.
+ */
+export function diffPendingConfig(
+  saved: { config: ProjectConfig; routes: RouteEntry[] },
+  pending: { config: ProjectConfig; routes: RouteEntry[] }
+): ManifestChange[] {
+  const before = configToManifest(saved.config, saved.routes);
+  const after = configToManifest(pending.config, pending.routes);
+  const changes: ManifestChange[] = [];
+  for (const section of SAVED_CONFIG_SECTIONS) {
+    diffValues(section, normalizeForDiff(section, before[section]), normalizeForDiff(section, after[section]), changes);
+  }
+  return changes;
+}
+
+const ROUTE_JSON_FIELDS = ['pre_request_auth_template', 'post_response_policy_template', 'cache_rules'] as const;
+
+// Route templates may be JSON strings on one side and objects on the other; compare them as objects
+function normalizeForDiff(section: string, value: unknown): unknown {
+  if (value === undefined) return undefined;
+  const clone = JSON.parse(JSON.stringify(value)) as unknown;
+  if (section !== 'routes' || !Array.isArray(clone)) return clone;
+  return clone.map((route: Record<string, unknown>) => {
+    const normalized = { ...route };
+    for (const field of ROUTE_JSON_FIELDS) {
+      const v = normalized[field];
+      normalized[field] = typeof v === 'string' ? templateForExport(v) : v ?? '';
+    }
+    return normalized;
+  });
+}
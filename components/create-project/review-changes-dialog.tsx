@@ -0,0 +1,99 @@
+'use client';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, CheckCircle2, Loader2, Save, TriangleAlert } from 'lucide-react';
+import { ConfigChangeList } from './config-change-list';
+import type { ManifestChange } from './project-manifest';
+
+interface ReviewChangesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Pending changes, or null while the saved route config is still loading. */
+  changes: ManifestChange[] | null;
+  error?: string | null;
+  isSaving: boolean;
+  onConfirm: () => void;
+}
+
+export function ReviewChangesDialog({
+  open,
+  onOpenChange,
+  changes,
+  error,
+  isSaving,
+  onConfirm,
+}: ReviewChangesDialogProps) {
+  const removals = changes?.filter((c) => c.kind === 'removed').length ?? 0;
+
+  const handleOpenChange = (next: boolean) => {
+    if (!isSaving) onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Review changes</DialogTitle>
+          <DialogDescription>
+            Saved configuration on the left, what will be saved on the right.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-[65vh] overflow-y-auto">
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-destructive">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          )}
+          {changes === null && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Comparing with saved configuration...
+            </div>
+          )}
+          {changes?.length === 0 && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <CheckCircle2 className="w-4 h-4 text-green-600" />
+              No changes to target servers, throttling, authentication or routes.
+            </div>
+          )}
+          {removals > 0 && (
+            <div className="flex items-start gap-2 text-sm text-orange-700 dark:text-orange-400 bg-orange-50 dark:bg-orange-950/30 border border-orange-200 dark:border-orange-900 rounded-lg p-3">
+              <TriangleAlert className="w-4 h-4 mt-0.5 shrink-0" />
+              {removals === 1 ? '1 setting' : `${removals} settings`} will be removed. Check that this is intended.
+            </div>
+          )}
+          {changes && changes.length > 0 && <ConfigChangeList changes={changes} />}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isSaving}>
+            Back to editing
+          </Button>
+          <Button onClick={onConfirm} disabled={isSaving || changes === null}>
+            {isSaving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              <>
+                <Save className="mr-2 h-4 w-4" />
+                Confirm and Save
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,379 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { CheckCircle, Layers, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { formatCacheRulesIssues, parseCacheRules } from '@/lib/cache-rules';
+import { MethodBadge } from './method-badge';
+import type { RouteEntry } from './types';
+
+type TemplateField = 'pre_request_auth_template' | 'post_response_policy_template' | 'cache_rules';
+
+/**
+ * Changes applied to every selected route. An absent field is left unchanged;
+ * `priority: null` and empty template strings reset the field to its default.
+ */
+export interface BulkEdit {
+  require_authentication?: boolean;
+  authorization_enabled?: boolean;
+  priority?: number | null;
+  pre_request_auth_template?: string;
+  post_response_policy_template?: string;
+  cache_rules?: string;
+}
+
+const FIELD_LABELS: Record<keyof BulkEdit, string> = {
+  require_authentication: 'Require Authentication',
+  authorization_enabled: 'Enable Authorization',
+  priority: 'Priority',
+  pre_request_auth_template: 'Check Policy',
+  post_response_policy_template: 'Write Policy',
+  cache_rules: 'Cache Rules',
+};
+
+export function applyBulkEdit(entry: RouteEntry, edit: BulkEdit): RouteEntry {
+  const next = { ...entry };
+  if (edit.require_authentication !== undefined) next.require_authentication = edit.require_authentication;
+  if (edit.authorization_enabled !== undefined) next.authorization_enabled = edit.authorization_enabled;
+  if (edit.priority !== undefined) next.priority = edit.priority ?? undefined;
+  if (edit.pre_request_auth_template !== undefined) next.pre_request_auth_template = edit.pre_request_auth_template;
+  if (edit.post_response_policy_template !== undefined) next.post_response_policy_template = edit.post_response_policy_template;
+  if (edit.cache_rules !== undefined) next.cache_rules = edit.cache_rules;
+  return next;
+}
+
+/** Fields of `entry` that `edit` would actually change. */
+function changedFields(entry: RouteEntry, edit: BulkEdit): (keyof BulkEdit)[] {
+  const next = applyBulkEdit(entry, edit);
+  return (Object.keys(FIELD_LABELS) as (keyof BulkEdit)[]).filter(
+    (field) => (entry[field] ?? '') !== (next[field] ?? '')
+  );
+}
+
+function formatFieldValue(value: unknown): string {
+  if (value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  const text = String(value).replace(/\s+/g, ' ');
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+}
+
+// ─── Field editors ───────────────────────────────────────────────────────────
+
+type Mode = 'keep' | 'set' | 'clear';
+
+function ToggleField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: boolean | undefined;
+  onChange: (value: boolean | undefined) => void;
+}) {
+  const selectValue = value === undefined ? 'keep' : value ? 'on' : 'off';
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <Label className="text-sm font-medium whitespace-nowrap">{label}</Label>
+      <Select
+        value={selectValue}
+        onValueChange={(v) => onChange(v === 'keep' ? undefined : v === 'on')}
+      >
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="keep">Leave unchanged</SelectItem>
+          <SelectItem value="on">On</SelectItem>
+          <SelectItem value="off">Off</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+function ModeSelect({ mode, onChange, clearLabel }: { mode: Mode; onChange: (mode: Mode) => void; clearLabel: string }) {
+  return (
+    <Select value={mode} onValueChange={(v) => onChange(v as Mode)}>
+      <SelectTrigger className="w-40">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="keep">Leave unchanged</SelectItem>
+        <SelectItem value="set">Set to</SelectItem>
+        <SelectItem value="clear">{clearLabel}</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
+
+function JsonField({
+  label,
+  mode,
+  value,
+  error,
+  placeholder,
+  onModeChange,
+  onValueChange,
+}: {
+  label: string;
+  mode: Mode;
+  value: string;
+  error: string | null;
+  placeholder?: string;
+  onModeChange: (mode: Mode) => void;
+  onValueChange: (value: string) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-4">
+        <Label className="text-sm font-medium">{label}</Label>
+        <ModeSelect mode={mode} onChange={onModeChange} clearLabel="Clear" />
+      </div>
+      {mode === 'set' && (
+        <>
+          <Textarea
+            value={value}
+            onChange={(e) => onValueChange(e.target.value)}
+            className={cn('font-mono text-xs', error && 'border-red-500')}
+            placeholder={placeholder}
+            rows={4}
+          />
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </>
+      )}
+    </div>
+  );
+}
+
+// ─── Bulk edit panel ─────────────────────────────────────────────────────────
+
+interface BulkEditPanelProps {
+  /** Selected routes with their current (unsaved) settings */
+  entries: RouteEntry[];
+  enforceAuthorization: boolean;
+  onApply: (edit: BulkEdit) => void;
+  onClearSelection: () => void;
+}
+
+export function BulkEditPanel({ entries, enforceAuthorization, onApply, onClearSelection }: BulkEditPanelProps) {
+  const [requireAuth, setRequireAuth] = useState<boolean | undefined>();
+  const [authzEnabled, setAuthzEnabled] = useState<boolean | undefined>();
+  const [priorityMode, setPriorityMode] = useState<Mode>('keep');
+  const [priority, setPriority] = useState('');
+  const [templateModes, setTemplateModes] = useState<Record<TemplateField, Mode>>({
+    pre_request_auth_template: 'keep',
+    post_response_policy_template: 'keep',
+    cache_rules: 'keep',
+  });
+  const [templates, setTemplates] = useState<Record<TemplateField, string>>({
+    pre_request_auth_template: '',
+    post_response_policy_template: '',
+    cache_rules: '',
+  });
+  const [appliedCount, setAppliedCount] = useState<number | null>(null);
+
+  const priorityValue = Number(priority);
+  const priorityInvalid = priorityMode === 'set' && !(Number.isInteger(priorityValue) && priorityValue >= 1);
+
+  const templateErrors = useMemo(() => {
+    const errors = {} as Record<TemplateField, string | null>;
+    for (const field of Object.keys(templates) as TemplateField[]) {
+      errors[field] = null;
+      if (templateModes[field] !== 'set' || templates[field].trim() === '') continue;
+      if (field === 'cache_rules') {
+        const result = parseCacheRules(templates[field]);
+        if (!result.ok) errors[field] = formatCacheRulesIssues(result.errors);
+        continue;
+      }
+      try {
+        JSON.parse(templates[field]);
+      } catch {
+        errors[field] = 'Invalid JSON';
+      }
+    }
+    return errors;
+  }, [templates, templateModes]);
+
+  const edit = useMemo<BulkEdit>(() => {
+    const result: BulkEdit = {};
+    if (requireAuth !== undefined) result.require_authentication = requireAuth;
+    if (enforceAuthorization && authzEnabled !== undefined) result.authorization_enabled = authzEnabled;
+    if (priorityMode === 'clear') result.priority = null;
+    if (priorityMode === 'set' && !priorityInvalid) result.priority = priorityValue;
+    for (const field of Object.keys(templateModes) as TemplateField[]) {
+      if (templateModes[field] === 'clear') result[field] = '';
+      if (templateModes[field] === 'set' && !templateErrors[field]) result[field] = templates[field];
+    }
+    return result;
+  }, [requireAuth, authzEnabled, enforceAuthorization, priorityMode, priorityInvalid, priorityValue, templateModes, templates, templateErrors]);
+
+  const preview = useMemo(
+    () =>
+      entries
+        .map((entry) => ({ entry, after: applyBulkEdit(entry, edit), fields: changedFields(entry, edit) }))
+        .filter((row) => row.fields.length > 0),
+    [entries, edit]
+  );
+
+  const hasErrors = priorityInvalid || Object.values(templateErrors).some(Boolean);
+
+  const setTemplateMode = (field: TemplateField, mode: Mode) => {
+    setTemplateModes((prev) => ({ ...prev, [field]: mode }));
+    setAppliedCount(null);
+  };
+  const setTemplate = (field: TemplateField, value: string) => {
+    setTemplates((prev) => ({ ...prev, [field]: value }));
+    setAppliedCount(null);
+  };
+
+  const reset = () => {
+    setRequireAuth(undefined);
+    setAuthzEnabled(undefined);
+    setPriorityMode('keep');
+    setPriority('');
+    setTemplateModes({ pre_request_auth_template: 'keep', post_response_policy_template: 'keep', cache_rules: 'keep' });
+    setTemplates({ pre_request_auth_template: '', post_response_policy_template: '', cache_rules: '' });
+  };
+
+  const handleApply = () => {
+    onApply(edit);
+    setAppliedCount(preview.length);
+    reset();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="pb-4 border-b flex items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <div className="flex items-center gap-2">
+            <Layers className="h-4 w-4 text-muted-foreground" />
+            <span className="text-sm font-medium">
+              Edit {entries.length} selected route{entries.length === 1 ? '' : 's'}
+            </span>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Fields left unchanged keep each route&apos;s own value.
+          </p>
+        </div>
+        <Button type="button" variant="ghost" size="sm" onClick={onClearSelection}>
+          <X className="h-4 w-4 mr-1" />
+          Clear selection
+        </Button>
+      </div>
+
+      {appliedCount !== null && (
+        <div className="flex items-center gap-2 text-sm text-green-700 bg-green-50 dark:bg-green-950/30 border border-green-200 dark:border-green-900 rounded-lg p-3">
+          <CheckCircle className="h-4 w-4 shrink-0" />
+          Updated {appliedCount} route{appliedCount === 1 ? '' : 's'}. Save the configuration to deploy the changes.
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <ToggleField
+          label="Require Authentication"
+          value={requireAuth}
+          onChange={(v) => { setRequireAuth(v); setAppliedCount(null); }}
+        />
+        {enforceAuthorization && (
+          <ToggleField
+            label="Enable Authorization"
+            value={authzEnabled}
+            onChange={(v) => { setAuthzEnabled(v); setAppliedCount(null); }}
+          />
+        )}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-4">
+            <Label className="text-sm font-medium">Priority</Label>
+            <div className="flex items-center gap-2">
+              {priorityMode === 'set' && (
+                <input
+                  type="number"
+                  min={1}
+                  value={priority}
+                  onChange={(e) => { setPriority(e.target.value); setAppliedCount(null); }}
+                  className={cn('w-20 text-sm border rounded px-2 py-1 bg-background', priorityInvalid && priority !== '' && 'border-red-500')}
+                  placeholder="1"
+                />
+              )}
+              <ModeSelect
+                mode={priorityMode}
+                onChange={(mode) => { setPriorityMode(mode); setAppliedCount(null); }}
+                clearLabel="Reset to auto"
+              />
+            </div>
+          </div>
+        </div>
+
+        <JsonField
+          label="Check Policy"
+          mode={templateModes.pre_request_auth_template}
+          value={templates.pre_request_auth_template}
+          error={templateErrors.pre_request_auth_template}
+          placeholder={'{\n  "user": "user:{{JWT.sub}}",\n  "relation": "viewer",\n  "object": "reservation:{{PATH.id}}"\n}'}
+          onModeChange={(mode) => setTemplateMode('pre_request_auth_template', mode)}
+          onValueChange={(value) => setTemplate('pre_request_auth_template', value)}
+        />
+        <JsonField
+          label="Write Policy"
+          mode={templateModes.post_response_policy_template}
+          value={templates.post_response_policy_template}
+          error={templateErrors.post_response_policy_template}
+          placeholder={'{\n  "user": "user:{{JWT.sub}}",\n  "relation": "owner",\n  "object": "reservation:{{RESPONSE.id}}"\n}'}
+          onModeChange={(mode) => setTemplateMode('post_response_policy_template', mode)}
+          onValueChange={(value) => setTemplate('post_response_policy_template', value)}
+        />
+        <JsonField
+          label="Cache Rules"
+          mode={templateModes.cache_rules}
+          value={templates.cache_rules}
+          error={templateErrors.cache_rules}
+          placeholder={'{\n  "ttl": 60,\n  "vary_by": { "claims": ["sub"] }\n}'}
+          onModeChange={(mode) => setTemplateMode('cache_rules', mode)}
+          onValueChange={(value) => setTemplate('cache_rules', value)}
+        />
+      </div>
+
+      {/* Preview */}
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+          Preview ({preview.length} of {entries.length} route{entries.length === 1 ? '' : 's'} will change)
+        </p>
+        {preview.length > 0 ? (
+          <div className="border rounded-md divide-y max-h-64 overflow-y-auto">
+            {preview.map(({ entry, after, fields }) => (
+              <div key={`${entry.method}:${entry.path}`} className="px-3 py-2 space-y-1">
+                <div className="flex items-center gap-2">
+                  <MethodBadge method={entry.method} />
+                  <span className="font-mono text-xs truncate">{entry.path}</span>
+                </div>
+                <ul className="text-xs text-muted-foreground space-y-0.5 pl-1">
+                  {fields.map((field) => (
+                    <li key={field}>
+                      {FIELD_LABELS[field]}:{' '}
+                      <span className="line-through">{formatFieldValue(entry[field])}</span>
+                      {' → '}
+                      <span className="text-foreground">{formatFieldValue(after[field])}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Choose a field to change.</p>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="button" onClick={handleApply} disabled={hasErrors || preview.length === 0}>
+          Apply to {preview.length} route{preview.length === 1 ? '' : 's'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -7,8 +7,10 @@ import { RoutesTable } from './routes-table';
 import { ProjectConfig } from './types';
 import type { RouteEntry } from './types';
 import { fetchOpenApiSpec } from '@/lib/api/openapi';
-import { getRouteConfig } from '@/lib/api/route-configs';
-import { FileJson, Loader2, ArrowRight, Info } from 'lucide-react';
+import { getRouteConfig, type RouteBatchProgress, type RouteBatchResult } from '@/lib/api/route-configs';
+import { getAuthorizationModel } from '@/lib/api/authorization-model';
+import type { OpenFGAModel } from '@/lib/openfga';
+import { FileJson, Loader2, ArrowRight, Info, AlertCircle, X } from 'lucide-react';
 import * as yaml from 'js-yaml';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 
@@ -20,6 +22,76 @@ interface RoutesSectionProps {
   project?: { project_id: string; api_version: string } | null;
   /** Ref for parent to read current routes (persists when section unmounts on tab switch) */
   routesRef?: React.MutableRefObject<RouteEntry[]>;
+  /** Progress of the parent's in-flight route config save, or the outcome of a failed one */
+  saveStatus?: RouteSaveStatus | null;
+  onDismissSaveStatus?: () => void;
+}
+
+export type RouteSaveStatus =
+  | { state: 'saving'; progress: RouteBatchProgress | null }
+  | { state: 'failed'; error: string; results: RouteBatchResult[]; rolledBack: boolean };
+
+const FAILED_STATUSES = new Set<RouteBatchResult['status']>(['failed', 'conflict', 'rollback_failed']);
+
+function RouteSaveStatusBanner({ status, onDismiss }: { status: RouteSaveStatus; onDismiss?: () => void }) {
+  if (status.state === 'saving') {
+    const { progress } = status;
+    const percent = progress && progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+    return (
+      <div className="rounded-lg border p-3 space-y-2">
+        <div className="flex items-center gap-2 text-sm">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {!progress
+            ? 'Saving route configs...'
+            : progress.phase === 'apply'
+              ? `Saving route configs ${progress.completed}/${progress.total}`
+              : `Save failed, rolling back ${progress.completed}/${progress.total}`}
+        </div>
+        <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+          <div
+            className={progress?.phase === 'rollback' ? 'h-full bg-orange-500 transition-all' : 'h-full bg-primary transition-all'}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  const failed = status.results.filter((r) => FAILED_STATUSES.has(r.status));
+  const rolledBack = status.results.filter((r) => r.status === 'rolled_back').length;
+  return (
+    <div className="rounded-lg border border-red-200 bg-red-50 dark:bg-red-950/30 dark:border-red-900 p-4 space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-start gap-2 text-sm text-red-700 dark:text-red-400">
+          <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>
+            {status.error}
+            {status.rolledBack && rolledBack > 0 && ` (${rolledBack} applied ${rolledBack === 1 ? 'change was' : 'changes were'} undone)`}
+          </span>
+        </div>
+        {onDismiss && (
+          <button
+            type="button"
+            onClick={onDismiss}
+            aria-label="Dismiss"
+            className="shrink-0 text-muted-foreground hover:text-foreground"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+      {failed.length > 0 && (
+        <ul className="text-xs space-y-1 pl-6">
+          {failed.map((r) => (
+            <li key={`${r.op}:${r.method}:${r.path}`} className="font-mono">
+              {r.method} {r.path} <span className="text-muted-foreground">({r.op})</span>
+              {r.error && <span className="font-sans text-red-700 dark:text-red-400"> — {r.error}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
 }
 
 function parseUploadedFile(file: File): Promise<Record<string, unknown>> {
@@ -52,10 +124,13 @@ export function RoutesSection({
   onGoToGeneral,
   project: projectProp,
   routesRef: routesRefProp,
+  saveStatus,
+  onDismissSaveStatus,
 }: RoutesSectionProps) {
   const [spec, setSpec] = useState<Record<string, unknown> | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [authorizationModel, setAuthorizationModel] = useState<OpenFGAModel | null>(null);
 
   const existingRoutes = config.routeConfig?.routes ?? [];
   const project = useMemo(
@@ -153,6 +228,22 @@ export function RoutesSection({
     }
   }, [projectProp?.project_id, projectProp?.api_version, config.routeConfig, updateConfig, routesRefProp]);
 
+  useEffect(() => {
+    if (!projectProp) return;
+    let cancelled = false;
+    getAuthorizationModel(projectProp.project_id, projectProp.api_version, config.defaultTenant || 'api')
+      .then((model) => {
+        if (!cancelled) setAuthorizationModel(model);
+      })
+      .catch(() => {
+        // The policy builder falls back to free-text types and relations
+      });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- keyed on the ids so a new project object doesn't refetch
+  }, [projectProp?.project_id, projectProp?.api_version, config.defaultTenant]);
+
   const showEmptyState =
     !hasSpecSource && !hasUpload && !hasLoadedProject;
 
@@ -191,6 +282,8 @@ export function RoutesSection({
         )}
       </div>
 
+      {saveStatus && <RouteSaveStatusBanner status={saveStatus} onDismiss={onDismissSaveStatus} />}
+
       {showEmptyState && (
         <div className="rounded-lg border border-dashed bg-muted/30 p-12 text-center">
           <FileJson className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
@@ -231,6 +324,7 @@ export function RoutesSection({
             readOnly={false}
             routesRef={routesRefProp}
             enforceAuthorization={config.enforceAuthorization}
+            authorizationModel={authorizationModel}
           />
         </div>
       )}
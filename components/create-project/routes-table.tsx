@@ -1,12 +1,17 @@
 'use client';
 
 import React, { useState, useMemo, useEffect, useCallback, useRef, forwardRef, useImperativeHandle } from 'react';
-import { ChevronDown, ChevronRight } from 'lucide-react';
+import { ChevronDown, ChevronRight, Search } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
-import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
+import type { OpenFGAModel } from '@/lib/openfga';
+import { CacheRulesEditor } from './cache-rules-editor';
+import { PolicyTemplateField } from './policy-template-builder';
+import { MethodBadge } from './method-badge';
+import { BulkEditPanel, applyBulkEdit, type BulkEdit } from './routes-bulk-edit';
 import type { RouteEntry } from './types';
 
 type PathGroup = {
@@ -25,14 +30,36 @@ function getBasePath(path: string): string {
 
 const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'];
 
-function isValidJson(value: string): boolean {
-  if (!value || value.trim() === '') return true;
-  try {
-    JSON.parse(value);
-    return true;
-  } catch {
-    return false;
-  }
+const routeKey = (e: RouteEntry) => `${e.method}:${e.path}`;
+
+function matchesFilter(entry: RouteEntry, text: string, method: string): boolean {
+  if (method && entry.method !== method) return false;
+  if (!text) return true;
+  const needle = text.toLowerCase();
+  return entry.path.toLowerCase().includes(needle) || entry.description.toLowerCase().includes(needle);
+}
+
+function Checkbox({
+  checked,
+  indeterminate = false,
+  onChange,
+  label,
+}: {
+  checked: boolean;
+  indeterminate?: boolean;
+  onChange: (checked: boolean) => void;
+  label: string;
+}) {
+  return (
+    <input
+      type="checkbox"
+      aria-label={label}
+      checked={checked}
+      ref={(el) => { if (el) el.indeterminate = indeterminate; }}
+      onChange={(e) => onChange(e.target.checked)}
+      className="h-4 w-4 rounded border border-input shrink-0"
+    />
+  );
 }
 
 function extractOperationsFromSpec(spec: Record<string, unknown>): RouteEntry[] {
@@ -106,12 +133,18 @@ interface RoutesTableProps {
   routesRef?: React.MutableRefObject<RouteEntry[]>;
   /** When false, the "Enable Authorization" toggle is hidden (API-level kill switch is OFF) */
   enforceAuthorization?: boolean;
+  /** Project's OpenFGA model; offers its types and relations in the policy builder */
+  authorizationModel?: OpenFGAModel | null;
 }
 
 export const RoutesTable = forwardRef<RoutesTableRef, RoutesTableProps>(
-  function RoutesTable({ spec, existingRoutes, readOnly = false, routesRef: externalRoutesRef, enforceAuthorization = false }, ref) {
+  function RoutesTable({ spec, existingRoutes, readOnly = false, routesRef: externalRoutesRef, enforceAuthorization = false, authorizationModel = null }, ref) {
     const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set());
     const [selectedKey, setSelectedKey] = useState<string | null>(null);
+    // Multi-select for bulk edits; while non-empty the right panel shows BulkEditPanel
+    const [checkedKeys, setCheckedKeys] = useState<Set<string>>(new Set());
+    const [filterText, setFilterText] = useState('');
+    const [filterMethod, setFilterMethod] = useState('');
 
     const merged = useMemo(() => {
       const fromSpec = spec ? extractOperationsFromSpec(spec) : [];
@@ -119,14 +152,29 @@ export const RoutesTable = forwardRef<RoutesTableRef, RoutesTableProps>(
       return mergeWithExisting(fromSpec, existing);
     }, [spec, existingRoutes, externalRoutesRef]);
 
-    const pathGroups = useMemo(() => groupByBasePath(merged), [merged]);
+    // Rendered routes. Single-route edits only write the refs (RouteDetail keeps its own state);
+    // bulk edits replace this so every affected RouteDetail re-syncs.
+    const [routes, setRoutes] = useState<RouteEntry[]>(merged);
 
     const internalRoutesRef = useRef<RouteEntry[]>(merged);
     useEffect(() => {
+      setRoutes(merged);
       internalRoutesRef.current = merged;
       if (externalRoutesRef) externalRoutesRef.current = merged;
     }, [merged, externalRoutesRef]);
 
+    const pathGroups = useMemo(() => groupByBasePath(routes), [routes]);
+    const methods = useMemo(() => Array.from(new Set(routes.map((e) => e.method))).sort(), [routes]);
+
+    const filtering = filterText.trim() !== '' || filterMethod !== '';
+    const visibleGroups = useMemo(() => {
+      if (!filtering) return pathGroups;
+      return pathGroups
+        .map((g) => ({ ...g, entries: g.entries.filter((e) => matchesFilter(e, filterText.trim(), filterMethod)) }))
+        .filter((g) => g.entries.length > 0);
+    }, [pathGroups, filtering, filterText, filterMethod]);
+    const visibleKeys = useMemo(() => visibleGroups.flatMap((g) => g.entries.map(routeKey)), [visibleGroups]);
+
     useImperativeHandle(ref, () => ({
       getRoutes: () => internalRoutesRef.current ?? [],
     }), []);
@@ -165,8 +213,43 @@ export const RoutesTable = forwardRef<RoutesTableRef, RoutesTableProps>(
       const colonIdx = selectedKey.indexOf(':');
       const method = selectedKey.substring(0, colonIdx);
       const path = selectedKey.substring(colonIdx + 1);
-      return merged.find(e => e.method === method && e.path === path) ?? null;
-    }, [selectedKey, merged]);
+      // From the ref so reselecting a route shows its unsaved single-route edits
+      return internalRoutesRef.current.find(e => e.method === method && e.path === path) ?? null;
+      // eslint-disable-next-line react-hooks/exhaustive-deps -- routes changes whenever the ref is replaced
+    }, [selectedKey, routes]);
+
+    // Drop checked keys for routes that no longer exist (e.g. after a spec reload)
+    useEffect(() => {
+      setCheckedKeys((prev) => {
+        if (prev.size === 0) return prev;
+        const existing = new Set(routes.map(routeKey));
+        const next = new Set([...prev].filter((k) => existing.has(k)));
+        return next.size === prev.size ? prev : next;
+      });
+    }, [routes]);
+
+    const setChecked = useCallback((keys: string[], checked: boolean) => {
+      setCheckedKeys((prev) => {
+        const next = new Set(prev);
+        for (const k of keys) {
+          if (checked) next.add(k);
+          else next.delete(k);
+        }
+        return next;
+      });
+    }, []);
+
+    const applyBulk = useCallback((edit: BulkEdit) => {
+      const updated = internalRoutesRef.current.map((r) => (checkedKeys.has(routeKey(r)) ? applyBulkEdit(r, edit) : r));
+      internalRoutesRef.current = updated;
+      if (externalRoutesRef) externalRoutesRef.current = updated;
+      setRoutes(updated);
+    }, [checkedKeys, externalRoutesRef]);
+
+    const bulkMode = !readOnly && checkedKeys.size > 0;
+    // Read current values from the ref: single-route edits are not reflected in `routes`
+    const checkedEntries = bulkMode ? internalRoutesRef.current.filter((r) => checkedKeys.has(routeKey(r))) : [];
+    const visibleChecked = visibleKeys.filter((k) => checkedKeys.has(k)).length;
 
     if (pathGroups.length === 0) {
       return null;
@@ -175,66 +258,148 @@ export const RoutesTable = forwardRef<RoutesTableRef, RoutesTableProps>(
     return (
       <div className="flex rounded-lg border overflow-hidden" style={{ minHeight: '460px', maxHeight: '72vh' }}>
         {/* Left panel: route list */}
-        <div className="w-80 shrink-0 border-r overflow-y-auto bg-muted/20">
-          {pathGroups.map((group) => {
-            const isExpanded = expandedPaths.has(group.basePath);
-            const groupHasSelected = group.entries.some(e => `${e.method}:${e.path}` === selectedKey);
-            return (
-              <div key={group.basePath}>
-                <button
-                  type="button"
-                  className={cn(
-                    'w-full flex items-center gap-2 px-3 py-3.5 text-sm font-medium border-b text-left transition-colors',
-                    groupHasSelected
-                      ? 'bg-primary/10 text-primary hover:bg-primary/20'
-                      : 'hover:bg-muted/50'
-                  )}
-                  onClick={() => togglePath(group.basePath)}
-                >
-                  {isExpanded ? (
-                    <ChevronDown className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
-                  ) : (
-                    <ChevronRight className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
-                  )}
-                  <span className="font-mono text-xs truncate flex-1">{group.basePath}</span>
-                  <Badge variant="secondary" className="text-xs shrink-0">
-                    {group.entries.length}
-                  </Badge>
-                </button>
-                {isExpanded && group.entries.map((entry) => {
-                  const key = `${entry.method}:${entry.path}`;
-                  const isSelected = selectedKey === key;
-                  return (
+        <div className="w-80 shrink-0 border-r flex flex-col bg-muted/20">
+          {!readOnly && (
+            <div className="p-2 space-y-2 border-b bg-background">
+              <div className="relative">
+                <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+                <Input
+                  value={filterText}
+                  onChange={(e) => setFilterText(e.target.value)}
+                  placeholder="Filter routes"
+                  className="h-8 pl-7 text-xs"
+                />
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {methods.map((m) => (
+                  <button
+                    key={m}
+                    type="button"
+                    onClick={() => setFilterMethod((prev) => (prev === m ? '' : m))}
+                    className={cn('rounded', filterMethod === m && 'ring-2 ring-primary')}
+                  >
+                    <MethodBadge method={m} />
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 px-1 text-xs text-muted-foreground">
+                <Checkbox
+                  label="Select all shown routes"
+                  checked={visibleKeys.length > 0 && visibleChecked === visibleKeys.length}
+                  indeterminate={visibleChecked > 0 && visibleChecked < visibleKeys.length}
+                  onChange={(checked) => setChecked(visibleKeys, checked)}
+                />
+                {checkedKeys.size > 0
+                  ? `${checkedKeys.size} selected`
+                  : `Select ${filtering ? 'matching' : 'all'} (${visibleKeys.length})`}
+              </label>
+            </div>
+          )}
+          <div className="flex-1 overflow-y-auto">
+            {visibleGroups.length === 0 && (
+              <p className="px-3 py-6 text-xs text-center text-muted-foreground">No routes match the filter</p>
+            )}
+            {visibleGroups.map((group) => {
+              const isExpanded = filtering || expandedPaths.has(group.basePath);
+              const groupHasSelected = group.entries.some(e => routeKey(e) === selectedKey);
+              const groupKeys = group.entries.map(routeKey);
+              const groupChecked = groupKeys.filter((k) => checkedKeys.has(k)).length;
+              return (
+                <div key={group.basePath}>
+                  <div
+                    className={cn(
+                      'flex items-center gap-2 border-b transition-colors',
+                      !readOnly && 'pl-3',
+                      groupHasSelected
+                        ? 'bg-primary/10 text-primary hover:bg-primary/20'
+                        : 'hover:bg-muted/50'
+                    )}
+                  >
+                    {!readOnly && (
+                      <Checkbox
+                        label={`Select all routes under ${group.basePath}`}
+                        checked={groupChecked === groupKeys.length}
+                        indeterminate={groupChecked > 0 && groupChecked < groupKeys.length}
+                        onChange={(checked) => setChecked(groupKeys, checked)}
+                      />
+                    )}
                     <button
-                      key={key}
                       type="button"
                       className={cn(
-                        'w-full flex items-center gap-2 px-4 py-3.5 text-left border-b transition-colors',
-                        isSelected
-                          ? 'bg-primary/15 border-l-[3px] border-l-primary hover:bg-primary/25'
-                          : 'hover:bg-muted/40'
+                        'flex-1 min-w-0 flex items-center gap-2 py-3.5 pr-3 text-sm font-medium text-left',
+                        readOnly && 'pl-3'
                       )}
-                      onClick={() => setSelectedKey(key)}
+                      onClick={() => togglePath(group.basePath)}
                     >
-                      <MethodBadge method={entry.method} />
-                      <span className={cn('font-mono text-xs truncate', isSelected ? 'text-foreground font-medium' : 'text-muted-foreground')}>{entry.path}</span>
+                      {isExpanded ? (
+                        <ChevronDown className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                      ) : (
+                        <ChevronRight className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                      )}
+                      <span className="font-mono text-xs truncate flex-1">{group.basePath}</span>
+                      <Badge variant="secondary" className="text-xs shrink-0">
+                        {group.entries.length}
+                      </Badge>
                     </button>
-                  );
-                })}
-              </div>
-            );
-          })}
+                  </div>
+                  {isExpanded && group.entries.map((entry) => {
+                    const key = routeKey(entry);
+                    const isSelected = !bulkMode && selectedKey === key;
+                    return (
+                      <div
+                        key={key}
+                        className={cn(
+                          'flex items-center gap-2 border-b transition-colors',
+                          !readOnly && 'pl-4',
+                          isSelected
+                            ? 'bg-primary/15 border-l-[3px] border-l-primary hover:bg-primary/25'
+                            : 'hover:bg-muted/40'
+                        )}
+                      >
+                        {!readOnly && (
+                          <Checkbox
+                            label={`Select ${entry.method} ${entry.path}`}
+                            checked={checkedKeys.has(key)}
+                            onChange={(checked) => setChecked([key], checked)}
+                          />
+                        )}
+                        <button
+                          type="button"
+                          className={cn('flex-1 min-w-0 flex items-center gap-2 py-3.5 pr-4 text-left', readOnly && 'pl-4')}
+                          onClick={() => {
+                            setSelectedKey(key);
+                            setCheckedKeys(new Set());
+                          }}
+                        >
+                          <MethodBadge method={entry.method} />
+                          <span className={cn('font-mono text-xs truncate', isSelected ? 'text-foreground font-medium' : 'text-muted-foreground')}>{entry.path}</span>
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
         </div>
 
         {/* Right panel: route detail */}
         <div className="flex-1 overflow-y-auto p-6">
-          {selectedEntry ? (
+          {bulkMode ? (
+            <BulkEditPanel
+              entries={checkedEntries}
+              enforceAuthorization={enforceAuthorization}
+              onApply={applyBulk}
+              onClearSelection={() => setCheckedKeys(new Set())}
+            />
+          ) : selectedEntry ? (
             <RouteDetail
               key={selectedKey!}
               entry={selectedEntry}
               updateRouteInRef={updateRouteInRef}
               readOnly={readOnly}
               enforceAuthorization={enforceAuthorization}
+              authorizationModel={authorizationModel}
             />
           ) : (
             <div className="flex items-center justify-center h-full text-sm text-muted-foreground">
@@ -247,39 +412,15 @@ export const RoutesTable = forwardRef<RoutesTableRef, RoutesTableProps>(
   }
 );
 
-function MethodBadge({ method }: { method: string }) {
-  return (
-    <Badge
-      variant="outline"
-      className={cn(
-        'text-xs shrink-0',
-        method === 'GET' && 'border-green-500/50 text-green-700 dark:text-green-400',
-        method === 'POST' && 'border-blue-500/50 text-blue-700 dark:text-blue-400',
-        method === 'PUT' && 'border-amber-500/50 text-amber-700 dark:text-amber-400',
-        method === 'PATCH' && 'border-amber-500/50 text-amber-700 dark:text-amber-400',
-        method === 'DELETE' && 'border-red-500/50 text-red-700 dark:text-red-400'
-      )}
-    >
-      {method}
-    </Badge>
-  );
-}
-
 interface RouteDetailProps {
   entry: RouteEntry;
   updateRouteInRef: (path: string, method: string, updates: Partial<RouteEntry>) => void;
   readOnly: boolean;
   enforceAuthorization: boolean;
+  authorizationModel: OpenFGAModel | null;
 }
 
-function RouteDetail({ entry, updateRouteInRef, readOnly, enforceAuthorization }: RouteDetailProps) {
-  const [preReqError, setPreReqError] = useState(false);
-  const [postRespError, setPostRespError] = useState(false);
-  const [cacheError, setCacheError] = useState(false);
-
-  const [localPreReq, setLocalPreReq] = useState(entry.pre_request_auth_template);
-  const [localPostResp, setLocalPostResp] = useState(entry.post_response_policy_template);
-  const [localCache, setLocalCache] = useState(entry.cache_rules);
+function RouteDetail({ entry, updateRouteInRef, readOnly, enforceAuthorization, authorizationModel }: RouteDetailProps) {
   const [localAuth, setLocalAuth] = useState(entry.require_authentication);
   const [localAuthzEnabled, setLocalAuthzEnabled] = useState(entry.authorization_enabled);
   const [localPriority, setLocalPriority] = useState<number | undefined>(entry.priority ?? undefined);
@@ -287,24 +428,11 @@ function RouteDetail({ entry, updateRouteInRef, readOnly, enforceAuthorization }
   // Sync local state when entry data changes due to async loads (spec then routes).
   // Safe: entry only changes from data loads, not from updateRouteInRef user edits.
   useEffect(() => {
-    setLocalPreReq(entry.pre_request_auth_template);
-    setLocalPostResp(entry.post_response_policy_template);
-    setLocalCache(entry.cache_rules);
     setLocalAuth(entry.require_authentication);
     setLocalAuthzEnabled(entry.authorization_enabled);
     setLocalPriority(entry.priority ?? undefined);
   }, [entry]);
 
-  const handleJsonBlur = (
-    value: string,
-    field: 'pre_request_auth_template' | 'post_response_policy_template' | 'cache_rules',
-    setError: (v: boolean) => void
-  ) => {
-    const valid = isValidJson(value);
-    setError(!valid);
-    if (valid) updateRouteInRef(entry.path, entry.method, { [field]: value });
-  };
-
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -371,72 +499,61 @@ function RouteDetail({ entry, updateRouteInRef, readOnly, enforceAuthorization }
         </div>
       </div>
 
-      {/* Policy templates side-by-side */}
-      <div className="grid grid-cols-2 gap-4">
-        <div className="space-y-2">
-          <Label className="text-sm font-medium">
-            Check Policy
-            <span className="ml-1.5 font-normal text-muted-foreground text-xs">(blocks request if denied)</span>
-          </Label>
-          {readOnly ? (
+      {/* Policy templates */}
+      {readOnly ? (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Check Policy</Label>
             <pre className="font-mono text-xs whitespace-pre-wrap break-words p-3 rounded border bg-muted/30 min-h-[120px]">
               {entry.pre_request_auth_template || '—'}
             </pre>
-          ) : (
-            <Textarea
-              value={localPreReq}
-              onChange={(e) => setLocalPreReq(e.target.value)}
-              onBlur={(e) => handleJsonBlur(e.target.value, 'pre_request_auth_template', setPreReqError)}
-              className={cn('font-mono text-xs', preReqError && 'border-red-500')}
-              placeholder={'{\n  "user": "user:{{JWT.sub}}",\n  "relation": "viewer",\n  "object": "reservation:{{PATH.id}}"\n}'}
-              rows={6}
-            />
-          )}
-          {preReqError && <p className="text-xs text-red-500">Invalid JSON</p>}
-        </div>
-
-        <div className="space-y-2">
-          <Label className="text-sm font-medium">
-            Write Policy
-            <span className="ml-1.5 font-normal text-muted-foreground text-xs">(runs after 2xx response)</span>
-          </Label>
-          {readOnly ? (
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Write Policy</Label>
             <pre className="font-mono text-xs whitespace-pre-wrap break-words p-3 rounded border bg-muted/30 min-h-[120px]">
               {entry.post_response_policy_template || '—'}
             </pre>
-          ) : (
-            <Textarea
-              value={localPostResp}
-              onChange={(e) => setLocalPostResp(e.target.value)}
-              onBlur={(e) => handleJsonBlur(e.target.value, 'post_response_policy_template', setPostRespError)}
-              className={cn('font-mono text-xs', postRespError && 'border-red-500')}
-              placeholder={'{\n  "user": "user:{{JWT.sub}}",\n  "relation": "owner",\n  "object": "reservation:{{RESPONSE.id}}"\n}'}
-              rows={6}
-            />
-          )}
-          {postRespError && <p className="text-xs text-red-500">Invalid JSON</p>}
+          </div>
         </div>
-      </div>
+      ) : (
+        <div className="space-y-6">
+          <PolicyTemplateField
+            label="Check Policy"
+            hint="(blocks request if denied)"
+            value={entry.pre_request_auth_template}
+            onChange={(value) => updateRouteInRef(entry.path, entry.method, { pre_request_auth_template: value })}
+            placeholder={'{\n  "user": "user:{{JWT.sub}}",\n  "relation": "viewer",\n  "object": "reservation:{{PATH.id}}"\n}'}
+            routePath={entry.path}
+            kind="check"
+            model={authorizationModel}
+          />
+          <PolicyTemplateField
+            label="Write Policy"
+            hint="(runs after 2xx response)"
+            value={entry.post_response_policy_template}
+            onChange={(value) => updateRouteInRef(entry.path, entry.method, { post_response_policy_template: value })}
+            placeholder={'{\n  "user": "user:{{JWT.sub}}",\n  "relation": "owner",\n  "object": "reservation:{{RESPONSE.id}}"\n}'}
+            routePath={entry.path}
+            kind="write"
+            model={authorizationModel}
+          />
+        </div>
+      )}
 
       {/* Cache rules */}
-      <div className="space-y-2">
-        <Label className="text-sm font-medium">Cache Rules</Label>
-        {readOnly ? (
+      {readOnly ? (
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Cache Rules</Label>
           <pre className="font-mono text-xs whitespace-pre-wrap break-words p-3 rounded border bg-muted/30 min-h-[60px]">
             {entry.cache_rules || '—'}
           </pre>
-        ) : (
-          <Textarea
-            value={localCache}
-            onChange={(e) => setLocalCache(e.target.value)}
-            onBlur={(e) => handleJsonBlur(e.target.value, 'cache_rules', setCacheError)}
-            className={cn('font-mono text-xs', cacheError && 'border-red-500')}
-            placeholder=""
-            rows={3}
-          />
-        )}
-        {cacheError && <p className="text-xs text-red-500">Invalid JSON</p>}
-      </div>
+        </div>
+      ) : (
+        <CacheRulesEditor
+          value={entry.cache_rules}
+          onChange={(value) => updateRouteInRef(entry.path, entry.method, { cache_rules: value })}
+        />
+      )}
     </div>
   );
 }
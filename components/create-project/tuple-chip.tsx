@@ -0,0 +1,27 @@
+import { parseTupleTemplate, type PolicyTuple } from '@/lib/policy-template';
+
+export function TupleParts({ tuple }: { tuple: PolicyTuple }) {
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-xs font-mono bg-muted rounded-md px-2 py-1.5">
+      <span className="text-blue-600 dark:text-blue-400">{tuple.user}</span>
+      <span className="text-muted-foreground mx-1">→</span>
+      <span className="text-amber-600 dark:text-amber-400">{tuple.relation}</span>
+      <span className="text-muted-foreground mx-1">→</span>
+      <span className="text-green-600 dark:text-green-400">{tuple.object}</span>
+    </div>
+  );
+}
+
+export function TupleChip({ template, label }: { template: string; label: string }) {
+  const tuple = parseTupleTemplate(template);
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{label}</p>
+      {tuple ? (
+        <TupleParts tuple={tuple} />
+      ) : (
+        <p className="text-xs font-mono bg-muted rounded-md px-2 py-1.5 break-all">{template}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,423 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  AlertCircle, ChevronLeft, ChevronRight, Loader2, Plus, RefreshCw, Search, Trash2, Upload, X,
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  importTuples,
+  listTuples,
+  TupleValidationError,
+  writeTuples,
+  type StoredTuple,
+  type TupleFilter,
+  type TupleKey,
+} from '@/lib/api/tuples';
+import { tupleProblem } from '@/lib/openfga-evaluator';
+import type { OpenFGAModel } from '@/lib/openfga';
+import { parseTupleImport } from '@/lib/tuple-import';
+import type { Project } from '@/types/project';
+import { useToast } from '@/hooks/use-toast';
+
+const PAGE_SIZE = 50;
+const EMPTY_TUPLE: TupleKey = { user: '', relation: '', object: '' };
+
+const tupleKey = (t: TupleKey) => `${t.user} ${t.relation} ${t.object}`;
+
+// ─── Add form ────────────────────────────────────────────────────────────────
+
+function AddTupleForm({
+  model,
+  onWrite,
+}: {
+  model: OpenFGAModel | null;
+  onWrite: (tuple: TupleKey) => Promise<boolean>;
+}) {
+  const [tuple, setTuple] = useState<TupleKey>(EMPTY_TUPLE);
+  const [writing, setWriting] = useState(false);
+  const complete = !!(tuple.user.trim() && tuple.relation.trim() && tuple.object.trim());
+  const trimmed = { user: tuple.user.trim(), relation: tuple.relation.trim(), object: tuple.object.trim() };
+  const problem = complete && model ? tupleProblem(model, trimmed) : null;
+
+  const handleAdd = async () => {
+    setWriting(true);
+    if (await onWrite(trimmed)) setTuple(EMPTY_TUPLE);
+    setWriting(false);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+        <Input
+          value={tuple.user}
+          onChange={(e) => setTuple({ ...tuple, user: e.target.value })}
+          placeholder="user:anne"
+          className="h-8 font-mono text-xs"
+        />
+        <Input
+          value={tuple.relation}
+          onChange={(e) => setTuple({ ...tuple, relation: e.target.value })}
+          placeholder="viewer"
+          className="h-8 font-mono text-xs"
+        />
+        <Input
+          value={tuple.object}
+          onChange={(e) => setTuple({ ...tuple, object: e.target.value })}
+          placeholder="document:1"
+          className="h-8 font-mono text-xs"
+        />
+        <Button size="sm" className="h-8" onClick={handleAdd} disabled={!complete || !!problem || writing}>
+          {writing ? <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" /> : <Plus className="w-3.5 h-3.5 mr-1.5" />}
+          Add
+        </Button>
+      </div>
+      {problem && <p className="text-xs text-red-500">{problem}</p>}
+    </div>
+  );
+}
+
+// ─── Bulk import ─────────────────────────────────────────────────────────────
+
+function ImportPanel({
+  project,
+  tenantId,
+  model,
+  onClose,
+  onImported,
+}: {
+  project: Project;
+  tenantId: string;
+  model: OpenFGAModel | null;
+  onClose: () => void;
+  onImported: () => void;
+}) {
+  const { toast } = useToast();
+  const [text, setText] = useState('');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [serverIssues, setServerIssues] = useState<string[]>([]);
+
+  const parsed = useMemo(() => (text.trim() ? parseTupleImport(text) : null), [text]);
+  const problems = useMemo(
+    () =>
+      parsed && model
+        ? parsed.tuples.flatMap((t) => {
+            const problem = tupleProblem(model, t);
+            return problem ? [`${tupleKey(t)}: ${problem}`] : [];
+          })
+        : [],
+    [parsed, model]
+  );
+  const canImport = !!parsed && parsed.tuples.length > 0 && parsed.errors.length === 0 && problems.length === 0;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+    setServerIssues([]);
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+    setProgress(0);
+    setServerIssues([]);
+    try {
+      await importTuples(project.project_id, project.api_version, tenantId, parsed.tuples, setProgress);
+      toast({ title: 'Tuples written', description: `${parsed.tuples.length} tuples imported.` });
+      onImported();
+      onClose();
+    } catch (e) {
+      if (e instanceof TupleValidationError) {
+        setServerIssues(e.issues.map((issue) => `${tupleKey(parsed.tuples[issue.index])}: ${issue.message}`));
+      }
+      toast({ title: 'Import failed', description: e instanceof Error ? e.message : 'Unknown error', variant: 'destructive' });
+      onImported();
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-sm">Import tuples</Label>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Paste CSV (<code>user,relation,object</code> per line, header optional) or a JSON array of{' '}
+        <code>{'{ "user", "relation", "object" }'}</code>, or choose a file.
+      </p>
+      <Input
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        onChange={(e) => void handleFile(e.target.files?.[0])}
+        className="h-9 text-xs"
+      />
+      <Textarea
+        value={text}
+        onChange={(e) => { setText(e.target.value); setServerIssues([]); }}
+        placeholder={'user,relation,object\nuser:anne,owner,document:1'}
+        className="font-mono text-xs min-h-32"
+        spellCheck={false}
+      />
+      {parsed && (
+        <p className="text-xs text-muted-foreground">
+          {parsed.tuples.length} {parsed.tuples.length === 1 ? 'tuple' : 'tuples'} read as {parsed.format.toUpperCase()}
+        </p>
+      )}
+      {parsed?.errors.map((e) => (
+        <p key={e.line} className="text-xs text-red-500">
+          {parsed.format === 'json' ? 'Item' : 'Line'} {e.line}: {e.message}
+        </p>
+      ))}
+      {[...problems, ...serverIssues].map((p, i) => (
+        <p key={i} className="text-xs text-red-500 font-mono">{p}</p>
+      ))}
+      <div className="flex items-center gap-2">
+        <Button size="sm" onClick={handleImport} disabled={!canImport || progress !== null}>
+          {progress !== null ? <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" /> : <Upload className="w-3.5 h-3.5 mr-1.5" />}
+          {progress !== null && parsed
+            ? `Writing ${progress}/${parsed.tuples.length}...`
+            : `Write ${parsed?.tuples.length ?? 0} tuples`}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ─── Card ────────────────────────────────────────────────────────────────────
+
+export function TuplesCard({
+  project,
+  tenantId,
+  model,
+}: {
+  project: Project;
+  tenantId: string;
+  /** Tenant's model for validation: undefined while loading, null when none is configured */
+  model: OpenFGAModel | null | undefined;
+}) {
+  const { toast } = useToast();
+  const [filterDraft, setFilterDraft] = useState<TupleFilter>({});
+  const [filter, setFilter] = useState<TupleFilter>({});
+  // Continuation tokens of the pages visited so far; the last one is the current page
+  const [pageTokens, setPageTokens] = useState<(string | null)[]>([null]);
+  const [page, setPage] = useState<StoredTuple[]>([]);
+  const [nextToken, setNextToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<string | null>(null);
+
+  const currentToken = pageTokens[pageTokens.length - 1];
+
+  const loadPage = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await listTuples(project.project_id, project.api_version, tenantId, {
+        ...filter,
+        pageSize: PAGE_SIZE,
+        continuationToken: currentToken,
+      });
+      setPage(result.tuples);
+      setNextToken(result.continuation_token);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load tuples');
+    } finally {
+      setLoading(false);
+    }
+  }, [project.project_id, project.api_version, tenantId, filter, currentToken]);
+
+  useEffect(() => { void loadPage(); }, [loadPage]);
+
+  const applyFilter = () => {
+    setFilter({
+      user: filterDraft.user?.trim() || undefined,
+      relation: filterDraft.relation?.trim() || undefined,
+      object: filterDraft.object?.trim() || undefined,
+    });
+    setPageTokens([null]);
+  };
+
+  const clearFilter = () => {
+    setFilterDraft({});
+    setFilter({});
+    setPageTokens([null]);
+  };
+
+  const write = async (request: { writes?: TupleKey[]; deletes?: TupleKey[] }, success: string): Promise<boolean> => {
+    try {
+      await writeTuples(project.project_id, project.api_version, tenantId, request);
+      toast({ title: success });
+      await loadPage();
+      return true;
+    } catch (e) {
+      const description = e instanceof TupleValidationError
+        ? e.issues.map((issue) => issue.message).join('; ')
+        : e instanceof Error ? e.message : 'Unknown error';
+      toast({ title: 'Write failed', description, variant: 'destructive' });
+      return false;
+    }
+  };
+
+  const handleDelete = async (tuple: StoredTuple) => {
+    const key = tupleKey(tuple);
+    if (pendingDelete !== key) {
+      setPendingDelete(key);
+      return;
+    }
+    setPendingDelete(null);
+    await write({ deletes: [{ user: tuple.user, relation: tuple.relation, object: tuple.object }] }, 'Tuple deleted');
+  };
+
+  const hasFilter = !!(filter.user || filter.relation || filter.object);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-base">Relationship Tuples</CardTitle>
+            <CardDescription>
+              The relationships route checks are evaluated against, for the <code>{tenantId}</code> tenant.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setImporting((v) => !v)}>
+              <Upload className="w-3.5 h-3.5 mr-1.5" />
+              Import
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => void loadPage()} disabled={loading}>
+              <RefreshCw className={`w-3.5 h-3.5 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {model === null && (
+          <div className="flex items-center gap-2 text-sm text-orange-600 dark:text-orange-400">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            No authorization model is configured; tuples can only be written once one is saved.
+          </div>
+        )}
+
+        {importing && (
+          <ImportPanel
+            project={project}
+            tenantId={tenantId}
+            model={model ?? null}
+            onClose={() => setImporting(false)}
+            onImported={() => void loadPage()}
+          />
+        )}
+
+        <AddTupleForm model={model ?? null} onWrite={(tuple) => write({ writes: [tuple] }, 'Tuple written')} />
+
+        <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+          {(['user', 'relation', 'object'] as const).map((field) => (
+            <Input
+              key={field}
+              value={filterDraft[field] ?? ''}
+              onChange={(e) => setFilterDraft({ ...filterDraft, [field]: e.target.value })}
+              onKeyDown={(e) => { if (e.key === 'Enter') applyFilter(); }}
+              placeholder={field === 'object' ? 'Filter object (document: or document:1)' : `Filter ${field}`}
+              className="h-8 text-xs"
+            />
+          ))}
+          <div className="flex items-center gap-1">
+            <Button size="sm" variant="secondary" className="h-8" onClick={applyFilter}>
+              <Search className="w-3.5 h-3.5" />
+            </Button>
+            {hasFilter && (
+              <Button size="sm" variant="ghost" className="h-8" onClick={clearFilter}>
+                <X className="w-3.5 h-3.5" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="w-4 h-4" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+        {loading && page.length === 0 && (
+          <div className="flex items-center gap-2 text-muted-foreground py-4">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <span className="text-sm">Loading tuples...</span>
+          </div>
+        )}
+        {!loading && !error && page.length === 0 && (
+          <p className="text-sm text-muted-foreground py-2">
+            {hasFilter ? 'No tuples match the filter.' : 'No tuples written yet.'}
+          </p>
+        )}
+        {page.length > 0 && (
+          <div className="border rounded-md divide-y">
+            {page.map((tuple) => {
+              const key = tupleKey(tuple);
+              const problem = model ? tupleProblem(model, tuple) : null;
+              return (
+                <div key={key} className="flex items-center gap-3 px-3 py-1.5 text-xs">
+                  <span className="font-mono flex-1 min-w-0 truncate">{tuple.user}</span>
+                  <span className="font-mono w-32 truncate text-muted-foreground">{tuple.relation}</span>
+                  <span className="font-mono flex-1 min-w-0 truncate">{tuple.object}</span>
+                  {problem && (
+                    <span className="text-orange-600 dark:text-orange-400 shrink-0" title={problem}>
+                      Not in model
+                    </span>
+                  )}
+                  {tuple.timestamp && (
+                    <span className="text-muted-foreground shrink-0">{new Date(tuple.timestamp).toLocaleDateString()}</span>
+                  )}
+                  <Button
+                    variant={pendingDelete === key ? 'destructive' : 'ghost'}
+                    size="sm"
+                    className="h-6 px-2"
+                    onClick={() => void handleDelete(tuple)}
+                    onBlur={() => setPendingDelete((k) => (k === key ? null : k))}
+                  >
+                    {pendingDelete === key ? 'Delete?' : <Trash2 className="w-3.5 h-3.5" />}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {(pageTokens.length > 1 || nextToken) && (
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">Page {pageTokens.length}</span>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7"
+                disabled={pageTokens.length === 1 || loading}
+                onClick={() => setPageTokens((tokens) => tokens.slice(0, -1))}
+              >
+                <ChevronLeft className="w-3.5 h-3.5" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7"
+                disabled={!nextToken || loading}
+                onClick={() => setPageTokens((tokens) => [...tokens, nextToken])}
+              >
+                <ChevronRight className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
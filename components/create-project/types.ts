@@ -31,6 +31,8 @@ export interface RouteEntry {
   post_response_policy_template: string;
   cache_rules: string;
   priority?: number;
+  /** Server version of the stored entry; sent as If-Match on save. Absent for routes never saved. */
+  updated_at?: string;
 }
 
 export interface ProjectConfig {
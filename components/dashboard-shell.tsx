@@ -5,6 +5,7 @@ import { usePathname, useSearchParams } from 'next/navigation';
 import { Zap } from 'lucide-react';
 import { UnifiedNav } from '@/components/unified-nav';
 import { UserMenu } from '@/components/user-menu';
+import { UpstreamStatusBanner } from '@/components/upstream-status-banner';
 import type { ProjectSelectorValue } from '@/components/project-selector';
 import { cn } from '@/lib/utils';
 
@@ -185,6 +186,7 @@ export function DashboardShell({
         )}
         </div>
         )}
+        <UpstreamStatusBanner />
       </div>
 
       {children}
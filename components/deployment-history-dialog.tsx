@@ -0,0 +1,274 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { DeploymentStatus, formatTime } from '@/components/deployment-status';
+import { DeploymentLogs } from '@/components/deployment-logs';
+import { AlertCircle, ChevronDown, ChevronRight, Loader2, RefreshCw, RotateCcw } from 'lucide-react';
+import { listDeployments, rollbackDeployment } from '@/lib/api/projects';
+import { useToast } from '@/hooks/use-toast';
+import { useDashboardCacheStore } from '@/store/dashboard-cache';
+import type { DeploymentRecord, Project } from '@/types/project';
+
+interface DeploymentHistoryDialogProps {
+  project: Project;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function ageSecondsSince(iso: string): number {
+  const ts = Date.parse(iso);
+  if (Number.isNaN(ts)) return 0;
+  return Math.max(0, Math.floor((Date.now() - ts) / 1000));
+}
+
+function deployerLabel(deployer: DeploymentRecord['deployer'] | undefined): string {
+  return deployer?.name || deployer?.github_username || deployer?.email || 'Unknown';
+}
+
+function DeploymentRow({
+  project,
+  deployment,
+  isCurrent,
+  isRollingBack,
+  disabled,
+  onRollback,
+}: {
+  project: Project;
+  deployment: DeploymentRecord;
+  isCurrent: boolean;
+  isRollingBack: boolean;
+  disabled: boolean;
+  onRollback: (deployment: DeploymentRecord) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const [showLogs, setShowLogs] = useState(false);
+  const hasSnapshot = !!deployment.config_snapshot;
+  // Only a deployment that actually went live has a snapshot worth redeploying
+  const canRollback = !isCurrent && hasSnapshot && (deployment.status === 'live' || deployment.status === 'rolled_back');
+
+  return (
+    <div className="border rounded-lg">
+      <div className="flex items-start justify-between gap-3 px-3 py-2">
+        <div className="flex items-start gap-2 min-w-0">
+          {hasSnapshot ? (
+            <button
+              type="button"
+              onClick={() => setExpanded((e) => !e)}
+              aria-label={expanded ? 'Hide config snapshot' : 'Show config snapshot'}
+              className="mt-1 shrink-0 text-muted-foreground hover:text-foreground"
+            >
+              {expanded ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+            </button>
+          ) : (
+            <span className="w-3.5 h-3.5 shrink-0" />
+          )}
+          <div className="min-w-0 space-y-1">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="font-mono text-xs truncate">{deployment.deployment_id}</span>
+              {isCurrent && <Badge variant="secondary" className="text-xs">Current</Badge>}
+              {deployment.rolled_back_from && (
+                <Badge variant="outline" className="text-xs">
+                  Rollback of {deployment.rolled_back_from}
+                </Badge>
+              )}
+            </div>
+            <DeploymentStatus
+              status={deployment.status}
+              ageSeconds={ageSecondsSince(deployment.created_at)}
+              durationSeconds={deployment.duration_seconds}
+              error={deployment.error}
+              onShowLogs={() => setShowLogs((v) => !v)}
+            />
+            <p className="text-xs text-muted-foreground">
+              {deployerLabel(deployment.deployer)} · {new Date(deployment.created_at).toLocaleString()}
+              {deployment.duration_seconds !== undefined && ` · took ${formatTime(deployment.duration_seconds)}`}
+            </p>
+          </div>
+        </div>
+        {canRollback && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onRollback(deployment)}
+            disabled={disabled}
+            className="shrink-0"
+          >
+            {isRollingBack ? (
+              <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <RotateCcw className="mr-2 h-3.5 w-3.5" />
+            )}
+            Roll back
+          </Button>
+        )}
+      </div>
+      {showLogs && (
+        <div className="px-4 py-3 border-t">
+          <DeploymentLogs
+            projectId={project.project_id}
+            apiVersion={project.api_version}
+            deploymentId={deployment.deployment_id}
+          />
+        </div>
+      )}
+      {expanded && hasSnapshot && (
+        <div className="px-4 pb-3 border-t">
+          <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide pt-2 pb-1">
+            Config snapshot
+          </p>
+          <pre className="text-xs bg-muted rounded-md p-3 overflow-x-auto whitespace-pre-wrap max-h-64">
+            {JSON.stringify(deployment.config_snapshot, null, 2)}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function DeploymentHistoryDialog({ project, open, onOpenChange }: DeploymentHistoryDialogProps) {
+  const { toast } = useToast();
+  const invalidateAndRefetch = useDashboardCacheStore((s) => s.invalidateAndRefetch);
+  const [deployments, setDeployments] = useState<DeploymentRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [rollbackTarget, setRollbackTarget] = useState<DeploymentRecord | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await listDeployments(project.project_id, project.api_version);
+      setDeployments(data.deployments ?? []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load deployment history');
+    } finally {
+      setLoading(false);
+    }
+  }, [project.project_id, project.api_version]);
+
+  useEffect(() => {
+    if (open) {
+      void loadHistory();
+    } else {
+      setRollbackTarget(null);
+    }
+  }, [open, loadHistory]);
+
+  const currentDeploymentId = project.deployment?.deployment_id ?? deployments[0]?.deployment_id;
+
+  const handleConfirmRollback = async () => {
+    if (!rollbackTarget) return;
+    setRollingBack(true);
+    try {
+      await rollbackDeployment(project.project_id, project.api_version, rollbackTarget.deployment_id);
+      toast({
+        title: 'Rollback started',
+        description: `Redeploying ${project.display_name} from ${rollbackTarget.deployment_id}.`,
+      });
+      setRollbackTarget(null);
+      await loadHistory();
+      await invalidateAndRefetch();
+    } catch (e) {
+      toast({
+        title: 'Rollback failed',
+        description: e instanceof Error ? e.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!rollingBack) onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Deployment history</DialogTitle>
+          <DialogDescription>
+            Every deployment of <span className="font-semibold text-foreground">{project.display_name}</span>{' '}
+            v{project.api_version}. Roll back to redeploy a previous config snapshot.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-2 py-2">
+          {loading && (
+            <div className="flex items-center gap-2 text-muted-foreground py-4">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              <span className="text-sm">Loading deployments...</span>
+            </div>
+          )}
+          {error && !loading && (
+            <div className="flex items-center gap-2 text-destructive py-4">
+              <AlertCircle className="w-4 h-4" />
+              <span className="text-sm">{error}</span>
+            </div>
+          )}
+          {!loading && !error && deployments.length === 0 && (
+            <p className="text-sm text-muted-foreground py-2">No deployments recorded yet.</p>
+          )}
+          {!loading && !error && deployments.map((deployment) => (
+            <DeploymentRow
+              key={deployment.deployment_id}
+              project={project}
+              deployment={deployment}
+              isCurrent={deployment.deployment_id === currentDeploymentId}
+              isRollingBack={rollingBack && rollbackTarget?.deployment_id === deployment.deployment_id}
+              disabled={rollingBack}
+              onRollback={setRollbackTarget}
+            />
+          ))}
+        </div>
+
+        {rollbackTarget && (
+          <div className="flex items-start gap-2 text-sm text-orange-700 dark:text-orange-400 bg-orange-50 dark:bg-orange-950/30 border border-orange-200 dark:border-orange-900 rounded-lg p-3">
+            <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+            <span>
+              Roll back to <strong className="font-mono">{rollbackTarget.deployment_id}</strong>? Its config
+              snapshot will be redeployed and replace the current live config.
+            </span>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {rollbackTarget ? (
+            <>
+              <Button variant="outline" onClick={() => setRollbackTarget(null)} disabled={rollingBack}>
+                Cancel
+              </Button>
+              <Button onClick={handleConfirmRollback} disabled={rollingBack} className="min-w-[120px]">
+                {rollingBack ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Rolling back…
+                  </>
+                ) : (
+                  'Confirm rollback'
+                )}
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => void loadHistory()} disabled={loading}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
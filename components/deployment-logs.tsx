@@ -0,0 +1,264 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, CheckCircle2, Circle, Download, Loader2, RefreshCw, XCircle } from 'lucide-react';
+import { getDeploymentLogsUrl } from '@/lib/api/projects';
+import { cn } from '@/lib/utils';
+import type {
+  DeploymentLogDoneEvent,
+  DeploymentLogLine,
+  DeploymentStep,
+  DeploymentStepEvent,
+} from '@/types/project';
+
+const STEPS: { id: DeploymentStep; label: string }[] = [
+  { id: 'spec_fetch', label: 'Spec fetch' },
+  { id: 'validation', label: 'Validation' },
+  { id: 'kv_write', label: 'KV write' },
+  { id: 'worker_publish', label: 'Worker publish' },
+];
+
+type StepState = 'pending' | 'started' | 'succeeded' | 'failed';
+type ConnectionState = 'connecting' | 'streaming' | 'done' | 'error';
+
+const INITIAL_STEPS: Record<DeploymentStep, StepState> = {
+  spec_fetch: 'pending',
+  validation: 'pending',
+  kv_write: 'pending',
+  worker_publish: 'pending',
+};
+
+interface DeploymentLogsProps {
+  projectId: string;
+  apiVersion: string;
+  deploymentId: string;
+  className?: string;
+}
+
+function parseEventData<T>(event: MessageEvent): T | null {
+  try {
+    return JSON.parse(event.data as string) as T;
+  } catch {
+    return null;
+  }
+}
+
+function StepMarker({ label, state }: { label: string; state: StepState }) {
+  const Icon =
+    state === 'succeeded' ? CheckCircle2 : state === 'failed' ? XCircle : state === 'started' ? Loader2 : Circle;
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-1.5 text-xs',
+        state === 'succeeded' && 'text-green-600',
+        state === 'failed' && 'text-red-600',
+        state === 'started' && 'text-amber-600',
+        state === 'pending' && 'text-muted-foreground'
+      )}
+    >
+      <Icon className={cn('h-3.5 w-3.5', state === 'started' && 'animate-spin')} />
+      <span>{label}</span>
+    </div>
+  );
+}
+
+/**
+ * Live tail of a deployment's build and deploy log.
+ * The log stays on screen after the stream ends so failed deploys can be inspected.
+ */
+export function DeploymentLogs({ projectId, apiVersion, deploymentId, className }: DeploymentLogsProps) {
+  const [lines, setLines] = useState<DeploymentLogLine[]>([]);
+  const [steps, setSteps] = useState<Record<DeploymentStep, StepState>>(INITIAL_STEPS);
+  const [connection, setConnection] = useState<ConnectionState>('connecting');
+  const [result, setResult] = useState<DeploymentLogDoneEvent | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const followRef = useRef(true);
+
+  useEffect(() => {
+    setLines([]);
+    setSteps(INITIAL_STEPS);
+    setResult(null);
+    setConnection('connecting');
+    followRef.current = true;
+
+    const source = new EventSource(getDeploymentLogsUrl(projectId, apiVersion, deploymentId), {
+      withCredentials: true,
+    });
+    let finished = false;
+
+    source.onopen = () => setConnection('streaming');
+
+    source.addEventListener('log', (event) => {
+      const line = parseEventData<DeploymentLogLine>(event as MessageEvent);
+      if (!line) return;
+      setLines((prev) => [...prev, line]);
+      // Older pipelines only tag log lines with a step; treat the first line as the step start
+      if (line.step) {
+        const step = line.step;
+        setSteps((prev) => (prev[step] === 'pending' ? { ...prev, [step]: 'started' } : prev));
+      }
+    });
+
+    source.addEventListener('step', (event) => {
+      const data = parseEventData<DeploymentStepEvent>(event as MessageEvent);
+      if (!data) return;
+      setSteps((prev) => ({ ...prev, [data.step]: data.state }));
+    });
+
+    source.addEventListener('done', (event) => {
+      finished = true;
+      const data = parseEventData<DeploymentLogDoneEvent>(event as MessageEvent);
+      setResult(data);
+      setConnection('done');
+      source.close();
+    });
+
+    // EventSource reconnects (and replays the log) on its own; stop it instead so lines are not duplicated
+    source.onerror = () => {
+      if (finished) return;
+      setConnection('error');
+      source.close();
+    };
+
+    return () => {
+      source.close();
+    };
+  }, [projectId, apiVersion, deploymentId, attempt]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el && followRef.current) {
+      el.scrollTop = el.scrollHeight;
+    }
+  }, [lines]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    followRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < 24;
+  };
+
+  const handleDownload = useCallback(() => {
+    const text = lines
+      .map((l) => `${l.timestamp} [${l.level.toUpperCase()}]${l.step ? ` (${l.step})` : ''} ${l.message}`)
+      .join('\n');
+    const blob = new Blob([text], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${projectId}-${apiVersion}-${deploymentId}.log`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }, [lines, projectId, apiVersion, deploymentId]);
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div className="flex items-center gap-4 flex-wrap">
+          {STEPS.map((step) => (
+            <StepMarker key={step.id} label={step.label} state={steps[step.id]} />
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          {connection === 'error' && (
+            <Button variant="outline" size="sm" onClick={() => setAttempt((n) => n + 1)}>
+              <RefreshCw className="mr-2 h-3.5 w-3.5" />
+              Reconnect
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={handleDownload} disabled={lines.length === 0}>
+            <Download className="mr-2 h-3.5 w-3.5" />
+            Download
+          </Button>
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={handleScroll}
+        className="h-72 overflow-y-auto rounded-md bg-muted p-3 font-mono text-xs"
+      >
+        {lines.length === 0 && connection === 'connecting' && (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            Connecting to log stream...
+          </div>
+        )}
+        {lines.length === 0 && connection === 'streaming' && (
+          <p className="text-muted-foreground">Waiting for output...</p>
+        )}
+        {lines.map((line, i) => (
+          <div
+            key={i}
+            className={cn(
+              'whitespace-pre-wrap break-all',
+              line.level === 'error' && 'text-red-600',
+              line.level === 'warn' && 'text-amber-600'
+            )}
+          >
+            <span className="text-muted-foreground">{new Date(line.timestamp).toLocaleTimeString()} </span>
+            {line.message}
+          </div>
+        ))}
+      </div>
+
+      {connection === 'error' && (
+        <div className="flex items-center gap-2 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4" />
+          Lost connection to the log stream.
+        </div>
+      )}
+      {connection === 'done' && result?.status === 'failed' && (
+        <div className="flex items-center gap-2 text-sm text-red-600">
+          <XCircle className="h-4 w-4" />
+          Deployment failed{result.error ? `: ${result.error}` : ''}
+        </div>
+      )}
+      {connection === 'done' && result?.status === 'live' && (
+        <div className="flex items-center gap-2 text-sm text-green-600">
+          <CheckCircle2 className="h-4 w-4" />
+          Deployment is live.
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface DeploymentLogsDialogProps {
+  projectId: string;
+  apiVersion: string;
+  deploymentId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function DeploymentLogsDialog({
+  projectId,
+  apiVersion,
+  deploymentId,
+  open,
+  onOpenChange,
+}: DeploymentLogsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Deployment logs</DialogTitle>
+          <DialogDescription className="font-mono text-xs">{deploymentId}</DialogDescription>
+        </DialogHeader>
+        {open && (
+          <DeploymentLogs projectId={projectId} apiVersion={apiVersion} deploymentId={deploymentId} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
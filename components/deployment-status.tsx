@@ -1,4 +1,4 @@
-import { Circle, Loader2, CheckCircle2, XCircle, AlertCircle } from 'lucide-react';
+import { Circle, Loader2, CheckCircle2, XCircle, AlertCircle, History, ScrollText } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface DeploymentStatusProps {
@@ -7,9 +7,13 @@ interface DeploymentStatusProps {
   durationSeconds?: number;
   error?: string;
   className?: string;
+  /** When provided, renders a "History" link that opens the deployment history. */
+  onShowHistory?: () => void;
+  /** When provided, renders a "Logs" link that opens the deployment log stream. */
+  onShowLogs?: () => void;
 }
 
-function formatTime(seconds: number): string {
+export function formatTime(seconds: number): string {
   if (seconds < 60) {
     return `${seconds}s`;
   } else if (seconds < 3600) {
@@ -30,6 +34,8 @@ export function DeploymentStatus({
   durationSeconds,
   error,
   className,
+  onShowHistory,
+  onShowLogs,
 }: DeploymentStatusProps) {
   const getStatusConfig = () => {
     switch (status) {
@@ -121,7 +127,41 @@ export function DeploymentStatus({
         {status === 'failed' && error && (
           <span className="block text-red-600">Error: {error}</span>
         )}
+        {status === 'rolled_back' && (
+          <span>{formatTime(ageSeconds)} ago</span>
+        )}
       </div>
+
+      {(onShowLogs || onShowHistory) && (
+        <div className="ml-auto flex items-center gap-3">
+          {onShowLogs && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onShowLogs();
+              }}
+              className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+            >
+              <ScrollText className="h-3 w-3" />
+              Logs
+            </button>
+          )}
+          {onShowHistory && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onShowHistory();
+              }}
+              className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+            >
+              <History className="h-3 w-3" />
+              History
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -7,7 +7,9 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { DeploymentStatus } from '@/components/deployment-status';
-import { ExternalLink, Settings, Trash2, Github, Globe, Loader2, ChevronDown, LogIn } from 'lucide-react';
+import { DeploymentHistoryDialog } from '@/components/deployment-history-dialog';
+import { DeploymentLogsDialog } from '@/components/deployment-logs';
+import { ExternalLink, Settings, Trash2, Github, Globe, Loader2, ChevronDown, LogIn, History } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -89,6 +91,8 @@ export function ProjectCard({ project, onUpdateConfig, onDelete }: ProjectCardPr
   const fetchProvidersForTenant = useDashboardCacheStore((s) => s.fetchProvidersForTenant);
   const providersByConfigClient = useDashboardCacheStore((s) => s.providersByConfigClient);
   const [appLoginUrls, setAppLoginUrls] = useState<{ type: string; url: string }[]>([]);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [logsOpen, setLogsOpen] = useState(false);
 
   // When this project has an app client with an external callback URL, build one app login URL per provider (with PKCE)
   useEffect(() => {
@@ -164,260 +168,278 @@ export function ProjectCard({ project, onUpdateConfig, onDelete }: ProjectCardPr
   };
 
   return (
-    <Card
-      className={cn('hover:shadow-lg transition-shadow', onUpdateConfig && 'cursor-pointer')}
-      onClick={onUpdateConfig ? handleCardClick : undefined}
-    >
-      <CardHeader>
-        <div className="flex items-start justify-between">
-          <div className="flex-1">
-            <div className="flex items-center gap-2 mb-1">
-              <CardTitle className="text-xl">{project.display_name}</CardTitle>
-              <Badge variant="secondary" className="text-xs">
-                v{project.api_version}
-              </Badge>
+    <>
+      <Card
+        className={cn('hover:shadow-lg transition-shadow', onUpdateConfig && 'cursor-pointer')}
+        onClick={onUpdateConfig ? handleCardClick : undefined}
+      >
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div className="flex-1">
+              <div className="flex items-center gap-2 mb-1">
+                <CardTitle className="text-xl">{project.display_name}</CardTitle>
+                <Badge variant="secondary" className="text-xs">
+                  v{project.api_version}
+                </Badge>
+              </div>
+              <CardDescription className="font-mono text-xs">
+                {project.project_id}-api.apiblaze.com
+              </CardDescription>
             </div>
-            <CardDescription className="font-mono text-xs">
-              {project.project_id}-api.apiblaze.com
-            </CardDescription>
-          </div>
 
-          <div onClick={(e) => e.stopPropagation()} className="relative">
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={(e) => e.stopPropagation()}
-                >
-                  <MoreVertical className="h-4 w-4" />
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
-                {onUpdateConfig && (
-                  <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onUpdateConfig(project); }}>
-                    <Settings className="mr-2 h-4 w-4" />
-                    Update Config
-                  </DropdownMenuItem>
-                )}
-                <DropdownMenuItem onClick={(e) => { e.stopPropagation(); handleOpenPortal(); }}>
-                  <ExternalLink className="mr-2 h-4 w-4" />
-                  Open Portal
-                </DropdownMenuItem>
-                <DropdownMenuSeparator />
-                {onDelete && (
-                  <DropdownMenuItem
-                    onClick={(e) => { e.stopPropagation(); onDelete(project); }}
-                    className="text-red-600 focus:text-red-600"
+            <div onClick={(e) => e.stopPropagation()} className="relative">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => e.stopPropagation()}
                   >
-                    <Trash2 className="mr-2 h-4 w-4" />
-                    Delete Project
+                    <MoreVertical className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                  {onUpdateConfig && (
+                    <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onUpdateConfig(project); }}>
+                      <Settings className="mr-2 h-4 w-4" />
+                      Update Config
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem onClick={(e) => { e.stopPropagation(); handleOpenPortal(); }}>
+                    <ExternalLink className="mr-2 h-4 w-4" />
+                    Open Portal
                   </DropdownMenuItem>
-                )}
-              </DropdownMenuContent>
-            </DropdownMenu>
-          </div>
-        </div>
-      </CardHeader>
-
-      <CardContent className="space-y-4">
-        {project.deployment && (
-          <div>
-            <DeploymentStatus
-              status={project.deployment.status}
-              ageSeconds={project.deployment.age_seconds}
-              durationSeconds={project.deployment.duration_seconds}
-              error={project.deployment.error}
-            />
+                  <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setHistoryOpen(true); }}>
+                    <History className="mr-2 h-4 w-4" />
+                    Deployment History
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  {onDelete && (
+                    <DropdownMenuItem
+                      onClick={(e) => { e.stopPropagation(); onDelete(project); }}
+                      className="text-red-600 focus:text-red-600"
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete Project
+                    </DropdownMenuItem>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
           </div>
-        )}
+        </CardHeader>
 
-        <div className="flex items-center gap-4 text-sm text-muted-foreground">
-          {project.spec_source.type === 'github' && project.spec_source.github && (
-            <div className="flex items-center gap-2">
-              <Github className="h-4 w-4" />
-              <span className="font-mono text-xs">
-                {project.spec_source.github.owner}/{project.spec_source.github.repo}
-              </span>
-              <Badge variant="outline" className="text-xs">
-                {project.spec_source.github.branch}
-              </Badge>
-            </div>
-          )}
-          {project.spec_source.type === 'target_only' && (
-            <div className="flex items-center gap-2">
-              <Globe className="h-4 w-4" />
-              <span className="text-xs">Target URL Only</span>
-            </div>
-          )}
-          {project.spec_source.type === 'upload' && (
-            <div className="flex items-center gap-2">
-              <ExternalLink className="h-4 w-4" />
-              <span className="text-xs">Uploaded Spec</span>
+        <CardContent className="space-y-4">
+          {project.deployment && (
+            <div>
+              <DeploymentStatus
+                status={project.deployment.status}
+                ageSeconds={project.deployment.age_seconds}
+                durationSeconds={project.deployment.duration_seconds}
+                error={project.deployment.error}
+                onShowHistory={() => setHistoryOpen(true)}
+                onShowLogs={() => setLogsOpen(true)}
+              />
             </div>
           )}
-        </div>
 
-        <div className="flex items-center gap-2 pt-2 border-t">
-          {project.deployer?.avatar_url ? (
-            <Image
-              src={project.deployer.avatar_url}
-              alt={project.deployer.name || project.deployer.github_username || 'User'}
-              width={24}
-              height={24}
-              className="h-6 w-6 rounded-full object-cover"
-            />
-          ) : (
-            <div className="h-6 w-6 rounded-full bg-gradient-to-br from-blue-600 to-purple-600 flex items-center justify-center text-white text-xs">
-              {(project.deployer?.name || project.deployer?.github_username || 'U').charAt(0).toUpperCase()}
-            </div>
-          )}
-          <div className="flex flex-col">
-            <span className="text-xs font-medium">
-              {project.deployer?.name || project.deployer?.github_username || 'Unknown'}
-            </span>
-            {project.deployer?.email && (
-              <span className="text-xs text-muted-foreground">{project.deployer.email}</span>
+          <div className="flex items-center gap-4 text-sm text-muted-foreground">
+            {project.spec_source.type === 'github' && project.spec_source.github && (
+              <div className="flex items-center gap-2">
+                <Github className="h-4 w-4" />
+                <span className="font-mono text-xs">
+                  {project.spec_source.github.owner}/{project.spec_source.github.repo}
+                </span>
+                <Badge variant="outline" className="text-xs">
+                  {project.spec_source.github.branch}
+                </Badge>
+              </div>
+            )}
+            {project.spec_source.type === 'target_only' && (
+              <div className="flex items-center gap-2">
+                <Globe className="h-4 w-4" />
+                <span className="text-xs">Target URL Only</span>
+              </div>
+            )}
+            {project.spec_source.type === 'upload' && (
+              <div className="flex items-center gap-2">
+                <ExternalLink className="h-4 w-4" />
+                <span className="text-xs">Uploaded Spec</span>
+              </div>
             )}
           </div>
-        </div>
-      </CardContent>
 
-      <CardFooter className="flex flex-col gap-2" onClick={(e) => e.stopPropagation()}>
-        <div className="flex flex-wrap gap-2 w-full">
-        {bringMyOwnOAuth && appClients.length > 1 ? (
-          <>
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="outline" size="sm" className="flex-1 min-w-0">
-                  <ExternalLink className="mr-2 h-4 w-4" />
-                  Open Portal
-                  <ChevronDown className="ml-2 h-4 w-4" />
+          <div className="flex items-center gap-2 pt-2 border-t">
+            {project.deployer?.avatar_url ? (
+              <Image
+                src={project.deployer.avatar_url}
+                alt={project.deployer.name || project.deployer.github_username || 'User'}
+                width={24}
+                height={24}
+                className="h-6 w-6 rounded-full object-cover"
+              />
+            ) : (
+              <div className="h-6 w-6 rounded-full bg-gradient-to-br from-blue-600 to-purple-600 flex items-center justify-center text-white text-xs">
+                {(project.deployer?.name || project.deployer?.github_username || 'U').charAt(0).toUpperCase()}
+              </div>
+            )}
+            <div className="flex flex-col">
+              <span className="text-xs font-medium">
+                {project.deployer?.name || project.deployer?.github_username || 'Unknown'}
+              </span>
+              {project.deployer?.email && (
+                <span className="text-xs text-muted-foreground">{project.deployer.email}</span>
+              )}
+            </div>
+          </div>
+        </CardContent>
+
+        <CardFooter className="flex flex-col gap-2" onClick={(e) => e.stopPropagation()}>
+          <div className="flex flex-wrap gap-2 w-full">
+          {bringMyOwnOAuth && appClients.length > 1 ? (
+            <>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="flex-1 min-w-0">
+                    <ExternalLink className="mr-2 h-4 w-4" />
+                    Open Portal
+                    <ChevronDown className="ml-2 h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start" className="w-56">
+                  {loadingAppClients ? (
+                    <div className="flex items-center justify-center py-2">
+                      <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                    </div>
+                  ) : (
+                    appClients.map((client) => (
+                      <DropdownMenuItem
+                        key={client.id}
+                        onClick={() => handleOpenPortal(client)}
+                      >
+                        <ExternalLink className="mr-2 h-4 w-4" />
+                        {client.name}
+                      </DropdownMenuItem>
+                    ))
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              {onUpdateConfig && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onUpdateConfig(project)}
+                  className="flex-1 min-w-0"
+                >
+                  <Settings className="mr-2 h-4 w-4" />
+                  Configure
                 </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="start" className="w-56">
-                {loadingAppClients ? (
-                  <div className="flex items-center justify-center py-2">
-                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
-                  </div>
-                ) : (
-                  appClients.map((client) => (
-                    <DropdownMenuItem
-                      key={client.id}
-                      onClick={() => handleOpenPortal(client)}
-                    >
-                      <ExternalLink className="mr-2 h-4 w-4" />
-                      {client.name}
-                    </DropdownMenuItem>
-                  ))
-                )}
-              </DropdownMenuContent>
-            </DropdownMenu>
-            {onUpdateConfig && (
+              )}
+            </>
+          ) : bringMyOwnOAuth && appClients.length === 1 ? (
+            <>
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => onUpdateConfig(project)}
+                onClick={() => handleOpenPortal(appClients[0])}
                 className="flex-1 min-w-0"
               >
-                <Settings className="mr-2 h-4 w-4" />
-                Configure
+                <ExternalLink className="mr-2 h-4 w-4" />
+                Open Portal
               </Button>
-            )}
-          </>
-        ) : bringMyOwnOAuth && appClients.length === 1 ? (
-          <>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => handleOpenPortal(appClients[0])}
-              className="flex-1 min-w-0"
-            >
-              <ExternalLink className="mr-2 h-4 w-4" />
-              Open Portal
-            </Button>
-            {onUpdateConfig && (
+              {onUpdateConfig && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onUpdateConfig(project)}
+                  className="flex-1 min-w-0"
+                >
+                  <Settings className="mr-2 h-4 w-4" />
+                  Configure
+                </Button>
+              )}
+            </>
+          ) : (
+            <>
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => onUpdateConfig(project)}
+                onClick={() => handleOpenPortal()}
                 className="flex-1 min-w-0"
               >
-                <Settings className="mr-2 h-4 w-4" />
-                Configure
+                <ExternalLink className="mr-2 h-4 w-4" />
+                Open Portal
               </Button>
-            )}
-          </>
-        ) : (
-          <>
+              {onUpdateConfig && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onUpdateConfig(project)}
+                  className="flex-1 min-w-0"
+                >
+                  <Settings className="mr-2 h-4 w-4" />
+                  Configure
+                </Button>
+              )}
+            </>
+          )}
+          </div>
+          {appLoginUrls.length > 1 ? (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  title="Open your app's OAuth login page"
+                >
+                  <LogIn className="mr-2 h-4 w-4" />
+                  App login
+                  <ChevronDown className="ml-2 h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start" className="w-56">
+                {appLoginUrls.map(({ type, url }) => (
+                  <DropdownMenuItem
+                    key={type || 'default'}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      window.open(url, '_blank');
+                    }}
+                  >
+                    <LogIn className="mr-2 h-4 w-4" />
+                    {type === 'all' ? 'All' : type ? type.charAt(0).toUpperCase() + type.slice(1) : 'Default'}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          ) : appLoginUrls.length === 1 ? (
             <Button
               variant="outline"
               size="sm"
-              onClick={() => handleOpenPortal()}
-              className="flex-1 min-w-0"
+              onClick={(e) => {
+                e.stopPropagation();
+                window.open(appLoginUrls[0].url, '_blank');
+              }}
+              className="w-full"
+              title="Open your app's OAuth login page"
             >
-              <ExternalLink className="mr-2 h-4 w-4" />
-              Open Portal
+              <LogIn className="mr-2 h-4 w-4" />
+              App login
             </Button>
-            {onUpdateConfig && (
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => onUpdateConfig(project)}
-                className="flex-1 min-w-0"
-              >
-                <Settings className="mr-2 h-4 w-4" />
-                Configure
-              </Button>
-            )}
-          </>
-        )}
-        </div>
-        {appLoginUrls.length > 1 ? (
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <Button
-                variant="outline"
-                size="sm"
-                className="w-full"
-                title="Open your app's OAuth login page"
-              >
-                <LogIn className="mr-2 h-4 w-4" />
-                App login
-                <ChevronDown className="ml-2 h-4 w-4" />
-              </Button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align="start" className="w-56">
-              {appLoginUrls.map(({ type, url }) => (
-                <DropdownMenuItem
-                  key={type || 'default'}
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    window.open(url, '_blank');
-                  }}
-                >
-                  <LogIn className="mr-2 h-4 w-4" />
-                  {type === 'all' ? 'All' : type ? type.charAt(0).toUpperCase() + type.slice(1) : 'Default'}
-                </DropdownMenuItem>
-              ))}
-            </DropdownMenuContent>
-          </DropdownMenu>
-        ) : appLoginUrls.length === 1 ? (
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={(e) => {
-              e.stopPropagation();
-              window.open(appLoginUrls[0].url, '_blank');
-            }}
-            className="w-full"
-            title="Open your app's OAuth login page"
-          >
-            <LogIn className="mr-2 h-4 w-4" />
-            App login
-          </Button>
-        ) : null}
-      </CardFooter>
-    </Card>
+          ) : null}
+        </CardFooter>
+      </Card>
+      <DeploymentHistoryDialog project={project} open={historyOpen} onOpenChange={setHistoryOpen} />
+      {project.deployment && (
+        <DeploymentLogsDialog
+          projectId={project.project_id}
+          apiVersion={project.api_version}
+          deploymentId={project.deployment.deployment_id}
+          open={logsOpen}
+          onOpenChange={setLogsOpen}
+        />
+      )}
+    </>
   );
 }
@@ -0,0 +1,47 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CloudOff, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useUpstreamStatusStore } from '@/store/upstream-status';
+
+/**
+ * Degraded-state notice shown while the admin API is unavailable (its circuit breaker is open).
+ * Counts down to the server's Retry-After and disappears after the next successful request.
+ */
+export function UpstreamStatusBanner() {
+  const unavailableUntil = useUpstreamStatusStore((s) => s.unavailableUntil);
+  const requestId = useUpstreamStatusStore((s) => s.requestId);
+  const clear = useUpstreamStatusStore((s) => s.clear);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (unavailableUntil === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [unavailableUntil]);
+
+  if (unavailableUntil === null) return null;
+  const seconds = Math.max(0, Math.ceil((unavailableUntil - now) / 1000));
+
+  return (
+    <div
+      role="status"
+      className="w-full border-b border-amber-200 dark:border-amber-900 bg-amber-50 dark:bg-amber-950/30 text-amber-800 dark:text-amber-300"
+    >
+      <div className="w-full px-4 py-2 flex items-center gap-3 text-sm">
+        <CloudOff className="h-4 w-4 shrink-0" />
+        <p className="flex-1 min-w-0">
+          <span className="font-medium">APIBlaze is temporarily unavailable.</span>{' '}
+          Projects and tenants cannot be loaded or saved right now;{' '}
+          {seconds > 0 ? `retry in ${seconds}s.` : 'you can retry now.'}
+          {requestId && <span className="text-xs font-mono opacity-75"> (request {requestId})</span>}
+        </p>
+        <Button variant="ghost" size="sm" onClick={clear} aria-label="Dismiss">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
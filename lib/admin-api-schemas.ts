@@ -0,0 +1,331 @@
+/**
+ * Response schemas for the admin API (internalapi), checked by APIBlazeClient.request.
+ *
+ * Each schema requires the fields the dashboard reads and lets everything else through
+ * (`passthrough`), so additive backend changes are harmless while a renamed or retyped field
+ * fails at the boundary with a drift report instead of surfacing as `undefined` in the UI.
+ */
+
+import { z } from 'zod';
+
+const nullableString = z.string().nullish();
+
+// ─── Projects ────────────────────────────────────────────────────────────────
+
+const deploymentStatusSchema = z.enum(['pending', 'building', 'live', 'failed', 'rolled_back']);
+
+const deployerSchema = z
+  .object({
+    name: z.string().optional(),
+    email: z.string().optional(),
+    avatar_url: z.string().optional(),
+    github_username: z.string().optional(),
+  })
+  .passthrough();
+
+const projectDeploymentSchema = z
+  .object({
+    deployment_id: z.string(),
+    status: deploymentStatusSchema,
+    created_at: z.string(),
+    completed_at: z.string().optional(),
+    duration_seconds: z.number().optional(),
+    age_seconds: z.number().optional(),
+    error: z.string().optional(),
+  })
+  .passthrough();
+
+export const projectSchema = z
+  .object({
+    project_id: z.string(),
+    api_version: z.string(),
+    display_name: z.string().optional(),
+    team_id: z.string().optional(),
+    status: z.string().optional(),
+    created_at: z.string().optional(),
+    updated_at: z.string().optional(),
+    urls: z.record(z.string()).optional(),
+    deployer: deployerSchema.optional(),
+    deployment: projectDeploymentSchema.nullish(),
+    config: z.record(z.unknown()).optional(),
+  })
+  .passthrough()
+  .describe('Project');
+
+export const projectListSchema = z
+  .object({
+    projects: z.array(projectSchema),
+    pagination: z
+      .object({ page: z.number(), limit: z.number(), total: z.number(), total_pages: z.number() })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough()
+  .describe('ProjectList');
+
+export const projectStatusSchema = z
+  .object({
+    project_id: z.string(),
+    api_version: z.string(),
+    status: z.string(),
+    deployment: projectDeploymentSchema.nullable(),
+  })
+  .passthrough()
+  .describe('ProjectStatus');
+
+export const projectExistsSchema = z
+  .object({
+    exists: z.boolean(),
+    project_id: nullableString,
+    api_version: nullableString,
+    message: z.string().optional(),
+  })
+  .passthrough()
+  .describe('ProjectExists');
+
+export const projectConfigUpdateSchema = z
+  .object({ updated_at: z.string().optional() })
+  .passthrough()
+  .optional()
+  .describe('ProjectConfigUpdate');
+
+/** createProxy: the backend returns the new project; only its identity is relied on. */
+export const createdProjectSchema = z
+  .object({
+    project_id: z.string().optional(),
+    api_version: z.string().optional(),
+  })
+  .passthrough()
+  .describe('CreatedProject');
+
+const deploymentRecordSchema = z
+  .object({
+    deployment_id: z.string(),
+    status: deploymentStatusSchema,
+    created_at: z.string(),
+    completed_at: z.string().optional(),
+    duration_seconds: z.number().optional(),
+    error: z.string().optional(),
+    deployer: deployerSchema,
+    config_snapshot: z.record(z.unknown()).optional(),
+    rolled_back_from: z.string().optional(),
+  })
+  .passthrough();
+
+export const deploymentHistorySchema = z
+  .object({
+    project_id: z.string(),
+    api_version: z.string(),
+    deployments: z.array(deploymentRecordSchema),
+  })
+  .passthrough()
+  .describe('DeploymentHistory');
+
+export const rollbackDeploymentSchema = z
+  .object({ success: z.boolean(), deployment: deploymentRecordSchema })
+  .passthrough()
+  .describe('RollbackDeployment');
+
+// ─── Auth configs, app clients, providers ────────────────────────────────────
+
+export const authConfigSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    default_app_client_id: nullableString,
+  })
+  .passthrough()
+  .describe('AuthConfig');
+
+export const authConfigListSchema = z.array(authConfigSchema).describe('AuthConfigList');
+
+/** App clients come back in camelCase or snake_case depending on the route; lib/api.ts normalizes. */
+export const appClientSchema = z
+  .object({
+    id: z.string(),
+    name: z.string().optional(),
+    clientId: z.string().optional(),
+    client_id: z.string().optional(),
+    authorizedCallbackUrls: z.array(z.string()).optional(),
+    authorized_callback_urls: z.array(z.string()).optional(),
+    signoutUris: z.array(z.string()).optional(),
+    signout_uris: z.array(z.string()).optional(),
+    scopes: z.array(z.string()).optional(),
+    verified: z.boolean().optional(),
+    jwks: z.object({ keys: z.array(z.record(z.unknown())) }).passthrough().optional(),
+    groupScopes: z.record(z.array(z.string())).optional(),
+  })
+  .passthrough()
+  .describe('AppClient');
+
+export const appClientListSchema = z.array(appClientSchema).describe('AppClientList');
+
+export const appClientLookupSchema = z
+  .object({ authConfigId: z.string(), client: appClientSchema })
+  .passthrough()
+  .describe('AppClientLookup');
+
+export const clientSecretSchema = z.object({ clientSecret: z.string() }).passthrough().describe('ClientSecret');
+
+const appClientSecretInfoSchema = z
+  .object({
+    id: z.string(),
+    status: z.enum(['current', 'previous']),
+    hint: z.string(),
+    created_at: z.string(),
+    expires_at: z.string().nullable(),
+  })
+  .passthrough()
+  .describe('AppClientSecretInfo');
+
+export const appClientSecretListSchema = z
+  .object({ secrets: z.array(appClientSecretInfoSchema) })
+  .passthrough()
+  .describe('AppClientSecretList');
+
+export const rotatedClientSecretSchema = z
+  .object({ clientSecret: z.string(), secrets: z.array(appClientSecretInfoSchema) })
+  .passthrough()
+  .describe('RotatedClientSecret');
+
+export const providerSchema = z
+  .object({
+    id: z.string(),
+    type: z.string(),
+    clientId: z.string().optional(),
+    client_id: z.string().optional(),
+    domain: z.string().optional(),
+    scopes: z.union([z.array(z.string()), z.string()]).optional(),
+  })
+  .passthrough()
+  .describe('Provider');
+
+export const providerListSchema = z.array(providerSchema).describe('ProviderList');
+
+// ─── Tenants ─────────────────────────────────────────────────────────────────
+
+export interface TeamTenant {
+  tenant_name: string;
+  /** Falls back to tenant_name */
+  display_name: string;
+  /** Only with `detail` */
+  app_clients_count?: number;
+  proxies?: Array<{ project_id: string; api_version: string }>;
+}
+
+const teamTenantSchema = z
+  .object({
+    tenant_name: z.string(),
+    display_name: z.string().optional(),
+    app_clients_count: z.number().optional(),
+    proxies: z.array(z.object({ project_id: z.string(), api_version: z.string() }).passthrough()).optional(),
+  })
+  .passthrough();
+
+/**
+ * Team tenants: without `detail` the backend lists bare names. Both forms are normalized to
+ * objects so callers never branch on the element type.
+ */
+export const teamTenantsSchema = z
+  .object({
+    tenants: z.array(
+      z.union([
+        z.string().transform((tenant_name) => ({ tenant_name, display_name: tenant_name })),
+        teamTenantSchema,
+      ])
+    ),
+  })
+  .passthrough()
+  .transform((res) => ({
+    ...res,
+    tenants: res.tenants.map((t): TeamTenant => ({ ...t, display_name: t.display_name?.trim() || t.tenant_name })),
+  }))
+  .describe('TeamTenants');
+
+export const createdTenantSchema = z
+  .object({ tenant_name: z.string(), display_name: z.string() })
+  .passthrough()
+  .describe('CreatedTenant');
+
+export const projectTenantsSchema = z
+  .object({
+    tenants: z.array(z.object({ tenant_name: z.string(), display_name: z.string() }).passthrough()),
+  })
+  .passthrough()
+  .describe('ProjectTenants');
+
+export const attachedTenantSchema = z
+  .object({ success: z.boolean(), tenant_name: z.string(), display_name: z.string(), url: z.string() })
+  .passthrough()
+  .describe('AttachedTenant');
+
+export const tenantAuthConfigSchema = z
+  .object({
+    requests_auth: z.record(z.unknown()).nullable(),
+    default_app_client_id: z.string().nullable(),
+  })
+  .passthrough()
+  .describe('TenantAuthConfig');
+
+// ─── End users ───────────────────────────────────────────────────────────────
+
+export const endUserSchema = z
+  .object({
+    id: z.string(),
+    email: nullableString,
+    name: nullableString,
+    status: z.enum(['active', 'disabled', 'invited']),
+    identities: z
+      .array(
+        z
+          .object({
+            provider: z.string(),
+            provider_user_id: z.string(),
+            app_client_id: z.string().optional(),
+            linked_at: z.string(),
+            last_login_at: nullableString,
+          })
+          .passthrough()
+      )
+      .default([]),
+    last_login_at: nullableString,
+    created_at: z.string(),
+    updated_at: z.string(),
+  })
+  .passthrough()
+  .describe('EndUser');
+
+export const endUserPageSchema = z
+  .object({
+    users: z.array(endUserSchema),
+    next_cursor: nullableString,
+    total: z.number().optional(),
+  })
+  .passthrough()
+  .describe('EndUserPage');
+
+export const revokedSessionsSchema = z.object({ revoked: z.number() }).passthrough().describe('RevokedSessions');
+
+// ─── Groups ──────────────────────────────────────────────────────────────────
+
+export const groupSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    description: nullableString,
+    members_count: z.number(),
+    created_at: z.string(),
+    updated_at: z.string(),
+  })
+  .passthrough()
+  .describe('Group');
+
+export const groupListSchema = z.array(groupSchema).describe('GroupList');
+
+export const addedGroupMembersSchema = z
+  .object({ added: z.number(), already_members: z.number(), not_found: z.array(z.string()) })
+  .passthrough()
+  .describe('AddedGroupMembers');
+
+/** DELETEs answer 204 or a small acknowledgement that nothing reads. */
+export const noContentSchema = z.unknown().describe('NoContent');
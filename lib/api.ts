@@ -3,7 +3,25 @@
  * Handles communication with internalapi.apiblaze.com
  */
 
-import type { AuthConfig, AppClient, SocialProvider, CreateProviderRequest } from '@/types/auth-config';
+import type {
+  AuthConfig,
+  AppClient,
+  AppClientSecretInfo,
+  RotateAppClientSecretResult,
+  SocialProvider,
+  CreateProviderRequest,
+  EndUser,
+  EndUserPage,
+  Group,
+  CreateGroupRequest,
+  AddGroupMembersResult,
+  InviteEndUserRequest,
+  LoginTestExchangeResult,
+  ListEndUsersParams,
+} from '@/types/auth-config';
+import type { TeamTenant } from '@/lib/admin-api-schemas';
+import { isProblemDetails, ProblemError } from '@/lib/problem';
+import { reportProblem, reportUpstreamOk } from '@/store/upstream-status';
 
 // Use Next.js API routes to proxy requests (keeps API key server-side)
 const API_BASE_URL = '/api';
@@ -85,11 +103,19 @@ class ApiClient {
         } catch {
           // Ignore JSON parse errors – default error message already set
         }
+        // problem+json from the app/api handlers: keep the code so callers can branch on it
+        if (isProblemDetails(error)) {
+          reportProblem(error, response);
+          const requestId = error.request_id ?? response.headers.get('x-request-id') ?? undefined;
+          throw new ProblemError(requestId ? { ...error, request_id: requestId } : error);
+        }
         // Prefer the most descriptive message (e.g. APIBlaze provider protection errors)
         const message = error.details || error.error || 'API request failed';
         throw new Error(message);
       }
       
+      reportUpstreamOk();
+
       // Handle 204 No Content responses (no body)
       if (response.status === 204) {
         return undefined as T;
@@ -242,7 +268,6 @@ class ApiClient {
       backendData.requests_auth = data.requests_auth;
     }
 
-    console.log('[API Client] Creating project:', data.name);
     return this.request<Record<string, unknown>>('/projects', {
       method: 'POST',
       body: JSON.stringify(backendData),
@@ -267,10 +292,8 @@ class ApiClient {
     });
   }
 
-  async getTeamTenants(teamId: string, detail?: boolean): Promise<
-    | { tenants: string[] }
-    | { tenants: Array<{ tenant_name: string; display_name: string; app_clients_count: number; proxies: Array<{ project_id: string; api_version: string }> }> }
-  > {
+  /** Tenants are always objects; without `detail` only tenant_name and display_name are set. */
+  async getTeamTenants(teamId: string, detail?: boolean): Promise<{ tenants: TeamTenant[] }> {
     const q = detail ? '?detail=1' : '';
     return this.request(`/teams/${encodeURIComponent(teamId)}/tenants${q}`);
   }
@@ -366,6 +389,46 @@ class ApiClient {
     );
   }
 
+  /** Current and still-valid previous secrets of an app client (metadata only) */
+  async listAppClientSecrets(teamId: string, tenantName: string, clientId: string): Promise<AppClientSecretInfo[]> {
+    const { secrets } = await this.request<{ secrets: AppClientSecretInfo[] }>(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/app-clients/${encodeURIComponent(clientId)}/secrets`
+    );
+    return secrets;
+  }
+
+  async rotateAppClientSecret(
+    teamId: string,
+    tenantName: string,
+    clientId: string,
+    gracePeriodSeconds: number
+  ): Promise<RotateAppClientSecretResult> {
+    return this.request<RotateAppClientSecretResult>(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/app-clients/${encodeURIComponent(clientId)}/secrets/rotate`,
+      { method: 'POST', body: JSON.stringify({ grace_period_seconds: gracePeriodSeconds }) }
+    );
+  }
+
+  async revokeAppClientSecret(teamId: string, tenantName: string, clientId: string, secretId: string): Promise<void> {
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/app-clients/${encodeURIComponent(clientId)}/secrets/${encodeURIComponent(secretId)}`,
+      { method: 'DELETE' }
+    );
+  }
+
+  /** Test login: exchange the code returned to /dashboard/login-tester/callback (see lib/login-tester.ts) */
+  async exchangeLoginTestCode(
+    teamId: string,
+    tenantName: string,
+    clientId: string,
+    data: { code: string; code_verifier: string; redirect_uri: string }
+  ): Promise<LoginTestExchangeResult> {
+    return this.request<LoginTestExchangeResult>(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/app-clients/${encodeURIComponent(clientId)}/login-test`,
+      { method: 'POST', body: JSON.stringify(data) }
+    );
+  }
+
   /** List providers for an app client under a tenant */
   async listProvidersByTenant(teamId: string, tenantName: string, clientId: string): Promise<SocialProviderResponse[]> {
     return this.request<SocialProviderResponse[]>(
@@ -433,18 +496,125 @@ class ApiClient {
     });
   }
 
-  // TODO: Users and Groups management methods
-  // These will be implemented when the backend API routes are available:
-  // - listUsers(authConfigId: string)
-  // - getUser(authConfigId: string, userId: string)
-  // - createUser(authConfigId: string, data: {...})
-  // - updateUser(authConfigId: string, userId: string, data: {...})
-  // - deleteUser(authConfigId: string, userId: string)
-  // - listGroups(authConfigId: string)
-  // - getGroup(authConfigId: string, groupId: string)
-  // - createGroup(authConfigId: string, data: {...})
-  // - updateGroup(authConfigId: string, groupId: string, data: {...})
-  // - deleteGroup(authConfigId: string, groupId: string)
+  // End users of a tenant
+  async listTenantUsers(teamId: string, tenantName: string, params: ListEndUsersParams = {}): Promise<EndUserPage> {
+    const query = new URLSearchParams();
+    if (params.q) query.set('q', params.q);
+    if (params.clientId) query.set('client_id', params.clientId);
+    if (params.status) query.set('status', params.status);
+    if (params.cursor) query.set('cursor', params.cursor);
+    if (params.limit) query.set('limit', String(params.limit));
+    const q = query.toString();
+    return this.request<EndUserPage>(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/users${q ? `?${q}` : ''}`
+    );
+  }
+
+  async getTenantUser(teamId: string, tenantName: string, userId: string): Promise<EndUser> {
+    return this.request<EndUser>(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/users/${encodeURIComponent(userId)}`
+    );
+  }
+
+  /** Disabling also revokes the user's refresh tokens */
+  async setTenantUserDisabled(teamId: string, tenantName: string, userId: string, disabled: boolean): Promise<EndUser> {
+    return this.request<EndUser>(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/users/${encodeURIComponent(userId)}`,
+      { method: 'PATCH', body: JSON.stringify({ disabled }) }
+    );
+  }
+
+  async deleteTenantUser(teamId: string, tenantName: string, userId: string): Promise<void> {
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/users/${encodeURIComponent(userId)}`,
+      { method: 'DELETE' }
+    );
+  }
+
+  /** Forced sign-out; returns how many refresh tokens were revoked */
+  async revokeTenantUserSessions(teamId: string, tenantName: string, userId: string): Promise<{ revoked: number }> {
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/users/${encodeURIComponent(userId)}/sessions`,
+      { method: 'DELETE' }
+    );
+  }
+
+  async inviteTenantUser(teamId: string, tenantName: string, data: InviteEndUserRequest): Promise<EndUser> {
+    return this.request<EndUser>(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/users/invitations`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ email: data.email, client_id: data.clientId, name: data.name }),
+      }
+    );
+  }
+
+  // Groups of a tenant's end users (bulk member import: see lib/api/groups.ts)
+  async listTenantGroups(teamId: string, tenantName: string): Promise<Group[]> {
+    return this.request<Group[]>(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/groups`
+    );
+  }
+
+  async createTenantGroup(teamId: string, tenantName: string, data: CreateGroupRequest): Promise<Group> {
+    return this.request<Group>(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/groups`,
+      { method: 'POST', body: JSON.stringify(data) }
+    );
+  }
+
+  async updateTenantGroup(
+    teamId: string,
+    tenantName: string,
+    groupId: string,
+    data: Partial<CreateGroupRequest>
+  ): Promise<Group> {
+    return this.request<Group>(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/groups/${encodeURIComponent(groupId)}`,
+      { method: 'PATCH', body: JSON.stringify(data) }
+    );
+  }
+
+  async deleteTenantGroup(teamId: string, tenantName: string, groupId: string): Promise<void> {
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/groups/${encodeURIComponent(groupId)}`,
+      { method: 'DELETE' }
+    );
+  }
+
+  async listGroupMembers(
+    teamId: string,
+    tenantName: string,
+    groupId: string,
+    params: { cursor?: string; limit?: number } = {}
+  ): Promise<EndUserPage> {
+    const query = new URLSearchParams();
+    if (params.cursor) query.set('cursor', params.cursor);
+    if (params.limit) query.set('limit', String(params.limit));
+    const q = query.toString();
+    return this.request<EndUserPage>(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/groups/${encodeURIComponent(groupId)}/members${q ? `?${q}` : ''}`
+    );
+  }
+
+  async addGroupMembers(
+    teamId: string,
+    tenantName: string,
+    groupId: string,
+    members: { userIds?: string[]; emails?: string[] }
+  ): Promise<AddGroupMembersResult> {
+    return this.request<AddGroupMembersResult>(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/groups/${encodeURIComponent(groupId)}/members`,
+      { method: 'POST', body: JSON.stringify({ user_ids: members.userIds, emails: members.emails }) }
+    );
+  }
+
+  async removeGroupMember(teamId: string, tenantName: string, groupId: string, userId: string): Promise<void> {
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/groups/${encodeURIComponent(groupId)}/members/${encodeURIComponent(userId)}`,
+      { method: 'DELETE' }
+    );
+  }
 }
 
 export const api = new ApiClient();
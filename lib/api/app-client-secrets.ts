@@ -0,0 +1,11 @@
+/** Longest time the admin API keeps a rotated-out secret valid next to its replacement. */
+export const MAX_SECRET_GRACE_PERIOD_SECONDS = 30 * 24 * 60 * 60;
+
+/** Grace periods offered when rotating; 0 revokes the old secret immediately. */
+export const SECRET_GRACE_PERIODS: { label: string; seconds: number }[] = [
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '24 hours', seconds: 24 * 60 * 60 },
+  { label: '7 days', seconds: 7 * 24 * 60 * 60 },
+  { label: '30 days', seconds: MAX_SECRET_GRACE_PERIOD_SECONDS },
+  { label: 'None (old secret stops working now)', seconds: 0 },
+];
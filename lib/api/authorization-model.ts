@@ -0,0 +1,60 @@
+import { policiesApiBase } from '@/lib/backend-urls';
+import type { OpenFGAModel } from '@/lib/openfga';
+
+export function policiesApiUrl(projectId: string, apiVersion: string, path: string): string {
+  return `${policiesApiBase(projectId)}/${path}?api_version=${encodeURIComponent(apiVersion)}`;
+}
+
+/** The project's OpenFGA model for a tenant, or null when none is configured. */
+export async function getAuthorizationModel(
+  projectId: string,
+  apiVersion: string,
+  tenantId: string
+): Promise<OpenFGAModel | null> {
+  const url = policiesApiUrl(projectId, apiVersion, 'model') + `&tenantId=${encodeURIComponent(tenantId)}`;
+  const res = await fetch(url);
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({})) as { error?: string };
+    throw new Error(err.error ?? `Error ${res.status}`);
+  }
+  const data = await res.json() as { model: OpenFGAModel };
+  return data.model;
+}
+
+/** Replaces the model for every tenant of the project. */
+export async function saveAuthorizationModel(
+  projectId: string,
+  apiVersion: string,
+  model: Pick<OpenFGAModel, 'schema_version' | 'type_definitions'>
+): Promise<void> {
+  const res = await fetch(policiesApiUrl(projectId, apiVersion, 'model'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(model),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({})) as { error?: string };
+    throw new Error(err.error ?? `Error ${res.status}`);
+  }
+}
+
+/**
+ * Saved versions of the project's model, newest first. OpenFGA models are immutable, so
+ * every save adds a version; restoring one saves its type definitions again.
+ */
+export async function getAuthorizationModelHistory(
+  projectId: string,
+  apiVersion: string,
+  tenantId: string
+): Promise<OpenFGAModel[]> {
+  const url = policiesApiUrl(projectId, apiVersion, 'models') + `&tenantId=${encodeURIComponent(tenantId)}`;
+  const res = await fetch(url);
+  if (res.status === 404) return [];
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({})) as { error?: string };
+    throw new Error(err.error ?? `Error ${res.status}`);
+  }
+  const data = await res.json() as { models?: OpenFGAModel[] };
+  return data.models ?? [];
+}
@@ -0,0 +1,63 @@
+import { api } from '@/lib/api';
+import type { AddGroupMembersResult } from '@/types/auth-config';
+
+/** Group names go into the `groups` claim of access tokens, so they stay token- and URL-safe. */
+export const GROUP_NAME_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+export const GROUP_NAME_HINT = 'Use 1-64 letters, digits, ".", "_" or "-"';
+
+/** The admin API adds at most this many user ids plus emails per request. */
+export const MAX_MEMBERS_PER_ADD = 500;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Splits pasted text or a CSV column (commas, semicolons, whitespace) into user ids and emails,
+ * without duplicates; `invalid` lists entries that look like emails but are not.
+ */
+export function parseMemberList(text: string): { userIds: string[]; emails: string[]; invalid: string[] } {
+  const entries = Array.from(new Set(text.split(/[\s,;]+/).map((entry) => entry.trim()).filter(Boolean)));
+  const emails = entries.filter((entry) => entry.includes('@'));
+  return {
+    userIds: entries.filter((entry) => !entry.includes('@')),
+    emails: Array.from(new Set(emails.filter((e) => EMAIL_PATTERN.test(e)).map((e) => e.toLowerCase()))),
+    invalid: emails.filter((e) => !EMAIL_PATTERN.test(e)),
+  };
+}
+
+/**
+ * Adds members in chunks of MAX_MEMBERS_PER_ADD and sums the results. Adding is idempotent, so
+ * an import that failed part-way can simply be run again.
+ */
+export async function importGroupMembers(
+  teamId: string,
+  tenantName: string,
+  groupId: string,
+  members: { userIds: string[]; emails: string[] },
+  onProgress?: (processed: number, total: number) => void
+): Promise<AddGroupMembersResult> {
+  const entries = [
+    ...members.userIds.map((value) => ({ kind: 'userIds' as const, value })),
+    ...members.emails.map((value) => ({ kind: 'emails' as const, value })),
+  ];
+  const result: AddGroupMembersResult = { added: 0, already_members: 0, not_found: [] };
+  for (let start = 0; start < entries.length; start += MAX_MEMBERS_PER_ADD) {
+    const chunk = entries.slice(start, start + MAX_MEMBERS_PER_ADD);
+    const pick = (kind: 'userIds' | 'emails') => chunk.filter((e) => e.kind === kind).map((e) => e.value);
+    const userIds = pick('userIds');
+    const emails = pick('emails');
+    try {
+      const added = await api.addGroupMembers(teamId, tenantName, groupId, {
+        userIds: userIds.length > 0 ? userIds : undefined,
+        emails: emails.length > 0 ? emails : undefined,
+      });
+      result.added += added.added;
+      result.already_members += added.already_members;
+      result.not_found.push(...added.not_found);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Import failed';
+      throw new Error(`${message} (${start} of ${entries.length} processed)`);
+    }
+    onProgress?.(start + chunk.length, entries.length);
+  }
+  return result;
+}
@@ -1,5 +1,13 @@
-import { ProjectListResponse, ProjectStatusResponse } from '@/types/project';
+import type {
+  DeploymentHistoryResponse,
+  Project,
+  ProjectListResponse,
+  ProjectStatusResponse,
+  RollbackDeploymentResponse,
+} from '@/types/project';
 import type { CreateProxyPayload } from '@/lib/apiblaze-client';
+import { isProblemDetails } from '@/lib/problem';
+import { reportProblem, reportUpstreamOk } from '@/store/upstream-status';
 
 type ErrorResponse = {
   error?: string;
@@ -55,6 +63,7 @@ export async function listProjects(params: ListProjectsParams = {}): Promise<Pro
     throw new Error(error.error || `Failed to fetch projects: ${response.status}`);
   }
 
+  reportUpstreamOk();
   const rawResponse = (await response.json()) as ProjectListResponse;
   const activeProjects = rawResponse.projects.filter(
     (project) => project.status !== 'deleted'
@@ -84,6 +93,55 @@ export async function getProjectStatus(projectId: string): Promise<ProjectStatus
   return (await response.json()) as ProjectStatusResponse;
 }
 
+export async function listDeployments(projectId: string, apiVersion: string): Promise<DeploymentHistoryResponse> {
+  const url = `/api/projects/${encodeURIComponent(projectId)}/${encodeURIComponent(apiVersion)}/deployments`;
+
+  const response = await fetch(url, {
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await parseErrorResponse(response);
+    throw new Error(error.error || `Failed to fetch deployments: ${response.status}`);
+  }
+
+  return (await response.json()) as DeploymentHistoryResponse;
+}
+
+export async function rollbackDeployment(
+  projectId: string,
+  apiVersion: string,
+  deploymentId: string
+): Promise<RollbackDeploymentResponse> {
+  const url = `/api/projects/${encodeURIComponent(projectId)}/${encodeURIComponent(apiVersion)}/deployments/${encodeURIComponent(deploymentId)}/rollback`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await parseErrorResponse(response);
+    const details = typeof error.details === 'string' ? ` — ${error.details}` : '';
+    throw new Error(`${error.error || `Failed to roll back deployment: ${response.status}`}${details}`);
+  }
+
+  return (await response.json()) as RollbackDeploymentResponse;
+}
+
+/**
+ * URL of the Server-Sent Events log stream for a deployment (consumed with EventSource).
+ */
+export function getDeploymentLogsUrl(projectId: string, apiVersion: string, deploymentId: string): string {
+  return `/api/projects/${encodeURIComponent(projectId)}/${encodeURIComponent(apiVersion)}/deployments/${encodeURIComponent(deploymentId)}/logs`;
+}
+
 export async function deleteProject(projectId: string, apiVersion: string = '1.0.0'): Promise<void> {
   const url = `/api/projects/${projectId}/${apiVersion}`;
   
@@ -101,12 +159,48 @@ export async function deleteProject(projectId: string, apiVersion: string = '1.0
   }
 }
 
+/**
+ * Thrown when a save is rejected with 409/412 because the resource changed since it was loaded.
+ */
+export class ConflictError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ConflictError';
+    this.status = status;
+  }
+}
+
+/** If-Match value for a project version; the admin API uses updated_at as the project's ETag. */
+export function projectETag(project: Pick<Project, 'updated_at'>): string | undefined {
+  return project.updated_at ? `"${project.updated_at}"` : undefined;
+}
+
+export async function getProject(projectId: string, apiVersion: string): Promise<Project> {
+  const url = `/api/projects/${encodeURIComponent(projectId)}/${encodeURIComponent(apiVersion)}`;
+
+  const response = await fetch(url, {
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await parseErrorResponse(response);
+    throw new Error(error.error || `Failed to fetch project: ${response.status}`);
+  }
+
+  return (await response.json()) as Project;
+}
+
 export async function updateProjectConfig(
   projectId: string,
   apiVersion: string,
   config: Record<string, unknown>,
-  options?: { tenant?: string }
-): Promise<void> {
+  options?: { tenant?: string; ifMatch?: string }
+): Promise<{ updated_at?: string }> {
   const url = `/api/projects/${projectId}/${apiVersion}`;
   const body = options?.tenant ? { ...config, tenant: options.tenant } : config;
 
@@ -115,14 +209,23 @@ export async function updateProjectConfig(
     credentials: 'include',
     headers: {
       'Content-Type': 'application/json',
+      ...(options?.ifMatch ? { 'If-Match': options.ifMatch } : {}),
     },
     body: JSON.stringify(body),
   });
 
   if (!response.ok) {
     const error = await parseErrorResponse(response);
+    if (response.status === 409 || response.status === 412) {
+      throw new ConflictError(
+        typeof error.details === 'string' ? error.details : 'Project config was changed by someone else',
+        response.status
+      );
+    }
     throw new Error(error.error || `Failed to update project config: ${response.status}`);
   }
+
+  return ((await response.json().catch(() => ({}))) ?? {}) as { updated_at?: string };
 }
 
 export async function createProject(data: CreateProxyPayload): Promise<unknown> {
@@ -176,7 +279,9 @@ export async function createProject(data: CreateProxyPayload): Promise<unknown>
 
 async function parseErrorResponse(response: Response): Promise<ErrorResponse> {
   try {
-    return (await response.json()) as ErrorResponse;
+    const body = (await response.json()) as ErrorResponse;
+    if (isProblemDetails(body)) reportProblem(body, response);
+    return body;
   } catch {
     return { error: 'Unknown error' };
   }
@@ -1,3 +1,5 @@
+import { ConflictError } from './projects';
+
 export interface RouteEntry {
   path: string;
   method: string;
@@ -8,6 +10,8 @@ export interface RouteEntry {
   post_response_policy_template: string;
   cache_rules: string;
   priority?: number;
+  /** Server version of the stored entry; sent as If-Match on save. Absent for routes never saved. */
+  updated_at?: string;
 }
 
 export interface RouteConfig {
@@ -35,6 +39,11 @@ export function getRoutesWithConfig(routes: RouteEntry[]): RouteEntry[] {
   });
 }
 
+/** If-Match value for a stored route entry; policies-api uses the entry's updated_at as its ETag. */
+function routeETag(updatedAt: string): string {
+  return `"${updatedAt}"`;
+}
+
 export async function getRouteConfig(
   projectId: string,
   apiVersion: string
@@ -61,31 +70,133 @@ export async function getRouteConfig(
   return data as RouteConfig;
 }
 
+/** Body of POST /api/route-configs/:projectName/:apiVersion/batch. */
+export interface RouteBatchRequest {
+  upserts: RouteEntry[];
+  deletes: Array<{ method: string; path: string; updated_at?: string }>;
+}
+
+export type RouteBatchEntryStatus =
+  | 'applied'
+  | 'unchanged'
+  | 'invalid'
+  | 'conflict'
+  | 'failed'
+  | 'not_applied'
+  | 'rolled_back'
+  | 'rollback_failed';
+
+export interface RouteBatchResult {
+  method: string;
+  path: string;
+  op: 'upsert' | 'delete';
+  status: RouteBatchEntryStatus;
+  error?: string;
+}
+
+export interface RouteBatchProgress {
+  phase: 'apply' | 'rollback';
+  completed: number;
+  total: number;
+}
+
+/**
+ * The batch endpoint streams newline-delimited JSON: `progress` events while writing,
+ * then one `result` event. Validation and precondition failures are plain JSON error responses.
+ */
+export type RouteBatchEvent =
+  | ({ type: 'progress' } & RouteBatchProgress)
+  | {
+      type: 'result';
+      ok: boolean;
+      /** HTTP-equivalent status of the batch (the stream itself always starts with 200). */
+      status: number;
+      error?: string;
+      /** True when a failed batch was fully undone. */
+      rolledBack?: boolean;
+      results: RouteBatchResult[];
+      /** Every stored route after a successful batch, with new versions. */
+      routes?: RouteEntry[];
+    };
+
+/** A batch save that failed; nothing (or, if rollback failed, only some entries) remains applied. */
+export class RouteBatchError extends Error {
+  results: RouteBatchResult[];
+  rolledBack: boolean;
+
+  constructor(message: string, results: RouteBatchResult[], rolledBack: boolean) {
+    super(message);
+    this.name = 'RouteBatchError';
+    this.results = results;
+    this.rolledBack = rolledBack;
+  }
+}
+
+/**
+ * Save the route config in one all-or-nothing batch. `routes` is the full route list:
+ * entries with config are upserted, entries reset to defaults are deleted.
+ */
 export async function putRouteConfig(
   projectId: string,
   apiVersion: string,
-  routes: RouteEntry[]
+  routes: RouteEntry[],
+  options?: { onProgress?: (progress: RouteBatchProgress) => void }
 ): Promise<RouteConfig> {
-  const toSave = getRoutesWithConfig(routes);
-  const toSaveKeys = new Set(toSave.map((r) => `${r.method}:${r.path}`));
-
-  // Delete routes that were cleared (in the full list but have no config now)
-  const toDelete = routes.filter((r) => !toSaveKeys.has(`${r.method}:${r.path}`));
-  await Promise.all(
-    toDelete.map((entry) =>
-      deleteRouteEntry(projectId, apiVersion, entry.path, entry.method).catch((err) => {
-        console.warn('[putRouteConfig] Failed to delete stale route entry:', entry.method, entry.path, err);
-      })
-    )
-  );
-
-  const results = await Promise.all(
-    toSave.map((entry) => putRouteEntry(projectId, apiVersion, entry.path, entry.method, entry))
-  );
+  const upserts = getRoutesWithConfig(routes);
+  const upsertKeys = new Set(upserts.map((r) => `${r.method}:${r.path}`));
+  const body: RouteBatchRequest = {
+    upserts,
+    deletes: routes
+      .filter((r) => !upsertKeys.has(`${r.method}:${r.path}`))
+      .map((r) => ({ method: r.method, path: r.path, updated_at: r.updated_at })),
+  };
+
+  const url = `/api/route-configs/${encodeURIComponent(projectId)}/${encodeURIComponent(apiVersion)}/batch`;
+  const response = await fetch(url, {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const err = (await response.json().catch(() => ({}))) as { error?: string; results?: RouteBatchResult[] };
+    const message = err.error || `Failed to save route config: ${response.status}`;
+    if (response.status === 409 || response.status === 412) throw new ConflictError(message, response.status);
+    if (err.results) throw new RouteBatchError(message, err.results, true);
+    throw new Error(message);
+  }
+
+  let result: Extract<RouteBatchEvent, { type: 'result' }> | null = null;
+  const reader = response.body?.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  while (reader) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split('\n');
+    buffered = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line) as RouteBatchEvent;
+      if (event.type === 'progress') options?.onProgress?.(event);
+      else result = event;
+    }
+    if (done) break;
+  }
+
+  if (!result) throw new Error('Route config save ended without a result');
+  if (!result.ok) {
+    const message = result.error || 'Failed to save route config';
+    if (result.rolledBack && (result.status === 409 || result.status === 412)) {
+      throw new ConflictError(message, result.status);
+    }
+    throw new RouteBatchError(message, result.results, result.rolledBack ?? false);
+  }
   return {
     project_id: projectId,
     api_version: apiVersion,
-    routes: results,
+    routes: result.routes ?? [],
   };
 }
 
@@ -105,13 +216,21 @@ export async function putRouteEntry(
   const response = await fetch(url, {
     method: 'PUT',
     credentials: 'include',
-    headers: { 'Content-Type': 'application/json' },
+    headers: {
+      'Content-Type': 'application/json',
+      // Entries loaded from the server carry their version; new entries are saved unconditionally
+      ...(entry.updated_at ? { 'If-Match': routeETag(entry.updated_at) } : {}),
+    },
     body: JSON.stringify(entry),
   });
 
   if (!response.ok) {
     const err = await response.json().catch(() => ({}));
-    throw new Error((err as { error?: string }).error || `Failed to save route config: ${response.status}`);
+    const message = (err as { error?: string }).error;
+    if (response.status === 409 || response.status === 412) {
+      throw new ConflictError(message || `${method} ${path} was changed by someone else`, response.status);
+    }
+    throw new Error(message || `Failed to save route config: ${response.status}`);
   }
 
   return response.json() as Promise<RouteEntry>;
@@ -121,7 +240,8 @@ export async function deleteRouteEntry(
   projectId: string,
   apiVersion: string,
   path: string,
-  method: string
+  method: string,
+  updatedAt?: string
 ): Promise<void> {
   // URL structure mirrors putRouteEntry — see comment there.
   const normalizedPath = path.length > 1 ? path.replace(/\/+$/, '') : path;
@@ -129,10 +249,15 @@ export async function deleteRouteEntry(
   const response = await fetch(url, {
     method: 'DELETE',
     credentials: 'include',
+    headers: updatedAt ? { 'If-Match': routeETag(updatedAt) } : undefined,
   });
 
   if (!response.ok && response.status !== 404) {
     const err = await response.json().catch(() => ({}));
-    throw new Error((err as { error?: string }).error || `Failed to delete route config: ${response.status}`);
+    const message = (err as { error?: string }).error;
+    if (response.status === 409 || response.status === 412) {
+      throw new ConflictError(message || `${method} ${path} was changed by someone else`, response.status);
+    }
+    throw new Error(message || `Failed to delete route config: ${response.status}`);
   }
 }
@@ -0,0 +1,120 @@
+import type { TupleKey } from '@/lib/openfga-evaluator';
+
+export type { TupleKey };
+
+export interface StoredTuple extends TupleKey {
+  /** When the tuple was written (RFC 3339) */
+  timestamp?: string;
+}
+
+export interface TuplePage {
+  tuples: StoredTuple[];
+  /** Pass to the next listTuples call; null on the last page */
+  continuation_token: string | null;
+}
+
+/** Any subset of the fields; an object filter may be just `type:` to match every object of a type. */
+export interface TupleFilter {
+  user?: string;
+  relation?: string;
+  object?: string;
+}
+
+/** Body of POST /api/tuples/:projectName/:apiVersion. */
+export interface TupleWriteRequest {
+  writes?: TupleKey[];
+  deletes?: TupleKey[];
+}
+
+/** A tuple rejected by validation, with its position in writes (or deletes). */
+export interface TupleIssue {
+  index: number;
+  operation: 'write' | 'delete';
+  message: string;
+}
+
+/** policies-api applies at most this many writes plus deletes per request, all or nothing. */
+export const MAX_TUPLES_PER_WRITE = 100;
+
+export class TupleValidationError extends Error {
+  constructor(message: string, public issues: TupleIssue[]) {
+    super(message);
+    this.name = 'TupleValidationError';
+  }
+}
+
+function tuplesUrl(projectId: string, apiVersion: string, tenantId: string, query: Record<string, string> = {}): string {
+  const search = new URLSearchParams({ tenantId, ...query });
+  return `/api/tuples/${encodeURIComponent(projectId)}/${encodeURIComponent(apiVersion)}?${search}`;
+}
+
+export async function listTuples(
+  projectId: string,
+  apiVersion: string,
+  tenantId: string,
+  options: TupleFilter & { pageSize?: number; continuationToken?: string | null } = {}
+): Promise<TuplePage> {
+  const query: Record<string, string> = {};
+  if (options.user) query.user = options.user;
+  if (options.relation) query.relation = options.relation;
+  if (options.object) query.object = options.object;
+  if (options.pageSize) query.page_size = String(options.pageSize);
+  if (options.continuationToken) query.continuation_token = options.continuationToken;
+
+  const response = await fetch(tuplesUrl(projectId, apiVersion, tenantId, query), { credentials: 'include' });
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error((err as { error?: string }).error || `Failed to list tuples: ${response.status}`);
+  }
+  return response.json() as Promise<TuplePage>;
+}
+
+/** Writes and deletes in one transaction; throws TupleValidationError when the server rejects tuples. */
+export async function writeTuples(
+  projectId: string,
+  apiVersion: string,
+  tenantId: string,
+  request: TupleWriteRequest
+): Promise<void> {
+  const response = await fetch(tuplesUrl(projectId, apiVersion, tenantId), {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) {
+    const err = (await response.json().catch(() => ({}))) as { error?: string; issues?: TupleIssue[] };
+    if (err.issues?.length) throw new TupleValidationError(err.error || 'Invalid tuples', err.issues);
+    throw new Error(err.error || `Failed to write tuples: ${response.status}`);
+  }
+}
+
+/**
+ * Writes `tuples` in chunks of MAX_TUPLES_PER_WRITE. Each chunk is atomic, but the import as a
+ * whole is not: on failure the error reports how many tuples were already written.
+ */
+export async function importTuples(
+  projectId: string,
+  apiVersion: string,
+  tenantId: string,
+  tuples: TupleKey[],
+  onProgress?: (written: number) => void
+): Promise<void> {
+  for (let start = 0; start < tuples.length; start += MAX_TUPLES_PER_WRITE) {
+    const chunk = tuples.slice(start, start + MAX_TUPLES_PER_WRITE);
+    try {
+      await writeTuples(projectId, apiVersion, tenantId, { writes: chunk });
+    } catch (e) {
+      if (e instanceof TupleValidationError) {
+        // Report positions relative to the whole import
+        throw new TupleValidationError(
+          `${e.message} (${start} of ${tuples.length} written)`,
+          e.issues.map((issue) => ({ ...issue, index: issue.index + start }))
+        );
+      }
+      const message = e instanceof Error ? e.message : 'Write failed';
+      throw new Error(`${message} (${start} of ${tuples.length} written)`);
+    }
+    onProgress?.(start + chunk.length);
+  }
+}
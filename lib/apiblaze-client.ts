@@ -4,7 +4,44 @@
  * Handles authenticated requests to the internal admin API with JWT user assertions
  */
 
+import crypto from 'crypto';
+import type { z } from 'zod';
 import { createJWTSigner, UserAssertionClaims } from './jwt-signer';
+import { adminApiBase } from './backend-urls';
+import { backoffDelay, circuitBreakerFor, retryAfterMs } from './circuit-breaker';
+import { currentRequestId, errorFields, logEvent } from './logger';
+import {
+  addedGroupMembersSchema,
+  appClientListSchema,
+  appClientLookupSchema,
+  appClientSchema,
+  appClientSecretListSchema,
+  attachedTenantSchema,
+  authConfigListSchema,
+  authConfigSchema,
+  clientSecretSchema,
+  createdProjectSchema,
+  createdTenantSchema,
+  deploymentHistorySchema,
+  endUserPageSchema,
+  endUserSchema,
+  groupListSchema,
+  groupSchema,
+  noContentSchema,
+  projectConfigUpdateSchema,
+  projectExistsSchema,
+  projectListSchema,
+  projectSchema,
+  projectStatusSchema,
+  projectTenantsSchema,
+  providerListSchema,
+  providerSchema,
+  revokedSessionsSchema,
+  rollbackDeploymentSchema,
+  rotatedClientSecretSchema,
+  teamTenantsSchema,
+  tenantAuthConfigSchema,
+} from './admin-api-schemas';
 
 type APIErrorBody = {
   error?: string;
@@ -19,7 +56,12 @@ export interface CreateProxyPayload {
   display_name?: string;
   subdomain?: string;
   auth_type?: 'none' | 'api_key' | 'oauth';
-  openapi?: string;
+  /** Spec source or parsed spec */
+  openapi?: string | Record<string, unknown>;
+  username?: string;
+  team_id?: string;
+  /** Tenant the project's sign-in runs under */
+  tenant?: string;
   github?: {
     owner: string;
     repo: string;
@@ -59,6 +101,53 @@ interface APIBlazeClientOptions {
   baseUrl?: string;
   jwtPrivateKey?: string;
   jwtPrivateKeyPath?: string;
+  /** Per-attempt timeout (default APIBLAZE_ADMIN_API_TIMEOUT_MS or 15s) */
+  timeoutMs?: number;
+  /** Retries after the first attempt for retryable requests (default APIBLAZE_ADMIN_API_RETRIES or 2) */
+  retries?: number;
+  /** Sent as X-Request-Id (default: the id middleware.ts assigned to the request being served) */
+  requestId?: string;
+}
+
+/** Per-request overrides for APIBlazeClient.request */
+interface RequestControls {
+  timeoutMs?: number;
+  retries?: number;
+  /**
+   * Sent as Idempotency-Key and kept across retries, so a POST/PATCH whose response was lost
+   * can be retried without creating the resource twice. Without it only GET, HEAD, PUT and
+   * DELETE are retried.
+   */
+  idempotencyKey?: string;
+}
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+function envNumber(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+/**
+ * "Invalid input" on a union says nothing; report the issues of the branch that got furthest
+ * (deepest issue path), e.g. `tenants.0.tenant_name: Required` rather than `tenants.0`
+ */
+function flattenIssues(issues: z.ZodIssue[]): z.ZodIssue[] {
+  return issues.flatMap((issue) => {
+    if (issue.code !== 'invalid_union' || issue.unionErrors.length === 0) return [issue];
+    const depth = (e: z.ZodError) => Math.max(...e.issues.map((i) => i.path.length));
+    const closest = issue.unionErrors.reduce((best, e) => (depth(e) > depth(best) ? e : best));
+    return flattenIssues(closest.issues);
+  });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function newIdempotencyKey(): string {
+  return crypto.randomUUID();
 }
 
 export class APIBlazeError extends Error {
@@ -73,14 +162,52 @@ export class APIBlazeError extends Error {
   }
 }
 
+/** The admin API answered, but not in the shape its response schema expects. */
+export class AdminApiSchemaError extends APIBlazeError {
+  issues: Array<{ path: string; message: string }>;
+
+  constructor(method: string, path: string, schemaName: string, issues: z.ZodIssue[]) {
+    const summary = issues
+      .slice(0, 5)
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    super(502, {
+      error: 'Unexpected response from the admin API',
+      details: `${method} ${path.split('?')[0]} (${schemaName}): ${summary}`,
+    });
+    this.name = 'AdminApiSchemaError';
+    this.issues = issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+  }
+}
+
+/** Thrown without calling the admin API while its circuit breaker is open. */
+export class UpstreamUnavailableError extends APIBlazeError {
+  retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number) {
+    super(503, {
+      error: 'APIBlaze is temporarily unavailable',
+      details: `The admin API failed repeatedly; retry in ${retryAfterSeconds}s`,
+    });
+    this.name = 'UpstreamUnavailableError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
 export class APIBlazeClient {
   private apiKey: string;
   private baseUrl: string;
   private jwtSigner: ReturnType<typeof createJWTSigner>;
+  private timeoutMs: number;
+  private retries: number;
+  private requestId?: string;
 
   constructor(options: APIBlazeClientOptions) {
     this.apiKey = options.apiKey;
-    this.baseUrl = options.baseUrl || 'https://internalapi.apiblaze.com';
+    this.baseUrl = options.baseUrl || adminApiBase();
+    this.timeoutMs = options.timeoutMs ?? envNumber('APIBLAZE_ADMIN_API_TIMEOUT_MS') ?? 15_000;
+    this.retries = options.retries ?? envNumber('APIBLAZE_ADMIN_API_RETRIES') ?? 2;
+    this.requestId = options.requestId;
     
     this.jwtSigner = createJWTSigner({
       privateKey: options.jwtPrivateKey,
@@ -89,17 +216,9 @@ export class APIBlazeClient {
   }
 
   /**
-   * Make an authenticated request to the admin API
+   * Build admin API headers: API key plus a JWT user assertion bound to the body hash
    */
-  async request<T = unknown>(
-    path: string,
-    options: RequestInit & {
-      userClaims: UserAssertionClaims;
-    }
-  ): Promise<T> {
-    const { userClaims, ...fetchOptions } = options;
-    
-    // Prepare headers
+  private buildHeaders(userClaims: UserAssertionClaims, fetchOptions: RequestInit): Headers {
     const headers = new Headers(fetchOptions.headers);
     headers.set('Content-Type', 'application/json');
     headers.set('X-API-KEY', this.apiKey);
@@ -110,25 +229,123 @@ export class APIBlazeClient {
       fetchOptions.body
     );
     headers.set('X-User-Assertion', userAssertion);
-    
+    return headers;
+  }
+
+  /**
+   * fetch with a per-attempt timeout; network failures and timeouts become APIBlazeError
+   * (502 / 504) so callers see them like any other upstream failure
+   */
+  private async fetchAttempt(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const callerSignal = init.signal;
+    const onCallerAbort = () => controller.abort(callerSignal?.reason);
+    callerSignal?.addEventListener('abort', onCallerAbort);
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (callerSignal?.aborted) throw error;
+      if (controller.signal.aborted) {
+        throw new APIBlazeError(504, {
+          error: 'Admin API request timed out',
+          details: `No response within ${timeoutMs} ms`,
+        });
+      }
+      throw new APIBlazeError(502, {
+        error: 'Admin API unreachable',
+        details: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', onCallerAbort);
+    }
+  }
+
+  /**
+   * Make an authenticated request to the admin API.
+   *
+   * Each attempt has a timeout; network errors, timeouts and 502/503/504 are retried with
+   * jittered exponential backoff when the request is safe to repeat (idempotent method or an
+   * idempotency key). Repeated failures open a circuit breaker shared by all clients of the
+   * same base URL, after which requests fail fast with UpstreamUnavailableError.
+   */
+  async request<T = unknown>(
+    path: string,
+    options: RequestInit & RequestControls & {
+      userClaims: UserAssertionClaims;
+      /** Checked against the decoded body (undefined for 204 / non-JSON); see lib/admin-api-schemas.ts */
+      schema?: z.ZodType<T, z.ZodTypeDef, unknown>;
+    }
+  ): Promise<T> {
+    const {
+      userClaims,
+      schema,
+      timeoutMs = this.timeoutMs,
+      retries = this.retries,
+      idempotencyKey,
+      ...fetchOptions
+    } = options;
+    const method = (fetchOptions.method || 'GET').toUpperCase();
+    const retryable = IDEMPOTENT_METHODS.has(method) || !!idempotencyKey;
+    const breaker = circuitBreakerFor(this.baseUrl);
+    const requestId = this.requestId ?? (await currentRequestId());
+
     // Make request
     const fullUrl = `${this.baseUrl}${path}`;
-    console.log('APIBlaze request:', {
-      method: fetchOptions.method || 'GET',
-      url: fullUrl,
-      hasBody: !!fetchOptions.body,
-    });
-    
-    const response = await fetch(fullUrl, {
-      ...fetchOptions,
-      headers,
-      cache: 'no-store',
-    });
+    let response: Response;
+    for (let attempt = 0; ; attempt++) {
+      if (!breaker.tryAcquire()) {
+        logEvent('warn', 'admin_api.circuit_open', { request_id: requestId, method, path: path.split('?')[0] });
+        throw new UpstreamUnavailableError(breaker.retryAfterSeconds());
+      }
+
+      const started = Date.now();
+      const logAttempt = (status: number, extra: Record<string, unknown> = {}) =>
+        logEvent(status >= 500 ? 'warn' : 'info', 'admin_api.request', {
+          request_id: requestId,
+          method,
+          path: path.split('?')[0],
+          status,
+          duration_ms: Date.now() - started,
+          attempt: attempt + 1,
+          sub: userClaims.sub,
+          ...extra,
+        });
+
+      let retryDelay: number | null = null;
+      try {
+        // Fresh assertion per attempt: each one carries its own jti
+        const headers = this.buildHeaders(userClaims, fetchOptions);
+        if (idempotencyKey) headers.set('Idempotency-Key', idempotencyKey);
+        if (requestId) headers.set('X-Request-Id', requestId);
+        response = await this.fetchAttempt(fullUrl, { ...fetchOptions, headers, cache: 'no-store' }, timeoutMs);
+        logAttempt(response.status);
+        if (!RETRYABLE_STATUSES.has(response.status)) {
+          breaker.recordSuccess();
+          break;
+        }
+        breaker.recordFailure();
+        if (!retryable || attempt >= retries) break;
+        retryDelay = retryAfterMs(response.headers.get('retry-after'));
+        await response.body?.cancel();
+      } catch (error) {
+        if (!(error instanceof APIBlazeError)) {
+          // Caller abort or local failure: says nothing about the upstream, so do not hold the probe
+          breaker.release();
+          throw error;
+        }
+        logAttempt(error.status, { error: error.body.error });
+        breaker.recordFailure();
+        if (!retryable || attempt >= retries) throw error;
+      }
+      await sleep(Math.min(retryDelay ?? backoffDelay(attempt), 10_000));
+    }
     
     // Handle 204 No Content responses first (before checking response.ok)
     // These responses have no body and should be treated as success
     if (response.status === 204 || response.status === 205 || response.status === 304) {
-      return undefined as T;
+      return this.checkResponse(schema, undefined, method, path, requestId);
     }
     
     if (!response.ok) {
@@ -139,24 +356,25 @@ export class APIBlazeClient {
         // If JSON parsing fails, try to get the response text
         try {
           const responseText = await response.text();
-          console.error('Failed to parse error body from APIBlaze response:', {
+          logEvent('error', 'admin_api.unreadable_error_body', {
+            request_id: requestId,
+            method,
+            path,
             status: response.status,
-            statusText: response.statusText,
-            url: `${this.baseUrl}${path}`,
-            responseText: responseText.substring(0, 500), // Limit to first 500 chars
-            jsonError,
+            response_text: responseText.substring(0, 500), // Limit to first 500 chars
+            ...errorFields(jsonError),
           });
           errorBody = { 
             error: `HTTP ${response.status}: ${response.statusText}`,
             details: responseText.substring(0, 500),
           };
         } catch (textError) {
-          console.error('Failed to parse error body from APIBlaze response:', {
+          logEvent('error', 'admin_api.unreadable_error_body', {
+            request_id: requestId,
+            method,
+            path,
             status: response.status,
-            statusText: response.statusText,
-            url: `${this.baseUrl}${path}`,
-            jsonError,
-            textError,
+            ...errorFields(textError),
           });
           errorBody = { 
             error: `HTTP ${response.status}: ${response.statusText}`,
@@ -166,13 +384,12 @@ export class APIBlazeClient {
       
       // Special handling: If DELETE operation returns 500 with "204 response cannot have body" error,
       // treat it as success since the deletion actually succeeded (backend bug)
-      const method = fetchOptions.method || 'GET';
       if (method === 'DELETE' && 
           response.status === 500 && 
           (errorBody.details?.toString().includes('204') || 
            errorBody.details?.toString().includes('null body status'))) {
-        console.warn('Backend returned 500 for DELETE but operation succeeded (204 body error), treating as success');
-        return undefined as T;
+        logEvent('warn', 'admin_api.delete_body_error_ignored', { request_id: requestId, path });
+        return this.checkResponse(schema, undefined, method, path, requestId);
       }
       
       throw new APIBlazeError(response.status, errorBody);
@@ -182,11 +399,117 @@ export class APIBlazeClient {
     const contentType = response.headers.get('content-type');
     if (!contentType || !contentType.includes('application/json')) {
       // If no JSON content type, return empty object or undefined
-      return undefined as T;
+      return this.checkResponse(schema, undefined, method, path, requestId);
     }
     
-    const responseBody = (await response.json()) as T;
-    return responseBody;
+    const responseBody: unknown = await response.json();
+    return this.checkResponse(schema, responseBody, method, path, requestId);
+  }
+
+  /**
+   * Validate a decoded response against its schema; drift is logged with every issue and
+   * raised as AdminApiSchemaError (a 502 to the dashboard's own callers)
+   */
+  private checkResponse<T>(
+    schema: z.ZodType<T, z.ZodTypeDef, unknown> | undefined,
+    body: unknown,
+    method: string,
+    path: string,
+    requestId: string | undefined
+  ): T {
+    if (!schema) return body as T;
+    const result = schema.safeParse(body);
+    if (result.success) return result.data;
+    const schemaName = schema.description ?? 'response';
+    const issues = flattenIssues(result.error.issues);
+    logEvent('error', 'admin_api.schema_drift', {
+      request_id: requestId,
+      method,
+      path: path.split('?')[0],
+      schema: schemaName,
+      issues: issues.map((issue) => ({
+        path: issue.path.join('.') || '(root)',
+        code: issue.code,
+        message: issue.message,
+        ...('expected' in issue && { expected: issue.expected, received: issue.received }),
+      })),
+    });
+    throw new AdminApiSchemaError(method, path, schemaName, issues);
+  }
+
+  /**
+   * Open a streaming (Server-Sent Events) request to the admin API.
+   * Returns the raw Response so the caller can relay its body; non-2xx responses throw APIBlazeError.
+   */
+  async stream(
+    path: string,
+    options: RequestInit & {
+      userClaims: UserAssertionClaims;
+    }
+  ): Promise<Response> {
+    const { userClaims, ...fetchOptions } = options;
+    const breaker = circuitBreakerFor(this.baseUrl);
+    if (!breaker.tryAcquire()) {
+      throw new UpstreamUnavailableError(breaker.retryAfterSeconds());
+    }
+    let headers: Headers;
+    let requestId: string | undefined;
+    try {
+      headers = this.buildHeaders(userClaims, fetchOptions);
+      headers.set('Accept', 'text/event-stream');
+      requestId = this.requestId ?? (await currentRequestId());
+      if (requestId) headers.set('X-Request-Id', requestId);
+    } catch (error) {
+      breaker.release();
+      throw error;
+    }
+
+    const fullUrl = `${this.baseUrl}${path}`;
+    const logFields = {
+      request_id: requestId,
+      method: (fetchOptions.method || 'GET').toUpperCase(),
+      path: path.split('?')[0],
+      sub: userClaims.sub,
+    };
+    const started = Date.now();
+
+    let response: Response;
+    try {
+      response = await fetch(fullUrl, {
+        ...fetchOptions,
+        headers,
+        cache: 'no-store',
+      });
+    } catch (error) {
+      if (fetchOptions.signal?.aborted) breaker.release();
+      else breaker.recordFailure();
+      logEvent('warn', 'admin_api.stream', {
+        ...logFields,
+        duration_ms: Date.now() - started,
+        ...errorFields(error),
+      });
+      throw error;
+    }
+    // duration_ms is the time to the response headers; the stream itself stays open
+    logEvent(response.status >= 500 ? 'warn' : 'info', 'admin_api.stream', {
+      ...logFields,
+      status: response.status,
+      duration_ms: Date.now() - started,
+    });
+    if (RETRYABLE_STATUSES.has(response.status)) breaker.recordFailure();
+    else breaker.recordSuccess();
+
+    if (!response.ok || !response.body) {
+      let errorBody: APIErrorBody = { error: `HTTP ${response.status}: ${response.statusText}` };
+      try {
+        errorBody = (await response.json()) as APIErrorBody;
+      } catch {
+        // Keep the default error body
+      }
+      throw new APIBlazeError(response.status, errorBody);
+    }
+
+    return response;
   }
 
   /**
@@ -198,6 +521,10 @@ export class APIBlazeClient {
   ) {
     return this.request('/', {
       method: 'POST',
+      schema: createdProjectSchema,
+      idempotencyKey: newIdempotencyKey(),
+      // Creation deploys the proxy before answering
+      timeoutMs: 60_000,
       body: JSON.stringify(proxyData),
       userClaims,
     });
@@ -206,7 +533,7 @@ export class APIBlazeClient {
   /**
    * List proxies
    */
-  async checkProjectExists(userClaims: UserAssertionClaims, name?: string, subdomain?: string, apiVersion?: string): Promise<{ exists: boolean; project_id?: string; api_version?: string }> {
+  async checkProjectExists(userClaims: UserAssertionClaims, name?: string, subdomain?: string, apiVersion?: string) {
     const queryParams = new URLSearchParams();
     if (name) queryParams.append('name', name);
     if (subdomain) queryParams.append('subdomain', subdomain);
@@ -214,6 +541,7 @@ export class APIBlazeClient {
     
     return this.request(`/projects/check?${queryParams.toString()}`, {
       method: 'GET',
+      schema: projectExistsSchema,
       userClaims,
     });
   }
@@ -226,17 +554,13 @@ export class APIBlazeClient {
     userClaims: UserAssertionClaims,
     projectName: string,
     apiVersion: string
-  ): Promise<{
-    exists: boolean;
-    project_id: string | null;
-    api_version: string | null;
-    message?: string;
-  }> {
+  ) {
     const queryParams = new URLSearchParams();
     queryParams.set('projectName', projectName);
     queryParams.set('apiVersion', apiVersion);
     return this.request(`/checkProjectName?${queryParams.toString()}`, {
       method: 'GET',
+      schema: projectExistsSchema,
       userClaims,
     });
   }
@@ -258,6 +582,7 @@ export class APIBlazeClient {
     const query = queryParams.toString();
     return this.request(`/projects${query ? `?${query}` : ''}`, {
       method: 'GET',
+      schema: projectListSchema,
       userClaims,
     });
   }
@@ -272,6 +597,7 @@ export class APIBlazeClient {
   ) {
     return this.request(`/${projectId}/${version}`, {
       method: 'DELETE',
+      schema: noContentSchema,
       userClaims,
     });
   }
@@ -282,10 +608,68 @@ export class APIBlazeClient {
   async getProjectStatus(userClaims: UserAssertionClaims, projectId: string) {
     return this.request(`/projects/${projectId}/status`, {
       method: 'GET',
+      schema: projectStatusSchema,
       userClaims,
     });
   }
 
+  /**
+   * List past deployments for a project version (most recent first)
+   */
+  async listDeployments(
+    userClaims: UserAssertionClaims,
+    projectId: string,
+    version: string
+  ) {
+    return this.request(`/projects/${encodeURIComponent(projectId)}/${encodeURIComponent(version)}/deployments`, {
+      method: 'GET',
+      schema: deploymentHistorySchema,
+      userClaims,
+    });
+  }
+
+  /**
+   * Redeploy the config snapshot of a previous deployment
+   */
+  async rollbackDeployment(
+    userClaims: UserAssertionClaims,
+    projectId: string,
+    version: string,
+    deploymentId: string
+  ) {
+    return this.request(
+      `/projects/${encodeURIComponent(projectId)}/${encodeURIComponent(version)}/deployments/${encodeURIComponent(deploymentId)}/rollback`,
+      {
+        method: 'POST',
+        schema: rollbackDeploymentSchema,
+        idempotencyKey: newIdempotencyKey(),
+        timeoutMs: 60_000,
+        userClaims,
+      }
+    );
+  }
+
+  /**
+   * Stream build and deploy log lines for a deployment as Server-Sent Events.
+   * Completed deployments replay their full log and then emit a `done` event.
+   */
+  async streamDeploymentLogs(
+    userClaims: UserAssertionClaims,
+    projectId: string,
+    version: string,
+    deploymentId: string,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    return this.stream(
+      `/projects/${encodeURIComponent(projectId)}/${encodeURIComponent(version)}/deployments/${encodeURIComponent(deploymentId)}/logs`,
+      {
+        method: 'GET',
+        userClaims,
+        signal,
+      }
+    );
+  }
+
   /**
    * Update project config (without redeployment)
    */
@@ -293,11 +677,25 @@ export class APIBlazeClient {
     userClaims: UserAssertionClaims,
     projectId: string,
     version: string,
-    config: Record<string, unknown>
+    config: Record<string, unknown>,
+    options?: { ifMatch?: string }
   ) {
     return this.request(`/${projectId}/${version}/config`, {
       method: 'PATCH',
+      schema: projectConfigUpdateSchema,
       body: JSON.stringify(config),
+      headers: options?.ifMatch ? { 'If-Match': options.ifMatch } : undefined,
+      userClaims,
+    });
+  }
+
+  /**
+   * Get a single project version (including its config and updated_at)
+   */
+  async getProxy(userClaims: UserAssertionClaims, projectId: string, version: string) {
+    return this.request(`/${projectId}/${version}`, {
+      method: 'GET',
+      schema: projectSchema,
       userClaims,
     });
   }
@@ -311,6 +709,8 @@ export class APIBlazeClient {
   ) {
     return this.request('/auth-configs', {
       method: 'POST',
+      schema: authConfigSchema,
+      idempotencyKey: newIdempotencyKey(),
       body: JSON.stringify(data),
       userClaims,
     });
@@ -319,6 +719,7 @@ export class APIBlazeClient {
   async listAuthConfigs(userClaims: UserAssertionClaims) {
     return this.request('/auth-configs', {
       method: 'GET',
+      schema: authConfigListSchema,
       userClaims,
     });
   }
@@ -326,6 +727,7 @@ export class APIBlazeClient {
   async getAuthConfig(userClaims: UserAssertionClaims, authConfigId: string) {
     return this.request(`/auth-configs/${authConfigId}`, {
       method: 'GET',
+      schema: authConfigSchema,
       userClaims,
     });
   }
@@ -337,6 +739,7 @@ export class APIBlazeClient {
   ) {
     return this.request(`/auth-configs/${authConfigId}`, {
       method: 'PATCH',
+      schema: authConfigSchema,
       body: JSON.stringify(data),
       userClaims,
     });
@@ -345,6 +748,7 @@ export class APIBlazeClient {
   async deleteAuthConfig(userClaims: UserAssertionClaims, authConfigId: string) {
     return this.request(`/auth-configs/${authConfigId}`, {
       method: 'DELETE',
+      schema: noContentSchema,
       userClaims,
     });
   }
@@ -372,6 +776,8 @@ export class APIBlazeClient {
   ) {
     return this.request(`/auth-configs/${authConfigId}/app-clients`, {
       method: 'POST',
+      schema: appClientSchema,
+      idempotencyKey: newIdempotencyKey(),
       body: JSON.stringify(data),
       userClaims,
     });
@@ -380,6 +786,7 @@ export class APIBlazeClient {
   async listAppClients(userClaims: UserAssertionClaims, authConfigId: string) {
     return this.request(`/auth-configs/${authConfigId}/app-clients`, {
       method: 'GET',
+      schema: appClientListSchema,
       userClaims,
     });
   }
@@ -388,9 +795,10 @@ export class APIBlazeClient {
   async lookupAppClient(
     userClaims: UserAssertionClaims,
     clientId: string
-  ): Promise<{ authConfigId: string; client: Record<string, unknown> }> {
+  ) {
     return this.request(`/auth-configs/lookup-client/${encodeURIComponent(clientId)}`, {
       method: 'GET',
+      schema: appClientLookupSchema,
       userClaims,
     });
   }
@@ -402,6 +810,7 @@ export class APIBlazeClient {
   ) {
     return this.request(`/auth-configs/${authConfigId}/app-clients/${clientId}`, {
       method: 'GET',
+      schema: appClientSchema,
       userClaims,
     });
   }
@@ -410,9 +819,10 @@ export class APIBlazeClient {
     userClaims: UserAssertionClaims,
     authConfigId: string,
     clientId: string
-  ): Promise<{ clientSecret: string }> {
+  ) {
     return this.request(`/auth-configs/${authConfigId}/app-clients/${clientId}/secret`, {
       method: 'GET',
+      schema: clientSecretSchema,
       userClaims,
     });
   }
@@ -421,10 +831,11 @@ export class APIBlazeClient {
     userClaims: UserAssertionClaims,
     teamId: string,
     detail?: boolean
-  ): Promise<{ tenants: string[] } | { tenants: Array<{ tenant_name: string; display_name: string; app_clients_count: number; proxies: Array<{ project_id: string; api_version: string }> }> }> {
+  ) {
     const q = detail ? '?detail=1' : '';
     return this.request(`/teams/${encodeURIComponent(teamId)}/tenants${q}`, {
       method: 'GET',
+      schema: teamTenantsSchema,
       userClaims,
     });
   }
@@ -434,8 +845,10 @@ export class APIBlazeClient {
     teamId: string,
     data: { display_name: string; tenant_name?: string }
   ) {
-    return this.request<{ tenant_name: string; display_name: string }>(`/teams/${encodeURIComponent(teamId)}/tenants`, {
+    return this.request(`/teams/${encodeURIComponent(teamId)}/tenants`, {
       method: 'POST',
+      schema: createdTenantSchema,
+      idempotencyKey: newIdempotencyKey(),
       body: JSON.stringify(data),
       userClaims,
     });
@@ -445,10 +858,10 @@ export class APIBlazeClient {
     userClaims: UserAssertionClaims,
     teamId: string,
     tenantName: string
-  ): Promise<Array<Record<string, unknown>>> {
+  ) {
     return this.request(
       `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/app-clients`,
-      { method: 'GET', userClaims }
+      { method: 'GET', schema: appClientListSchema, userClaims }
     );
   }
 
@@ -457,10 +870,10 @@ export class APIBlazeClient {
     teamId: string,
     tenantName: string,
     clientId: string
-  ): Promise<Record<string, unknown>> {
+  ) {
     return this.request(
       `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/app-clients/${encodeURIComponent(clientId)}`,
-      { method: 'GET', userClaims }
+      { method: 'GET', schema: appClientSchema, userClaims }
     );
   }
 
@@ -469,10 +882,56 @@ export class APIBlazeClient {
     teamId: string,
     tenantName: string,
     clientId: string
-  ): Promise<{ clientSecret: string }> {
+  ) {
     return this.request(
       `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/app-clients/${encodeURIComponent(clientId)}/secret`,
-      { method: 'GET', userClaims }
+      { method: 'GET', schema: clientSecretSchema, userClaims }
+    );
+  }
+
+  async listAppClientSecretsByTenant(
+    userClaims: UserAssertionClaims,
+    teamId: string,
+    tenantName: string,
+    clientId: string
+  ) {
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/app-clients/${encodeURIComponent(clientId)}/secrets`,
+      { method: 'GET', schema: appClientSecretListSchema, userClaims }
+    );
+  }
+
+  /** Issues a new current secret; the replaced one keeps working for `grace_period_seconds`. */
+  async rotateAppClientSecretByTenant(
+    userClaims: UserAssertionClaims,
+    teamId: string,
+    tenantName: string,
+    clientId: string,
+    data: { grace_period_seconds: number }
+  ) {
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/app-clients/${encodeURIComponent(clientId)}/secrets/rotate`,
+      {
+        method: 'POST',
+        schema: rotatedClientSecretSchema,
+        body: JSON.stringify(data),
+        idempotencyKey: newIdempotencyKey(),
+        userClaims,
+      }
+    );
+  }
+
+  /** Ends the grace period of a previous secret now. The current secret cannot be revoked. */
+  async revokeAppClientSecretByTenant(
+    userClaims: UserAssertionClaims,
+    teamId: string,
+    tenantName: string,
+    clientId: string,
+    secretId: string
+  ) {
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/app-clients/${encodeURIComponent(clientId)}/secrets/${encodeURIComponent(secretId)}`,
+      { method: 'DELETE', schema: noContentSchema, userClaims }
     );
   }
 
@@ -481,10 +940,10 @@ export class APIBlazeClient {
     teamId: string,
     tenantName: string,
     data: Record<string, unknown>
-  ): Promise<Record<string, unknown>> {
+  ) {
     return this.request(
       `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/app-clients`,
-      { method: 'POST', body: JSON.stringify(data), userClaims }
+      { method: 'POST', schema: appClientSchema, body: JSON.stringify(data), idempotencyKey: newIdempotencyKey(), userClaims }
     );
   }
 
@@ -494,10 +953,10 @@ export class APIBlazeClient {
     tenantName: string,
     clientId: string,
     data: Record<string, unknown>
-  ): Promise<Record<string, unknown>> {
+  ) {
     return this.request(
       `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/app-clients/${encodeURIComponent(clientId)}`,
-      { method: 'PATCH', body: JSON.stringify(data), userClaims }
+      { method: 'PATCH', schema: appClientSchema, body: JSON.stringify(data), userClaims }
     );
   }
 
@@ -506,10 +965,10 @@ export class APIBlazeClient {
     teamId: string,
     tenantName: string,
     clientId: string
-  ): Promise<void> {
+  ) {
     return this.request(
       `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/app-clients/${encodeURIComponent(clientId)}`,
-      { method: 'DELETE', userClaims }
+      { method: 'DELETE', schema: noContentSchema, userClaims }
     );
   }
 
@@ -517,9 +976,10 @@ export class APIBlazeClient {
     userClaims: UserAssertionClaims,
     projectId: string,
     version: string
-  ): Promise<{ tenants: Array<{ tenant_name: string; display_name: string }> }> {
+  ) {
     return this.request(`/projects/${encodeURIComponent(projectId)}/${encodeURIComponent(version)}/tenants`, {
       method: 'GET',
+      schema: projectTenantsSchema,
       userClaims,
     });
   }
@@ -530,10 +990,12 @@ export class APIBlazeClient {
     version: string,
     data: { tenant_name: string; display_name?: string; auth_config_id?: string }
   ) {
-    return this.request<{ success: boolean; tenant_name: string; display_name: string; url: string }>(
+    return this.request(
       `/projects/${encodeURIComponent(projectId)}/${encodeURIComponent(version)}/tenants`,
       {
         method: 'POST',
+        schema: attachedTenantSchema,
+        idempotencyKey: newIdempotencyKey(),
         body: JSON.stringify(data),
         userClaims,
       }
@@ -545,10 +1007,10 @@ export class APIBlazeClient {
     projectId: string,
     version: string,
     tenantName: string
-  ): Promise<{ requests_auth: Record<string, unknown> | null; default_app_client_id: string | null }> {
+  ) {
     return this.request(
       `/projects/${encodeURIComponent(projectId)}/${encodeURIComponent(version)}/tenants/${encodeURIComponent(tenantName)}/auth`,
-      { method: 'GET', userClaims }
+      { method: 'GET', schema: tenantAuthConfigSchema, userClaims }
     );
   }
 
@@ -557,11 +1019,12 @@ export class APIBlazeClient {
     projectId: string,
     version: string,
     tenantName: string
-  ): Promise<void> {
+  ) {
     return this.request(
       `/projects/${encodeURIComponent(projectId)}/${encodeURIComponent(version)}/tenants/${encodeURIComponent(tenantName)}`,
       {
         method: 'DELETE',
+        schema: noContentSchema,
         userClaims,
       }
     );
@@ -585,6 +1048,7 @@ export class APIBlazeClient {
   ) {
     return this.request(`/auth-configs/${authConfigId}/app-clients/${clientId}`, {
       method: 'PATCH',
+      schema: appClientSchema,
       body: JSON.stringify(data),
       userClaims,
     });
@@ -597,6 +1061,7 @@ export class APIBlazeClient {
   ) {
     return this.request(`/auth-configs/${authConfigId}/app-clients/${clientId}`, {
       method: 'DELETE',
+      schema: noContentSchema,
       userClaims,
     });
   }
@@ -622,6 +1087,8 @@ export class APIBlazeClient {
   ) {
     return this.request(`/auth-configs/${authConfigId}/app-clients/${clientId}/providers`, {
       method: 'POST',
+      schema: providerSchema,
+      idempotencyKey: newIdempotencyKey(),
       body: JSON.stringify(data),
       userClaims,
     });
@@ -646,6 +1113,7 @@ export class APIBlazeClient {
   ) {
     return this.request(`/auth-configs/${authConfigId}/app-clients/${clientId}/providers/${providerId}`, {
       method: 'PATCH',
+      schema: providerSchema,
       body: JSON.stringify(data),
       userClaims,
     });
@@ -658,6 +1126,7 @@ export class APIBlazeClient {
   ) {
     return this.request(`/auth-configs/${authConfigId}/app-clients/${clientId}/providers`, {
       method: 'GET',
+      schema: providerListSchema,
       userClaims,
     });
   }
@@ -670,6 +1139,7 @@ export class APIBlazeClient {
   ) {
     return this.request(`/auth-configs/${authConfigId}/app-clients/${clientId}/providers/${providerId}`, {
       method: 'DELETE',
+      schema: noContentSchema,
       userClaims,
     });
   }
@@ -679,9 +1149,10 @@ export class APIBlazeClient {
     authConfigId: string,
     clientId: string,
     providerId: string
-  ): Promise<{ clientSecret: string }> {
+  ) {
     return this.request(`/auth-configs/${authConfigId}/app-clients/${clientId}/providers/${providerId}/secret`, {
       method: 'GET',
+      schema: clientSecretSchema,
       userClaims,
     });
   }
@@ -694,7 +1165,7 @@ export class APIBlazeClient {
   ) {
     return this.request(
       `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/app-clients/${encodeURIComponent(clientId)}/providers`,
-      { method: 'GET', userClaims }
+      { method: 'GET', schema: providerListSchema, userClaims }
     );
   }
 
@@ -707,7 +1178,7 @@ export class APIBlazeClient {
   ) {
     return this.request(
       `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/app-clients/${encodeURIComponent(clientId)}/providers`,
-      { method: 'POST', body: JSON.stringify(data), userClaims }
+      { method: 'POST', schema: providerSchema, body: JSON.stringify(data), idempotencyKey: newIdempotencyKey(), userClaims }
     );
   }
 
@@ -721,7 +1192,7 @@ export class APIBlazeClient {
   ) {
     return this.request(
       `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/app-clients/${encodeURIComponent(clientId)}/providers/${encodeURIComponent(providerId)}`,
-      { method: 'PATCH', body: JSON.stringify(data), userClaims }
+      { method: 'PATCH', schema: providerSchema, body: JSON.stringify(data), userClaims }
     );
   }
 
@@ -734,7 +1205,7 @@ export class APIBlazeClient {
   ) {
     return this.request(
       `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/app-clients/${encodeURIComponent(clientId)}/providers/${encodeURIComponent(providerId)}`,
-      { method: 'DELETE', userClaims }
+      { method: 'DELETE', schema: noContentSchema, userClaims }
     );
   }
 
@@ -744,10 +1215,200 @@ export class APIBlazeClient {
     tenantName: string,
     clientId: string,
     providerId: string
-  ): Promise<{ clientSecret: string }> {
+  ) {
     return this.request(
       `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/app-clients/${encodeURIComponent(clientId)}/providers/${encodeURIComponent(providerId)}/secret`,
-      { method: 'GET', userClaims }
+      { method: 'GET', schema: clientSecretSchema, userClaims }
+    );
+  }
+
+  /**
+   * Search a tenant's end users, newest first; `client_id` narrows to users who signed in
+   * through that app client. Paginated with an opaque cursor.
+   */
+  async listTenantUsers(
+    userClaims: UserAssertionClaims,
+    teamId: string,
+    tenantName: string,
+    params: { q?: string; client_id?: string; status?: string; cursor?: string; limit?: number } = {}
+  ) {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== '') query.set(key, String(value));
+    }
+    const q = query.toString();
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/users${q ? `?${q}` : ''}`,
+      { method: 'GET', schema: endUserPageSchema, userClaims }
+    );
+  }
+
+  async getTenantUser(
+    userClaims: UserAssertionClaims,
+    teamId: string,
+    tenantName: string,
+    userId: string
+  ) {
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/users/${encodeURIComponent(userId)}`,
+      { method: 'GET', schema: endUserSchema, userClaims }
+    );
+  }
+
+  /** Disabling a user also revokes their refresh tokens */
+  async updateTenantUser(
+    userClaims: UserAssertionClaims,
+    teamId: string,
+    tenantName: string,
+    userId: string,
+    data: { disabled?: boolean; name?: string }
+  ) {
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/users/${encodeURIComponent(userId)}`,
+      { method: 'PATCH', schema: endUserSchema, body: JSON.stringify(data), userClaims }
+    );
+  }
+
+  async deleteTenantUser(
+    userClaims: UserAssertionClaims,
+    teamId: string,
+    tenantName: string,
+    userId: string
+  ) {
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/users/${encodeURIComponent(userId)}`,
+      { method: 'DELETE', schema: noContentSchema, userClaims }
+    );
+  }
+
+  /** Forced sign-out: revokes every refresh token of the user (access tokens run out on their own) */
+  async revokeTenantUserSessions(
+    userClaims: UserAssertionClaims,
+    teamId: string,
+    tenantName: string,
+    userId: string
+  ) {
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/users/${encodeURIComponent(userId)}/sessions`,
+      { method: 'DELETE', schema: revokedSessionsSchema, userClaims }
+    );
+  }
+
+  /** Creates an `invited` user and emails them a sign-in link */
+  async inviteTenantUser(
+    userClaims: UserAssertionClaims,
+    teamId: string,
+    tenantName: string,
+    data: { email: string; client_id?: string; name?: string }
+  ) {
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/users/invitations`,
+      { method: 'POST', schema: endUserSchema, body: JSON.stringify(data), idempotencyKey: newIdempotencyKey(), userClaims }
+    );
+  }
+
+  async listTenantGroups(
+    userClaims: UserAssertionClaims,
+    teamId: string,
+    tenantName: string
+  ) {
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/groups`,
+      { method: 'GET', schema: groupListSchema, userClaims }
+    );
+  }
+
+  async createTenantGroup(
+    userClaims: UserAssertionClaims,
+    teamId: string,
+    tenantName: string,
+    data: { name: string; description?: string }
+  ) {
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/groups`,
+      { method: 'POST', schema: groupSchema, body: JSON.stringify(data), idempotencyKey: newIdempotencyKey(), userClaims }
+    );
+  }
+
+  async getTenantGroup(
+    userClaims: UserAssertionClaims,
+    teamId: string,
+    tenantName: string,
+    groupId: string
+  ) {
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/groups/${encodeURIComponent(groupId)}`,
+      { method: 'GET', schema: groupSchema, userClaims }
+    );
+  }
+
+  async updateTenantGroup(
+    userClaims: UserAssertionClaims,
+    teamId: string,
+    tenantName: string,
+    groupId: string,
+    data: { name?: string; description?: string }
+  ) {
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/groups/${encodeURIComponent(groupId)}`,
+      { method: 'PATCH', schema: groupSchema, body: JSON.stringify(data), userClaims }
+    );
+  }
+
+  /** Also drops the group from every app client's groupScopes */
+  async deleteTenantGroup(
+    userClaims: UserAssertionClaims,
+    teamId: string,
+    tenantName: string,
+    groupId: string
+  ) {
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/groups/${encodeURIComponent(groupId)}`,
+      { method: 'DELETE', schema: noContentSchema, userClaims }
+    );
+  }
+
+  async listGroupMembers(
+    userClaims: UserAssertionClaims,
+    teamId: string,
+    tenantName: string,
+    groupId: string,
+    params: { cursor?: string; limit?: number } = {}
+  ) {
+    const query = new URLSearchParams();
+    if (params.cursor) query.set('cursor', params.cursor);
+    if (params.limit) query.set('limit', String(params.limit));
+    const q = query.toString();
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/groups/${encodeURIComponent(groupId)}/members${q ? `?${q}` : ''}`,
+      { method: 'GET', schema: endUserPageSchema, userClaims }
+    );
+  }
+
+  /** Adds users by id or email; adding an existing member is a no-op, so retries are safe */
+  async addGroupMembers(
+    userClaims: UserAssertionClaims,
+    teamId: string,
+    tenantName: string,
+    groupId: string,
+    data: { user_ids?: string[]; emails?: string[] }
+  ) {
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/groups/${encodeURIComponent(groupId)}/members`,
+      { method: 'POST', schema: addedGroupMembersSchema, body: JSON.stringify(data), idempotencyKey: newIdempotencyKey(), userClaims }
+    );
+  }
+
+  async removeGroupMember(
+    userClaims: UserAssertionClaims,
+    teamId: string,
+    tenantName: string,
+    groupId: string,
+    userId: string
+  ) {
+    return this.request(
+      `/teams/${encodeURIComponent(teamId)}/tenants/${encodeURIComponent(tenantName)}/groups/${encodeURIComponent(groupId)}/members/${encodeURIComponent(userId)}`,
+      { method: 'DELETE', schema: noContentSchema, userClaims }
     );
   }
 }
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import type { AppClientBranding, UpdateAppClientRequest } from '@/types/auth-config';
+
+const seconds = z.number().int('Must be a whole number of seconds').min(1, 'Must be at least 1 second');
+
+const brandingSchema = z
+  .object({
+    loginPageLogo: z.string().optional(),
+    loginPageHeaderText: z.string().optional(),
+    loginPageSubtitle: z.string().optional(),
+    primaryColor: z.string().optional(),
+    useGradient: z.boolean().optional(),
+  })
+  .strict() satisfies z.ZodType<AppClientBranding>;
+
+/** Body of the update app client routes (UpdateAppClientRequest). */
+export const appClientUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1, 'name cannot be empty').optional(),
+    tenant: z.string().min(1).optional(),
+    refreshTokenExpiry: seconds.optional(),
+    idTokenExpiry: seconds.optional(),
+    accessTokenExpiry: seconds.optional(),
+    authorizedCallbackUrls: z.array(z.string().min(1)).optional(),
+    signoutUris: z.array(z.string().min(1)).optional(),
+    scopes: z.array(z.string().min(1)).optional(),
+    verified: z.boolean().optional(),
+    branding: brandingSchema.optional(),
+    groupScopes: z.record(z.array(z.string().min(1))).optional(),
+  })
+  .strict() satisfies z.ZodType<UpdateAppClientRequest>;
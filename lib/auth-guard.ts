@@ -0,0 +1,39 @@
+/**
+ * Session enforcement shared by middleware.ts and the app/api handlers, so every
+ * unauthenticated call gets the same response.
+ */
+
+import { NextResponse } from 'next/server';
+import { PROBLEM_CONTENT_TYPE, problemBody } from './problem';
+import { REQUEST_ID_HEADER } from './request-id';
+
+/** Pages that need a session; anything else (/, /auth/*) stays public. */
+export const PROTECTED_PAGE_PREFIXES = ['/dashboard', '/debug'];
+
+/**
+ * API routes that must work without a session: NextAuth's own sign-in and callback endpoints,
+ * and the local stand-in backend, which authenticates its callers like the real one does.
+ */
+export const PUBLIC_API_PREFIXES = ['/api/auth/', '/api/local-backend/'];
+
+export const UNAUTHORIZED_BODY = problemBody(401, 'unauthenticated', 'Unauthorized', 'Please sign in');
+
+export function unauthorizedResponse(requestId?: string): NextResponse {
+  return NextResponse.json(requestId ? { ...UNAUTHORIZED_BODY, request_id: requestId } : UNAUTHORIZED_BODY, {
+    status: 401,
+    headers: { 'Content-Type': PROBLEM_CONTENT_TYPE, ...(requestId && { [REQUEST_ID_HEADER]: requestId }) },
+  });
+}
+
+function matchesPrefix(pathname: string, prefix: string): boolean {
+  const base = prefix.replace(/\/$/, '');
+  return pathname === base || pathname.startsWith(`${base}/`);
+}
+
+export function isProtectedPage(pathname: string): boolean {
+  return PROTECTED_PAGE_PREFIXES.some((prefix) => matchesPrefix(pathname, prefix));
+}
+
+export function isPublicApi(pathname: string): boolean {
+  return PUBLIC_API_PREFIXES.some((prefix) => matchesPrefix(pathname, prefix));
+}
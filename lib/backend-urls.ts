@@ -0,0 +1,39 @@
+/**
+ * Base URLs of the backends the dashboard talks to, shared by server routes and browser code.
+ *
+ * NEXT_PUBLIC_APIBLAZE_LOCAL_BACKEND=1 points both at the in-memory stand-in served by this app
+ * under /api/local-backend (see lib/local-backend). Explicit APIBLAZE_ADMIN_API_BASE /
+ * POLICIES_API_DOMAIN settings still win over the switch.
+ */
+
+export const LOCAL_BACKEND_PREFIX = '/api/local-backend';
+
+export function isLocalBackendEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_APIBLAZE_LOCAL_BACKEND === '1';
+}
+
+/** Origin of this app for server-side calls to its own routes; empty (relative) in the browser. */
+function selfOrigin(): string {
+  if (typeof window !== 'undefined') return '';
+  return (process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+}
+
+export function adminApiBase(): string {
+  if (process.env.APIBLAZE_ADMIN_API_BASE) return process.env.APIBLAZE_ADMIN_API_BASE;
+  if (isLocalBackendEnabled()) return `${selfOrigin()}${LOCAL_BACKEND_PREFIX}/admin`;
+  return 'https://internalapi.apiblaze.com';
+}
+
+/** Whether admin API calls land on the in-memory stand-in served by this app. */
+export function isLocalAdminApi(): boolean {
+  return isLocalBackendEnabled() && adminApiBase() === `${selfOrigin()}${LOCAL_BACKEND_PREFIX}/admin`;
+}
+
+/** policies-api base for a project, e.g. https://petstore.policies.apiblaze.com (no trailing slash). */
+export function policiesApiBase(projectName: string): string {
+  const domain = process.env.POLICIES_API_DOMAIN || process.env.NEXT_PUBLIC_POLICIES_API_DOMAIN;
+  if (!domain && isLocalBackendEnabled()) {
+    return `${selfOrigin()}${LOCAL_BACKEND_PREFIX}/policies/${encodeURIComponent(projectName)}`;
+  }
+  return `https://${projectName}.${domain || 'policies.apiblaze.com'}`;
+}
@@ -5,6 +5,12 @@
 
 const AUTH_ISSUER = process.env.NEXT_PUBLIC_AUTH_ISSUER ?? 'https://auth.apiblaze.com';
 
+/** An endpoint of the auth worker app clients log in with, e.g. its token endpoint */
+export function authWorkerEndpoint(name: 'authorize' | 'token' | 'userinfo'): string {
+  const base = AUTH_ISSUER.replace(/\/$/, '').replace(/\/authorize$/, '');
+  return `${base}/${name}`;
+}
+
 /**
  * Returns the first authorized callback URL that does not contain apiblaze.com or abz.run.
  */
@@ -0,0 +1,168 @@
+/**
+ * Typed schema for a route's cache rules (RouteEntry.cache_rules, policies-api `cache_config`).
+ *
+ * Shared by the route editor and the route-config handlers so the dashboard and the API reject
+ * the same configs. RouteEntry keeps the rules as a JSON string; an empty string means no caching.
+ */
+
+import { z } from 'zod';
+
+const MAX_TTL_SECONDS = 31_536_000; // one year
+
+// RFC 7230 token characters
+const headerName = z
+  .string()
+  .trim()
+  .min(1, 'Header name is required')
+  .regex(/^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/, 'Not a valid header name')
+  .transform((h) => h.toLowerCase());
+
+const paramName = z.string().trim().min(1, 'Name is required');
+
+const claimName = z
+  .string()
+  .trim()
+  .min(1, 'Claim is required')
+  .regex(/^[A-Za-z0-9_:.\-/]+$/, 'Not a valid claim name');
+
+function uniqueList<T extends z.ZodTypeAny>(item: T, minItems?: { count: number; message: string }) {
+  const list = minItems ? z.array(item).min(minItems.count, minItems.message) : z.array(item);
+  return list.refine((values) => new Set(values).size === values.length, { message: 'Contains duplicates' });
+}
+
+export const cacheRulesSchema = z
+  .object({
+    /** Seconds a cached response is served fresh. */
+    ttl: z
+      .number({ required_error: 'TTL is required', invalid_type_error: 'TTL must be a number of seconds' })
+      .int('TTL must be a whole number of seconds')
+      .min(1, 'TTL must be at least 1 second')
+      .max(MAX_TTL_SECONDS, 'TTL cannot exceed one year'),
+    /** Seconds a stale response may be served while it is refreshed in the background. */
+    stale_while_revalidate: z
+      .number({ invalid_type_error: 'Must be a number of seconds' })
+      .int('Must be a whole number of seconds')
+      .min(0, 'Cannot be negative')
+      .max(MAX_TTL_SECONDS, 'Cannot exceed one year')
+      .optional(),
+    /** Request attributes that become part of the cache key. */
+    vary_by: z
+      .object({
+        headers: uniqueList(headerName).optional(),
+        query: uniqueList(paramName).optional(),
+        claims: uniqueList(claimName).optional(),
+      })
+      .strict()
+      .optional(),
+    /** Response statuses that are stored. Defaults to [200]. */
+    cacheable_status_codes: uniqueList(
+      z
+        .number({ invalid_type_error: 'Status codes must be numbers' })
+        .int('Status codes must be whole numbers')
+        .min(200, 'Only 2xx-4xx responses can be cached')
+        .max(499, 'Only 2xx-4xx responses can be cached'),
+      { count: 1, message: 'List at least one status code' }
+    ).optional(),
+    /** Requests matching any condition skip the cache entirely. */
+    bypass: z
+      .object({
+        /** Bypass when any of these request headers is present. */
+        headers: uniqueList(headerName).optional(),
+        /** Bypass when any of these query parameters is present. */
+        query: uniqueList(paramName).optional(),
+        /** Honour `Cache-Control: no-cache` from the client. */
+        honor_no_cache: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export type CacheRules = z.infer<typeof cacheRulesSchema>;
+
+export const DEFAULT_CACHE_RULES: CacheRules = { ttl: 60 };
+
+export interface CacheRulesIssue {
+  /** Dotted field path, e.g. `vary_by.headers.0`; empty for the whole document */
+  path: string;
+  message: string;
+}
+
+export type CacheRulesParseResult =
+  | { ok: true; rules: CacheRules | null }
+  | { ok: false; errors: CacheRulesIssue[] };
+
+/** Parse and validate a cache_rules JSON string. Empty means caching is off. */
+export function parseCacheRules(json: string | undefined): CacheRulesParseResult {
+  if (!json?.trim()) return { ok: true, rules: null };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { ok: false, errors: [{ path: '', message: 'Invalid JSON' }] };
+  }
+  return validateCacheRules(parsed);
+}
+
+export function validateCacheRules(value: unknown): CacheRulesParseResult {
+  if (value === null) return { ok: true, rules: null };
+  const result = cacheRulesSchema.safeParse(value);
+  if (!result.success) {
+    return {
+      ok: false,
+      errors: result.error.issues.map((issue) => ({
+        path: issue.path.join('.'),
+        message: issue.code === 'unrecognized_keys' ? `Unknown field: ${issue.keys.join(', ')}` : issue.message,
+      })),
+    };
+  }
+  const rules = result.data;
+  const errors: CacheRulesIssue[] = [];
+  const varyHeaders = new Set(rules.vary_by?.headers ?? []);
+  for (const [i, header] of (rules.bypass?.headers ?? []).entries()) {
+    if (varyHeaders.has(header)) {
+      errors.push({ path: `bypass.headers.${i}`, message: `"${header}" is both a cache key and a bypass condition` });
+    }
+  }
+  const varyQuery = new Set(rules.vary_by?.query ?? []);
+  for (const [i, param] of (rules.bypass?.query ?? []).entries()) {
+    if (varyQuery.has(param)) {
+      errors.push({ path: `bypass.query.${i}`, message: `"${param}" is both a cache key and a bypass condition` });
+    }
+  }
+  if (rules.vary_by?.headers?.includes('authorization')) {
+    errors.push({
+      path: 'vary_by.headers',
+      message: 'Vary by a JWT claim (e.g. sub) instead of the Authorization header',
+    });
+  }
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, rules };
+}
+
+/** JSON string for RouteEntry.cache_rules, with empty optional sections dropped. */
+export function serializeCacheRules(rules: CacheRules | null): string {
+  if (!rules) return '';
+  const compactList = <T>(list: T[] | undefined) => (list && list.length > 0 ? list : undefined);
+  const varyBy = {
+    headers: compactList(rules.vary_by?.headers),
+    query: compactList(rules.vary_by?.query),
+    claims: compactList(rules.vary_by?.claims),
+  };
+  const bypass = {
+    headers: compactList(rules.bypass?.headers),
+    query: compactList(rules.bypass?.query),
+    honor_no_cache: rules.bypass?.honor_no_cache || undefined,
+  };
+  const hasAny = (o: object) => Object.values(o).some((v) => v !== undefined);
+  return JSON.stringify({
+    ttl: rules.ttl,
+    stale_while_revalidate: rules.stale_while_revalidate,
+    vary_by: hasAny(varyBy) ? varyBy : undefined,
+    cacheable_status_codes: compactList(rules.cacheable_status_codes),
+    bypass: hasAny(bypass) ? bypass : undefined,
+  });
+}
+
+export function formatCacheRulesIssues(errors: CacheRulesIssue[]): string {
+  return errors.map((e) => (e.path ? `${e.path}: ${e.message}` : e.message)).join('; ');
+}
@@ -0,0 +1,97 @@
+/**
+ * Circuit breaker and backoff for calls to upstream services (see APIBlazeClient.request).
+ *
+ * After `failureThreshold` consecutive failures the circuit opens and calls fail fast for
+ * `cooldownMs`; the first call after that is let through as a probe and either closes the
+ * circuit again or re-opens it.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;
+  cooldownMs?: number;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probing = false;
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.cooldownMs = options.cooldownMs ?? 30_000;
+  }
+
+  /** Whether a call may go out now; moves an expired open circuit to half-open and claims the probe. */
+  tryAcquire(now = Date.now()): boolean {
+    if (this.state === 'closed') return true;
+    if (this.state === 'open') {
+      if (now - this.openedAt < this.cooldownMs) return false;
+      this.state = 'half_open';
+      this.probing = false;
+    }
+    if (this.probing) return false;
+    this.probing = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.probing = false;
+  }
+
+  /** Give back a claimed probe without an outcome (e.g. the caller aborted); the next call probes instead. */
+  release(): void {
+    this.probing = false;
+  }
+
+  recordFailure(now = Date.now()): void {
+    this.failures++;
+    if (this.state === 'half_open' || this.failures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+      this.probing = false;
+    }
+  }
+
+  /** Seconds until an open circuit lets a probe through (0 when not open). */
+  retryAfterSeconds(now = Date.now()): number {
+    if (this.state !== 'open') return 0;
+    return Math.max(1, Math.ceil((this.openedAt + this.cooldownMs - now) / 1000));
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/** One breaker per upstream (keyed by base URL), shared by every client instance in the process. */
+export function circuitBreakerFor(key: string, options?: CircuitBreakerOptions): CircuitBreaker {
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker(options);
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+/** Full-jitter exponential backoff: a random delay in [0, min(maxMs, baseMs * 2^attempt)). */
+export function backoffDelay(attempt: number, baseMs = 250, maxMs = 4_000): number {
+  return Math.floor(Math.random() * Math.min(maxMs, baseMs * 2 ** attempt));
+}
+
+/** Delay requested by a Retry-After header (seconds or HTTP date), in ms; null if absent or unparsable. */
+export function retryAfterMs(header: string | null, now = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
@@ -0,0 +1,159 @@
+/**
+ * Keyring for the X-User-Assertion signing keys (see lib/jwt-signer.ts)
+ *
+ * Holds several RSA private keys, each with a key id (`kid`) that goes into the JWT header,
+ * picks the one that signs right now and publishes the public halves as a JWKS document
+ * (served at /.well-known/jwks.json) so the admin API can trust old and new keys during a
+ * rotation. See "User assertion signing keys" in ENVIRONMENT_VARIABLES.md for the procedure.
+ *
+ * Configuration, first match wins:
+ * - JWT_SIGNING_KEYS: JSON array of SigningKeyConfig
+ * - JWT_PRIVATE_KEY or ./jwt-private.pem: a single key (kid = its JWK thumbprint)
+ * JWT_ACTIVE_KID forces the signing key regardless of activation times, but only while that key
+ * is published: a retired kid is refused, since nothing could verify what it signs.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export interface SigningKeyConfig {
+  /** Defaults to the RFC 7638 thumbprint of the public key */
+  kid?: string;
+  /** PEM-encoded RSA private key (or privateKeyPath) */
+  privateKey?: string;
+  /** Path to a PEM file, relative to the app root */
+  privateKeyPath?: string;
+  /** ISO time from which the key signs (default: immediately); published in the JWKS before that */
+  activateAt?: string;
+  /** ISO time after which the key neither signs nor appears in the JWKS */
+  retireAt?: string;
+}
+
+export interface PublicJwk {
+  kty: string;
+  use: 'sig';
+  alg: 'RS256';
+  kid: string;
+  n: string;
+  e: string;
+}
+
+export interface KeyringEntry {
+  kid: string;
+  privateKey: crypto.KeyObject;
+  publicKey: crypto.KeyObject;
+  jwk: PublicJwk;
+  activateAt: number;
+  retireAt: number | null;
+}
+
+function parseTime(value: string | undefined, field: string, kid: string): number | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) throw new Error(`JWT signing key ${kid}: ${field} is not a valid date`);
+  return time;
+}
+
+/** RFC 7638 thumbprint of an RSA public key */
+function thumbprint(jwk: { e: string; n: string }): string {
+  const canonical = JSON.stringify({ e: jwk.e, kty: 'RSA', n: jwk.n });
+  return crypto.createHash('sha256').update(canonical).digest('base64url');
+}
+
+export class JWTKeyring {
+  readonly entries: KeyringEntry[];
+  private activeKid?: string;
+
+  constructor(configs: SigningKeyConfig[], options?: { activeKid?: string }) {
+    if (configs.length === 0) throw new Error('JWT keyring needs at least one signing key');
+    this.activeKid = options?.activeKid || undefined;
+    this.entries = configs.map((config) => {
+      const pem =
+        config.privateKey ?? (config.privateKeyPath && fs.readFileSync(path.resolve(process.cwd(), config.privateKeyPath), 'utf8'));
+      if (!pem) throw new Error(`JWT signing key ${config.kid ?? '(no kid)'}: privateKey or privateKeyPath is required`);
+      const privateKey = crypto.createPrivateKey(pem);
+      if (privateKey.asymmetricKeyType !== 'rsa') {
+        throw new Error(`JWT signing key ${config.kid ?? '(no kid)'}: RS256 needs an RSA key`);
+      }
+      const publicKey = crypto.createPublicKey(privateKey);
+      const { n, e } = publicKey.export({ format: 'jwk' }) as { n: string; e: string };
+      const kid = config.kid || thumbprint({ n, e });
+      return {
+        kid,
+        privateKey,
+        publicKey,
+        jwk: { kty: 'RSA', use: 'sig', alg: 'RS256', kid, n, e },
+        activateAt: parseTime(config.activateAt, 'activateAt', kid) ?? 0,
+        retireAt: parseTime(config.retireAt, 'retireAt', kid),
+      };
+    });
+    const kids = new Set(this.entries.map((entry) => entry.kid));
+    if (kids.size !== this.entries.length) throw new Error('JWT keyring has duplicate kids');
+    if (this.activeKid && !kids.has(this.activeKid)) {
+      throw new Error(`JWT_ACTIVE_KID ${this.activeKid} is not in the keyring`);
+    }
+    this.checkActiveKidPublished(Date.now());
+  }
+
+  private checkActiveKidPublished(now: number): void {
+    const entry = this.entries.find((e) => e.kid === this.activeKid);
+    if (entry && this.isRetired(entry, now)) {
+      throw new Error(`JWT_ACTIVE_KID ${entry.kid} is retired and no longer published in the JWKS`);
+    }
+  }
+
+  private isRetired(entry: KeyringEntry, now: number): boolean {
+    return entry.retireAt !== null && entry.retireAt <= now;
+  }
+
+  /** The key that signs at `now`: JWT_ACTIVE_KID, else the most recently activated unretired key. */
+  signingKey(now = Date.now()): KeyringEntry {
+    if (this.activeKid) {
+      this.checkActiveKidPublished(now);
+      return this.entries.find((entry) => entry.kid === this.activeKid)!;
+    }
+    const candidates = this.entries
+      .filter((entry) => entry.activateAt <= now && !this.isRetired(entry, now))
+      .sort((a, b) => b.activateAt - a.activateAt);
+    if (candidates.length === 0) throw new Error('No JWT signing key is active');
+    return candidates[0];
+  }
+
+  /** Public key for a `kid`, if it is published at `now` */
+  publicKey(kid: string, now = Date.now()): crypto.KeyObject | undefined {
+    const entry = this.entries.find((e) => e.kid === kid);
+    return entry && !this.isRetired(entry, now) ? entry.publicKey : undefined;
+  }
+
+  /** JWKS document: every unretired key, including ones not active yet (so verifiers learn them early) */
+  jwks(now = Date.now()): { keys: PublicJwk[] } {
+    return { keys: this.entries.filter((entry) => !this.isRetired(entry, now)).map((entry) => entry.jwk) };
+  }
+}
+
+let cached: { source: string; keyring: JWTKeyring } | null = null;
+
+/** The process-wide keyring from the environment, re-read only when its configuration changes. */
+export function getDefaultKeyring(): JWTKeyring {
+  const configured = process.env.JWT_SIGNING_KEYS;
+  const source = `${configured ?? ''}|${process.env.JWT_PRIVATE_KEY ?? ''}|${process.env.JWT_ACTIVE_KID ?? ''}`;
+  if (cached?.source === source) return cached.keyring;
+
+  let configs: SigningKeyConfig[];
+  if (configured) {
+    try {
+      configs = JSON.parse(configured) as SigningKeyConfig[];
+    } catch {
+      throw new Error('JWT_SIGNING_KEYS must be a JSON array of signing keys');
+    }
+    if (!Array.isArray(configs)) throw new Error('JWT_SIGNING_KEYS must be a JSON array of signing keys');
+  } else {
+    configs = [
+      process.env.JWT_PRIVATE_KEY ? { privateKey: process.env.JWT_PRIVATE_KEY } : { privateKeyPath: 'jwt-private.pem' },
+    ];
+  }
+  const keyring = new JWTKeyring(configs, { activeKid: process.env.JWT_ACTIVE_KID });
+  cached = { source, keyring };
+  return keyring;
+}
@@ -10,11 +10,11 @@
  * - Body hash binding to prevent replay attacks with modified payloads
  * - JTI (JWT ID) for additional replay protection
  * - Standard claims (iat, exp, nbf, sub, iss, aud)
+ * - Key id (kid) header from a keyring, so keys can rotate without a flag day (lib/jwt-keyring.ts)
  */
 
 import crypto from 'crypto';
-import fs from 'fs';
-import path from 'path';
+import { getDefaultKeyring, JWTKeyring } from './jwt-keyring';
 
 export interface UserAssertionClaims {
   sub: string;           // User ID (e.g., "github:12345" or "user_abc123")
@@ -34,25 +34,29 @@ interface JWTPayload extends UserAssertionClaims {
   bod?: string;          // Body hash (SHA256 of request body)
 }
 
+interface SignerOptions {
+  privateKeyPath?: string;
+  privateKey?: string;
+  keyring?: JWTKeyring;
+  issuer?: string;
+  audience?: string;
+  ttlSeconds?: number;
+}
+
 export class JWTUserAssertionSigner {
-  private privateKey: string;
+  private keyring: JWTKeyring;
   private issuer: string;
   private audience: string;
   private ttlSeconds: number;
 
-  constructor(options?: {
-    privateKeyPath?: string;
-    privateKey?: string;
-    issuer?: string;
-    audience?: string;
-    ttlSeconds?: number;
-  }) {
-    // Load private key
-    if (options?.privateKey) {
-      this.privateKey = options.privateKey;
+  constructor(options?: SignerOptions) {
+    // A configured keyring (JWT_SIGNING_KEYS) supersedes the single legacy key callers pass in
+    if (options?.keyring) {
+      this.keyring = options.keyring;
+    } else if (process.env.JWT_SIGNING_KEYS || (!options?.privateKey && !options?.privateKeyPath)) {
+      this.keyring = getDefaultKeyring();
     } else {
-      const keyPath = options?.privateKeyPath || path.join(process.cwd(), 'jwt-private.pem');
-      this.privateKey = fs.readFileSync(keyPath, 'utf8');
+      this.keyring = new JWTKeyring([{ privateKey: options.privateKey, privateKeyPath: options.privateKeyPath }]);
     }
 
     this.issuer = options?.issuer || 'apiblaze-dashboard';
@@ -84,10 +88,12 @@ export class JWTUserAssertionSigner {
       payload.bod = this.hashBody(requestBody);
     }
 
-    // Create JWT manually (RS256)
+    // Create JWT manually (RS256), naming the key so verifiers can pick it from the JWKS
+    const signingKey = this.keyring.signingKey();
     const header = {
       alg: 'RS256',
-      typ: 'JWT'
+      typ: 'JWT',
+      kid: signingKey.kid,
     };
 
     const encodedHeader = this.base64UrlEncode(JSON.stringify(header));
@@ -97,7 +103,7 @@ export class JWTUserAssertionSigner {
     const signature = crypto
       .createSign('RSA-SHA256')
       .update(signatureInput)
-      .sign(this.privateKey, 'base64')
+      .sign(signingKey.privateKey, 'base64')
       .replace(/\+/g, '-')
       .replace(/\//g, '_')
       .replace(/=/g, '');
@@ -143,13 +149,7 @@ export class JWTUserAssertionSigner {
 /**
  * Helper function to create a JWT signer instance
  */
-export function createJWTSigner(options?: {
-  privateKeyPath?: string;
-  privateKey?: string;
-  issuer?: string;
-  audience?: string;
-  ttlSeconds?: number;
-}): JWTUserAssertionSigner {
+export function createJWTSigner(options?: SignerOptions): JWTUserAssertionSigner {
   return new JWTUserAssertionSigner(options);
 }
 
@@ -0,0 +1,31 @@
+export type DiffLine = { kind: 'same' | 'added' | 'removed'; text: string };
+
+/** Line-level diff (longest common subsequence) from `before` to `after`. */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ kind: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ kind: 'removed', text: a[i++] });
+    } else {
+      result.push({ kind: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ kind: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ kind: 'added', text: b[j++] });
+  return result;
+}
@@ -0,0 +1,1225 @@
+/**
+ * Local stand-in for the admin API (internalapi.apiblaze.com): every endpoint APIBlazeClient
+ * calls, backed by the in-memory store. Served by app/api/local-backend/admin/[[...path]].
+ *
+ * Ownership follows the real backend closely enough for the dashboard's flows: a user's team
+ * is `team_${sub}`, projects and tenants belong to a team, legacy auth configs to a user.
+ * Deployments complete instantly; their log stream replays a synthetic pipeline run.
+ */
+
+import crypto from 'crypto';
+import type { DeploymentRecord, DeploymentStep } from '@/types/project';
+import { MAX_SECRET_GRACE_PERIOD_SECONDS } from '@/lib/api/app-client-secrets';
+import { checkApiKey, verifyUserAssertion, type VerifiedAssertion } from './assertion';
+import { LocalHttpError, type LocalRequest, type LocalRouter } from './http';
+import {
+  generateJwks,
+  getState,
+  loadFixtures,
+  nowIso,
+  randomId,
+  randomSecret,
+  replaceState,
+  stateFromFixtures,
+  type LocalAppClient,
+  type LocalAuthConfig,
+  type LocalEndUser,
+  type LocalGroup,
+  type LocalProject,
+  type LocalProvider,
+  type LocalState,
+  type LocalTenant,
+} from './store';
+
+type AdminRequest = LocalRequest<VerifiedAssertion>;
+
+const DEFAULT_APP_CLIENT_SCOPES = ['email', 'openid', 'profile'];
+const GITHUB_PROVIDER_SCOPES = ['read:user', 'user:email'];
+const DEPLOY_STEPS: DeploymentStep[] = ['spec_fetch', 'validation', 'kv_write', 'worker_publish'];
+const DEFAULT_USER_PAGE_SIZE = 25;
+
+function teamOf(claims: VerifiedAssertion): string {
+  return `team_${claims.sub}`;
+}
+
+function slugify(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+/** Strips the quotes (and weak prefix) of an If-Match value; the dashboard sends `"<updated_at>"`. */
+function unquoteEtag(value: string | null): string | null {
+  return value ? value.replace(/^W\//, '').replace(/^"(.*)"$/, '$1') : null;
+}
+
+function pick<T extends object>(source: Record<string, unknown>, keys: Array<keyof T & string>): Partial<T> {
+  const picked: Partial<T> = {};
+  for (const key of keys) {
+    if (source[key] !== undefined) (picked as Record<string, unknown>)[key] = source[key];
+  }
+  return picked;
+}
+
+// ─── Views ───────────────────────────────────────────────────────────────────
+
+function projectUrls(project: LocalProject) {
+  const { project_id: id, api_version: version } = project;
+  return {
+    api: `https://${id}.apiblaze.com/${version}`,
+    portal: `https://${id}-api.portal.apiblaze.com/${version}`,
+    auth: 'https://auth.apiblaze.com',
+    admin: `https://dashboard.apiblaze.com/dashboard?project=${id}`,
+  };
+}
+
+function projectView(project: LocalProject) {
+  const latest = project.deployments[0];
+  return {
+    project_id: project.project_id,
+    display_name: project.display_name,
+    api_version: project.api_version,
+    team_id: project.team_id,
+    status: project.status,
+    created_at: project.created_at,
+    updated_at: project.updated_at,
+    last_deployed_at: latest?.completed_at,
+    mcp_enabled: false,
+    urls: projectUrls(project),
+    spec_source: { type: 'target_only' },
+    deployer: latest?.deployer ?? {},
+    deployment: latest
+      ? {
+          deployment_id: latest.deployment_id,
+          status: latest.status,
+          created_at: latest.created_at,
+          completed_at: latest.completed_at,
+          duration_seconds: latest.duration_seconds,
+          age_seconds: Math.floor((Date.now() - Date.parse(latest.created_at)) / 1000),
+          error: latest.error,
+        }
+      : null,
+    config: project.config,
+  };
+}
+
+/** Secrets only ever leave through the /secret endpoints. */
+function appClientView(state: LocalState, client: LocalAppClient) {
+  const view: Partial<LocalAppClient> = { ...client };
+  delete view.clientSecret;
+  delete view.clientSecretCreatedAt;
+  delete view.previousSecrets;
+  return {
+    ...view,
+    clientId: client.id,
+    providers_count: state.providers.filter((p) => p.app_client_id === client.id).length,
+  };
+}
+
+function providerView(provider: LocalProvider) {
+  const view: Partial<LocalProvider> = { ...provider };
+  delete view.clientSecret;
+  delete view.app_client_id;
+  return view;
+}
+
+function endUserView(user: LocalEndUser) {
+  const view: Partial<LocalEndUser> = { ...user };
+  delete view.team_id;
+  delete view.tenant_name;
+  delete view.refresh_tokens;
+  return view;
+}
+
+function groupView(group: LocalGroup) {
+  const view: Partial<LocalGroup> & { members_count: number } = { ...group, members_count: group.members.length };
+  delete view.team_id;
+  delete view.tenant_name;
+  delete view.members;
+  return view;
+}
+
+// ─── Lookups ─────────────────────────────────────────────────────────────────
+
+function findProject(state: LocalState, claims: VerifiedAssertion, projectId: string, version?: string): LocalProject {
+  const project = state.projects.find(
+    (p) => p.project_id === projectId && (version === undefined || p.api_version === version) && p.status !== 'deleted'
+  );
+  if (!project) throw new LocalHttpError(404, 'Project not found');
+  if (project.team_id !== teamOf(claims)) throw new LocalHttpError(403, 'Forbidden');
+  return project;
+}
+
+function findDeployment(project: LocalProject, deploymentId: string): DeploymentRecord {
+  const deployment = project.deployments.find((d) => d.deployment_id === deploymentId);
+  if (!deployment) throw new LocalHttpError(404, 'Deployment not found');
+  return deployment;
+}
+
+function findAuthConfig(state: LocalState, claims: VerifiedAssertion, authConfigId: string): LocalAuthConfig {
+  const authConfig = state.authConfigs.find((c) => c.id === authConfigId);
+  if (!authConfig) throw new LocalHttpError(404, 'Auth config not found');
+  if (authConfig.owner !== claims.sub) throw new LocalHttpError(403, 'Forbidden');
+  return authConfig;
+}
+
+function findTeamTenant(state: LocalState, claims: VerifiedAssertion, teamId: string, tenantName: string): LocalTenant {
+  if (teamId !== teamOf(claims)) throw new LocalHttpError(403, 'Forbidden');
+  const tenant = state.tenants.find((t) => t.team_id === teamId && t.tenant_name === tenantName);
+  if (!tenant) throw new LocalHttpError(404, 'Tenant not found');
+  return tenant;
+}
+
+function findEndUser(state: LocalState, req: AdminRequest): LocalEndUser {
+  const { teamId, tenantName, userId } = req.params;
+  findTeamTenant(state, req.auth, teamId, tenantName);
+  const user = state.endUsers.find((u) => u.id === userId && u.team_id === teamId && u.tenant_name === tenantName);
+  if (!user) throw new LocalHttpError(404, 'User not found');
+  return user;
+}
+
+function findGroup(state: LocalState, req: AdminRequest): LocalGroup {
+  const { teamId, tenantName, groupId } = req.params;
+  findTeamTenant(state, req.auth, teamId, tenantName);
+  const group = state.groups.find((g) => g.id === groupId && g.team_id === teamId && g.tenant_name === tenantName);
+  if (!group) throw new LocalHttpError(404, 'Group not found');
+  return group;
+}
+
+function checkGroupName(state: LocalState, group: Pick<LocalGroup, 'team_id' | 'tenant_name' | 'id'>, name: unknown): string {
+  if (typeof name !== 'string' || !/^[A-Za-z0-9._-]{1,64}$/.test(name.trim())) {
+    throw new LocalHttpError(400, 'Group name must be 1-64 letters, digits, ".", "_" or "-"');
+  }
+  const taken = state.groups.some(
+    (g) => g.team_id === group.team_id && g.tenant_name === group.tenant_name && g.id !== group.id && g.name === name.trim()
+  );
+  if (taken) throw new LocalHttpError(409, `Group ${name.trim()} already exists`);
+  return name.trim();
+}
+
+type AppClientScope = { authConfigId: string } | { teamId: string; tenantName: string };
+
+function scopeOf(req: AdminRequest): AppClientScope {
+  const { authConfigId, teamId, tenantName } = req.params;
+  const state = getState();
+  if (authConfigId) {
+    findAuthConfig(state, req.auth, authConfigId);
+    return { authConfigId };
+  }
+  findTeamTenant(state, req.auth, teamId, tenantName);
+  return { teamId, tenantName };
+}
+
+function inScope(client: LocalAppClient, scope: AppClientScope): boolean {
+  return 'authConfigId' in scope
+    ? client.auth_config_id === scope.authConfigId
+    : client.team_id === scope.teamId && client.tenant_name === scope.tenantName;
+}
+
+function findAppClient(state: LocalState, scope: AppClientScope, clientId: string): LocalAppClient {
+  const client = state.appClients.find((c) => c.id === clientId && inScope(c, scope));
+  if (!client) throw new LocalHttpError(404, 'App client not found');
+  return client;
+}
+
+function findProvider(state: LocalState, clientId: string, providerId: string): LocalProvider {
+  const provider = state.providers.find((p) => p.id === providerId && p.app_client_id === clientId);
+  if (!provider) throw new LocalHttpError(404, 'Provider not found');
+  return provider;
+}
+
+// ─── Mutations ───────────────────────────────────────────────────────────────
+
+function newDeployment(claims: VerifiedAssertion, config: Record<string, unknown>): DeploymentRecord {
+  const now = nowIso();
+  return {
+    deployment_id: randomId('dep'),
+    status: 'live',
+    created_at: now,
+    completed_at: now,
+    duration_seconds: 0,
+    deployer: { name: claims.handle, email: claims.email, github_username: claims.handle },
+    config_snapshot: structuredClone(config),
+  };
+}
+
+function attachTenant(project: LocalProject, tenantName: string, displayName?: string) {
+  const existing = project.tenants.find((t) => t.tenant_name === tenantName);
+  const tenant = existing ?? { tenant_name: tenantName, display_name: displayName || tenantName };
+  if (!existing) project.tenants.push(tenant);
+  return tenant;
+}
+
+function createProject(req: AdminRequest) {
+  const state = getState();
+  const payload = req.json<Record<string, unknown>>();
+  const name = String(payload.subdomain || payload.name || '');
+  const projectId = slugify(name);
+  if (!projectId) throw new LocalHttpError(400, 'name is required');
+  const apiVersion = String(payload.api_version || '1.0.0');
+  const teamId = teamOf(req.auth);
+
+  const other = state.projects.find((p) => p.project_id === projectId && p.team_id !== teamId && p.status !== 'deleted');
+  if (other) {
+    throw new LocalHttpError(409, 'Project name is taken', 'Another team owns this project name');
+  }
+
+  // Like the real backend: the spec is deployed, not stored, and app_client_id is deploy-time only
+  const config: Record<string, unknown> = { ...payload };
+  delete config.openapi;
+  delete config.app_client_id;
+  const now = nowIso();
+  let project = state.projects.find(
+    (p) => p.project_id === projectId && p.api_version === apiVersion && p.status !== 'deleted'
+  );
+  if (project) {
+    project.config = { ...project.config, ...config };
+    project.updated_at = now;
+  } else {
+    project = {
+      project_id: projectId,
+      api_version: apiVersion,
+      display_name: String(payload.display_name || name),
+      team_id: teamId,
+      owner: req.auth.sub,
+      status: 'active',
+      created_at: now,
+      updated_at: now,
+      config,
+      deployments: [],
+      tenants: [],
+    };
+    state.projects.push(project);
+  }
+  if (typeof payload.tenant === 'string' && payload.tenant) attachTenant(project, payload.tenant);
+  project.deployments.unshift(newDeployment(req.auth, project.config));
+  return projectView(project);
+}
+
+function checkProjectName(req: AdminRequest) {
+  const state = getState();
+  const projectId = slugify(req.query.get('projectName') ?? '');
+  const apiVersion = req.query.get('apiVersion') ?? '1.0.0';
+  const versions = state.projects.filter((p) => p.project_id === projectId && p.status !== 'deleted');
+  if (versions.length === 0) {
+    return { exists: false, project_id: null, api_version: null, message: 'Project name is available' };
+  }
+  if (versions[0].team_id !== teamOf(req.auth)) {
+    return { exists: true, project_id: projectId, api_version: null, message: 'Another team owns this project name' };
+  }
+  if (versions.some((p) => p.api_version === apiVersion)) {
+    return {
+      exists: true,
+      project_id: projectId,
+      api_version: apiVersion,
+      message: 'You already created this project with this version',
+    };
+  }
+  return { exists: false, project_id: projectId, api_version: apiVersion, message: 'New version of your project' };
+}
+
+function upsertAppClient(req: AdminRequest, client: LocalAppClient | undefined) {
+  const state = getState();
+  const body = req.json();
+  const fields = pick<LocalAppClient>(body, [
+    'name',
+    'projectName',
+    'apiVersion',
+    'tenant',
+    'scopes',
+    'authorizedCallbackUrls',
+    'signoutUris',
+    'refreshTokenExpiry',
+    'idTokenExpiry',
+    'accessTokenExpiry',
+    'verified',
+    'branding',
+    'groupScopes',
+  ]);
+  if (fields.groupScopes) checkGroupScopes(state, req, fields.groupScopes, fields.scopes ?? client?.scopes ?? []);
+  if (client) {
+    Object.assign(client, fields, { updated_at: nowIso() });
+    return appClientView(state, client);
+  }
+
+  if (!fields.name) throw new LocalHttpError(400, 'name is required');
+  const scope = scopeOf(req);
+  const now = nowIso();
+  const created: LocalAppClient = {
+    id: randomId('ac'),
+    name: fields.name,
+    clientSecret: randomSecret(),
+    ...('authConfigId' in scope
+      ? { auth_config_id: scope.authConfigId }
+      : { team_id: scope.teamId, tenant_name: scope.tenantName }),
+    scopes: body.providerType === 'github' ? GITHUB_PROVIDER_SCOPES : DEFAULT_APP_CLIENT_SCOPES,
+    authorizedCallbackUrls: [],
+    signoutUris: [],
+    refreshTokenExpiry: 2592000,
+    idTokenExpiry: 3600,
+    accessTokenExpiry: 3600,
+    verified: true,
+    ...fields,
+    jwks: generateJwks(),
+    created_at: now,
+    updated_at: now,
+  };
+  state.appClients.push(created);
+  return appClientView(state, created);
+}
+
+/** Group scopes must name groups of the client's tenant and scopes the client can issue. */
+function checkGroupScopes(state: LocalState, req: AdminRequest, groupScopes: Record<string, string[]>, scopes: string[]): void {
+  const { teamId, tenantName } = req.params;
+  for (const [groupId, granted] of Object.entries(groupScopes)) {
+    if (!state.groups.some((g) => g.id === groupId && g.team_id === teamId && g.tenant_name === tenantName)) {
+      throw new LocalHttpError(400, `groupScopes: unknown group ${groupId}`);
+    }
+    const unknown = granted.filter((scope) => !scopes.includes(scope));
+    if (unknown.length > 0) throw new LocalHttpError(400, `groupScopes: ${unknown.join(', ')} not in the app client's scopes`);
+  }
+}
+
+/** Stable id of a secret that does not reveal it */
+function secretId(secret: string): string {
+  return `sec_${crypto.createHash('sha256').update(secret).digest('hex').slice(0, 16)}`;
+}
+
+/** Drops previous secrets whose grace period is over and lists the rest after the current one. */
+function clientSecretsView(client: LocalAppClient) {
+  const now = nowIso();
+  client.previousSecrets = (client.previousSecrets ?? []).filter((s) => s.expires_at > now);
+  const info = (secret: string, status: 'current' | 'previous', created_at: string, expires_at: string | null) => ({
+    id: secretId(secret),
+    status,
+    hint: secret.slice(-4),
+    created_at,
+    expires_at,
+  });
+  return {
+    secrets: [
+      info(client.clientSecret, 'current', client.clientSecretCreatedAt ?? client.created_at, null),
+      ...client.previousSecrets.map((s) => info(s.clientSecret, 'previous', s.created_at, s.expires_at)),
+    ],
+  };
+}
+
+/**
+ * One previous secret at a time: rotating again while it is still valid would cut off clients
+ * that have not picked up the current one yet.
+ */
+function rotateClientSecret(client: LocalAppClient, gracePeriodSeconds: unknown) {
+  if (
+    typeof gracePeriodSeconds !== 'number' ||
+    !Number.isInteger(gracePeriodSeconds) ||
+    gracePeriodSeconds < 0 ||
+    gracePeriodSeconds > MAX_SECRET_GRACE_PERIOD_SECONDS
+  ) {
+    throw new LocalHttpError(400, `grace_period_seconds must be an integer from 0 to ${MAX_SECRET_GRACE_PERIOD_SECONDS}`);
+  }
+  const { secrets } = clientSecretsView(client);
+  if (secrets.length > 1) {
+    throw new LocalHttpError(409, 'The previous secret is still valid; revoke it or wait for it to expire before rotating again');
+  }
+  const now = new Date();
+  if (gracePeriodSeconds > 0) {
+    client.previousSecrets = [
+      {
+        clientSecret: client.clientSecret,
+        created_at: client.clientSecretCreatedAt ?? client.created_at,
+        expires_at: new Date(now.getTime() + gracePeriodSeconds * 1000).toISOString(),
+      },
+    ];
+  }
+  client.clientSecret = randomSecret();
+  client.clientSecretCreatedAt = now.toISOString();
+  client.updated_at = now.toISOString();
+  return { clientSecret: client.clientSecret, ...clientSecretsView(client) };
+}
+
+function deleteAppClient(state: LocalState, client: LocalAppClient): void {
+  state.appClients = state.appClients.filter((c) => c !== client);
+  state.providers = state.providers.filter((p) => p.app_client_id !== client.id);
+}
+
+function upsertProvider(req: AdminRequest, provider: LocalProvider | undefined) {
+  const state = getState();
+  const client = findAppClient(state, scopeOf(req), req.params.clientId);
+  const body = req.json();
+  const fields = pick<LocalProvider>(body, [
+    'type',
+    'clientId',
+    'clientSecret',
+    'domain',
+    'tokenType',
+    'targetServerToken',
+    'includeApiblazeAccessTokenHeader',
+    'includeApiblazeIdTokenHeader',
+  ]);
+  const scopes = typeof body.scopes === 'string' ? body.scopes.split(/\s+/).filter(Boolean) : body.scopes;
+  if (Array.isArray(scopes)) fields.scopes = scopes as string[];
+  if (provider) {
+    Object.assign(provider, fields, { updated_at: nowIso() });
+    return providerView(provider);
+  }
+
+  if (!fields.type || !fields.clientId) throw new LocalHttpError(400, 'type and clientId are required');
+  const now = nowIso();
+  const created: LocalProvider = {
+    id: randomId('prov'),
+    app_client_id: client.id,
+    type: fields.type,
+    clientId: fields.clientId,
+    clientSecret: fields.clientSecret ?? '',
+    scopes: fields.scopes ?? (fields.type === 'github' ? GITHUB_PROVIDER_SCOPES : []),
+    ...fields,
+    created_at: now,
+    updated_at: now,
+  };
+  state.providers.push(created);
+  return providerView(created);
+}
+
+// ─── Deploy log stream ───────────────────────────────────────────────────────
+
+function deploymentLogStream(deployment: DeploymentRecord): Response {
+  const encoder = new TextEncoder();
+  const at = deployment.completed_at ?? deployment.created_at;
+  const events: Array<[string, unknown]> = [];
+  for (const step of DEPLOY_STEPS) {
+    events.push(['step', { step, state: 'started', timestamp: at }]);
+    events.push(['log', { timestamp: at, step, level: 'info', message: `${step}: done (local stand-in backend)` }]);
+    events.push(['step', { step, state: 'succeeded', timestamp: at }]);
+  }
+  events.push(['done', { status: deployment.status === 'failed' ? 'failed' : deployment.status, error: deployment.error }]);
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const [event, data] of events) {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      }
+      controller.close();
+    },
+  });
+  return new Response(body, {
+    headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  });
+}
+
+// ─── Routes ──────────────────────────────────────────────────────────────────
+
+const APP_CLIENT_SCOPES = ['/auth-configs/:authConfigId', '/teams/:teamId/tenants/:tenantName'];
+
+export const adminApiRouter: LocalRouter<VerifiedAssertion> = {
+  authenticate(req) {
+    checkApiKey(req.headers);
+    return verifyUserAssertion(req.headers, req.rawBody);
+  },
+  routes: [
+    // Called by sign-in with the API key only (no user yet)
+    {
+      method: 'POST',
+      pattern: '/ensure-apiblaze-user',
+      public: true,
+      handler(req) {
+        checkApiKey(req.headers);
+        const state = getState();
+        const body = req.json<{ provider?: string; provider_sub?: string; email?: string; display_name?: string }>();
+        if (!body.provider || !body.provider_sub) throw new LocalHttpError(400, 'provider and provider_sub are required');
+        let user = state.users.find((u) => u.provider === body.provider && u.provider_sub === body.provider_sub);
+        if (!user) {
+          user = { id: randomId('user'), provider: body.provider, provider_sub: body.provider_sub };
+          state.users.push(user);
+        }
+        user.email = body.email ?? user.email;
+        user.display_name = body.display_name ?? user.display_name;
+        return { apiblazeUserId: user.id };
+      },
+    },
+
+    // Fixture management: dump, replace or reset the whole state
+    {
+      method: 'GET',
+      pattern: '/__fixtures',
+      public: true,
+      handler(req) {
+        checkApiKey(req.headers);
+        return getState();
+      },
+    },
+    {
+      method: 'PUT',
+      pattern: '/__fixtures',
+      public: true,
+      handler(req) {
+        checkApiKey(req.headers);
+        replaceState(stateFromFixtures(req.json()));
+        return getState();
+      },
+    },
+    {
+      method: 'DELETE',
+      pattern: '/__fixtures',
+      public: true,
+      handler(req) {
+        checkApiKey(req.headers);
+        replaceState(stateFromFixtures(loadFixtures()));
+      },
+    },
+
+    // ─── Projects ───
+    { method: 'POST', pattern: '/', handler: createProject },
+    {
+      method: 'GET',
+      pattern: '/projects/check',
+      handler(req) {
+        const state = getState();
+        const projectId = slugify(req.query.get('subdomain') || req.query.get('name') || '');
+        const apiVersion = req.query.get('api_version');
+        const project = state.projects.find(
+          (p) =>
+            p.project_id === projectId &&
+            (!apiVersion || p.api_version === apiVersion) &&
+            p.status !== 'deleted'
+        );
+        return {
+          exists: !!project,
+          project_id: project?.project_id ?? null,
+          api_version: project?.api_version ?? null,
+        };
+      },
+    },
+    { method: 'GET', pattern: '/checkProjectName', handler: checkProjectName },
+    {
+      method: 'GET',
+      pattern: '/projects',
+      handler(req) {
+        const state = getState();
+        const teamId = req.query.get('team_id') || teamOf(req.auth);
+        if (teamId !== teamOf(req.auth)) throw new LocalHttpError(403, 'Forbidden');
+        const status = req.query.get('status');
+        const search = req.query.get('search')?.toLowerCase();
+        const page = Math.max(1, Number(req.query.get('page')) || 1);
+        const limit = Math.max(1, Number(req.query.get('limit')) || 20);
+        const matching = state.projects.filter(
+          (p) =>
+            p.team_id === teamId &&
+            (!status || p.status === status) &&
+            (!search || p.project_id.includes(search) || p.display_name.toLowerCase().includes(search))
+        );
+        return {
+          success: true,
+          projects: matching.slice((page - 1) * limit, page * limit).map(projectView),
+          pagination: { page, limit, total: matching.length, total_pages: Math.max(1, Math.ceil(matching.length / limit)) },
+        };
+      },
+    },
+    {
+      method: 'GET',
+      pattern: '/projects/:projectId/status',
+      handler(req) {
+        const versions = getState().projects.filter(
+          (p) => p.project_id === req.params.projectId && p.status !== 'deleted'
+        );
+        const project = versions.sort((a, b) => b.updated_at.localeCompare(a.updated_at))[0];
+        if (!project) throw new LocalHttpError(404, 'Project not found');
+        return projectView(findProject(getState(), req.auth, project.project_id, project.api_version));
+      },
+    },
+    {
+      method: 'GET',
+      pattern: '/projects/:projectId/:version/deployments',
+      handler(req) {
+        const project = findProject(getState(), req.auth, req.params.projectId, req.params.version);
+        return { project_id: project.project_id, api_version: project.api_version, deployments: project.deployments };
+      },
+    },
+    {
+      method: 'POST',
+      pattern: '/projects/:projectId/:version/deployments/:deploymentId/rollback',
+      handler(req) {
+        const project = findProject(getState(), req.auth, req.params.projectId, req.params.version);
+        const target = findDeployment(project, req.params.deploymentId);
+        if (target.status !== 'live' && target.status !== 'rolled_back') {
+          throw new LocalHttpError(409, `Cannot roll back to a ${target.status} deployment`);
+        }
+        if (!target.config_snapshot) throw new LocalHttpError(409, 'Deployment has no config snapshot');
+        const current = project.deployments.find((d) => d.status === 'live');
+        if (current) current.status = 'rolled_back';
+        project.config = structuredClone(target.config_snapshot);
+        project.updated_at = nowIso();
+        const deployment = { ...newDeployment(req.auth, project.config), rolled_back_from: target.deployment_id };
+        project.deployments.unshift(deployment);
+        return { success: true, deployment };
+      },
+    },
+    {
+      method: 'GET',
+      pattern: '/projects/:projectId/:version/deployments/:deploymentId/logs',
+      handler(req) {
+        const project = findProject(getState(), req.auth, req.params.projectId, req.params.version);
+        return deploymentLogStream(findDeployment(project, req.params.deploymentId));
+      },
+    },
+
+    // ─── Project tenants ───
+    {
+      method: 'GET',
+      pattern: '/projects/:projectId/:version/tenants',
+      handler(req) {
+        return { tenants: findProject(getState(), req.auth, req.params.projectId, req.params.version).tenants };
+      },
+    },
+    {
+      method: 'POST',
+      pattern: '/projects/:projectId/:version/tenants',
+      status: 201,
+      handler(req) {
+        const state = getState();
+        const project = findProject(state, req.auth, req.params.projectId, req.params.version);
+        const body = req.json<{ tenant_name?: string; display_name?: string }>();
+        const tenantName = slugify(body.tenant_name ?? '');
+        if (!tenantName) throw new LocalHttpError(400, 'tenant_name is required');
+        const teamTenant = state.tenants.find((t) => t.team_id === project.team_id && t.tenant_name === tenantName);
+        if (!teamTenant) {
+          state.tenants.push({ team_id: project.team_id, tenant_name: tenantName, display_name: body.display_name || tenantName });
+        }
+        const tenant = attachTenant(project, tenantName, body.display_name ?? teamTenant?.display_name);
+        project.updated_at = nowIso();
+        return {
+          success: true,
+          ...tenant,
+          url: `https://${project.project_id}-${tenantName}.apiblaze.com/${project.api_version}`,
+        };
+      },
+    },
+    {
+      method: 'GET',
+      pattern: '/projects/:projectId/:version/tenants/:tenantName/auth',
+      handler(req) {
+        const project = findProject(getState(), req.auth, req.params.projectId, req.params.version);
+        if (!project.tenants.some((t) => t.tenant_name === req.params.tenantName)) {
+          throw new LocalHttpError(404, 'Tenant is not attached to this project');
+        }
+        return {
+          requests_auth: (project.config.requests_auth as Record<string, unknown> | undefined) ?? null,
+          default_app_client_id: (project.config.default_app_client_id as string | undefined) ?? null,
+        };
+      },
+    },
+    {
+      method: 'DELETE',
+      pattern: '/projects/:projectId/:version/tenants/:tenantName',
+      handler(req) {
+        const project = findProject(getState(), req.auth, req.params.projectId, req.params.version);
+        const before = project.tenants.length;
+        project.tenants = project.tenants.filter((t) => t.tenant_name !== req.params.tenantName);
+        if (project.tenants.length === before) throw new LocalHttpError(404, 'Tenant is not attached to this project');
+        project.updated_at = nowIso();
+      },
+    },
+
+    // ─── Team tenants ───
+    {
+      method: 'GET',
+      pattern: '/teams/:teamId/tenants',
+      handler(req) {
+        const state = getState();
+        if (req.params.teamId !== teamOf(req.auth)) throw new LocalHttpError(403, 'Forbidden');
+        const tenants = state.tenants.filter((t) => t.team_id === req.params.teamId);
+        if (req.query.get('detail') !== '1') return { tenants: tenants.map((t) => t.tenant_name) };
+        return {
+          tenants: tenants.map((t) => ({
+            tenant_name: t.tenant_name,
+            display_name: t.display_name,
+            app_clients_count: state.appClients.filter((c) => c.team_id === t.team_id && c.tenant_name === t.tenant_name)
+              .length,
+            proxies: state.projects
+              .filter((p) => p.status !== 'deleted' && p.tenants.some((pt) => pt.tenant_name === t.tenant_name))
+              .map((p) => ({ project_id: p.project_id, api_version: p.api_version })),
+          })),
+        };
+      },
+    },
+    {
+      method: 'POST',
+      pattern: '/teams/:teamId/tenants',
+      status: 201,
+      handler(req) {
+        const state = getState();
+        if (req.params.teamId !== teamOf(req.auth)) throw new LocalHttpError(403, 'Forbidden');
+        const body = req.json<{ display_name?: string; tenant_name?: string }>();
+        const displayName = body.display_name?.trim();
+        if (!displayName) throw new LocalHttpError(400, 'display_name is required');
+        const tenantName = slugify(body.tenant_name || displayName);
+        if (!tenantName) throw new LocalHttpError(400, 'tenant_name must contain letters or digits');
+        if (state.tenants.some((t) => t.team_id === req.params.teamId && t.tenant_name === tenantName)) {
+          throw new LocalHttpError(409, `Tenant ${tenantName} already exists`);
+        }
+        const tenant = { team_id: req.params.teamId, tenant_name: tenantName, display_name: displayName };
+        state.tenants.push(tenant);
+        return { tenant_name: tenant.tenant_name, display_name: tenant.display_name };
+      },
+    },
+
+    // ─── Tenant end users ───
+    {
+      method: 'GET',
+      pattern: '/teams/:teamId/tenants/:tenantName/users',
+      handler(req) {
+        const state = getState();
+        const { teamId, tenantName } = req.params;
+        findTeamTenant(state, req.auth, teamId, tenantName);
+        const q = req.query.get('q')?.toLowerCase();
+        const clientId = req.query.get('client_id');
+        const status = req.query.get('status');
+        const matching = state.endUsers
+          .filter(
+            (u) =>
+              u.team_id === teamId &&
+              u.tenant_name === tenantName &&
+              (!status || u.status === status) &&
+              (!clientId || u.identities.some((i) => i.app_client_id === clientId)) &&
+              (!q || [u.id, u.email, u.name].some((field) => field?.toLowerCase().includes(q)))
+          )
+          .sort((a, b) => b.created_at.localeCompare(a.created_at));
+        const limit = Number(req.query.get('limit')) || DEFAULT_USER_PAGE_SIZE;
+        const offset = Number(req.query.get('cursor') || 0);
+        return {
+          users: matching.slice(offset, offset + limit).map(endUserView),
+          next_cursor: offset + limit < matching.length ? String(offset + limit) : null,
+          total: matching.length,
+        };
+      },
+    },
+    {
+      method: 'POST',
+      pattern: '/teams/:teamId/tenants/:tenantName/users/invitations',
+      status: 201,
+      handler(req) {
+        const state = getState();
+        const { teamId, tenantName } = req.params;
+        findTeamTenant(state, req.auth, teamId, tenantName);
+        const body = req.json<{ email?: string; client_id?: string; name?: string }>();
+        const email = body.email?.trim().toLowerCase();
+        if (!email) throw new LocalHttpError(400, 'email is required');
+        if (body.client_id) findAppClient(state, { teamId, tenantName }, body.client_id);
+        if (state.endUsers.some((u) => u.team_id === teamId && u.tenant_name === tenantName && u.email === email)) {
+          throw new LocalHttpError(409, `A user with email ${email} already exists`);
+        }
+        const now = nowIso();
+        const user: LocalEndUser = {
+          id: randomId('eu'),
+          team_id: teamId,
+          tenant_name: tenantName,
+          email,
+          name: body.name?.trim() || null,
+          status: 'invited',
+          identities: [],
+          last_login_at: null,
+          refresh_tokens: 0,
+          created_at: now,
+          updated_at: now,
+        };
+        state.endUsers.push(user);
+        return endUserView(user);
+      },
+    },
+    {
+      method: 'GET',
+      pattern: '/teams/:teamId/tenants/:tenantName/users/:userId',
+      handler: (req) => endUserView(findEndUser(getState(), req)),
+    },
+    {
+      method: 'PATCH',
+      pattern: '/teams/:teamId/tenants/:tenantName/users/:userId',
+      handler(req) {
+        const user = findEndUser(getState(), req);
+        const body = req.json<{ disabled?: boolean; name?: string }>();
+        if (typeof body.disabled === 'boolean') {
+          if (body.disabled) {
+            user.status = 'disabled';
+            user.refresh_tokens = 0;
+          } else if (user.status === 'disabled') {
+            user.status = user.last_login_at ? 'active' : 'invited';
+          }
+        }
+        if (typeof body.name === 'string') user.name = body.name.trim() || null;
+        user.updated_at = nowIso();
+        return endUserView(user);
+      },
+    },
+    {
+      method: 'DELETE',
+      pattern: '/teams/:teamId/tenants/:tenantName/users/:userId',
+      handler(req) {
+        const state = getState();
+        const user = findEndUser(state, req);
+        state.endUsers = state.endUsers.filter((u) => u !== user);
+        for (const group of state.groups) group.members = group.members.filter((id) => id !== user.id);
+      },
+    },
+    {
+      method: 'DELETE',
+      pattern: '/teams/:teamId/tenants/:tenantName/users/:userId/sessions',
+      handler(req) {
+        const user = findEndUser(getState(), req);
+        const revoked = user.refresh_tokens;
+        user.refresh_tokens = 0;
+        return { revoked };
+      },
+    },
+
+    // ─── Tenant groups ───
+    {
+      method: 'GET',
+      pattern: '/teams/:teamId/tenants/:tenantName/groups',
+      handler(req) {
+        const state = getState();
+        const { teamId, tenantName } = req.params;
+        findTeamTenant(state, req.auth, teamId, tenantName);
+        return state.groups
+          .filter((g) => g.team_id === teamId && g.tenant_name === tenantName)
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map(groupView);
+      },
+    },
+    {
+      method: 'POST',
+      pattern: '/teams/:teamId/tenants/:tenantName/groups',
+      status: 201,
+      handler(req) {
+        const state = getState();
+        const { teamId, tenantName } = req.params;
+        findTeamTenant(state, req.auth, teamId, tenantName);
+        const body = req.json<{ name?: unknown; description?: string }>();
+        const now = nowIso();
+        const group: LocalGroup = {
+          id: randomId('grp'),
+          team_id: teamId,
+          tenant_name: tenantName,
+          name: '',
+          description: body.description?.trim() || null,
+          members: [],
+          created_at: now,
+          updated_at: now,
+        };
+        group.name = checkGroupName(state, group, body.name);
+        state.groups.push(group);
+        return groupView(group);
+      },
+    },
+    {
+      method: 'GET',
+      pattern: '/teams/:teamId/tenants/:tenantName/groups/:groupId',
+      handler: (req) => groupView(findGroup(getState(), req)),
+    },
+    {
+      method: 'PATCH',
+      pattern: '/teams/:teamId/tenants/:tenantName/groups/:groupId',
+      handler(req) {
+        const state = getState();
+        const group = findGroup(state, req);
+        const body = req.json<{ name?: unknown; description?: string }>();
+        if (body.name !== undefined) group.name = checkGroupName(state, group, body.name);
+        if (typeof body.description === 'string') group.description = body.description.trim() || null;
+        group.updated_at = nowIso();
+        return groupView(group);
+      },
+    },
+    {
+      method: 'DELETE',
+      pattern: '/teams/:teamId/tenants/:tenantName/groups/:groupId',
+      handler(req) {
+        const state = getState();
+        const group = findGroup(state, req);
+        state.groups = state.groups.filter((g) => g !== group);
+        for (const client of state.appClients) {
+          if (client.groupScopes) delete client.groupScopes[group.id];
+        }
+      },
+    },
+    {
+      method: 'GET',
+      pattern: '/teams/:teamId/tenants/:tenantName/groups/:groupId/members',
+      handler(req) {
+        const state = getState();
+        const group = findGroup(state, req);
+        const members = state.endUsers.filter((u) => group.members.includes(u.id));
+        const limit = Number(req.query.get('limit')) || DEFAULT_USER_PAGE_SIZE;
+        const offset = Number(req.query.get('cursor') || 0);
+        return {
+          users: members.slice(offset, offset + limit).map(endUserView),
+          next_cursor: offset + limit < members.length ? String(offset + limit) : null,
+          total: members.length,
+        };
+      },
+    },
+    {
+      method: 'POST',
+      pattern: '/teams/:teamId/tenants/:tenantName/groups/:groupId/members',
+      handler(req) {
+        const state = getState();
+        const group = findGroup(state, req);
+        const body = req.json<{ user_ids?: string[]; emails?: string[] }>();
+        const tenantUsers = state.endUsers.filter((u) => u.team_id === group.team_id && u.tenant_name === group.tenant_name);
+        const result = { added: 0, already_members: 0, not_found: [] as string[] };
+        const lookups: Array<[string, LocalEndUser | undefined]> = [
+          ...(body.user_ids ?? []).map((id): [string, LocalEndUser | undefined] => [id, tenantUsers.find((u) => u.id === id)]),
+          ...(body.emails ?? []).map((email): [string, LocalEndUser | undefined] => [
+            email,
+            tenantUsers.find((u) => u.email === email.toLowerCase()),
+          ]),
+        ];
+        for (const [key, user] of lookups) {
+          if (!user) result.not_found.push(key);
+          else if (group.members.includes(user.id)) result.already_members++;
+          else {
+            group.members.push(user.id);
+            result.added++;
+          }
+        }
+        if (result.added > 0) group.updated_at = nowIso();
+        return result;
+      },
+    },
+    {
+      method: 'DELETE',
+      pattern: '/teams/:teamId/tenants/:tenantName/groups/:groupId/members/:userId',
+      handler(req) {
+        const group = findGroup(getState(), req);
+        if (!group.members.includes(req.params.userId)) throw new LocalHttpError(404, 'User is not a member of this group');
+        group.members = group.members.filter((id) => id !== req.params.userId);
+        group.updated_at = nowIso();
+      },
+    },
+
+    // ─── Auth configs ───
+    {
+      method: 'GET',
+      pattern: '/auth-configs',
+      handler(req) {
+        return getState().authConfigs.filter((c) => c.owner === req.auth.sub);
+      },
+    },
+    {
+      method: 'POST',
+      pattern: '/auth-configs',
+      status: 201,
+      handler(req) {
+        const body = req.json();
+        const fields = pick<LocalAuthConfig>(body, ['name', 'enableSocialAuth', 'enableApiKeyAuth', 'bringMyOwnOAuth']);
+        if (!fields.name) throw new LocalHttpError(400, 'name is required');
+        const now = nowIso();
+        const authConfig: LocalAuthConfig = {
+          id: randomId('authcfg'),
+          owner: req.auth.sub,
+          name: fields.name,
+          ...fields,
+          created_at: now,
+          updated_at: now,
+        };
+        getState().authConfigs.push(authConfig);
+        return authConfig;
+      },
+    },
+    {
+      method: 'GET',
+      pattern: '/auth-configs/lookup-client/:clientId',
+      handler(req) {
+        const state = getState();
+        const client = state.appClients.find(
+          (c) =>
+            c.id === req.params.clientId &&
+            state.authConfigs.some((a) => a.id === c.auth_config_id && a.owner === req.auth.sub)
+        );
+        if (!client?.auth_config_id) throw new LocalHttpError(404, 'App client not found');
+        return { authConfigId: client.auth_config_id, client: appClientView(state, client) };
+      },
+    },
+    {
+      method: 'GET',
+      pattern: '/auth-configs/:authConfigId',
+      handler(req) {
+        return findAuthConfig(getState(), req.auth, req.params.authConfigId);
+      },
+    },
+    {
+      method: 'PATCH',
+      pattern: '/auth-configs/:authConfigId',
+      handler(req) {
+        const authConfig = findAuthConfig(getState(), req.auth, req.params.authConfigId);
+        const fields = pick<LocalAuthConfig>(req.json(), [
+          'name',
+          'default_app_client_id',
+          'enableSocialAuth',
+          'enableApiKeyAuth',
+          'bringMyOwnOAuth',
+        ]);
+        return Object.assign(authConfig, fields, { updated_at: nowIso() });
+      },
+    },
+    {
+      method: 'DELETE',
+      pattern: '/auth-configs/:authConfigId',
+      handler(req) {
+        const state = getState();
+        const authConfig = findAuthConfig(state, req.auth, req.params.authConfigId);
+        for (const client of state.appClients.filter((c) => c.auth_config_id === authConfig.id)) {
+          deleteAppClient(state, client);
+        }
+        state.authConfigs = state.authConfigs.filter((c) => c !== authConfig);
+      },
+    },
+
+    // ─── App clients and providers (under an auth config or a team tenant) ───
+    ...APP_CLIENT_SCOPES.flatMap((base): LocalRouter<VerifiedAssertion>['routes'] => [
+      {
+        method: 'GET',
+        pattern: `${base}/app-clients`,
+        handler(req) {
+          const state = getState();
+          const scope = scopeOf(req);
+          return state.appClients.filter((c) => inScope(c, scope)).map((c) => appClientView(state, c));
+        },
+      },
+      {
+        method: 'POST',
+        pattern: `${base}/app-clients`,
+        status: 201,
+        handler: (req) => upsertAppClient(req, undefined),
+      },
+      {
+        method: 'GET',
+        pattern: `${base}/app-clients/:clientId`,
+        handler(req) {
+          const state = getState();
+          return appClientView(state, findAppClient(state, scopeOf(req), req.params.clientId));
+        },
+      },
+      {
+        method: 'PATCH',
+        pattern: `${base}/app-clients/:clientId`,
+        handler: (req) => upsertAppClient(req, findAppClient(getState(), scopeOf(req), req.params.clientId)),
+      },
+      {
+        method: 'DELETE',
+        pattern: `${base}/app-clients/:clientId`,
+        handler(req) {
+          const state = getState();
+          deleteAppClient(state, findAppClient(state, scopeOf(req), req.params.clientId));
+        },
+      },
+      {
+        method: 'GET',
+        pattern: `${base}/app-clients/:clientId/secret`,
+        handler(req) {
+          return { clientSecret: findAppClient(getState(), scopeOf(req), req.params.clientId).clientSecret };
+        },
+      },
+      {
+        method: 'GET',
+        pattern: `${base}/app-clients/:clientId/secrets`,
+        handler: (req) => clientSecretsView(findAppClient(getState(), scopeOf(req), req.params.clientId)),
+      },
+      {
+        method: 'POST',
+        pattern: `${base}/app-clients/:clientId/secrets/rotate`,
+        handler(req) {
+          const client = findAppClient(getState(), scopeOf(req), req.params.clientId);
+          return rotateClientSecret(client, req.json<{ grace_period_seconds?: unknown }>().grace_period_seconds);
+        },
+      },
+      {
+        method: 'DELETE',
+        pattern: `${base}/app-clients/:clientId/secrets/:secretId`,
+        handler(req) {
+          const client = findAppClient(getState(), scopeOf(req), req.params.clientId);
+          if (secretId(client.clientSecret) === req.params.secretId) {
+            throw new LocalHttpError(409, 'The current secret cannot be revoked; rotate it instead');
+          }
+          clientSecretsView(client);
+          const previous = client.previousSecrets ?? [];
+          const remaining = previous.filter((s) => secretId(s.clientSecret) !== req.params.secretId);
+          if (remaining.length === previous.length) throw new LocalHttpError(404, 'Secret not found or already expired');
+          client.previousSecrets = remaining;
+          client.updated_at = nowIso();
+        },
+      },
+      {
+        method: 'GET',
+        pattern: `${base}/app-clients/:clientId/providers`,
+        handler(req) {
+          const state = getState();
+          const client = findAppClient(state, scopeOf(req), req.params.clientId);
+          return state.providers.filter((p) => p.app_client_id === client.id).map(providerView);
+        },
+      },
+      {
+        method: 'POST',
+        pattern: `${base}/app-clients/:clientId/providers`,
+        status: 201,
+        handler: (req) => upsertProvider(req, undefined),
+      },
+      {
+        method: 'PATCH',
+        pattern: `${base}/app-clients/:clientId/providers/:providerId`,
+        handler(req) {
+          const state = getState();
+          const client = findAppClient(state, scopeOf(req), req.params.clientId);
+          return upsertProvider(req, findProvider(state, client.id, req.params.providerId));
+        },
+      },
+      {
+        method: 'DELETE',
+        pattern: `${base}/app-clients/:clientId/providers/:providerId`,
+        handler(req) {
+          const state = getState();
+          const client = findAppClient(state, scopeOf(req), req.params.clientId);
+          const provider = findProvider(state, client.id, req.params.providerId);
+          state.providers = state.providers.filter((p) => p !== provider);
+        },
+      },
+      {
+        method: 'GET',
+        pattern: `${base}/app-clients/:clientId/providers/:providerId/secret`,
+        handler(req) {
+          const state = getState();
+          const client = findAppClient(state, scopeOf(req), req.params.clientId);
+          return { clientSecret: findProvider(state, client.id, req.params.providerId).clientSecret };
+        },
+      },
+    ]),
+
+    // ─── Single project version (last: the patterns are fully generic) ───
+    {
+      method: 'GET',
+      pattern: '/:projectId/:version',
+      handler(req) {
+        return projectView(findProject(getState(), req.auth, req.params.projectId, req.params.version));
+      },
+    },
+    {
+      method: 'DELETE',
+      pattern: '/:projectId/:version',
+      handler(req) {
+        const state = getState();
+        const project = findProject(state, req.auth, req.params.projectId, req.params.version);
+        state.projects = state.projects.filter((p) => p !== project);
+        delete state.policies[`${project.project_id}:${project.api_version}`];
+      },
+    },
+    {
+      method: 'PATCH',
+      pattern: '/:projectId/:version/config',
+      handler(req) {
+        const project = findProject(getState(), req.auth, req.params.projectId, req.params.version);
+        const ifMatch = unquoteEtag(req.headers.get('if-match'));
+        if (ifMatch && ifMatch !== project.updated_at) {
+          throw new LocalHttpError(412, 'Project config was changed by someone else');
+        }
+        project.config = { ...project.config, ...req.json() };
+        project.updated_at = nowIso();
+        return { success: true, updated_at: project.updated_at };
+      },
+    },
+  ],
+};
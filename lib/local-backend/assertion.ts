@@ -0,0 +1,104 @@
+/**
+ * Request authentication of the local stand-in admin API, mirroring internalapi: an X-API-KEY
+ * check plus an RS256 X-User-Assertion (see lib/jwt-signer.ts) whose `bod` claim binds it to
+ * the exact request body.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getDefaultKeyring, type JWTKeyring } from '@/lib/jwt-keyring';
+import type { UserAssertionClaims } from '@/lib/jwt-signer';
+import { LocalHttpError } from './http';
+
+export interface VerifiedAssertion extends UserAssertionClaims {
+  iss: string;
+  aud: string;
+  iat: number;
+  exp: number;
+  nbf: number;
+  jti: string;
+  bod?: string;
+}
+
+const ISSUER = 'apiblaze-dashboard';
+const AUDIENCE = 'apiblaze-admin-api';
+const CLOCK_SKEW_SECONDS = 30;
+
+// jti → exp of assertions already accepted, to reject replays
+const seenJtis = new Map<string, number>();
+
+/**
+ * JWT_PUBLIC_KEY, else the key named by `kid` in this app's own signing keyring (the stand-in
+ * runs next to the signer), else ./jwt-public.pem. The committed jwt-public.pem belongs to the
+ * production signer, so a local keyring has to win over it.
+ */
+function loadPublicKey(kid: unknown): crypto.KeyObject {
+  if (process.env.JWT_PUBLIC_KEY) return crypto.createPublicKey(process.env.JWT_PUBLIC_KEY);
+  let keyring: JWTKeyring | null = null;
+  try {
+    keyring = getDefaultKeyring();
+  } catch {
+    // No private key here: verify against the published public key
+  }
+  if (!keyring) return crypto.createPublicKey(fs.readFileSync(path.join(process.cwd(), 'jwt-public.pem'), 'utf8'));
+  const key = typeof kid === 'string' ? keyring.publicKey(kid) : keyring.signingKey().publicKey;
+  if (!key) throw new LocalHttpError(401, `Unknown or retired signing key ${kid}`);
+  return key;
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as Record<string, unknown>;
+  } catch {
+    throw new LocalHttpError(401, 'Malformed user assertion');
+  }
+}
+
+export function checkApiKey(headers: Headers): void {
+  const expected = process.env.INTERNAL_API_KEY || process.env.APIBLAZE_ADMIN_API_KEY;
+  if (expected && headers.get('x-api-key') !== expected) {
+    throw new LocalHttpError(401, 'Invalid API key');
+  }
+}
+
+export function verifyUserAssertion(headers: Headers, rawBody: string, now = Math.floor(Date.now() / 1000)): VerifiedAssertion {
+  const header = headers.get('x-user-assertion');
+  const token = header?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) throw new LocalHttpError(401, 'Missing X-User-Assertion');
+
+  const [encodedHeader, encodedPayload, signature] = token.split('.');
+  if (!encodedHeader || !encodedPayload || !signature) throw new LocalHttpError(401, 'Malformed user assertion');
+  const jwtHeader = decodeSegment(encodedHeader);
+  if (jwtHeader.alg !== 'RS256') throw new LocalHttpError(401, 'User assertion must be RS256');
+
+  const valid = crypto
+    .createVerify('RSA-SHA256')
+    .update(`${encodedHeader}.${encodedPayload}`)
+    .verify(loadPublicKey(jwtHeader.kid), Buffer.from(signature, 'base64url'));
+  if (!valid) throw new LocalHttpError(401, 'Invalid user assertion signature');
+
+  const claims = decodeSegment(encodedPayload) as unknown as VerifiedAssertion;
+  if (claims.iss !== ISSUER) throw new LocalHttpError(401, `Unexpected assertion issuer ${claims.iss}`);
+  if (claims.aud !== AUDIENCE) throw new LocalHttpError(401, `Unexpected assertion audience ${claims.aud}`);
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new LocalHttpError(401, 'User assertion expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+    throw new LocalHttpError(401, 'User assertion not yet valid');
+  }
+  if (!claims.sub || !claims.handle) throw new LocalHttpError(401, 'User assertion is missing sub or handle');
+
+  if (rawBody || claims.bod) {
+    const hash = crypto.createHash('sha256').update(rawBody).digest('hex');
+    if (claims.bod !== hash) throw new LocalHttpError(401, 'User assertion is not bound to this request body');
+  }
+
+  for (const [jti, exp] of seenJtis) {
+    if (exp + CLOCK_SKEW_SECONDS < now) seenJtis.delete(jti);
+  }
+  if (seenJtis.has(claims.jti)) throw new LocalHttpError(401, 'User assertion replayed');
+  seenJtis.set(claims.jti, claims.exp);
+
+  return claims;
+}
@@ -0,0 +1,235 @@
+/**
+ * Built-in demo data for the local stand-in backend: the local developer's team with one
+ * tenant, an app client with a GitHub provider, a few end users in an `admins` group, and a
+ * deployed project with routes, an authorization model and a few tuples.
+ */
+
+import type { LocalFixtures } from './store';
+
+/** Who "Sign in as local developer" logs in as (see lib/next-auth.ts). */
+export const LOCAL_DEVELOPER = {
+  id: 'user_localdev',
+  providerSub: 'local-dev',
+  handle: 'localdev',
+  name: 'Local Developer',
+  email: 'dev@localhost',
+} as const;
+
+const TEAM_ID = `team_${LOCAL_DEVELOPER.id}`;
+const CREATED_AT = '2026-01-05T09:00:00.000Z';
+
+const PETSTORE_CONFIG = {
+  target_url: 'https://petstore3.swagger.io/api/v3',
+  tenant: 'api',
+  default_app_client_id: 'ac_petstore',
+  requests_auth: { mode: 'authenticate', methods: ['jwt'] },
+};
+
+export const DEFAULT_FIXTURES: LocalFixtures = {
+  users: [
+    {
+      id: LOCAL_DEVELOPER.id,
+      // lib/next-auth.ts resolves every sign-in as a github identity
+      provider: 'github',
+      provider_sub: LOCAL_DEVELOPER.providerSub,
+      email: LOCAL_DEVELOPER.email,
+      display_name: LOCAL_DEVELOPER.name,
+    },
+  ],
+  tenants: [{ team_id: TEAM_ID, tenant_name: 'api', display_name: 'Default' }],
+  appClients: [
+    {
+      id: 'ac_petstore',
+      name: 'petstore-appclient',
+      clientSecret: 'local-petstore-secret',
+      team_id: TEAM_ID,
+      tenant_name: 'api',
+      projectName: 'petstore',
+      apiVersion: '1.0.0',
+      tenant: 'api',
+      scopes: ['email', 'openid', 'profile', 'store:admin'],
+      groupScopes: { grp_admins: ['store:admin'] },
+      authorizedCallbackUrls: ['https://petstore-api.portal.apiblaze.com/1.0.0', 'http://localhost:3000/dashboard/login-tester/callback'],
+      signoutUris: [],
+      refreshTokenExpiry: 2592000,
+      idTokenExpiry: 3600,
+      accessTokenExpiry: 3600,
+      verified: true,
+      created_at: CREATED_AT,
+      updated_at: CREATED_AT,
+    },
+  ],
+  providers: [
+    {
+      id: 'prov_petstore_github',
+      app_client_id: 'ac_petstore',
+      type: 'github',
+      clientId: 'local-github-client-id',
+      clientSecret: 'local-github-client-secret',
+      scopes: ['read:user', 'user:email'],
+      domain: 'https://github.com',
+      created_at: CREATED_AT,
+      updated_at: CREATED_AT,
+    },
+  ],
+  endUsers: [
+    {
+      id: 'eu_alice',
+      team_id: TEAM_ID,
+      tenant_name: 'api',
+      email: 'alice@example.com',
+      name: 'Alice Example',
+      status: 'active',
+      identities: [
+        {
+          provider: 'github',
+          provider_user_id: '1001',
+          app_client_id: 'ac_petstore',
+          email: 'alice@example.com',
+          linked_at: CREATED_AT,
+          last_login_at: '2026-01-12T16:20:00.000Z',
+        },
+      ],
+      last_login_at: '2026-01-12T16:20:00.000Z',
+      refresh_tokens: 2,
+      created_at: CREATED_AT,
+      updated_at: '2026-01-12T16:20:00.000Z',
+    },
+    {
+      id: 'eu_bob',
+      team_id: TEAM_ID,
+      tenant_name: 'api',
+      email: 'bob@example.com',
+      name: 'Bob Example',
+      status: 'disabled',
+      identities: [
+        {
+          provider: 'github',
+          provider_user_id: '1002',
+          app_client_id: 'ac_petstore',
+          email: 'bob@example.com',
+          linked_at: CREATED_AT,
+          last_login_at: '2026-01-06T08:00:00.000Z',
+        },
+      ],
+      last_login_at: '2026-01-06T08:00:00.000Z',
+      refresh_tokens: 0,
+      created_at: CREATED_AT,
+      updated_at: '2026-01-08T10:00:00.000Z',
+    },
+    {
+      id: 'eu_carol',
+      team_id: TEAM_ID,
+      tenant_name: 'api',
+      email: 'carol@example.com',
+      name: null,
+      status: 'invited',
+      identities: [],
+      last_login_at: null,
+      refresh_tokens: 0,
+      created_at: '2026-01-10T12:00:00.000Z',
+      updated_at: '2026-01-10T12:00:00.000Z',
+    },
+  ],
+  groups: [
+    {
+      id: 'grp_admins',
+      team_id: TEAM_ID,
+      tenant_name: 'api',
+      name: 'admins',
+      description: 'Can manage the store inventory',
+      members: ['eu_alice'],
+      created_at: CREATED_AT,
+      updated_at: CREATED_AT,
+    },
+  ],
+  projects: [
+    {
+      project_id: 'petstore',
+      api_version: '1.0.0',
+      display_name: 'Petstore',
+      team_id: TEAM_ID,
+      owner: LOCAL_DEVELOPER.id,
+      status: 'active',
+      created_at: CREATED_AT,
+      updated_at: CREATED_AT,
+      config: PETSTORE_CONFIG,
+      deployments: [
+        {
+          deployment_id: 'dep_petstore_1',
+          status: 'live',
+          created_at: CREATED_AT,
+          completed_at: CREATED_AT,
+          duration_seconds: 4,
+          deployer: { name: LOCAL_DEVELOPER.name, github_username: LOCAL_DEVELOPER.handle },
+          config_snapshot: PETSTORE_CONFIG,
+        },
+      ],
+      tenants: [{ tenant_name: 'api', display_name: 'Default' }],
+    },
+  ],
+  policies: {
+    'petstore:1.0.0': {
+      routes: [
+        {
+          method: 'GET',
+          resource: '/pet/{petId}',
+          on_request_read: [{ user: 'user:{{JWT.sub}}', relation: 'viewer', object: 'pet:{{PATH.petId}}' }],
+          post_response_write: [],
+          authentication_config: { require_authentication: true },
+          cache_config: null,
+          authorization_enabled: true,
+          updated_at: CREATED_AT,
+        },
+        {
+          method: 'POST',
+          resource: '/pet',
+          on_request_read: [],
+          post_response_write: [{ user: 'user:{{JWT.sub}}', relation: 'owner', object: 'pet:{{RESPONSE.id}}' }],
+          authentication_config: { require_authentication: true },
+          cache_config: null,
+          authorization_enabled: false,
+          updated_at: CREATED_AT,
+        },
+        {
+          method: 'DELETE',
+          resource: '/pet/{petId}',
+          on_request_read: [],
+          post_response_write: [],
+          authentication_config: { require_authentication: false },
+          cache_config: null,
+          authorization_enabled: false,
+          updated_at: CREATED_AT,
+        },
+      ],
+      models: [
+        {
+          id: '01KE6P4YM06HAAY2XYZ67VCSP9',
+          schema_version: '1.1',
+          type_definitions: [
+            { type: 'user' },
+            {
+              type: 'pet',
+              relations: {
+                owner: { this: {} },
+                viewer: { union: { child: [{ this: {} }, { computedUserset: { relation: 'owner' } }] } },
+              },
+              metadata: {
+                relations: {
+                  owner: { directly_related_user_types: [{ type: 'user' }] },
+                  viewer: { directly_related_user_types: [{ type: 'user' }] },
+                },
+              },
+            },
+          ],
+        },
+      ],
+      tuples: {
+        api: [
+          { user: `user:${LOCAL_DEVELOPER.id}`, relation: 'owner', object: 'pet:1', timestamp: CREATED_AT },
+          { user: 'user:guest', relation: 'viewer', object: 'pet:1', timestamp: CREATED_AT },
+        ],
+      },
+    },
+  },
+};
@@ -0,0 +1,117 @@
+/**
+ * Minimal router for the local stand-in backend. Routes are matched in order against the
+ * catch-all path segments; `:name` captures one segment, `*name` the rest of the path.
+ * Errors use the admin API's `{ error, details }` body so APIBlazeClient handles them as usual.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+export class LocalHttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'LocalHttpError';
+  }
+}
+
+export interface LocalRequest<C = undefined> {
+  method: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: Headers;
+  /** Raw body text ('' when none); the user assertion's body hash is checked against it */
+  rawBody: string;
+  /** Set by the router's `authenticate` hook */
+  auth: C;
+  json<T = Record<string, unknown>>(): T;
+}
+
+export interface LocalRoute<C> {
+  method: string;
+  pattern: string;
+  /** Status of a non-Response result (default 200; 204 when the handler returns nothing) */
+  status?: number;
+  /** Skip the router's `authenticate` hook */
+  public?: boolean;
+  handler(request: LocalRequest<C>): unknown;
+}
+
+export interface LocalRouter<C> {
+  routes: Array<LocalRoute<C>>;
+  /** Runs before every non-public route; throw LocalHttpError to reject the call */
+  authenticate?(request: LocalRequest<undefined>): C;
+}
+
+function matchPattern(pattern: string, segments: string[]): Record<string, string> | null {
+  const parts = pattern.split('/').filter(Boolean);
+  const params: Record<string, string> = {};
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (part.startsWith('*')) {
+      if (i >= segments.length) return null;
+      params[part.slice(1)] = '/' + segments.slice(i).join('/');
+      return params;
+    }
+    if (i >= segments.length) return null;
+    if (part.startsWith(':')) params[part.slice(1)] = segments[i];
+    else if (part !== segments[i]) return null;
+  }
+  return parts.length === segments.length ? params : null;
+}
+
+export function errorResponse(status: number, error: string, details?: unknown): NextResponse {
+  return NextResponse.json({ error, ...(details !== undefined && { details }) }, { status });
+}
+
+export async function dispatch<C>(
+  router: LocalRouter<C>,
+  request: NextRequest,
+  segments: string[],
+  /** Params captured outside the catch-all, e.g. the project of a policies-api call */
+  baseParams: Record<string, string> = {}
+): Promise<Response> {
+  const method = request.method.toUpperCase();
+  const rawBody = method === 'GET' || method === 'HEAD' ? '' : await request.text();
+
+  let pathMatched = false;
+  for (const route of router.routes) {
+    const params = matchPattern(route.pattern, segments);
+    if (!params) continue;
+    pathMatched = true;
+    if (route.method !== method) continue;
+
+    const localRequest: LocalRequest<undefined> = {
+      method,
+      params: { ...baseParams, ...params },
+      query: request.nextUrl.searchParams,
+      headers: request.headers,
+      rawBody,
+      auth: undefined,
+      json<T>() {
+        if (!rawBody) return {} as T;
+        try {
+          return JSON.parse(rawBody) as T;
+        } catch {
+          throw new LocalHttpError(400, 'Invalid JSON in request body');
+        }
+      },
+    };
+    try {
+      const auth = route.public || !router.authenticate ? (undefined as C) : router.authenticate(localRequest);
+      const result = await route.handler({ ...localRequest, auth });
+      if (result instanceof Response) return result;
+      if (result === undefined) return new NextResponse(null, { status: 204 });
+      return NextResponse.json(result, { status: route.status ?? 200 });
+    } catch (error) {
+      if (error instanceof LocalHttpError) return errorResponse(error.status, error.message, error.details);
+      console.error('[local-backend]', method, '/' + segments.join('/'), error);
+      return errorResponse(500, 'Internal error', error instanceof Error ? error.message : undefined);
+    }
+  }
+  return pathMatched
+    ? errorResponse(405, `Method ${method} not allowed`)
+    : errorResponse(404, 'Not found', `${method} /${segments.join('/')}`);
+}
@@ -0,0 +1,198 @@
+/**
+ * Local stand-in for a project's policies-api (<project>.policies.apiblaze.com): route
+ * policies, the OpenFGA authorization model and relationship tuples. Served by
+ * app/api/local-backend/policies/[projectName]/[[...path]]; like the real service it takes
+ * the version from `?api_version` and does not authenticate callers.
+ */
+
+import { newModelId } from '@/lib/openfga';
+import { LocalHttpError, type LocalRequest, type LocalRouter } from './http';
+import { getState, nowIso, policiesFor, type LocalPolicies } from './store';
+
+type TupleKey = { user: string; relation: string; object: string };
+
+const DEFAULT_TUPLE_PAGE_SIZE = 50;
+
+function policiesOf(req: LocalRequest): LocalPolicies {
+  const apiVersion = req.query.get('api_version');
+  if (!apiVersion) throw new LocalHttpError(400, 'api_version is required');
+  return policiesFor(getState(), req.params.projectName, apiVersion);
+}
+
+function tenantOf(req: LocalRequest): string {
+  const tenantId = req.query.get('tenantId');
+  if (!tenantId) throw new LocalHttpError(400, 'tenantId is required');
+  return tenantId;
+}
+
+function routeIndex(policies: LocalPolicies, method: string, resource: string): number {
+  return policies.routes.findIndex((r) => String(r.method).toUpperCase() === method.toUpperCase() && r.resource === resource);
+}
+
+/** 412 when If-Match (the stored updated_at, optionally quoted) no longer matches. */
+function checkPrecondition(req: LocalRequest, stored: Record<string, unknown>): void {
+  const ifMatch = req.headers.get('if-match')?.replace(/^W\//, '').replace(/^"(.*)"$/, '$1');
+  if (ifMatch && ifMatch !== stored.updated_at) {
+    throw new LocalHttpError(412, 'Route was changed by someone else');
+  }
+}
+
+function sameTuple(a: TupleKey, b: TupleKey): boolean {
+  return a.user === b.user && a.relation === b.relation && a.object === b.object;
+}
+
+export const policiesApiRouter: LocalRouter<undefined> = {
+  routes: [
+    // ─── Route policies ───
+    {
+      method: 'GET',
+      pattern: '/routes',
+      handler(req) {
+        return { routes: policiesOf(req).routes };
+      },
+    },
+    {
+      method: 'POST',
+      pattern: '/route',
+      status: 201,
+      handler(req) {
+        const policies = policiesOf(req);
+        const body = req.json();
+        if (typeof body.method !== 'string' || typeof body.resource !== 'string') {
+          throw new LocalHttpError(400, 'method and resource are required');
+        }
+        if (routeIndex(policies, body.method, body.resource) !== -1) {
+          throw new LocalHttpError(409, `Route ${body.method} ${body.resource} already exists`);
+        }
+        const route = { ...body, method: body.method.toUpperCase(), updated_at: nowIso() };
+        policies.routes.push(route);
+        return route;
+      },
+    },
+    {
+      method: 'PUT',
+      pattern: '/route/:method/*resource',
+      handler(req) {
+        const policies = policiesOf(req);
+        const index = routeIndex(policies, req.params.method, req.params.resource);
+        if (index === -1) throw new LocalHttpError(404, 'Route not found');
+        checkPrecondition(req, policies.routes[index]);
+        const route = {
+          ...req.json(),
+          method: req.params.method.toUpperCase(),
+          resource: req.params.resource,
+          updated_at: nowIso(),
+        };
+        policies.routes[index] = route;
+        return route;
+      },
+    },
+    {
+      method: 'DELETE',
+      pattern: '/route/:method/*resource',
+      handler(req) {
+        const policies = policiesOf(req);
+        const index = routeIndex(policies, req.params.method, req.params.resource);
+        if (index === -1) throw new LocalHttpError(404, 'Route not found');
+        checkPrecondition(req, policies.routes[index]);
+        policies.routes.splice(index, 1);
+      },
+    },
+
+    // ─── Authorization model (one per project version, shared by its tenants) ───
+    {
+      method: 'GET',
+      pattern: '/model',
+      handler(req) {
+        tenantOf(req);
+        const model = policiesOf(req).models[0];
+        if (!model) throw new LocalHttpError(404, 'No authorization model');
+        return { model };
+      },
+    },
+    {
+      method: 'GET',
+      pattern: '/models',
+      handler(req) {
+        tenantOf(req);
+        return { models: policiesOf(req).models };
+      },
+    },
+    {
+      method: 'POST',
+      pattern: '/model',
+      status: 201,
+      handler(req) {
+        const policies = policiesOf(req);
+        const body = req.json<{ schema_version?: string; type_definitions?: unknown }>();
+        if (!Array.isArray(body.type_definitions)) throw new LocalHttpError(400, 'type_definitions is required');
+        const model = {
+          id: newModelId(),
+          schema_version: body.schema_version ?? '1.1',
+          type_definitions: body.type_definitions,
+        };
+        policies.models.unshift(model);
+        return { model, authorization_model_id: model.id };
+      },
+    },
+
+    // ─── Relationship tuples (OpenFGA Read / Write shapes) ───
+    {
+      method: 'GET',
+      pattern: '/tuples',
+      handler(req) {
+        const tuples = policiesOf(req).tuples[tenantOf(req)] ?? [];
+        const filter = {
+          user: req.query.get('user'),
+          relation: req.query.get('relation'),
+          object: req.query.get('object'),
+        };
+        const matching = tuples.filter(
+          (t) =>
+            (!filter.user || t.user === filter.user) &&
+            (!filter.relation || t.relation === filter.relation) &&
+            // OpenFGA accepts a bare type ("pet:") to read every object of that type
+            (!filter.object || (filter.object.endsWith(':') ? t.object.startsWith(filter.object) : t.object === filter.object))
+        );
+        const pageSize = Number(req.query.get('page_size')) || DEFAULT_TUPLE_PAGE_SIZE;
+        const offset = Number(req.query.get('continuation_token') || 0);
+        const page = matching.slice(offset, offset + pageSize);
+        return {
+          tuples: page.map(({ timestamp, ...key }) => ({ key, timestamp })),
+          continuation_token: offset + pageSize < matching.length ? String(offset + pageSize) : '',
+        };
+      },
+    },
+    {
+      method: 'POST',
+      pattern: '/tuples',
+      handler(req) {
+        const policies = policiesOf(req);
+        const tenantId = tenantOf(req);
+        const body = req.json<{ writes?: { tuple_keys?: TupleKey[] }; deletes?: { tuple_keys?: TupleKey[] } }>();
+        const writes = body.writes?.tuple_keys ?? [];
+        const deletes = body.deletes?.tuple_keys ?? [];
+        const current = policies.tuples[tenantId] ?? [];
+
+        // All or nothing, like an OpenFGA Write
+        for (const key of deletes) {
+          if (!current.some((t) => sameTuple(t, key))) {
+            throw new LocalHttpError(400, `cannot delete a tuple which does not exist: ${key.user} ${key.relation} ${key.object}`);
+          }
+        }
+        const remaining = current.filter((t) => !deletes.some((key) => sameTuple(t, key)));
+        for (const key of writes) {
+          if (remaining.some((t) => sameTuple(t, key))) {
+            throw new LocalHttpError(400, `cannot write a tuple which already exists: ${key.user} ${key.relation} ${key.object}`);
+          }
+        }
+        const timestamp = nowIso();
+        policies.tuples[tenantId] = [
+          ...remaining,
+          ...writes.map(({ user, relation, object }) => ({ user, relation, object, timestamp })),
+        ];
+        return {};
+      },
+    },
+  ],
+};
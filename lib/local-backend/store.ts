@@ -0,0 +1,217 @@
+/**
+ * In-memory state of the local stand-in backend. The whole state is plain JSON so a fixture
+ * file is just a (partial) dump of it: GET /api/local-backend/admin/__fixtures returns the
+ * current state, PUT replaces it, DELETE reloads the configured fixtures.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { OpenFGAModel } from '@/lib/openfga';
+import type { EndUser } from '@/types/auth-config';
+import type { DeploymentRecord } from '@/types/project';
+import { DEFAULT_FIXTURES } from './fixtures';
+
+export interface LocalUser {
+  id: string;
+  provider: string;
+  provider_sub: string;
+  email?: string;
+  display_name?: string;
+}
+
+export interface LocalProject {
+  project_id: string;
+  api_version: string;
+  display_name: string;
+  team_id: string;
+  /** apiblaze user id of the creator */
+  owner: string;
+  status: 'active' | 'suspended' | 'deleted';
+  created_at: string;
+  updated_at: string;
+  config: Record<string, unknown>;
+  /** Most recent first */
+  deployments: DeploymentRecord[];
+  tenants: Array<{ tenant_name: string; display_name: string }>;
+}
+
+export interface LocalTenant {
+  team_id: string;
+  tenant_name: string;
+  display_name: string;
+}
+
+export interface LocalAuthConfig {
+  id: string;
+  owner: string;
+  name: string;
+  default_app_client_id?: string;
+  enableSocialAuth?: boolean;
+  enableApiKeyAuth?: boolean;
+  bringMyOwnOAuth?: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Belongs to a legacy auth config (auth_config_id) or to a team tenant (team_id + tenant_name). */
+export interface LocalAppClient {
+  id: string;
+  name: string;
+  clientSecret: string;
+  auth_config_id?: string;
+  team_id?: string;
+  tenant_name?: string;
+  projectName?: string;
+  apiVersion?: string;
+  tenant?: string;
+  scopes: string[];
+  authorizedCallbackUrls: string[];
+  signoutUris: string[];
+  refreshTokenExpiry: number;
+  idTokenExpiry: number;
+  accessTokenExpiry: number;
+  verified: boolean;
+  branding?: Record<string, unknown>;
+  jwks?: { keys: Array<Record<string, string>> };
+  groupScopes?: Record<string, string[]>;
+  /** When clientSecret was issued; created_at if never rotated */
+  clientSecretCreatedAt?: string;
+  /** Secrets replaced by a rotation that still work until their expires_at */
+  previousSecrets?: LocalClientSecret[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LocalClientSecret {
+  clientSecret: string;
+  created_at: string;
+  expires_at: string;
+}
+
+export interface LocalProvider {
+  id: string;
+  app_client_id: string;
+  type: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string[];
+  domain?: string;
+  tokenType?: string;
+  targetServerToken?: string;
+  includeApiblazeAccessTokenHeader?: boolean;
+  includeApiblazeIdTokenHeader?: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/** End user of a team tenant; `refresh_tokens` counts the live sessions a sign-out revokes */
+export interface LocalEndUser extends EndUser {
+  team_id: string;
+  tenant_name: string;
+  refresh_tokens: number;
+}
+
+export interface LocalGroup {
+  id: string;
+  team_id: string;
+  tenant_name: string;
+  name: string;
+  description?: string | null;
+  /** End user ids */
+  members: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+/** policies-api data of one project version */
+export interface LocalPolicies {
+  /** policies-api route records: method, resource, on_request_read, post_response_write, ... */
+  routes: Array<Record<string, unknown>>;
+  /** Saved models, newest first; the first one is active for every tenant */
+  models: OpenFGAModel[];
+  /** OpenFGA tuples per tenant */
+  tuples: Record<string, Array<{ user: string; relation: string; object: string; timestamp: string }>>;
+}
+
+export interface LocalState {
+  users: LocalUser[];
+  projects: LocalProject[];
+  tenants: LocalTenant[];
+  authConfigs: LocalAuthConfig[];
+  appClients: LocalAppClient[];
+  providers: LocalProvider[];
+  endUsers: LocalEndUser[];
+  groups: LocalGroup[];
+  /** Keyed by `${project_id}:${api_version}` */
+  policies: Record<string, LocalPolicies>;
+}
+
+export type LocalFixtures = Partial<LocalState>;
+
+export function emptyState(): LocalState {
+  return {
+    users: [],
+    projects: [],
+    tenants: [],
+    authConfigs: [],
+    appClients: [],
+    providers: [],
+    endUsers: [],
+    groups: [],
+    policies: {},
+  };
+}
+
+export function nowIso(): string {
+  return new Date().toISOString();
+}
+
+export function randomId(prefix: string): string {
+  return `${prefix}_${crypto.randomBytes(8).toString('hex')}`;
+}
+
+export function randomSecret(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+/** Public signing key set of a new app client (the stand-in never signs with it). */
+export function generateJwks(): { keys: Array<Record<string, string>> } {
+  const { publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwk = publicKey.export({ format: 'jwk' }) as { kty: string; n: string; e: string };
+  return { keys: [{ kty: jwk.kty, use: 'sig', kid: randomId('key'), n: jwk.n, e: jwk.e, alg: 'RS256' }] };
+}
+
+/** Fixtures from LOCAL_BACKEND_FIXTURES (a JSON file path, relative to the app root) or the built-in demo data. */
+export function loadFixtures(): LocalFixtures {
+  const file = process.env.LOCAL_BACKEND_FIXTURES;
+  if (!file) return DEFAULT_FIXTURES;
+  const resolved = path.resolve(process.cwd(), file);
+  return JSON.parse(fs.readFileSync(resolved, 'utf8')) as LocalFixtures;
+}
+
+export function stateFromFixtures(fixtures: LocalFixtures): LocalState {
+  const state: LocalState = { ...emptyState(), ...structuredClone(fixtures) };
+  for (const client of state.appClients) {
+    client.jwks ??= generateJwks();
+  }
+  return state;
+}
+
+// Kept on globalThis so dev-server module reloads don't wipe the data
+const globalStore = globalThis as typeof globalThis & { __apiblazeLocalBackend?: LocalState };
+
+export function getState(): LocalState {
+  globalStore.__apiblazeLocalBackend ??= stateFromFixtures(loadFixtures());
+  return globalStore.__apiblazeLocalBackend;
+}
+
+export function replaceState(state: LocalState): void {
+  globalStore.__apiblazeLocalBackend = state;
+}
+
+export function policiesFor(state: LocalState, projectId: string, apiVersion: string): LocalPolicies {
+  const key = `${projectId}:${apiVersion}`;
+  state.policies[key] ??= { routes: [], models: [], tuples: {} };
+  return state.policies[key];
+}
@@ -0,0 +1,40 @@
+/**
+ * Structured server logs: one JSON object per line with the time, level, event name and the
+ * X-Request-Id of the request being served (see lib/request-id.ts), so log search can join a
+ * dashboard route with the upstream calls it made.
+ *
+ *   logEvent('info', 'admin_api.request', { method: 'GET', path: '/projects', status: 200, duration_ms: 84 });
+ */
+
+import { headers } from 'next/headers';
+import { REQUEST_ID_HEADER } from './request-id';
+
+export type LogLevel = 'info' | 'warn' | 'error';
+
+/** Id assigned by middleware.ts to the request being served; undefined outside a request. */
+export async function currentRequestId(): Promise<string | undefined> {
+  try {
+    return (await headers()).get(REQUEST_ID_HEADER) ?? undefined;
+  } catch {
+    // Not inside a request scope (scripts, module init)
+    return undefined;
+  }
+}
+
+/** Headers that carry the current request id to an upstream service. */
+export async function tracingHeaders(): Promise<Record<string, string>> {
+  const requestId = await currentRequestId();
+  return requestId ? { 'X-Request-Id': requestId } : {};
+}
+
+export function logEvent(level: LogLevel, event: string, fields: Record<string, unknown> = {}): void {
+  const line = JSON.stringify({ time: new Date().toISOString(), level, event, ...fields });
+  if (level === 'error') console.error(line);
+  else if (level === 'warn') console.warn(line);
+  else console.log(line);
+}
+
+/** Message and name of a thrown value, for the `error` field of a log line. */
+export function errorFields(error: unknown): { error: string; error_name?: string } {
+  return error instanceof Error ? { error: error.message, error_name: error.name } : { error: String(error) };
+}
@@ -0,0 +1,296 @@
+/**
+ * End-to-end login tester: runs the authorization-code + PKCE flow of an app client against the
+ * auth worker, with this dashboard as the redirect target, and explains what went wrong.
+ *
+ * The browser creates the PKCE pair and state and keeps them in localStorage (the login may
+ * finish in another tab); /dashboard/login-tester/callback picks them up by `state` and has the
+ * server exchange the code (see the app client's login-test route), since that needs the secret.
+ */
+
+import { authWorkerEndpoint } from '@/lib/build-app-login-url';
+import { decodeJwt, inspectToken } from '@/lib/token-inspector';
+import type { AppClient, LoginTestExchangeResult, SocialProvider } from '@/types/auth-config';
+
+export const LOGIN_TESTER_CALLBACK_PATH = '/dashboard/login-tester/callback';
+
+const STORAGE_PREFIX = 'apiblaze.login-test.';
+/** A test login has to come back within this time */
+const PENDING_TTL_MS = 10 * 60 * 1000;
+
+export interface PendingLoginTest {
+  state: string;
+  codeVerifier: string;
+  teamId: string;
+  tenantName: string;
+  /** App client id for admin API calls (AppClient.id) */
+  appClientId: string;
+  /** OAuth client_id, only sent to the auth worker's authorize and token endpoints */
+  clientId: string;
+  redirectUri: string;
+  scopes: string[];
+  /** Provider forced with &provider=; unset lets the login page offer all of them */
+  provider?: string;
+  startedAt: number;
+}
+
+export type LoginTestFindingLevel = 'error' | 'warning' | 'ok';
+
+export interface LoginTestFinding {
+  level: LoginTestFindingLevel;
+  title: string;
+  detail: string;
+}
+
+function randomBase64Url(byteLength: number): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(byteLength));
+  return bytesToBase64Url(bytes);
+}
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function loginTesterRedirectUri(origin = window.location.origin): string {
+  return `${origin.replace(/\/$/, '')}${LOGIN_TESTER_CALLBACK_PATH}`;
+}
+
+/**
+ * Saves a new pending test and returns the authorize URL to open. Unlike addPkceToAuthorizeUrl
+ * (an example for customers), the verifier is kept so the code can actually be exchanged.
+ */
+export async function startLoginTest(
+  test: Omit<PendingLoginTest, 'state' | 'codeVerifier' | 'startedAt'>
+): Promise<string> {
+  const pending: PendingLoginTest = {
+    ...test,
+    state: randomBase64Url(16),
+    codeVerifier: randomBase64Url(32),
+    startedAt: Date.now(),
+  };
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(pending.codeVerifier));
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: test.clientId,
+    redirect_uri: test.redirectUri,
+    scope: test.scopes.length > 0 ? test.scopes.join(' ') : 'openid',
+    state: pending.state,
+    code_challenge: bytesToBase64Url(new Uint8Array(digest)),
+    code_challenge_method: 'S256',
+  });
+  if (test.provider) params.set('provider', test.provider);
+
+  for (let i = localStorage.length - 1; i >= 0; i--) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(STORAGE_PREFIX)) continue;
+    const stale = parsePending(localStorage.getItem(key));
+    if (!stale || Date.now() - stale.startedAt > PENDING_TTL_MS) localStorage.removeItem(key);
+  }
+  localStorage.setItem(STORAGE_PREFIX + pending.state, JSON.stringify(pending));
+  return `${authWorkerEndpoint('authorize')}?${params.toString()}`;
+}
+
+function parsePending(raw: string | null): PendingLoginTest | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as PendingLoginTest;
+  } catch {
+    return null;
+  }
+}
+
+/** The pending test for `state`, removed so a code can only be exchanged once; null if unknown or expired. */
+export function takePendingLoginTest(state: string): PendingLoginTest | null {
+  const key = STORAGE_PREFIX + state;
+  const pending = parsePending(localStorage.getItem(key));
+  localStorage.removeItem(key);
+  if (!pending || Date.now() - pending.startedAt > PENDING_TTL_MS) return null;
+  return pending;
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.host}${parsed.pathname.replace(/\/$/, '')}`.toLowerCase();
+  } catch {
+    return url.toLowerCase();
+  }
+}
+
+/** Whether the auth worker will accept `redirectUri`, with a hint for near misses. */
+export function checkCallbackUrl(appClient: AppClient, redirectUri: string): LoginTestFinding {
+  const registered = appClient.authorizedCallbackUrls ?? [];
+  if (registered.includes(redirectUri)) {
+    return { level: 'ok', title: 'Callback URL', detail: `${redirectUri} is an authorized callback URL` };
+  }
+  const nearMiss = registered.find((url) => normalizeUrl(url) === normalizeUrl(redirectUri));
+  return {
+    level: 'error',
+    title: 'Callback URL not authorized',
+    detail: nearMiss
+      ? `${redirectUri} differs from the authorized ${nearMiss} (scheme, case or trailing slash); callback URLs must match exactly.`
+      : `${redirectUri} is not among the app client's authorized callback URLs, so the login page refuses to redirect back.`,
+  };
+}
+
+/** Explains an `error` the auth worker sent to the callback instead of a code. */
+export function explainAuthorizeError(error: string, description: string | null): LoginTestFinding {
+  const hints: Record<string, string> = {
+    access_denied: 'The user cancelled, or the provider refused the sign-in (check the provider app’s settings and allowed users).',
+    invalid_scope: 'A requested scope is not one of the app client’s scopes.',
+    unauthorized_client: 'The app client may not use the authorization-code flow, or it is not verified yet.',
+    invalid_request: 'A parameter was rejected; most often the redirect_uri is not an authorized callback URL.',
+    server_error: 'The auth worker or the provider failed; try again and check the provider credentials.',
+  };
+  return {
+    level: 'error',
+    title: `Login failed: ${error}`,
+    detail: [description, hints[error]].filter(Boolean).join(' '),
+  };
+}
+
+function grantedScopes(token: Record<string, unknown>): string[] | null {
+  if (typeof token.scope === 'string') return token.scope.split(/\s+/).filter(Boolean);
+  if (typeof token.access_token === 'string') {
+    try {
+      const { claims } = decodeJwt(token.access_token);
+      if (typeof claims.scope === 'string') return claims.scope.split(/\s+/).filter(Boolean);
+      if (Array.isArray(claims.scp)) return claims.scp.filter((s): s is string => typeof s === 'string');
+    } catch {
+      // Opaque access token: nothing to read
+    }
+  }
+  return null;
+}
+
+function providerScopes(provider: SocialProvider): string[] {
+  return typeof provider.scopes === 'string' ? provider.scopes.split(/\s+/).filter(Boolean) : provider.scopes ?? [];
+}
+
+/** What target servers receive from the proxy for users of `provider`, and whether that can work. */
+export function checkTargetServerToken(provider: SocialProvider): LoginTestFinding {
+  const title = `Target server token (${provider.type})`;
+  if (provider.tokenType === 'thirdParty') {
+    return { level: 'ok', title, detail: 'Third-party tokens are passed through unchanged; targetServerToken does not apply.' };
+  }
+  const mode = provider.targetServerToken ?? 'apiblaze';
+  const extraHeaders = !!provider.includeApiblazeAccessTokenHeader || !!provider.includeApiblazeIdTokenHeader;
+  if (mode === 'third_party_id_token' && (provider.type === 'github' || provider.type === 'facebook')) {
+    return {
+      level: 'error',
+      title,
+      detail: `${provider.type} does not issue ID tokens, so target servers get no Authorization header. Use the ${provider.type} access token instead.`,
+    };
+  }
+  if (mode === 'third_party_id_token' && !providerScopes(provider).includes('openid')) {
+    return {
+      level: 'error',
+      title,
+      detail: 'The provider only returns an ID token for the openid scope, which its scopes do not include.',
+    };
+  }
+  if ((mode === 'third_party_access_token' || mode === 'third_party_id_token') && !extraHeaders) {
+    return {
+      level: 'warning',
+      title,
+      detail: `Target servers only get the ${provider.type} token, so they cannot see the APIBlaze user or groups. Enable x-apiblaze-access-token if they need them.`,
+    };
+  }
+  if (mode === 'none' && !extraHeaders) {
+    return { level: 'warning', title, detail: 'Target servers receive no token and no x-apiblaze-* header: they cannot tell who is calling.' };
+  }
+  if (mode === 'apiblaze' && extraHeaders) {
+    return {
+      level: 'warning',
+      title,
+      detail: 'The x-apiblaze-* header options only apply when forwarding a third-party token; with the APIBlaze token they are ignored.',
+    };
+  }
+  return { level: 'ok', title, detail: `Target servers get the ${mode === 'apiblaze' ? 'APIBlaze' : provider.type} token.` };
+}
+
+/** Findings for a completed exchange, worst first. */
+export async function analyzeLoginTest(
+  pending: PendingLoginTest,
+  appClient: AppClient,
+  providers: SocialProvider[],
+  result: LoginTestExchangeResult
+): Promise<LoginTestFinding[]> {
+  const findings: LoginTestFinding[] = [checkCallbackUrl(appClient, pending.redirectUri)];
+  const { token, userinfo } = result;
+
+  if (token.status >= 300 || typeof token.body.access_token !== 'string') {
+    const error = typeof token.body.error === 'string' ? token.body.error : `HTTP ${token.status}`;
+    const description = typeof token.body.error_description === 'string' ? token.body.error_description : '';
+    const hint =
+      error === 'invalid_grant'
+        ? 'The code expired or was already used, or the code_verifier / redirect_uri differ from the authorize request.'
+        : error === 'invalid_client'
+          ? 'The client secret was rejected. If it was just rotated, the auth worker may not have the new one yet.'
+          : '';
+    findings.push({ level: 'error', title: `Code exchange failed: ${error}`, detail: [description, hint].filter(Boolean).join(' ') });
+  } else {
+    findings.push({ level: 'ok', title: 'Code exchange', detail: 'The token endpoint issued tokens' });
+
+    const granted = grantedScopes(token.body);
+    const missing = granted ? pending.scopes.filter((s) => !granted.includes(s)) : [];
+    if (!granted) {
+      findings.push({ level: 'warning', title: 'Scopes', detail: 'Neither the token response nor the access token lists the granted scopes.' });
+    } else if (missing.length > 0) {
+      findings.push({
+        level: 'error',
+        title: 'Missing scopes',
+        detail: `Requested but not granted: ${missing.join(', ')}. Check that they are among the app client's scopes and that the provider grants what they need.`,
+      });
+    } else {
+      findings.push({ level: 'ok', title: 'Scopes', detail: `Granted ${granted.join(' ')}` });
+    }
+    if (pending.scopes.includes('openid') && typeof token.body.id_token !== 'string') {
+      findings.push({ level: 'error', title: 'No ID token', detail: 'openid was requested but the response has no id_token.' });
+    }
+    if (typeof token.body.refresh_token !== 'string') {
+      findings.push({
+        level: 'warning',
+        title: 'No refresh token',
+        detail: `Users have to log in again when the access token expires (${appClient.accessTokenExpiry}s).`,
+      });
+    }
+
+    try {
+      const inspection = await inspectToken(token.body.access_token, appClient);
+      for (const check of inspection.checks.filter((c) => c.status === 'fail')) {
+        findings.push({ level: 'error', title: `Access token: ${check.label}`, detail: check.detail });
+      }
+    } catch (e) {
+      findings.push({ level: 'warning', title: 'Access token', detail: `Not a JWT the dashboard can check: ${e instanceof Error ? e.message : String(e)}` });
+    }
+  }
+
+  if (userinfo) {
+    if (userinfo.status >= 300) {
+      findings.push({
+        level: 'error',
+        title: `Userinfo failed (HTTP ${userinfo.status})`,
+        detail: typeof userinfo.body.error_description === 'string' ? userinfo.body.error_description : 'The access token was not accepted by the userinfo endpoint.',
+      });
+    } else {
+      if (pending.scopes.includes('email') && !userinfo.body.email) {
+        findings.push({
+          level: 'error',
+          title: 'No email in userinfo',
+          detail: 'email was requested but the provider did not share it. For GitHub, the provider needs the user:email scope.',
+        });
+      }
+      if (pending.scopes.includes('profile') && !userinfo.body.name && !userinfo.body.preferred_username) {
+        findings.push({ level: 'warning', title: 'No profile in userinfo', detail: 'profile was requested but userinfo has no name.' });
+      }
+    }
+  }
+
+  const used = pending.provider ? providers.filter((p) => p.type === pending.provider) : providers;
+  findings.push(...used.map(checkTargetServerToken));
+
+  const order: Record<LoginTestFindingLevel, number> = { error: 0, warning: 1, ok: 2 };
+  return findings.sort((a, b) => order[a.level] - order[b.level]);
+}
@@ -1,5 +1,9 @@
 import { NextAuthOptions } from "next-auth";
+import CredentialsProvider from "next-auth/providers/credentials";
 import GithubProvider from "next-auth/providers/github";
+import { adminApiBase, isLocalAdminApi, isLocalBackendEnabled } from "@/lib/backend-urls";
+import { LOCAL_DEVELOPER } from "@/lib/local-backend/fixtures";
+import { logEvent } from "@/lib/logger";
 
 // Extend the Session interface
 declare module "next-auth" {
@@ -30,6 +34,18 @@ declare module "next-auth/jwt" {
   }
 }
 
+// The local sign-in skips GitHub entirely, so it is only offered outside production builds and
+// only while every admin call goes to the stand-in (whose data is fixtures, not real accounts)
+function localSignInAllowed(): boolean {
+  if (!isLocalBackendEnabled()) return false;
+  if (process.env.NODE_ENV !== "production" && isLocalAdminApi()) return true;
+  logEvent("warn", "auth.local_sign_in_refused", {
+    node_env: process.env.NODE_ENV,
+    admin_api_base: adminApiBase(),
+  });
+  return false;
+}
+
 export const authOptions: NextAuthOptions = {
   providers: [
     GithubProvider({
@@ -48,6 +64,24 @@ export const authOptions: NextAuthOptions = {
         };
       },
     }),
+    // Offline development against the local stand-in backend: sign in without GitHub
+    ...(localSignInAllowed()
+      ? [
+          CredentialsProvider({
+            id: "local",
+            name: "Local developer",
+            credentials: {},
+            async authorize() {
+              return {
+                id: LOCAL_DEVELOPER.providerSub,
+                name: LOCAL_DEVELOPER.name,
+                email: LOCAL_DEVELOPER.email,
+                login: LOCAL_DEVELOPER.handle,
+              };
+            },
+          }),
+        ]
+      : []),
   ],
   callbacks: {
     async jwt({ token, account, user }) {
@@ -60,7 +94,7 @@ export const authOptions: NextAuthOptions = {
       }
       // Resolve apiblaze user id once so list projects uses team_${apiblazeUserId}
       if (!token.apiblazeUserId && token.sub) {
-        const base = process.env.APIBLAZE_ADMIN_API_BASE || 'https://internalapi.apiblaze.com';
+        const base = adminApiBase();
         const apiKey = process.env.INTERNAL_API_KEY || process.env.APIBLAZE_ADMIN_API_KEY;
         if (apiKey) {
           try {
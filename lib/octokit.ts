@@ -0,0 +1,36 @@
+/**
+ * Server-side Octokit factory for the app/api routes that call GitHub with the session's
+ * access token. Every call carries the X-Request-Id of the request being served and is logged
+ * as a `github.request` event (route template, status, timing; see lib/logger.ts).
+ */
+
+import { Octokit } from '@octokit/rest';
+import { RequestError } from '@octokit/request-error';
+import { currentRequestId, errorFields, logEvent } from './logger';
+
+export function createOctokit(options: { auth?: string; timeoutMs: number }): Octokit {
+  const octokit = new Octokit({ auth: options.auth, request: { timeout: options.timeoutMs } });
+
+  octokit.hook.wrap('request', async (request, requestOptions) => {
+    const requestId = await currentRequestId();
+    if (requestId) requestOptions.headers['x-request-id'] = requestId;
+    const fields = { request_id: requestId, method: requestOptions.method, route: requestOptions.url };
+    const started = Date.now();
+    try {
+      const response = await request(requestOptions);
+      logEvent('info', 'github.request', { ...fields, status: response.status, duration_ms: Date.now() - started });
+      return response;
+    } catch (error) {
+      const status = error instanceof RequestError ? error.status : undefined;
+      logEvent(status !== undefined && status < 500 ? 'info' : 'warn', 'github.request', {
+        ...fields,
+        status,
+        duration_ms: Date.now() - started,
+        ...(status === undefined && errorFields(error)),
+      });
+      throw error;
+    }
+  });
+
+  return octokit;
+}
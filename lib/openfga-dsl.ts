@@ -0,0 +1,334 @@
+/**
+ * OpenFGA modeling language (DSL, schema 1.1) <-> JSON authorization model.
+ *
+ *   model
+ *     schema 1.1
+ *
+ *   type document
+ *     relations
+ *       define parent: [folder]
+ *       define owner: [user]
+ *       define viewer: [user, user:*, group#member] or owner or viewer from parent
+ *       define can_view: viewer but not blocked
+ *
+ * Covers types, direct relations (wildcards, usersets, `with` conditions), computed usersets,
+ * tuple-to-userset, `or`, `and`, `but not` and parentheses. Condition definitions and modules
+ * are not supported; edit those models as JSON.
+ */
+
+import {
+  formatRelationReference,
+  type OpenFGAModel,
+  type OpenFGARelationReference,
+  type OpenFGATypeDefinition,
+  type OpenFGAUserset,
+} from './openfga';
+
+export class DslSyntaxError extends Error {
+  constructor(message: string, public line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'DslSyntaxError';
+  }
+}
+
+// ─── Parser ──────────────────────────────────────────────────────────────────
+
+type Token = { kind: 'word' | 'symbol'; value: string };
+
+function tokenize(expr: string, line: number): Token[] {
+  const tokens: Token[] = [];
+  const re = /\s*(?:([A-Za-z0-9_\-.]+|\*)|([[\](),:#]))/y;
+  let pos = 0;
+  while (pos < expr.length) {
+    if (/^\s*$/.test(expr.slice(pos))) break;
+    re.lastIndex = pos;
+    const m = re.exec(expr);
+    if (!m) throw new DslSyntaxError(`Unexpected character "${expr.slice(pos).trim()[0]}"`, line);
+    tokens.push(m[1] !== undefined ? { kind: 'word', value: m[1] } : { kind: 'symbol', value: m[2] });
+    pos = re.lastIndex;
+  }
+  return tokens;
+}
+
+interface ParsedRelation {
+  rewrite: OpenFGAUserset;
+  directTypes: OpenFGARelationReference[] | null;
+  line: number;
+}
+
+class ExpressionParser {
+  private pos = 0;
+  directTypes: OpenFGARelationReference[] | null = null;
+
+  constructor(private tokens: Token[], private line: number) {}
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos++];
+    if (!token) throw new DslSyntaxError('Unexpected end of relation definition', this.line);
+    return token;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.value !== value) throw new DslSyntaxError(`Expected "${value}" but found "${token.value}"`, this.line);
+  }
+
+  private word(what: string): string {
+    const token = this.next();
+    if (token.kind !== 'word' || token.value === '*') {
+      throw new DslSyntaxError(`Expected ${what} but found "${token.value}"`, this.line);
+    }
+    return token.value;
+  }
+
+  parse(): OpenFGAUserset {
+    const result = this.expression();
+    const rest = this.peek();
+    if (rest) throw new DslSyntaxError(`Unexpected "${rest.value}"`, this.line);
+    return result;
+  }
+
+  private expression(): OpenFGAUserset {
+    const operands = [this.operand()];
+    let operator: 'or' | 'and' | null = null;
+    while (this.peek()?.value === 'or' || this.peek()?.value === 'and') {
+      const op = this.next().value as 'or' | 'and';
+      if (operator && op !== operator) {
+        throw new DslSyntaxError('Mixing "or" and "and" needs parentheses', this.line);
+      }
+      operator = op;
+      operands.push(this.operand());
+    }
+    let result: OpenFGAUserset =
+      operands.length === 1 ? operands[0] : operator === 'or' ? { union: { child: operands } } : { intersection: { child: operands } };
+    if (this.peek()?.value === 'but') {
+      this.next();
+      this.expect('not');
+      result = { difference: { base: result, subtract: this.operand() } };
+      if (this.peek()?.value === 'but') {
+        throw new DslSyntaxError('Chained "but not" needs parentheses', this.line);
+      }
+    }
+    return result;
+  }
+
+  private operand(): OpenFGAUserset {
+    const token = this.peek();
+    if (token?.value === '(') {
+      this.next();
+      const inner = this.expression();
+      this.expect(')');
+      return inner;
+    }
+    if (token?.value === '[') return this.direct();
+    const relation = this.word('a relation');
+    if (['or', 'and', 'but', 'not', 'from'].includes(relation)) {
+      throw new DslSyntaxError(`Expected a relation but found "${relation}"`, this.line);
+    }
+    if (this.peek()?.value === 'from') {
+      this.next();
+      const tupleset = this.word('a relation after "from"');
+      return { tupleToUserset: { tupleset: { object: '', relation: tupleset }, computedUserset: { object: '', relation } } };
+    }
+    return { computedUserset: { object: '', relation } };
+  }
+
+  private direct(): OpenFGAUserset {
+    if (this.directTypes) throw new DslSyntaxError('A relation can have only one [ ] list of types', this.line);
+    this.expect('[');
+    const refs: OpenFGARelationReference[] = [];
+    do {
+      const ref: OpenFGARelationReference = { type: this.word('a type') };
+      if (this.peek()?.value === ':') {
+        this.next();
+        this.expect('*');
+        ref.wildcard = {};
+      } else if (this.peek()?.value === '#') {
+        this.next();
+        ref.relation = this.word('a relation after "#"');
+      }
+      if (this.peek()?.value === 'with') {
+        this.next();
+        ref.condition = this.word('a condition name');
+      }
+      refs.push(ref);
+    } while (this.peek()?.value === ',' && this.next());
+    this.expect(']');
+    this.directTypes = refs;
+    return { this: {} };
+  }
+}
+
+function stripComment(raw: string): string {
+  // `#` also separates usersets (group#member), so only whitespace-led # starts a comment
+  const match = /(^|\s)#/.exec(raw);
+  return (match ? raw.slice(0, match.index) : raw).trimEnd();
+}
+
+/** Parses DSL into a JSON model; throws DslSyntaxError with the offending line. */
+export function parseDsl(text: string): OpenFGAModel {
+  let schemaVersion: string | null = null;
+  let sawModel = false;
+  const types: { def: OpenFGATypeDefinition; relations: Map<string, ParsedRelation>; line: number }[] = [];
+  let current: (typeof types)[number] | null = null;
+  let inRelations = false;
+
+  text.split('\n').forEach((raw, i) => {
+    const line = i + 1;
+    const content = stripComment(raw).trim();
+    if (!content) return;
+    const [keyword, ...rest] = content.split(/\s+/);
+
+    switch (keyword) {
+      case 'model':
+        if (sawModel) throw new DslSyntaxError('Duplicate "model" header', line);
+        sawModel = true;
+        return;
+      case 'schema':
+        if (!sawModel || current) throw new DslSyntaxError('"schema" belongs under "model"', line);
+        if (rest[0] !== '1.1') throw new DslSyntaxError(`Unsupported schema version "${rest[0] ?? ''}" (expected 1.1)`, line);
+        schemaVersion = rest[0];
+        return;
+      case 'type': {
+        if (!schemaVersion) throw new DslSyntaxError('Expected "model" and "schema 1.1" before the first type', line);
+        const name = rest[0];
+        if (!name || rest.length > 1 || !/^[A-Za-z0-9_\-.]+$/.test(name)) {
+          throw new DslSyntaxError('Expected "type <name>"', line);
+        }
+        if (types.some((t) => t.def.type === name)) throw new DslSyntaxError(`Type "${name}" is defined twice`, line);
+        current = { def: { type: name }, relations: new Map(), line };
+        types.push(current);
+        inRelations = false;
+        return;
+      }
+      case 'relations':
+        if (!current) throw new DslSyntaxError('"relations" must follow a type', line);
+        inRelations = true;
+        return;
+      case 'define': {
+        if (!current || !inRelations) throw new DslSyntaxError('"define" must be inside a type\'s relations block', line);
+        const match = /^define\s+([A-Za-z0-9_\-.]+)\s*:\s*(.+)$/.exec(content);
+        if (!match) throw new DslSyntaxError('Expected "define <relation>: <definition>"', line);
+        const [, name, expr] = match;
+        if (current.relations.has(name)) throw new DslSyntaxError(`Relation "${name}" is defined twice on "${current.def.type}"`, line);
+        const parser = new ExpressionParser(tokenize(expr, line), line);
+        current.relations.set(name, { rewrite: parser.parse(), directTypes: parser.directTypes, line });
+        return;
+      }
+      case 'condition':
+      case 'module':
+      case 'extend':
+        throw new DslSyntaxError(`"${keyword}" is not supported in the dashboard editor; edit the model as JSON`, line);
+      default:
+        throw new DslSyntaxError(`Unexpected "${keyword}"`, line);
+    }
+  });
+
+  if (!schemaVersion) throw new DslSyntaxError('Expected "model" followed by "schema 1.1"', 1);
+
+  // Semantic checks once every type is known
+  const relationsOf = new Map(types.map((t) => [t.def.type, t.relations]));
+  for (const t of types) {
+    for (const [name, relation] of t.relations) {
+      checkReferences(relation.rewrite, t.def.type, name, relation, t.relations, relationsOf);
+    }
+  }
+
+  return {
+    schema_version: schemaVersion,
+    type_definitions: types.map(({ def, relations }) => {
+      if (relations.size === 0) return { type: def.type, relations: {}, metadata: null };
+      return {
+        type: def.type,
+        relations: Object.fromEntries([...relations].map(([name, r]) => [name, r.rewrite])),
+        metadata: {
+          relations: Object.fromEntries(
+            [...relations].map(([name, r]) => [name, { directly_related_user_types: r.directTypes ?? [] }])
+          ),
+        },
+      };
+    }),
+  };
+}
+
+function checkReferences(
+  rewrite: OpenFGAUserset,
+  type: string,
+  relationName: string,
+  relation: ParsedRelation,
+  own: Map<string, ParsedRelation>,
+  all: Map<string, Map<string, ParsedRelation>>
+): void {
+  const fail = (message: string) => {
+    throw new DslSyntaxError(`${type}#${relationName}: ${message}`, relation.line);
+  };
+  if (rewrite.this) {
+    for (const ref of relation.directTypes ?? []) {
+      const target = all.get(ref.type);
+      if (!target) fail(`type "${ref.type}" is not defined`);
+      if (ref.relation && !target?.has(ref.relation)) fail(`"${ref.type}" has no relation "${ref.relation}"`);
+    }
+  } else if (rewrite.computedUserset) {
+    if (!own.has(rewrite.computedUserset.relation)) fail(`relation "${rewrite.computedUserset.relation}" is not defined`);
+  } else if (rewrite.tupleToUserset) {
+    const { tupleset, computedUserset } = rewrite.tupleToUserset;
+    const parent = own.get(tupleset.relation);
+    if (!parent) fail(`relation "${tupleset.relation}" is not defined`);
+    if (!parent?.directTypes?.length) fail(`"${tupleset.relation}" must be directly assignable to be used with "from"`);
+    const parentTypes = (parent?.directTypes ?? []).filter((ref) => !ref.relation && !ref.wildcard);
+    if (!parentTypes.some((ref) => all.get(ref.type)?.has(computedUserset.relation))) {
+      fail(`none of the types in "${tupleset.relation}" define "${computedUserset.relation}"`);
+    }
+  } else {
+    const children = rewrite.union?.child ?? rewrite.intersection?.child ?? [];
+    if (rewrite.difference) children.push(rewrite.difference.base, rewrite.difference.subtract);
+    for (const child of children) checkReferences(child, type, relationName, relation, own, all);
+  }
+}
+
+// ─── Printer ─────────────────────────────────────────────────────────────────
+
+function printUserset(
+  rewrite: OpenFGAUserset,
+  directTypes: OpenFGARelationReference[],
+  nested: boolean
+): string {
+  const wrap = (s: string) => (nested ? `(${s})` : s);
+  if (rewrite.this) {
+    const refs = directTypes.map((ref) => formatRelationReference(ref) + (ref.condition ? ` with ${ref.condition}` : ''));
+    return `[${refs.join(', ')}]`;
+  }
+  if (rewrite.computedUserset) return rewrite.computedUserset.relation;
+  if (rewrite.tupleToUserset) {
+    return `${rewrite.tupleToUserset.computedUserset.relation} from ${rewrite.tupleToUserset.tupleset.relation}`;
+  }
+  if (rewrite.union) return wrap(rewrite.union.child.map((c) => printUserset(c, directTypes, true)).join(' or '));
+  if (rewrite.intersection) {
+    return wrap(rewrite.intersection.child.map((c) => printUserset(c, directTypes, true)).join(' and '));
+  }
+  if (rewrite.difference) {
+    const base = printUserset(rewrite.difference.base, directTypes, true);
+    return wrap(`${base} but not ${printUserset(rewrite.difference.subtract, directTypes, true)}`);
+  }
+  throw new Error('Unsupported relation definition');
+}
+
+/** Formats a JSON model as DSL. */
+export function modelToDsl(model: Pick<OpenFGAModel, 'schema_version' | 'type_definitions'>): string {
+  const lines = ['model', `  schema ${model.schema_version || '1.1'}`];
+  for (const typeDef of model.type_definitions) {
+    lines.push('', `type ${typeDef.type}`);
+    const relations = Object.entries(typeDef.relations ?? {});
+    if (relations.length === 0) continue;
+    lines.push('  relations');
+    for (const [name, rewrite] of relations) {
+      const directTypes = typeDef.metadata?.relations?.[name]?.directly_related_user_types ?? [];
+      lines.push(`    define ${name}: ${printUserset(rewrite, directTypes, false)}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
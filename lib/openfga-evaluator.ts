@@ -0,0 +1,254 @@
+/**
+ * Offline OpenFGA evaluator: answers check and list-objects against a model and an in-memory
+ * tuple set, so authorization models can be tried out before they are saved to policies-api.
+ *
+ * Supports direct relations (including `type:*` wildcards and `type#relation` usersets),
+ * computed usersets, tuple-to-userset, union, intersection and exclusion. Conditions are not
+ * evaluated; conditional tuples are treated as unconditional.
+ */
+
+import { findType, parseObjectRef, type OpenFGAModel, type OpenFGAUserset } from './openfga';
+
+export interface TupleKey {
+  user: string;
+  relation: string;
+  object: string;
+}
+
+export class ModelEvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelEvaluationError';
+  }
+}
+
+export interface CheckResult {
+  allowed: boolean;
+  /** How access was granted, outermost step first; empty when denied. */
+  path: string[];
+}
+
+// Same limit as the OpenFGA server's default resolve depth
+const MAX_DEPTH = 25;
+
+const formatTuple = (t: TupleKey) => `${t.user} ${t.relation} ${t.object}`;
+
+class Evaluator {
+  private byObjectRelation = new Map<string, TupleKey[]>();
+
+  constructor(private model: OpenFGAModel, tuples: TupleKey[]) {
+    for (const tuple of tuples) {
+      const key = `${tuple.object}#${tuple.relation}`;
+      const list = this.byObjectRelation.get(key) ?? [];
+      list.push(tuple);
+      this.byObjectRelation.set(key, list);
+    }
+  }
+
+  private rewriteFor(object: string, relation: string): OpenFGAUserset {
+    const ref = parseObjectRef(object);
+    if (!ref || ref.relation) throw new ModelEvaluationError(`"${object}" is not an object (expected type:id)`);
+    const typeDef = findType(this.model, ref.type);
+    if (!typeDef) throw new ModelEvaluationError(`Type "${ref.type}" is not defined in the model`);
+    const rewrite = typeDef.relations?.[relation];
+    if (!rewrite) throw new ModelEvaluationError(`Type "${ref.type}" has no relation "${relation}"`);
+    return rewrite;
+  }
+
+  private hasRelation(object: string, relation: string): boolean {
+    const ref = parseObjectRef(object);
+    return !!ref && !ref.relation && !!findType(this.model, ref.type)?.relations?.[relation];
+  }
+
+  check(user: string, relation: string, object: string, depth = 0, visiting = new Set<string>()): string[] | null {
+    if (depth > MAX_DEPTH) throw new ModelEvaluationError('Resolution too deep; the model may be recursive');
+    const key = `${object}#${relation}@${user}`;
+    // A cycle cannot grant access on its own
+    if (visiting.has(key)) return null;
+    visiting.add(key);
+    try {
+      const path = this.evaluate(this.rewriteFor(object, relation), user, relation, object, depth, visiting);
+      return path ? [`${object}#${relation}`, ...path] : null;
+    } finally {
+      visiting.delete(key);
+    }
+  }
+
+  private evaluate(
+    rewrite: OpenFGAUserset,
+    user: string,
+    relation: string,
+    object: string,
+    depth: number,
+    visiting: Set<string>
+  ): string[] | null {
+    if (rewrite.this) return this.direct(user, relation, object, depth, visiting);
+
+    if (rewrite.computedUserset) {
+      return this.check(user, rewrite.computedUserset.relation, object, depth + 1, visiting);
+    }
+
+    if (rewrite.tupleToUserset) {
+      const { tupleset, computedUserset } = rewrite.tupleToUserset;
+      for (const tuple of this.byObjectRelation.get(`${object}#${tupleset.relation}`) ?? []) {
+        // Only parents that define the computed relation take part (OpenFGA skips the rest)
+        if (!this.hasRelation(tuple.user, computedUserset.relation)) continue;
+        const path = this.check(user, computedUserset.relation, tuple.user, depth + 1, visiting);
+        if (path) return [`from ${formatTuple(tuple)}`, ...path];
+      }
+      return null;
+    }
+
+    if (rewrite.union) {
+      for (const child of rewrite.union.child) {
+        const path = this.evaluate(child, user, relation, object, depth, visiting);
+        if (path) return path;
+      }
+      return null;
+    }
+
+    if (rewrite.intersection) {
+      const paths: string[] = [];
+      for (const child of rewrite.intersection.child) {
+        const path = this.evaluate(child, user, relation, object, depth, visiting);
+        if (!path) return null;
+        paths.push(...path);
+      }
+      return paths;
+    }
+
+    if (rewrite.difference) {
+      const base = this.evaluate(rewrite.difference.base, user, relation, object, depth, visiting);
+      if (!base) return null;
+      if (this.evaluate(rewrite.difference.subtract, user, relation, object, depth, visiting)) return null;
+      return base;
+    }
+
+    throw new ModelEvaluationError(`Unsupported rewrite for ${object}#${relation}`);
+  }
+
+  private direct(user: string, relation: string, object: string, depth: number, visiting: Set<string>): string[] | null {
+    const userRef = parseObjectRef(user);
+    for (const tuple of this.byObjectRelation.get(`${object}#${relation}`) ?? []) {
+      if (tuple.user === user) return [`tuple ${formatTuple(tuple)}`];
+      const subject = parseObjectRef(tuple.user);
+      if (!subject) continue;
+      // type:* grants every concrete object of that type
+      if (subject.id === '*' && !subject.relation && userRef && !userRef.relation && userRef.type === subject.type) {
+        return [`tuple ${formatTuple(tuple)}`];
+      }
+      if (subject.relation) {
+        const path = this.check(user, subject.relation, `${subject.type}:${subject.id}`, depth + 1, visiting);
+        if (path) return [`tuple ${formatTuple(tuple)}`, ...path];
+      }
+    }
+    return null;
+  }
+
+  /** Every object id of `type` mentioned in the tuples. */
+  objectsOfType(type: string): string[] {
+    const objects = new Set<string>();
+    for (const tuples of this.byObjectRelation.values()) {
+      for (const tuple of tuples) {
+        for (const candidate of [tuple.object, tuple.user]) {
+          const ref = parseObjectRef(candidate);
+          if (ref && ref.type === type && ref.id !== '*') objects.add(`${ref.type}:${ref.id}`);
+        }
+      }
+    }
+    return [...objects].sort();
+  }
+}
+
+export function check(model: OpenFGAModel, tuples: TupleKey[], query: TupleKey): CheckResult {
+  const path = new Evaluator(model, tuples).check(query.user, query.relation, query.object);
+  return { allowed: path !== null, path: path ?? [] };
+}
+
+/** Objects of `type` the user has `relation` on; candidates are the objects that appear in the tuples. */
+export function listObjects(
+  model: OpenFGAModel,
+  tuples: TupleKey[],
+  query: { user: string; relation: string; type: string }
+): string[] {
+  if (!findType(model, query.type)) throw new ModelEvaluationError(`Type "${query.type}" is not defined in the model`);
+  const evaluator = new Evaluator(model, tuples);
+  return evaluator.objectsOfType(query.type).filter((object) => evaluator.check(query.user, query.relation, object));
+}
+
+// ─── Text format ─────────────────────────────────────────────────────────────
+// One entry per line, `user relation object` (plus ` allow`/` deny` for assertions).
+// Blank lines and lines starting with # are ignored.
+
+export interface LineError {
+  line: number;
+  message: string;
+}
+
+export interface Assertion extends TupleKey {
+  expected: boolean;
+  line: number;
+}
+
+function meaningfulLines(text: string): { line: number; parts: string[] }[] {
+  return text
+    .split('\n')
+    .map((raw, i) => ({ line: i + 1, raw: raw.trim() }))
+    .filter(({ raw }) => raw && !raw.startsWith('#'))
+    .map(({ line, raw }) => ({ line, parts: raw.split(/\s+/) }));
+}
+
+export function parseTupleLines(text: string): { tuples: TupleKey[]; errors: LineError[] } {
+  const tuples: TupleKey[] = [];
+  const errors: LineError[] = [];
+  for (const { line, parts } of meaningfulLines(text)) {
+    if (parts.length !== 3) {
+      errors.push({ line, message: 'Expected "user relation object"' });
+      continue;
+    }
+    tuples.push({ user: parts[0], relation: parts[1], object: parts[2] });
+  }
+  return { tuples, errors };
+}
+
+export function parseAssertionLines(text: string): { assertions: Assertion[]; errors: LineError[] } {
+  const assertions: Assertion[] = [];
+  const errors: LineError[] = [];
+  for (const { line, parts } of meaningfulLines(text)) {
+    const expected = parts[3]?.toLowerCase();
+    if (parts.length !== 4 || (expected !== 'allow' && expected !== 'deny')) {
+      errors.push({ line, message: 'Expected "user relation object allow|deny"' });
+      continue;
+    }
+    assertions.push({ user: parts[0], relation: parts[1], object: parts[2], expected: expected === 'allow', line });
+  }
+  return { assertions, errors };
+}
+
+/** Why the model would reject writing `tuple` (unknown type/relation or disallowed user type), or null. */
+export function tupleProblem(model: OpenFGAModel, tuple: TupleKey): string | null {
+  const object = parseObjectRef(tuple.object);
+  const typeDef = object ? findType(model, object.type) : undefined;
+  if (!object || object.relation) return 'object must be type:id';
+  if (!typeDef) return `type "${object.type}" is not defined`;
+  if (!typeDef.relations?.[tuple.relation]) return `"${object.type}" has no relation "${tuple.relation}"`;
+  const allowed = typeDef.metadata?.relations?.[tuple.relation]?.directly_related_user_types;
+  const subject = parseObjectRef(tuple.user);
+  if (!subject) return 'user must be type:id, type:* or type:id#relation';
+  if (allowed) {
+    const ok = allowed.some((ref) =>
+      ref.type === subject.type &&
+      (subject.id === '*' ? !!ref.wildcard : subject.relation ? ref.relation === subject.relation : !ref.relation && !ref.wildcard)
+    );
+    if (!ok) return `"${object.type}#${tuple.relation}" does not accept this user type`;
+  }
+  return null;
+}
+
+/** Tuples the model would reject on write: unknown types/relations or disallowed subject types. */
+export function validateTuples(model: OpenFGAModel, tuples: TupleKey[]): string[] {
+  return tuples.flatMap((tuple) => {
+    const problem = tupleProblem(model, tuple);
+    return problem ? [`${formatTuple(tuple)}: ${problem}`] : [];
+  });
+}
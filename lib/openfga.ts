@@ -0,0 +1,109 @@
+/**
+ * OpenFGA authorization model types (JSON form, schema 1.1) and read helpers.
+ *
+ * The model is stored per project in policies-api; tuple templates on routes reference
+ * its types and relations.
+ */
+
+export interface OpenFGAObjectRelation {
+  object?: string;
+  relation: string;
+}
+
+/** One node of a relation's rewrite tree; exactly one key is set. */
+export interface OpenFGAUserset {
+  this?: Record<string, never>;
+  computedUserset?: OpenFGAObjectRelation;
+  tupleToUserset?: { tupleset: OpenFGAObjectRelation; computedUserset: OpenFGAObjectRelation };
+  union?: { child: OpenFGAUserset[] };
+  intersection?: { child: OpenFGAUserset[] };
+  difference?: { base: OpenFGAUserset; subtract: OpenFGAUserset };
+}
+
+/** Allowed subject for a directly assignable relation: `user`, `group#member` or `user:*`. */
+export interface OpenFGARelationReference {
+  type: string;
+  relation?: string;
+  wildcard?: Record<string, never>;
+  condition?: string;
+}
+
+export interface OpenFGATypeDefinition {
+  type: string;
+  relations?: Record<string, OpenFGAUserset>;
+  metadata?: {
+    relations?: Record<string, { directly_related_user_types?: OpenFGARelationReference[] }>;
+  } | null;
+}
+
+export interface OpenFGAModel {
+  id?: string;
+  schema_version: string;
+  type_definitions: OpenFGATypeDefinition[];
+}
+
+export function modelTypes(model: OpenFGAModel | null | undefined): string[] {
+  return (model?.type_definitions ?? []).map((t) => t.type).sort();
+}
+
+export function findType(model: OpenFGAModel | null | undefined, type: string): OpenFGATypeDefinition | undefined {
+  return model?.type_definitions.find((t) => t.type === type);
+}
+
+export function typeRelations(model: OpenFGAModel | null | undefined, type: string): string[] {
+  return Object.keys(findType(model, type)?.relations ?? {}).sort();
+}
+
+export function formatRelationReference(ref: OpenFGARelationReference): string {
+  if (ref.wildcard) return `${ref.type}:*`;
+  return ref.relation ? `${ref.type}#${ref.relation}` : ref.type;
+}
+
+/** Subjects that can be written directly for `type#relation`, formatted as in the DSL. */
+export function directlyRelatedUserTypes(
+  model: OpenFGAModel | null | undefined,
+  type: string,
+  relation: string
+): string[] {
+  const refs = findType(model, type)?.metadata?.relations?.[relation]?.directly_related_user_types ?? [];
+  return refs.map(formatRelationReference);
+}
+
+/** `type:id` or `type:id#relation`; the id may contain colons. */
+export function parseObjectRef(value: string): { type: string; id: string; relation?: string } | null {
+  const colon = value.indexOf(':');
+  if (colon <= 0) return null;
+  const type = value.slice(0, colon);
+  const rest = value.slice(colon + 1);
+  const hash = rest.lastIndexOf('#');
+  if (hash === -1) return { type, id: rest };
+  return { type, id: rest.slice(0, hash), relation: rest.slice(hash + 1) || undefined };
+}
+
+const ULID_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/** When a model was written: OpenFGA model ids are ULIDs, whose first 10 characters encode the time. */
+export function modelCreatedAt(model: Pick<OpenFGAModel, 'id'>): Date | null {
+  const id = model.id?.toUpperCase();
+  if (!id || id.length !== 26) return null;
+  let ms = 0;
+  for (const char of id.slice(0, 10)) {
+    const value = ULID_ALPHABET.indexOf(char);
+    if (value === -1) return null;
+    ms = ms * 32 + value;
+  }
+  return new Date(ms);
+}
+
+/** A fresh ULID model id, as OpenFGA assigns on write (used by the local stand-in backend). */
+export function newModelId(now = Date.now()): string {
+  let time = '';
+  for (let ms = now, i = 0; i < 10; i++, ms = Math.floor(ms / 32)) {
+    time = ULID_ALPHABET[ms % 32] + time;
+  }
+  let random = '';
+  for (let i = 0; i < 16; i++) {
+    random += ULID_ALPHABET[Math.floor(Math.random() * 32)];
+  }
+  return time + random;
+}
@@ -0,0 +1,132 @@
+/**
+ * Route policy templates: `{user, relation, object}` tuples with `{{SOURCE.key}}` placeholders
+ * that the proxy resolves per request (see the Authorization tab for the supported sources).
+ */
+
+export interface PolicyTuple {
+  user: string;
+  relation: string;
+  object: string;
+}
+
+export type TemplateSource = 'JWT' | 'PATH' | 'QUERY' | 'BODY' | 'RESPONSE';
+
+export interface TemplateVariable {
+  /** Placeholder body, e.g. `PATH.id` for `{{PATH.id}}` */
+  token: string;
+  source: TemplateSource;
+  label: string;
+}
+
+/** Values for a sample request, keyed by source then field. */
+export type TemplateContext = Partial<Record<TemplateSource, Record<string, unknown>>>;
+
+const PLACEHOLDER = /\{\{\s*([A-Z]+)\.([^}\s]+)\s*\}\}/g;
+
+/** The template as a tuple, or null when it is not a single `{user, relation, object}` object. */
+export function parseTupleTemplate(template: string): PolicyTuple | null {
+  try {
+    const parsed = JSON.parse(template);
+    if (
+      parsed &&
+      typeof parsed.user === 'string' &&
+      typeof parsed.relation === 'string' &&
+      typeof parsed.object === 'string'
+    ) {
+      return parsed as PolicyTuple;
+    }
+  } catch {
+    // not JSON
+  }
+  return null;
+}
+
+export function serializeTupleTemplate(tuple: PolicyTuple): string {
+  return JSON.stringify({ user: tuple.user, relation: tuple.relation, object: tuple.object }, null, 2);
+}
+
+/** `{id}` and `{user_id}` in `/users/{user_id}/orders/{id}` */
+export function routePathParams(routePath: string): string[] {
+  return Array.from(routePath.matchAll(/\{([^}]+)\}/g), (m) => m[1]);
+}
+
+/**
+ * Variables offered by the builder. Check policies run before the upstream call, so
+ * RESPONSE fields are only available to write policies.
+ */
+export function templateVariables(routePath: string, kind: 'check' | 'write'): TemplateVariable[] {
+  const vars: TemplateVariable[] = [
+    { token: 'JWT.sub', source: 'JWT', label: 'Caller (JWT sub)' },
+    ...routePathParams(routePath).map((param) => ({
+      token: `PATH.${param}`,
+      source: 'PATH' as const,
+      label: `Path param {${param}}`,
+    })),
+  ];
+  if (kind === 'write') vars.push({ token: 'RESPONSE.id', source: 'RESPONSE', label: 'Response field id' });
+  return vars;
+}
+
+export function templatePlaceholders(value: string): { token: string; source: string; key: string }[] {
+  return Array.from(value.matchAll(PLACEHOLDER), (m) => ({ token: `${m[1]}.${m[2]}`, source: m[1], key: m[2] }));
+}
+
+function lookup(value: unknown, path: string): unknown {
+  let current = value;
+  for (const part of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+/** Replaces placeholders from `context`; BODY/RESPONSE/JWT keys may be dotted paths. */
+export function interpolateTemplate(value: string, context: TemplateContext): { value: string; unresolved: string[] } {
+  const unresolved: string[] = [];
+  const result = value.replace(PLACEHOLDER, (match, source: string, key: string) => {
+    const resolved = lookup(context[source as TemplateSource], key);
+    if (resolved === undefined || resolved === null || typeof resolved === 'object') {
+      unresolved.push(`${source}.${key}`);
+      return match;
+    }
+    return String(resolved);
+  });
+  return { value: result, unresolved };
+}
+
+/** Path params of `url` against the route template, or null when the URL doesn't match the route. */
+export function matchRoutePath(routePath: string, url: string): Record<string, string> | null {
+  const pathname = url.split(/[?#]/, 1)[0].replace(/^https?:\/\/[^/]+/, '');
+  const templateParts = routePath.split('/').filter(Boolean);
+  const urlParts = pathname.split('/').filter(Boolean);
+  if (templateParts.length !== urlParts.length) return null;
+  const params: Record<string, string> = {};
+  for (let i = 0; i < templateParts.length; i++) {
+    const param = /^\{([^}]+)\}$/.exec(templateParts[i]);
+    if (param) {
+      try {
+        params[param[1]] = decodeURIComponent(urlParts[i]);
+      } catch {
+        params[param[1]] = urlParts[i];
+      }
+    } else if (templateParts[i] !== urlParts[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/** Query parameters of a sample URL. */
+export function sampleQuery(url: string): Record<string, string> {
+  const query = url.split('?', 2)[1]?.split('#', 1)[0] ?? '';
+  return Object.fromEntries(new URLSearchParams(query));
+}
+
+/** A request URL for the route with every path param filled in, e.g. `/orders/101`. */
+export function sampleUrlFor(routePath: string): string {
+  let n = 0;
+  return routePath.replace(/\{([^}]+)\}/g, (_, name: string) => {
+    n += 1;
+    return /id$/i.test(name) ? String(100 + n) : `sample-${name}`;
+  });
+}
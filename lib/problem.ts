@@ -0,0 +1,105 @@
+/**
+ * RFC 7807 problem details returned by the app/api handlers (see app/api/_handler.ts).
+ *
+ * `code` is stable and meant for the UI to switch on; `title` and `detail` are for people.
+ * `error` and `details` repeat title/detail for callers written against the older
+ * `{ error, details }` bodies.
+ */
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+export type ProblemCode =
+  | 'unauthenticated'
+  | 'invalid_session'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'precondition_failed'
+  | 'rate_limited'
+  | 'bad_request'
+  | 'invalid_json'
+  | 'validation_failed'
+  | 'upstream_error'
+  | 'upstream_timeout'
+  | 'upstream_unavailable'
+  | 'github_token_invalid'
+  | 'github_forbidden'
+  | 'github_not_found'
+  | 'github_error'
+  | 'misconfigured'
+  | 'internal_error';
+
+export interface ProblemFieldError {
+  /** Which part of the request failed validation */
+  in: 'params' | 'query' | 'body';
+  /** Dotted path within that part, e.g. `scopes.0`; empty for the part as a whole */
+  path: string;
+  message: string;
+}
+
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  code: ProblemCode;
+  errors?: ProblemFieldError[];
+  suggestions?: unknown;
+  error: string;
+  details?: string;
+  /** X-Request-Id of the failed call, to quote when reporting it */
+  request_id?: string;
+  /** Extension members a route adds for its own UI, e.g. the per-tuple `issues` of a rejected write */
+  [member: string]: unknown;
+}
+
+/** Optional members of a problem besides type, title, status and detail */
+export type ProblemExtras = Pick<ProblemDetails, 'errors' | 'suggestions'> & Record<string, unknown>;
+
+export function problemType(code: ProblemCode): string {
+  return `urn:apiblaze:problem:${code}`;
+}
+
+export function problemBody(
+  status: number,
+  code: ProblemCode,
+  title: string,
+  detail?: string,
+  extra: ProblemExtras = {}
+): ProblemDetails {
+  return {
+    type: problemType(code),
+    title,
+    status,
+    ...(detail !== undefined && { detail }),
+    code,
+    ...extra,
+    error: title,
+    ...(detail !== undefined && { details: detail }),
+  };
+}
+
+export function isProblemDetails(body: unknown): body is ProblemDetails {
+  const b = body as Partial<ProblemDetails> | null;
+  return !!b && typeof b.code === 'string' && typeof b.status === 'number' && typeof b.title === 'string';
+}
+
+/** Thrown by browser API clients for problem responses so callers can branch on `code`. */
+export class ProblemError extends Error {
+  constructor(public problem: ProblemDetails) {
+    super(problem.detail || problem.title);
+    this.name = 'ProblemError';
+  }
+
+  get code(): ProblemCode {
+    return this.problem.code;
+  }
+
+  get status(): number {
+    return this.problem.status;
+  }
+
+  get requestId(): string | undefined {
+    return this.problem.request_id;
+  }
+}
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import type { CreateProxyPayload } from '@/lib/apiblaze-client';
+
+/** Body of POST /api/projects (CreateProxyPayload, as built by ApiClient.createProject). */
+export const createProxyPayloadSchema = z
+  .object({
+    target: z.string().optional(),
+    target_url: z.string().optional(),
+    name: z.string().min(1, 'name is required').optional(),
+    display_name: z.string().optional(),
+    subdomain: z.string().regex(/^[a-z0-9]+$/, 'subdomain may only contain lowercase letters and digits').optional(),
+    auth_type: z.enum(['none', 'api_key', 'oauth']).optional(),
+    openapi: z.union([z.string(), z.record(z.unknown())]).optional(),
+    username: z.string().optional(),
+    team_id: z.string().min(1).optional(),
+    tenant: z.string().min(1).optional(),
+    github: z
+      .object({
+        owner: z.string().min(1, 'github.owner is required'),
+        repo: z.string().min(1, 'github.repo is required'),
+        path: z.string().min(1, 'github.path is required'),
+        branch: z.string().optional(),
+      })
+      .optional(),
+    oauth_config: z
+      .object({
+        provider_type: z.string().min(1),
+        client_id: z.string().min(1),
+        client_secret: z.string().min(1),
+        scopes: z.string().optional(),
+      })
+      .optional(),
+    auth_config_id: z.string().optional(),
+    auth_config: z.object({ who_can_register: z.enum(['anyone', 'authorized_only']).optional() }).optional(),
+    app_client_id: z.string().optional(),
+    default_app_client_id: z.string().optional(),
+    environments: z.record(z.object({ target: z.string(), description: z.string().optional() })).optional(),
+    throttling: z
+      .object({
+        userRateLimit: z.number().int().min(0),
+        proxyDailyQuota: z.number().int().min(0),
+        accountMonthlyQuota: z.number().int().min(0),
+      })
+      .optional(),
+    requests_auth: z.record(z.unknown()).optional(),
+    routes: z
+      .array(
+        z.object({
+          path: z.string().min(1),
+          method: z.string().min(1),
+          description: z.string(),
+          require_authentication: z.boolean(),
+          pre_request_auth_template: z.string(),
+          post_response_policy_template: z.string(),
+          cache_rules: z.string(),
+        })
+      )
+      .optional(),
+  })
+  .strict()
+  .refine((payload) => payload.name || payload.subdomain, {
+    message: 'name or subdomain is required',
+  }) satisfies z.ZodType<CreateProxyPayload>;
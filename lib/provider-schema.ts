@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import type { CreateProviderRequest } from '@/types/auth-config';
+
+/** Body of the add / update provider routes (CreateProviderRequest). */
+export const providerRequestSchema = z.object({
+  type: z.enum(['google', 'github', 'microsoft', 'facebook', 'auth0', 'other']),
+  clientId: z.string().min(1, 'clientId is required'),
+  clientSecret: z.string().min(1, 'clientSecret is required'),
+  scopes: z.array(z.string().min(1)).min(1, 'scopes (non-empty array) is required'),
+  domain: z.string().optional(),
+  tokenType: z.enum(['apiblaze', 'thirdParty']).optional(),
+  targetServerToken: z.enum(['apiblaze', 'third_party_access_token', 'third_party_id_token', 'none']).optional(),
+  includeApiblazeAccessTokenHeader: z.boolean().optional(),
+  includeApiblazeIdTokenHeader: z.boolean().optional(),
+}) satisfies z.ZodType<CreateProviderRequest>;
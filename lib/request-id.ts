@@ -0,0 +1,20 @@
+/**
+ * X-Request-Id handling shared by middleware.ts (edge) and the server code that forwards the id
+ * upstream (lib/logger.ts). The middleware assigns every /api/* request an id, or keeps the
+ * caller's one when it looks sane, so a support ticket quoting it can be followed through the
+ * route, the admin API, policies-api and GitHub logs.
+ */
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{8,128}$/;
+
+export function newRequestId(): string {
+  return crypto.randomUUID();
+}
+
+/** The caller's X-Request-Id if it is safe to log and forward, otherwise a fresh one. */
+export function requestIdFrom(headers: Headers): string {
+  const incoming = headers.get(REQUEST_ID_HEADER)?.trim();
+  return incoming && VALID_REQUEST_ID.test(incoming) ? incoming : newRequestId();
+}
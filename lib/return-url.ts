@@ -0,0 +1,17 @@
+/** Return-URL handling for the login redirect; used by middleware.ts and the /auth pages. */
+
+export const LOGIN_PATH = '/auth/login';
+
+/** `/auth/login?returnUrl=…` for a page the user was sent away from. */
+export function loginUrlFor(pathname: string, search = ''): string {
+  return `${LOGIN_PATH}?returnUrl=${encodeURIComponent(pathname + search)}`;
+}
+
+/**
+ * A same-origin path to return to after login, or the fallback. Rejects absolute and
+ * protocol-relative URLs (`https://…`, `//…`, `/\…`) so returnUrl can't be used as an open redirect.
+ */
+export function safeReturnUrl(value: string | null | undefined, fallback = '/dashboard'): string {
+  if (!value || !value.startsWith('/') || value.startsWith('//') || value.startsWith('/\\')) return fallback;
+  return value;
+}
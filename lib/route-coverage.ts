@@ -0,0 +1,224 @@
+/**
+ * Authorization coverage of a project's routes: which routes the proxy would deny or leave
+ * open, and a starting-point policy for each derived from the route's path.
+ */
+
+import type { RouteEntry } from './api/route-configs';
+import { findType, modelTypes, typeRelations, type OpenFGAModel } from './openfga';
+import { routePathParams, serializeTupleTemplate, type PolicyTuple } from './policy-template';
+
+export type CoverageFindingKind =
+  | 'enforced_without_policy'
+  | 'mutation_without_authentication'
+  | 'unmapped_path_param';
+
+export interface CoverageFinding {
+  kind: CoverageFindingKind;
+  severity: 'high' | 'medium';
+  message: string;
+}
+
+export interface SuggestedPolicy {
+  /** Check runs before the request (pre_request_auth_template); write runs after it (post_response_policy_template) */
+  kind: 'check' | 'write';
+  tuple: PolicyTuple;
+  /** Whether the object type and relation exist in the model */
+  inModel: boolean;
+}
+
+export interface RouteCoverage {
+  method: string;
+  path: string;
+  hasPolicy: boolean;
+  authorizationEnabled: boolean;
+  requireAuthentication: boolean;
+  findings: CoverageFinding[];
+  /** Null when the route already has a policy or nothing can be derived from its path */
+  suggestion: SuggestedPolicy | null;
+}
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+// Relation names tried in order, per kind of access; the first one the model defines wins
+const RELATION_PREFERENCES: Record<'read' | 'update' | 'delete' | 'create', string[]> = {
+  read: ['can_view', 'can_read', 'viewer', 'reader', 'member', 'editor', 'owner'],
+  update: ['can_edit', 'can_update', 'can_write', 'editor', 'writer', 'owner'],
+  delete: ['can_delete', 'owner', 'editor'],
+  create: ['can_create', 'can_edit', 'editor', 'writer', 'owner', 'member'],
+};
+
+export function hasNoPolicy(route: RouteEntry): boolean {
+  return (
+    (route.pre_request_auth_template?.trim() ?? '') === '' &&
+    (route.post_response_policy_template?.trim() ?? '') === ''
+  );
+}
+
+function singularize(word: string): string {
+  if (/ies$/i.test(word)) return word.slice(0, -3) + 'y';
+  if (/(s|x|z|ch|sh)es$/i.test(word)) return word.slice(0, -2);
+  if (/s$/i.test(word) && !/ss$/i.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+function toTypeName(word: string): string {
+  return word.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/-/g, '_').toLowerCase();
+}
+
+/** Likely object types for a path param: `/orders/{id}` → order, `{order_id}` / `{orderId}` → order. */
+export function objectTypeCandidates(routePath: string, param: string): string[] {
+  const candidates: string[] = [];
+  const stripped = param.replace(/[-_]?id$/i, '');
+  if (stripped && stripped !== param) candidates.push(toTypeName(stripped));
+  const segments = routePath.split('/').filter(Boolean);
+  const index = segments.indexOf(`{${param}}`);
+  const previous = index > 0 ? segments[index - 1] : undefined;
+  if (previous && !previous.startsWith('{')) candidates.push(toTypeName(singularize(previous)));
+  if (!stripped || stripped === param) candidates.push(toTypeName(param));
+  return [...new Set(candidates)];
+}
+
+/** The model type a path param refers to, if any candidate is defined. */
+function matchParamType(model: OpenFGAModel | null, routePath: string, param: string): string | null {
+  return objectTypeCandidates(routePath, param).find((type) => !!findType(model, type)) ?? null;
+}
+
+function pickRelation(model: OpenFGAModel | null, type: string, access: keyof typeof RELATION_PREFERENCES) {
+  const defined = typeRelations(model, type);
+  const relation = RELATION_PREFERENCES[access].find((r) => defined.includes(r));
+  return relation ? { relation, inModel: true } : { relation: RELATION_PREFERENCES[access].find((r) => !r.startsWith('can_'))!, inModel: false };
+}
+
+/**
+ * Policy derived from the path: the innermost path param is the object being accessed
+ * (`GET /orders/{id}` → viewer of order:{id}); a POST to a collection checks the parent
+ * (`POST /projects/{id}/tasks` → editor of project:{id}), or, at the top level, records the
+ * caller as owner of the created object.
+ */
+export function suggestPolicy(route: Pick<RouteEntry, 'method' | 'path'>, model: OpenFGAModel | null): SuggestedPolicy | null {
+  const method = route.method.toUpperCase();
+  const user = 'user:{{JWT.sub}}';
+  const params = routePathParams(route.path);
+  const segments = route.path.split('/').filter(Boolean);
+  const endsWithParam = segments.length > 0 && segments[segments.length - 1].startsWith('{');
+  const target = params[params.length - 1];
+
+  if (target) {
+    const type = matchParamType(model, route.path, target) ?? objectTypeCandidates(route.path, target)[0];
+    const access = method === 'DELETE' ? 'delete'
+      : method === 'PUT' || method === 'PATCH' ? 'update'
+      : method === 'POST' ? (endsWithParam ? 'update' : 'create')
+      : 'read';
+    const { relation, inModel } = pickRelation(model, type, access);
+    return {
+      kind: 'check',
+      tuple: { user, relation, object: `${type}:{{PATH.${target}}}` },
+      inModel: inModel && !!findType(model, type),
+    };
+  }
+
+  // No params: only creating a top-level object has an obvious policy
+  const collection = segments[segments.length - 1];
+  if (method !== 'POST' || !collection) return null;
+  const type = toTypeName(singularize(collection));
+  const inModel = typeRelations(model, type).includes('owner');
+  return { kind: 'write', tuple: { user, relation: 'owner', object: `${type}:{{RESPONSE.id}}` }, inModel };
+}
+
+export function analyzeRouteCoverage(routes: RouteEntry[], model: OpenFGAModel | null, enforced: boolean): RouteCoverage[] {
+  const types = new Set(modelTypes(model));
+  return routes.map((route) => {
+    const method = route.method.toUpperCase();
+    const noPolicy = hasNoPolicy(route);
+    const findings: CoverageFinding[] = [];
+
+    if (route.authorization_enabled && noPolicy) {
+      findings.push({
+        kind: 'enforced_without_policy',
+        severity: enforced ? 'high' : 'medium',
+        message: enforced
+          ? 'Authorization is enabled but no policy is set; every request is denied'
+          : 'Authorization is enabled but no policy is set; requests will be denied once enforcement is on',
+      });
+    }
+    if (MUTATING_METHODS.has(method) && route.require_authentication === false) {
+      findings.push({
+        kind: 'mutation_without_authentication',
+        severity: 'high',
+        message: `${method} is allowed without authentication`,
+      });
+    }
+    // Without a model there is nothing to match params against
+    if (types.size > 0) {
+      for (const param of routePathParams(route.path)) {
+        if (!matchParamType(model, route.path, param)) {
+          findings.push({
+            kind: 'unmapped_path_param',
+            severity: 'medium',
+            message: `{${param}} has no matching type in the model (tried ${objectTypeCandidates(route.path, param).join(', ')})`,
+          });
+        }
+      }
+    }
+
+    return {
+      method,
+      path: route.path,
+      hasPolicy: !noPolicy,
+      authorizationEnabled: route.authorization_enabled,
+      requireAuthentication: route.require_authentication,
+      findings,
+      suggestion: noPolicy ? suggestPolicy(route, model) : null,
+    };
+  });
+}
+
+// ─── Export ──────────────────────────────────────────────────────────────────
+
+export function coverageReportToJson(
+  report: RouteCoverage[],
+  meta: { projectId: string; apiVersion: string; enforced: boolean }
+): string {
+  return JSON.stringify(
+    {
+      project_id: meta.projectId,
+      api_version: meta.apiVersion,
+      enforce_authorization: meta.enforced,
+      generated_at: new Date().toISOString(),
+      routes: report.map((r) => ({
+        method: r.method,
+        path: r.path,
+        has_policy: r.hasPolicy,
+        authorization_enabled: r.authorizationEnabled,
+        require_authentication: r.requireAuthentication,
+        findings: r.findings,
+        suggested_policy: r.suggestion
+          ? { kind: r.suggestion.kind, template: r.suggestion.tuple, in_model: r.suggestion.inModel }
+          : null,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** One row per finding (or one row for a route without findings). */
+export function coverageReportToCsv(report: RouteCoverage[]): string {
+  const header = [
+    'method', 'path', 'has_policy', 'authorization_enabled', 'require_authentication',
+    'finding', 'severity', 'message', 'suggested_policy_kind', 'suggested_policy',
+  ];
+  const rows = report.flatMap((r) => {
+    const base = [r.method, r.path, String(r.hasPolicy), String(r.authorizationEnabled), String(r.requireAuthentication)];
+    const suggestion = r.suggestion
+      ? [r.suggestion.kind, serializeTupleTemplate(r.suggestion.tuple).replace(/\s*\n\s*/g, ' ')]
+      : ['', ''];
+    const findings = r.findings.length > 0 ? r.findings : [null];
+    return findings.map((f) => [...base, f?.kind ?? '', f?.severity ?? '', f?.message ?? '', ...suggestion]);
+  });
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\n') + '\n';
+}
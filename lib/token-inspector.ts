@@ -0,0 +1,385 @@
+/**
+ * Token inspector: decodes a JWT issued for a tenant and explains whether the APIBlaze proxy
+ * would accept it. Runs in the browser (WebCrypto only), so pasted tokens never leave the page.
+ *
+ * Checks mirror the proxy's JWT authentication: RS256 signature against the app client's JWKS,
+ * iss/aud against the app client and the project's `requests_auth.jwt.allowed_pairs`, exp/nbf
+ * with a small clock skew.
+ */
+
+import type { AppClient } from '@/types/auth-config';
+import type { Project } from '@/types/project';
+
+export interface AllowedPair {
+  iss: string;
+  aud: string;
+}
+
+export type TokenCheckStatus = 'pass' | 'fail' | 'warn' | 'skip';
+
+export interface TokenCheck {
+  id: 'alg' | 'kid' | 'signature' | 'iss' | 'aud' | 'exp' | 'nbf' | 'type' | 'pair';
+  label: string;
+  status: TokenCheckStatus;
+  /** What was found and, for failures, the likely cause */
+  detail: string;
+}
+
+export interface DecodedToken {
+  header: Record<string, unknown>;
+  claims: Record<string, unknown>;
+  signingInput: string;
+  signature: Uint8Array;
+}
+
+export interface TokenInspection extends DecodedToken {
+  kind: 'access' | 'id' | 'unknown';
+  checks: TokenCheck[];
+  /** No check failed */
+  valid: boolean;
+}
+
+export class TokenDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenDecodeError';
+  }
+}
+
+/** Leeway the proxy allows on exp and nbf */
+export const CLOCK_SKEW_SECONDS = 60;
+
+const AUTH_ISSUER = (process.env.NEXT_PUBLIC_AUTH_ISSUER ?? 'https://auth.apiblaze.com')
+  .replace(/\/authorize\/?$/, '')
+  .replace(/\/$/, '');
+
+/** `iss` of tokens the APIBlaze auth worker issues for an app client */
+export function appClientIssuer(clientId: string): string {
+  return `${AUTH_ISSUER}/${clientId}`;
+}
+
+function base64UrlToBytes(segment: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(segment)) throw new TokenDecodeError('Token contains characters that are not base64url');
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function decodeJsonSegment(segment: string, part: string): Record<string, unknown> {
+  let value: unknown;
+  try {
+    value = JSON.parse(new TextDecoder().decode(base64UrlToBytes(segment)));
+  } catch (error) {
+    if (error instanceof TokenDecodeError) throw error;
+    throw new TokenDecodeError(`The ${part} is not base64url-encoded JSON`);
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new TokenDecodeError(`The ${part} is not a JSON object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/** Splits and decodes a compact JWS; does not verify anything. */
+export function decodeJwt(token: string): DecodedToken {
+  const trimmed = token.trim().replace(/^Bearer\s+/i, '');
+  const parts = trimmed.split('.');
+  if (parts.length === 5) throw new TokenDecodeError('This is an encrypted token (JWE); only signed tokens (JWS) can be inspected');
+  if (parts.length !== 3) {
+    throw new TokenDecodeError(`A JWT has 3 dot-separated parts, this has ${parts.length}. Opaque tokens cannot be decoded`);
+  }
+  return {
+    header: decodeJsonSegment(parts[0], 'header'),
+    claims: decodeJsonSegment(parts[1], 'payload'),
+    signingInput: `${parts[0]}.${parts[1]}`,
+    signature: base64UrlToBytes(parts[2]),
+  };
+}
+
+/**
+ * The iss/aud pairs a project's proxy accepts, as deployed. Projects saved before pairs were
+ * configurable trust the app client's default pairs (see buildRequestsAuth). `enforced` is false
+ * when the project passes requests through without authentication.
+ */
+export function projectAllowedPairs(project: Project): { pairs: AllowedPair[]; enforced: boolean } {
+  const config = project.config ?? {};
+  const requestsAuth = config.requests_auth as
+    | { mode?: string; methods?: string[]; jwt?: { allowed_pairs?: Partial<AllowedPair>[]; allowed_issuers?: string[]; allowed_audiences?: string[] } }
+    | undefined;
+  const enforced = requestsAuth?.mode === 'authenticate' && (requestsAuth.methods ?? ['jwt']).includes('jwt');
+  const jwt = requestsAuth?.jwt;
+  const configured = (jwt?.allowed_pairs ?? []).filter((p): p is AllowedPair => !!p?.iss && !!p?.aud);
+  if (configured.length > 0) return { pairs: configured, enforced };
+  if (jwt?.allowed_issuers?.length && jwt.allowed_audiences?.length) {
+    return {
+      pairs: jwt.allowed_issuers.flatMap((iss) => jwt.allowed_audiences!.map((aud) => ({ iss, aud }))),
+      enforced,
+    };
+  }
+  const appClientId = config.default_app_client_id as string | undefined;
+  if (!appClientId) return { pairs: [], enforced };
+  return {
+    pairs: [
+      { iss: appClientIssuer(appClientId), aud: `https://${project.project_id}-api.portal.apiblaze.com/${project.api_version}` },
+      { iss: appClientIssuer(appClientId), aud: appClientId },
+    ],
+    enforced,
+  };
+}
+
+function audiences(claims: Record<string, unknown>): string[] {
+  const aud = claims.aud;
+  if (typeof aud === 'string') return [aud];
+  return Array.isArray(aud) ? aud.filter((a): a is string => typeof a === 'string') : [];
+}
+
+function formatDuration(seconds: number): string {
+  const abs = Math.abs(Math.round(seconds));
+  if (abs < 120) return `${abs}s`;
+  if (abs < 7200) return `${Math.round(abs / 60)} min`;
+  if (abs < 172800) return `${Math.round(abs / 3600)} h`;
+  return `${Math.round(abs / 86400)} days`;
+}
+
+function tokenKind(header: Record<string, unknown>, claims: Record<string, unknown>): TokenInspection['kind'] {
+  const typ = typeof header.typ === 'string' ? header.typ.toLowerCase() : '';
+  if (typ === 'at+jwt' || typ === 'application/at+jwt' || typeof claims.scope === 'string' || Array.isArray(claims.scp)) {
+    return 'access';
+  }
+  if ('nonce' in claims || 'at_hash' in claims) return 'id';
+  return 'unknown';
+}
+
+async function verifySignature(
+  decoded: DecodedToken,
+  jwk: NonNullable<AppClient['jwks']>['keys'][number]
+): Promise<boolean> {
+  const key = await crypto.subtle.importKey(
+    'jwk',
+    { kty: jwk.kty, n: jwk.n, e: jwk.e, alg: 'RS256', ext: true },
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+  return crypto.subtle.verify(
+    'RSASSA-PKCS1-v1_5',
+    key,
+    new Uint8Array(decoded.signature),
+    new TextEncoder().encode(decoded.signingInput)
+  );
+}
+
+/**
+ * Decodes `token` and runs every check against `appClient` (and `project`, when given).
+ * Throws TokenDecodeError when the token cannot be decoded at all.
+ */
+export async function inspectToken(
+  token: string,
+  appClient: AppClient,
+  options: { project?: Project; now?: number } = {}
+): Promise<TokenInspection> {
+  const decoded = decodeJwt(token);
+  const { header, claims } = decoded;
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const checks: TokenCheck[] = [];
+  const kind = tokenKind(header, claims);
+  const expectedIssuer = appClientIssuer(appClient.clientId);
+  const keys = appClient.jwks?.keys ?? [];
+
+  // Algorithm and key
+  let jwk: (typeof keys)[number] | undefined;
+  if (header.alg !== 'RS256') {
+    checks.push({
+      id: 'alg',
+      label: 'Algorithm',
+      status: 'fail',
+      detail:
+        header.alg === 'none'
+          ? 'The token is unsigned (alg "none"); the proxy never accepts it.'
+          : `Signed with ${String(header.alg)}, but APIBlaze app clients sign with RS256. The token was issued by someone else.`,
+    });
+  } else {
+    checks.push({ id: 'alg', label: 'Algorithm', status: 'pass', detail: 'RS256' });
+    if (keys.length === 0) {
+      checks.push({
+        id: 'kid',
+        label: 'Signing key',
+        status: 'skip',
+        detail: 'This app client has no JWKS yet, so the signature cannot be checked.',
+      });
+    } else if (typeof header.kid === 'string') {
+      jwk = keys.find((k) => k.kid === header.kid);
+      checks.push(
+        jwk
+          ? { id: 'kid', label: 'Signing key', status: 'pass', detail: `kid ${header.kid} is in the app client's JWKS` }
+          : {
+              id: 'kid',
+              label: 'Signing key',
+              status: 'fail',
+              detail: `kid ${header.kid} is not in this app client's JWKS (${keys.map((k) => k.kid).join(', ')}). The token was issued for another app client, or with a key that has since been rotated out.`,
+            }
+      );
+    } else if (keys.length === 1) {
+      jwk = keys[0];
+      checks.push({
+        id: 'kid',
+        label: 'Signing key',
+        status: 'warn',
+        detail: `No kid in the header; trying the only key in the JWKS (${keys[0].kid}).`,
+      });
+    } else {
+      checks.push({
+        id: 'kid',
+        label: 'Signing key',
+        status: 'fail',
+        detail: 'No kid in the header and the JWKS has several keys, so the proxy cannot pick one.',
+      });
+    }
+  }
+
+  // Signature
+  if (!jwk) {
+    checks.push({ id: 'signature', label: 'Signature', status: 'skip', detail: 'Skipped: no usable signing key.' });
+  } else {
+    let valid = false;
+    let error: string | undefined;
+    try {
+      valid = await verifySignature(decoded, jwk);
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+    checks.push(
+      valid
+        ? { id: 'signature', label: 'Signature', status: 'pass', detail: `Verified with key ${jwk.kid}` }
+        : {
+            id: 'signature',
+            label: 'Signature',
+            status: 'fail',
+            detail: error
+              ? `The signing key could not be used: ${error}`
+              : 'The signature does not match. The token was modified (or truncated when copying), or signed by a different key with the same kid.',
+          }
+    );
+  }
+
+  // Issuer
+  if (typeof claims.iss !== 'string') {
+    checks.push({ id: 'iss', label: 'Issuer (iss)', status: 'fail', detail: 'The token has no iss claim.' });
+  } else if (claims.iss === expectedIssuer) {
+    checks.push({ id: 'iss', label: 'Issuer (iss)', status: 'pass', detail: claims.iss });
+  } else {
+    checks.push({
+      id: 'iss',
+      label: 'Issuer (iss)',
+      status: 'fail',
+      detail: claims.iss.startsWith(`${AUTH_ISSUER}/`)
+        ? `Issued for app client ${claims.iss.slice(AUTH_ISSUER.length + 1)}, not ${appClient.clientId} (expected ${expectedIssuer}).`
+        : `${claims.iss} is not this app client's issuer ${expectedIssuer}.`,
+    });
+  }
+
+  // Audience
+  const aud = audiences(claims);
+  const projectPairs = options.project ? projectAllowedPairs(options.project) : null;
+  const knownAudiences = new Set([appClient.clientId, ...(projectPairs?.pairs.map((p) => p.aud) ?? [])]);
+  if (aud.length === 0) {
+    checks.push({ id: 'aud', label: 'Audience (aud)', status: 'fail', detail: 'The token has no aud claim.' });
+  } else if (aud.some((a) => knownAudiences.has(a))) {
+    checks.push({ id: 'aud', label: 'Audience (aud)', status: 'pass', detail: aud.join(', ') });
+  } else {
+    checks.push({
+      id: 'aud',
+      label: 'Audience (aud)',
+      status: 'fail',
+      detail: `${aud.join(', ')} is neither this app client (${appClient.clientId})${projectPairs ? ' nor an audience the project trusts' : ''}. The token was requested for another client or API.`,
+    });
+  }
+
+  // Lifetime
+  const lifetime = kind === 'id' ? appClient.idTokenExpiry : appClient.accessTokenExpiry;
+  if (typeof claims.exp !== 'number') {
+    checks.push({ id: 'exp', label: 'Expiry (exp)', status: 'fail', detail: 'The token has no exp claim; the proxy rejects tokens that never expire.' });
+  } else if (claims.exp + CLOCK_SKEW_SECONDS < now) {
+    checks.push({
+      id: 'exp',
+      label: 'Expiry (exp)',
+      status: 'fail',
+      detail: `Expired ${formatDuration(now - claims.exp)} ago (${new Date(claims.exp * 1000).toLocaleString()}). Tokens of this app client live ${formatDuration(lifetime)}; use the refresh token to get a new one.`,
+    });
+  } else {
+    const issuedFor = typeof claims.iat === 'number' ? claims.exp - claims.iat : null;
+    checks.push({
+      id: 'exp',
+      label: 'Expiry (exp)',
+      status: issuedFor !== null && issuedFor > lifetime + CLOCK_SKEW_SECONDS ? 'warn' : 'pass',
+      detail:
+        `Expires in ${formatDuration(claims.exp - now)}` +
+        (issuedFor !== null && issuedFor > lifetime + CLOCK_SKEW_SECONDS
+          ? `; it was issued for ${formatDuration(issuedFor)}, longer than the configured ${formatDuration(lifetime)} (issued before the setting changed?)`
+          : ''),
+    });
+  }
+  const notBefore = typeof claims.nbf === 'number' ? claims.nbf : typeof claims.iat === 'number' ? claims.iat : null;
+  if (notBefore === null) {
+    checks.push({ id: 'nbf', label: 'Not before (nbf/iat)', status: 'skip', detail: 'No nbf or iat claim.' });
+  } else if (notBefore - CLOCK_SKEW_SECONDS > now) {
+    checks.push({
+      id: 'nbf',
+      label: 'Not before (nbf/iat)',
+      status: 'fail',
+      detail: `Not valid for another ${formatDuration(notBefore - now)}. The clock of the machine that issued it, or of this one, is off.`,
+    });
+  } else {
+    checks.push({ id: 'nbf', label: 'Not before (nbf/iat)', status: 'pass', detail: new Date(notBefore * 1000).toLocaleString() });
+  }
+
+  // Token type
+  if (kind === 'id') {
+    checks.push({
+      id: 'type',
+      label: 'Token type',
+      status: 'warn',
+      detail: 'This looks like an ID token (it has nonce/at_hash). ID tokens are for your app; send the access token to the API.',
+    });
+  } else {
+    checks.push({
+      id: 'type',
+      label: 'Token type',
+      status: kind === 'access' ? 'pass' : 'skip',
+      detail: kind === 'access' ? 'Access token' : 'Could not tell whether this is an access or an ID token.',
+    });
+  }
+
+  // Project's allowed pairs
+  if (!options.project || !projectPairs) {
+    checks.push({ id: 'pair', label: 'Project allowed pairs', status: 'skip', detail: 'Pick a project to check its iss/aud pairs.' });
+  } else if (!projectPairs.enforced) {
+    checks.push({
+      id: 'pair',
+      label: 'Project allowed pairs',
+      status: 'skip',
+      detail: `${options.project.project_id} does not require JWT authentication; the proxy passes requests through.`,
+    });
+  } else {
+    const iss = typeof claims.iss === 'string' ? claims.iss : '';
+    const match = projectPairs.pairs.find((p) => p.iss === iss && aud.includes(p.aud));
+    const sameIssuer = projectPairs.pairs.filter((p) => p.iss === iss);
+    const list = projectPairs.pairs.map((p) => `${p.iss} + ${p.aud}`).join('; ') || 'none';
+    checks.push(
+      match
+        ? { id: 'pair', label: 'Project allowed pairs', status: 'pass', detail: `Matches ${match.iss} + ${match.aud}` }
+        : {
+            id: 'pair',
+            label: 'Project allowed pairs',
+            status: 'fail',
+            detail:
+              sameIssuer.length > 0
+                ? `${options.project.project_id} trusts this issuer only with aud ${sameIssuer.map((p) => p.aud).join(' or ')}, not ${aud.join(', ') || '(none)'}.`
+                : `${options.project.project_id} does not trust issuer ${iss || '(none)'}. Allowed pairs: ${list}.`,
+          }
+    );
+  }
+
+  return { ...decoded, kind, checks, valid: checks.every((c) => c.status !== 'fail') };
+}
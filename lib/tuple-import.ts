@@ -0,0 +1,107 @@
+/**
+ * Parses relationship tuples pasted or uploaded for a bulk write.
+ *
+ * JSON: an array of { user, relation, object }, or OpenFGA's { tuple_keys: [...] } /
+ * { writes: { tuple_keys: [...] } } wrappers.
+ * CSV: one `user,relation,object` row per line; a header row with those names is optional
+ * and may reorder the columns. Fields may be double-quoted.
+ */
+
+import type { LineError, TupleKey } from './openfga-evaluator';
+
+export interface TupleImport {
+  format: 'json' | 'csv';
+  tuples: TupleKey[];
+  /** For JSON, `line` is the 1-based position in the array */
+  errors: LineError[];
+}
+
+const COLUMNS = ['user', 'relation', 'object'] as const;
+
+function splitCsvRow(row: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+function parseCsv(text: string): TupleImport {
+  const tuples: TupleKey[] = [];
+  const errors: LineError[] = [];
+  let order: number[] = [0, 1, 2];
+  let first = true;
+
+  text.split('\n').forEach((raw, i) => {
+    const row = raw.trim();
+    if (!row || row.startsWith('#')) return;
+    const fields = splitCsvRow(row);
+    if (first) {
+      first = false;
+      const header = fields.map((f) => f.toLowerCase());
+      if (COLUMNS.every((c) => header.includes(c))) {
+        order = COLUMNS.map((c) => header.indexOf(c));
+        return;
+      }
+    }
+    const [user, relation, object] = order.map((index) => fields[index] ?? '');
+    if (fields.length < 3 || !user || !relation || !object) {
+      errors.push({ line: i + 1, message: 'Expected user,relation,object' });
+      return;
+    }
+    tuples.push({ user, relation, object });
+  });
+  return { format: 'csv', tuples, errors };
+}
+
+function parseJson(text: string): TupleImport {
+  const errors: LineError[] = [];
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { format: 'json', tuples: [], errors: [{ line: 1, message: e instanceof Error ? e.message : 'Invalid JSON' }] };
+  }
+  const wrapper = data as { tuple_keys?: unknown; writes?: { tuple_keys?: unknown } } | null;
+  const items = Array.isArray(data) ? data : wrapper?.tuple_keys ?? wrapper?.writes?.tuple_keys;
+  if (!Array.isArray(items)) {
+    return { format: 'json', tuples: [], errors: [{ line: 1, message: 'Expected an array of tuples' }] };
+  }
+
+  const tuples: TupleKey[] = [];
+  items.forEach((item, i) => {
+    const t = item as Record<string, unknown> | null;
+    const [user, relation, object] = COLUMNS.map((c) => (typeof t?.[c] === 'string' ? (t[c] as string).trim() : ''));
+    if (!user || !relation || !object) {
+      errors.push({ line: i + 1, message: 'Expected { "user", "relation", "object" }' });
+      return;
+    }
+    tuples.push({ user, relation, object });
+  });
+  return { format: 'json', tuples, errors };
+}
+
+export function parseTupleImport(text: string): TupleImport {
+  const trimmed = text.trim();
+  return trimmed.startsWith('[') || trimmed.startsWith('{') ? parseJson(trimmed) : parseCsv(text);
+}
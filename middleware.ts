@@ -1,42 +1,50 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { isProtectedPage, isPublicApi, unauthorizedResponse } from '@/lib/auth-guard';
+import { REQUEST_ID_HEADER, requestIdFrom } from '@/lib/request-id';
+import { loginUrlFor } from '@/lib/return-url';
 
 /**
- * Middleware for route protection
- * Redirects unauthenticated users to login page
+ * Route protection, enforced before anything renders or any handler runs:
+ * - /dashboard and /debug redirect to /auth/login (keeping the requested URL as returnUrl)
+ * - /api/* answers 401 with the shared body, except NextAuth's own endpoints
+ *
+ * Only the presence of a valid NextAuth session token is checked here; handlers still resolve
+ * the user with getUserClaims and check ownership themselves.
+ *
+ * Every /api/* request also gets an X-Request-Id (the caller's, when valid): handlers read it
+ * from the request headers to log and forward it upstream, and it is echoed on the response.
  */
-export function middleware(request: NextRequest) {
-  const { pathname } = request.nextUrl;
-  
-  // Public routes that don't require authentication
-  const publicRoutes = ['/auth/login', '/auth/callback', '/'];
-  
-  // Check if the current path is public
-  const isPublicRoute = publicRoutes.some(route => pathname.startsWith(route));
-  
-  if (isPublicRoute) {
-    return NextResponse.next();
-  }
-  
-  // For protected routes, we'll let the client handle auth checks
-  // since we're using client-side auth state
-  // The pages themselves will redirect if needed
-  return NextResponse.next();
-}
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const isApi = pathname.startsWith('/api/');
+  const requestId = isApi ? requestIdFrom(request.headers) : undefined;
 
-export const config = {
-  matcher: [
-    /*
-     * Match all request paths except for the ones starting with:
-     * - api (API routes)
-     * - _next/static (static files)
-     * - _next/image (image optimization files)
-     * - favicon.ico (favicon file)
-     */
-    '/((?!api|_next/static|_next/image|favicon.ico).*)',
-  ],
-};
+  if (isApi ? isPublicApi(pathname) : !isProtectedPage(pathname)) {
+    return next(request, requestId);
+  }
 
+  const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET });
+  if (token) {
+    return next(request, requestId);
+  }
 
+  if (isApi) {
+    return unauthorizedResponse(requestId);
+  }
+  return NextResponse.redirect(new URL(loginUrlFor(pathname, search), request.url));
+}
 
+function next(request: NextRequest, requestId: string | undefined): NextResponse {
+  if (!requestId) return NextResponse.next();
+  const headers = new Headers(request.headers);
+  headers.set(REQUEST_ID_HEADER, requestId);
+  const response = NextResponse.next({ request: { headers } });
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  return response;
+}
 
+export const config = {
+  matcher: ['/dashboard/:path*', '/debug/:path*', '/api/:path*'],
+};
@@ -111,22 +111,14 @@ async function fetchBootstrapImpl(
       teamId ? api.getTeamTenants(teamId, true).catch(() => ({ tenants: [] })) : Promise.resolve({ tenants: [] }),
     ]);
     const allProjects = projectsRes.projects ?? [];
-    const tenantsList = Array.isArray((tenantsRes as { tenants?: unknown }).tenants)
-      ? (tenantsRes as { tenants: Array<{ tenant_name?: string; display_name?: string } | string> }).tenants
-      : [];
+    const tenantsList = tenantsRes.tenants;
     // Map tenants to AuthConfig-like shape so nav and other consumers see "tenants" as the list.
-    const authConfigs: AuthConfig[] = tenantsList.map((t) => {
-      if (typeof t === 'string') {
-        return { id: t, name: t, created_at: '', updated_at: '' };
-      }
-      const name = (t?.display_name ?? t?.tenant_name ?? '').trim() || (t?.tenant_name ?? '');
-      return {
-        id: t?.tenant_name ?? '',
-        name: name || (t?.tenant_name ?? ''),
-        created_at: '',
-        updated_at: '',
-      };
-    }).filter((c) => c.id);
+    const authConfigs: AuthConfig[] = tenantsList.map((t) => ({
+      id: t.tenant_name,
+      name: t.display_name,
+      created_at: '',
+      updated_at: '',
+    }));
 
     // 2. Preload app clients and providers for each tenant so Auth tab is instant when opened.
     let appClientsByConfig: Record<string, AppClient[]> = {};
@@ -134,9 +126,7 @@ async function fetchBootstrapImpl(
     const providersErrorByKey: Record<string, string> = {};
 
     if (teamId && tenantsList.length > 0) {
-      const tenantNames = tenantsList.map((t) =>
-        typeof t === 'string' ? t : (t?.tenant_name ?? '')
-      ).filter(Boolean);
+      const tenantNames = tenantsList.map((t) => t.tenant_name);
 
       const tenantResults = await Promise.all(
         tenantNames.map(async (tenantName): Promise<{ appClients: Record<string, AppClient[]>; providers: Record<string, SocialProvider[]> }> => {
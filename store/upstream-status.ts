@@ -0,0 +1,48 @@
+/**
+ * Upstream Status Store
+ * Whether the admin API is reachable, as reported by app/api problem responses. While the
+ * server-side circuit breaker is open (code `upstream_unavailable`) the dashboard shell shows a
+ * degraded-state banner; the next successful API call clears it.
+ */
+
+import { create } from 'zustand';
+import type { ProblemDetails } from '@/lib/problem';
+
+interface UpstreamStatusState {
+  /** When the server will let requests through again (epoch ms); null while healthy */
+  unavailableUntil: number | null;
+  detail: string | null;
+  requestId: string | null;
+
+  // Actions
+  markUnavailable: (until: number, detail: string | null, requestId: string | null) => void;
+  clear: () => void;
+}
+
+export const useUpstreamStatusStore = create<UpstreamStatusState>((set) => ({
+  unavailableUntil: null,
+  detail: null,
+  requestId: null,
+
+  markUnavailable: (until, detail, requestId) => set({ unavailableUntil: until, detail, requestId }),
+  clear: () => set({ unavailableUntil: null, detail: null, requestId: null }),
+}));
+
+/** Record a problem response from an app/api route; only `upstream_unavailable` changes the status. */
+export function reportProblem(problem: ProblemDetails, response: Response): void {
+  if (problem.code !== 'upstream_unavailable') return;
+  const seconds = Number(response.headers.get('retry-after'));
+  const retryAfterMs = Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 30_000;
+  useUpstreamStatusStore
+    .getState()
+    .markUnavailable(
+      Date.now() + retryAfterMs,
+      problem.detail ?? null,
+      problem.request_id ?? response.headers.get('x-request-id')
+    );
+}
+
+/** Record a successful app/api response. */
+export function reportUpstreamOk(): void {
+  if (useUpstreamStatusStore.getState().unavailableUntil !== null) useUpstreamStatusStore.getState().clear();
+}
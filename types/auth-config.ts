@@ -47,6 +47,34 @@ export interface AppClient {
   verified?: boolean;
   tenant?: string;
   branding?: AppClientBranding;
+  /** Group id → scopes this client adds to the access token of the group's members (a subset of `scopes`) */
+  groupScopes?: Record<string, string[]>;
+}
+
+/** Metadata of one app client secret; the value itself only comes from /secret or a rotation */
+export interface AppClientSecretInfo {
+  id: string;
+  /** 'previous' secrets were replaced by a rotation and keep working until expires_at */
+  status: 'current' | 'previous';
+  /** Last 4 characters, to tell secrets apart */
+  hint: string;
+  created_at: string;
+  /** null for the current secret */
+  expires_at: string | null;
+}
+
+export interface RotateAppClientSecretResult {
+  /** The new current secret */
+  clientSecret: string;
+  secrets: AppClientSecretInfo[];
+}
+
+/** What the auth worker answered during a test login (see lib/login-tester.ts) */
+export interface LoginTestExchangeResult {
+  /** Token endpoint response: tokens on success, `error` / `error_description` otherwise */
+  token: { status: number; body: Record<string, unknown> };
+  /** Userinfo response for the issued access token; null when no access token was issued */
+  userinfo: { status: number; body: Record<string, unknown> } | null;
 }
 
 export interface SocialProvider {
@@ -99,6 +127,7 @@ export interface UpdateAppClientRequest {
   scopes?: string[];
   verified?: boolean;
   branding?: AppClientBranding;
+  groupScopes?: Record<string, string[]>;
 }
 
 export interface CreateProviderRequest {
@@ -114,3 +143,76 @@ export interface CreateProviderRequest {
   includeApiblazeIdTokenHeader?: boolean;
 }
 
+
+/** A sign-in of an end user through one provider of one app client */
+export interface EndUserIdentity {
+  provider: string;
+  /** Subject at the provider, e.g. the GitHub user id */
+  provider_user_id: string;
+  app_client_id?: string;
+  email?: string | null;
+  linked_at: string;
+  last_login_at?: string | null;
+}
+
+/** A person who signs in to a tenant's APIs (not a dashboard user) */
+export interface EndUser {
+  id: string;
+  email: string | null;
+  name?: string | null;
+  picture?: string | null;
+  /** `invited` until the first sign-in; `disabled` users cannot sign in or refresh tokens */
+  status: 'active' | 'disabled' | 'invited';
+  identities: EndUserIdentity[];
+  last_login_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EndUserPage {
+  users: EndUser[];
+  /** Pass back as `cursor` for the next page; null on the last page */
+  next_cursor: string | null;
+  total?: number;
+}
+
+export interface ListEndUsersParams {
+  /** Matches email, name or user id */
+  q?: string;
+  /** Only users who signed in through this app client */
+  clientId?: string;
+  status?: EndUser['status'];
+  cursor?: string;
+  limit?: number;
+}
+
+export interface InviteEndUserRequest {
+  email: string;
+  /** App client whose login page the invitation links to */
+  clientId?: string;
+  name?: string;
+}
+
+/** Group of a tenant's end users; member tokens carry the group name in their `groups` claim */
+export interface Group {
+  id: string;
+  /** Letters, digits, `.`, `_` and `-`; this is what APIs see in the token */
+  name: string;
+  description?: string | null;
+  members_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateGroupRequest {
+  name: string;
+  description?: string;
+}
+
+/** Result of adding members by user id or email (bulk import) */
+export interface AddGroupMembersResult {
+  added: number;
+  already_members: number;
+  /** Ids or emails that match no user of the tenant */
+  not_found: string[];
+}
@@ -81,4 +81,57 @@ export interface ProjectStatusResponse {
   };
 }
 
+export interface DeploymentRecord {
+  deployment_id: string;
+  status: 'pending' | 'building' | 'live' | 'failed' | 'rolled_back';
+  created_at: string;
+  completed_at?: string;
+  duration_seconds?: number;
+  error?: string;
+  deployer: {
+    name?: string;
+    email?: string;
+    avatar_url?: string;
+    github_username?: string;
+  };
+  /** Project config as it was deployed; used to redeploy on rollback. */
+  config_snapshot?: Record<string, unknown>;
+  /** Set when this deployment was created by rolling back to another deployment. */
+  rolled_back_from?: string;
+}
+
+export interface DeploymentHistoryResponse {
+  project_id: string;
+  api_version: string;
+  /** Most recent first. */
+  deployments: DeploymentRecord[];
+}
+
+export interface RollbackDeploymentResponse {
+  success: boolean;
+  deployment: DeploymentRecord;
+}
+
+/** Pipeline steps reported by the deploy log stream, in execution order. */
+export type DeploymentStep = 'spec_fetch' | 'validation' | 'kv_write' | 'worker_publish';
 
+/** Payload of a `log` event on the deployment log stream. */
+export interface DeploymentLogLine {
+  timestamp: string;
+  step?: DeploymentStep;
+  level: 'info' | 'warn' | 'error';
+  message: string;
+}
+
+/** Payload of a `step` event: a pipeline step started, finished or failed. */
+export interface DeploymentStepEvent {
+  step: DeploymentStep;
+  state: 'started' | 'succeeded' | 'failed';
+  timestamp: string;
+}
+
+/** Payload of the final `done` event; the stream closes after it. */
+export interface DeploymentLogDoneEvent {
+  status: 'live' | 'failed' | 'rolled_back';
+  error?: string;
+}